@@ -54,13 +54,13 @@ describe("Create Session Page Authentication Flow", () => {
 
     expect(screen.getByText("Authentication Required")).toBeInTheDocument();
     expect(
-      screen.getByText("Please sign in with Google to create a Q&A session"),
+      screen.getByText("Please sign in to create a Q&A session"),
     ).toBeInTheDocument();
-    expect(screen.getByText("Sign in with Google")).toBeInTheDocument();
+    expect(screen.getByText("Sign In")).toBeInTheDocument();
   });
 
-  it("should auto-redirect unauthenticated users to Google sign-in", () => {
-    // Business rule: Automatically trigger Google OAuth when unauthenticated
+  it("should auto-redirect unauthenticated users to sign-in", () => {
+    // Business rule: Automatically open sign-in when unauthenticated
     mockUseSession.mockReturnValue({
       data: null,
       status: "unauthenticated",
@@ -68,7 +68,7 @@ describe("Create Session Page Authentication Flow", () => {
 
     render(<CreateSessionPage />);
 
-    expect(mockSignIn).toHaveBeenCalledWith("google");
+    expect(mockSignIn).toHaveBeenCalledWith();
   });
 
   it("should show create session form for authenticated users", () => {
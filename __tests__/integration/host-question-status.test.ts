@@ -297,6 +297,120 @@ describe("Question Status Update API Integration Tests", () => {
         where: { id: testQuestion.id },
       });
       expect(updatedQuestion?.status).toBe("answered");
+      expect(updatedQuestion?.answeredAt).toBeInstanceOf(Date);
+    });
+
+    it("should clear the answer time when a question is reopened", async () => {
+      mockedGetServerSession.mockResolvedValue({
+        user: { id: testUser.id, email: testUser.email },
+        expires: new Date(Date.now() + 1000).toISOString(),
+      });
+      await db.question.update({
+        where: { id: testQuestion.id },
+        data: { status: "answered", answeredAt: new Date() },
+      });
+
+      const req = new NextRequest(
+        `http://localhost:3000/api/questions/${testQuestion.id}`,
+        {
+          method: "PATCH",
+          body: JSON.stringify({ status: "approved" }),
+        },
+      );
+      const params = Promise.resolve({ id: testQuestion.id });
+
+      const response = await PATCH(req as any, { params });
+
+      expect(response.status).toBe(200);
+      const updatedQuestion = await db.question.findUnique({
+        where: { id: testQuestion.id },
+      });
+      expect(updatedQuestion?.answeredAt).toBeNull();
+    });
+
+    it("should approve a pending question", async () => {
+      mockedGetServerSession.mockResolvedValue({
+        user: { id: testUser.id, email: testUser.email },
+        expires: new Date(Date.now() + 1000).toISOString(),
+      });
+
+      const pendingQuestion = await db.question.create({
+        data: {
+          sessionId: testSession.id,
+          participantId: uuidv4(),
+          content: "Pending question",
+          status: "pending",
+        },
+      });
+
+      const req = new NextRequest(
+        `http://localhost:3000/api/questions/${pendingQuestion.id}`,
+        {
+          method: "PATCH",
+          body: JSON.stringify({ status: "approved" }),
+        },
+      );
+      const params = Promise.resolve({ id: pendingQuestion.id });
+
+      const response = await PATCH(req as any, { params });
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.question.status).toBe("approved");
+
+      const updatedQuestion = await db.question.findUnique({
+        where: { id: pendingQuestion.id },
+      });
+      expect(updatedQuestion?.status).toBe("approved");
+    });
+
+    it("should dismiss a question", async () => {
+      mockedGetServerSession.mockResolvedValue({
+        user: { id: testUser.id, email: testUser.email },
+        expires: new Date(Date.now() + 1000).toISOString(),
+      });
+
+      const req = new NextRequest(
+        `http://localhost:3000/api/questions/${testQuestion.id}`,
+        {
+          method: "PATCH",
+          body: JSON.stringify({ status: "dismissed" }),
+        },
+      );
+      const params = Promise.resolve({ id: testQuestion.id });
+
+      const response = await PATCH(req as any, { params });
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.question.status).toBe("dismissed");
+
+      const updatedQuestion = await db.question.findUnique({
+        where: { id: testQuestion.id },
+      });
+      expect(updatedQuestion?.status).toBe("dismissed");
+    });
+
+    it("should not allow moving a question back to pending", async () => {
+      mockedGetServerSession.mockResolvedValue({
+        user: { id: testUser.id, email: testUser.email },
+        expires: new Date(Date.now() + 1000).toISOString(),
+      });
+
+      const req = new NextRequest(
+        `http://localhost:3000/api/questions/${testQuestion.id}`,
+        {
+          method: "PATCH",
+          body: JSON.stringify({ status: "pending" }),
+        },
+      );
+      const params = Promise.resolve({ id: testQuestion.id });
+
+      const response = await PATCH(req as any, { params });
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.code).toBe("INVALID_STATUS");
     });
 
     it("should return all question fields after update", async () => {
@@ -371,4 +485,88 @@ describe("Question Status Update API Integration Tests", () => {
       expect(finalQuestion?.status).toBe("answered");
     });
   });
+
+  describe("Question Editing", () => {
+    const patch = (body: unknown) =>
+      PATCH(
+        new NextRequest(
+          `http://localhost:3000/api/questions/${testQuestion.id}`,
+          {
+            method: "PATCH",
+            body: JSON.stringify(body),
+          },
+        ) as any,
+        { params: Promise.resolve({ id: testQuestion.id }) },
+      );
+
+    beforeEach(() => {
+      mockedGetServerSession.mockResolvedValue({
+        user: { id: testUser.id, email: testUser.email },
+        expires: new Date(Date.now() + 1000).toISOString(),
+      });
+    });
+
+    it("should edit the text and keep the original", async () => {
+      const response = await patch({ content: "  Reworded question  " });
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.question.content).toBe("Reworded question");
+      expect(data.question.status).toBe("approved");
+      expect(data.question.editedByHost).toBe(true);
+      expect(data.question.originalContent).toBe("Test question");
+    });
+
+    it("should keep the first original across repeated edits", async () => {
+      await patch({ content: "First rewording" });
+      await patch({ content: "Second rewording" });
+
+      const question = await db.question.findUnique({
+        where: { id: testQuestion.id },
+      });
+      expect(question?.content).toBe("Second rewording");
+      expect(question?.originalContent).toBe("Test question");
+    });
+
+    it("should clear the marker when the original text is restored", async () => {
+      await patch({ content: "Reworded question" });
+      const response = await patch({ content: "Test question" });
+      const data = await response.json();
+
+      expect(data.question.editedByHost).toBeUndefined();
+      expect(data.question.originalContent).toBeUndefined();
+    });
+
+    it("should edit text and status together", async () => {
+      const response = await patch({
+        content: "Reworded question",
+        status: "being_answered",
+      });
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.question.content).toBe("Reworded question");
+      expect(data.question.status).toBe("being_answered");
+    });
+
+    it("should reject invalid text", async () => {
+      const response = await patch({ content: "no" });
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.code).toBe("VALIDATION_ERROR");
+      expect(data.errors[0].field).toBe("content");
+    });
+
+    it("should not let non-members edit questions", async () => {
+      mockedGetServerSession.mockResolvedValue({
+        user: { id: otherUser.id, email: otherUser.email },
+        expires: new Date(Date.now() + 1000).toISOString(),
+      });
+
+      const response = await patch({ content: "Reworded question" });
+
+      expect(response.status).toBe(403);
+    });
+  });
 });
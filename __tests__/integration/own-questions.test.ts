@@ -0,0 +1,253 @@
+/**
+ * Integration tests for participants editing and withdrawing their own questions
+ * PATCH/DELETE /api/questions/[id]/participant
+ * @jest-environment node
+ */
+
+// Mock NextAuth and auth before any imports
+jest.mock("next-auth", () => ({
+  getServerSession: jest.fn(),
+}));
+
+jest.mock("@/lib/auth", () => ({
+  authOptions: {},
+}));
+
+jest.mock("@/lib/logger", () => ({
+  logger: {
+    error: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+// Mock prisma to use test database
+jest.mock("@/lib/db", () => {
+  const { getTestDb } = require("../setup/test-db");
+  return {
+    prisma: getTestDb(),
+  };
+});
+
+import { PATCH, DELETE } from "@/app/api/questions/[id]/participant/route";
+import { NextRequest } from "next/server";
+import { getTestDb, resetTestDb, closeTestDb } from "../setup/test-db";
+import { participantHeaders } from "../setup/participant-token";
+import { OWN_QUESTION_EDIT_WINDOW_MS } from "@/types/question";
+import { v4 as uuidv4 } from "uuid";
+
+describe("Own Question API Integration Tests", () => {
+  const db = getTestDb();
+  let sessionId: string;
+  let participantId: string;
+
+  beforeEach(async () => {
+    await resetTestDb();
+
+    const host = await db.user.create({
+      data: {
+        id: uuidv4(),
+        email: "host@example.com",
+        name: "Test Host",
+      },
+    });
+
+    const session = await db.qaSession.create({
+      data: {
+        code: "OWNQ01",
+        title: "Own Questions Session",
+        hostId: host.id,
+        expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
+      },
+    });
+    sessionId = session.id;
+    participantId = uuidv4();
+  });
+
+  afterAll(async () => {
+    await closeTestDb();
+  });
+
+  const createQuestion = (
+    overrides: {
+      status?: "approved" | "being_answered";
+      createdAt?: Date;
+    } = {},
+  ) =>
+    db.question.create({
+      data: {
+        sessionId,
+        participantId,
+        content: "When does the office open?",
+        status: "approved",
+        ...overrides,
+      },
+    });
+
+  const send = (
+    handler: typeof PATCH | typeof DELETE,
+    method: "PATCH" | "DELETE",
+    questionId: string,
+    body: { participantId: string } & Record<string, unknown>,
+  ) =>
+    handler(
+      new NextRequest(
+        `http://localhost:3000/api/questions/${questionId}/participant`,
+        {
+          method,
+          body: JSON.stringify(body),
+          headers: participantHeaders("OWNQ01", body.participantId),
+        },
+      ) as any,
+      { params: Promise.resolve({ id: questionId }) },
+    );
+
+  describe("PATCH", () => {
+    it("should let participants edit their own question", async () => {
+      const question = await createQuestion();
+
+      const response = await send(PATCH, "PATCH", question.id, {
+        participantId,
+        content: "  When does the new office open?  ",
+      });
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.question.content).toBe("When does the new office open?");
+      expect(data.question.editedByHost).toBeUndefined();
+    });
+
+    it("should send edits back for review when the session requires approval", async () => {
+      await db.qaSession.update({
+        where: { id: sessionId },
+        data: { requireApproval: true },
+      });
+      const question = await createQuestion();
+
+      const response = await send(PATCH, "PATCH", question.id, {
+        participantId,
+        content: "Something the host never approved",
+      });
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.question.status).toBe("pending");
+      expect(data.message).toBe("Question updated and sent for review");
+
+      const events = await db.questionEvent.findMany({
+        where: { questionId: question.id },
+      });
+      expect(events).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({ type: "edited" }),
+          expect.objectContaining({
+            type: "status_changed",
+            fromStatus: "approved",
+            toStatus: "pending",
+          }),
+        ]),
+      );
+    });
+
+    it("should reject edits from other participants", async () => {
+      const question = await createQuestion();
+
+      const response = await send(PATCH, "PATCH", question.id, {
+        participantId: uuidv4(),
+        content: "Someone else's edit",
+      });
+
+      expect(response.status).toBe(403);
+    });
+
+    it("should reject edits after the grace window", async () => {
+      const question = await createQuestion({
+        createdAt: new Date(Date.now() - OWN_QUESTION_EDIT_WINDOW_MS - 1000),
+      });
+
+      const response = await send(PATCH, "PATCH", question.id, {
+        participantId,
+        content: "Too late to change this",
+      });
+      const data = await response.json();
+
+      expect(response.status).toBe(409);
+      expect(data.code).toBe("QUESTION_NOT_EDITABLE");
+    });
+
+    it("should reject edits once the question is being answered", async () => {
+      const question = await createQuestion({ status: "being_answered" });
+
+      const response = await send(PATCH, "PATCH", question.id, {
+        participantId,
+        content: "Changing it on stage",
+      });
+
+      expect(response.status).toBe(409);
+    });
+  });
+
+  describe("DELETE", () => {
+    it("should withdraw the question along with its votes", async () => {
+      const question = await createQuestion();
+      await db.vote.create({
+        data: { questionId: question.id, participantId: uuidv4() },
+      });
+
+      const response = await send(DELETE, "DELETE", question.id, {
+        participantId,
+      });
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data).toEqual({ questionId: question.id, withdrawn: true });
+      expect(
+        await db.questionEvent.findFirst({
+          where: { questionId: question.id, type: "deleted" },
+        }),
+      ).not.toBeNull();
+      expect(
+        await db.question.findUnique({ where: { id: question.id } }),
+      ).toBeNull();
+      expect(await db.vote.count({ where: { questionId: question.id } })).toBe(
+        0,
+      );
+    });
+
+    it("should allow withdrawing after the edit window", async () => {
+      const question = await createQuestion({
+        createdAt: new Date(Date.now() - OWN_QUESTION_EDIT_WINDOW_MS - 1000),
+      });
+
+      const response = await send(DELETE, "DELETE", question.id, {
+        participantId,
+      });
+
+      expect(response.status).toBe(200);
+    });
+
+    it("should reject withdrawing someone else's question", async () => {
+      const question = await createQuestion();
+
+      const response = await send(DELETE, "DELETE", question.id, {
+        participantId: uuidv4(),
+      });
+
+      expect(response.status).toBe(403);
+      expect(
+        await db.question.findUnique({ where: { id: question.id } }),
+      ).not.toBeNull();
+    });
+
+    it("should reject withdrawing a question being answered", async () => {
+      const question = await createQuestion({ status: "being_answered" });
+
+      const response = await send(DELETE, "DELETE", question.id, {
+        participantId,
+      });
+
+      expect(response.status).toBe(409);
+    });
+  });
+});
@@ -0,0 +1,283 @@
+/**
+ * Integration tests for participant sign-in
+ * POST /api/sessions/[code]/participant for signed-in participants, and
+ * merging anonymous activity into their account
+ * @jest-environment node
+ */
+
+// Mock NextAuth and auth before any imports
+jest.mock("next-auth", () => ({
+  getServerSession: jest.fn(),
+}));
+
+jest.mock("@/lib/auth", () => ({
+  authOptions: {},
+}));
+
+jest.mock("@/lib/logger", () => ({
+  logger: {
+    error: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+// Mock prisma to use test database
+jest.mock("@/lib/db", () => {
+  const { getTestDb } = require("../setup/test-db");
+  return {
+    prisma: getTestDb(),
+  };
+});
+
+import { POST as join } from "@/app/api/sessions/[code]/participant/route";
+import { POST as vote } from "@/app/api/questions/[id]/vote/route";
+import { getParticipantCookieName } from "@/lib/participant-token";
+import { NextRequest } from "next/server";
+import { getTestDb, resetTestDb, closeTestDb } from "../setup/test-db";
+import { participantHeaders } from "../setup/participant-token";
+import { v4 as uuidv4 } from "uuid";
+import { getServerSession } from "next-auth";
+
+const mockedGetServerSession = getServerSession as jest.MockedFunction<
+  typeof getServerSession
+>;
+
+const SESSION_CODE = "LINK01";
+
+describe("Participant Identity Integration Tests", () => {
+  const db = getTestDb();
+  let user: { id: string };
+  let sessionId: string;
+  let questionId: string;
+
+  beforeEach(async () => {
+    await resetTestDb();
+
+    const host = await db.user.create({
+      data: {
+        id: uuidv4(),
+        email: "host@example.com",
+        name: "Test Host",
+      },
+    });
+
+    user = await db.user.create({
+      data: {
+        id: uuidv4(),
+        email: "participant@example.com",
+        name: "Test Participant",
+      },
+    });
+
+    const session = await db.qaSession.create({
+      data: {
+        code: SESSION_CODE,
+        title: "Linking Session",
+        hostId: host.id,
+        expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
+      },
+    });
+    sessionId = session.id;
+
+    const question = await db.question.create({
+      data: {
+        sessionId,
+        participantId: uuidv4(),
+        content: "Is there a recording?",
+        status: "approved",
+      },
+    });
+    questionId = question.id;
+
+    mockedGetServerSession.mockResolvedValue(null);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  afterAll(async () => {
+    await closeTestDb();
+  });
+
+  const signIn = (userId: string) =>
+    mockedGetServerSession.mockResolvedValue({
+      user: { id: userId, email: "participant@example.com" },
+      expires: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+    });
+
+  const joinSession = (headers: Record<string, string> = {}) =>
+    join(
+      new NextRequest(
+        `http://localhost:3000/api/sessions/${SESSION_CODE}/participant`,
+        {
+          method: "POST",
+          headers: { "x-forwarded-for": uuidv4(), ...headers },
+        },
+      ) as any,
+      { params: Promise.resolve({ code: SESSION_CODE }) },
+    );
+
+  const castVote = async (participantId: string) => {
+    await db.vote.create({ data: { questionId, participantId } });
+    await db.question.update({
+      where: { id: questionId },
+      data: { voteCount: { increment: 1 } },
+    });
+  };
+
+  it("should link the browser's participant ID on first sign-in", async () => {
+    const browserId = uuidv4();
+    signIn(user.id);
+
+    const response = await joinSession(
+      participantHeaders(SESSION_CODE, browserId),
+    );
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data).toEqual({ participantId: browserId, isLinked: true });
+
+    const identity = await db.participantIdentity.findUnique({
+      where: { sessionId_userId: { sessionId, userId: user.id } },
+    });
+    expect(identity?.participantId).toBe(browserId);
+  });
+
+  it("should restore the account's participant ID on another device", async () => {
+    const laptopId = uuidv4();
+    const phoneId = uuidv4();
+    await db.participantIdentity.create({
+      data: { sessionId, userId: user.id, participantId: laptopId },
+    });
+    signIn(user.id);
+
+    const response = await joinSession(
+      participantHeaders(SESSION_CODE, phoneId),
+    );
+    const data = await response.json();
+
+    expect(data.participantId).toBe(laptopId);
+    const cookie = response.cookies.get(getParticipantCookieName(SESSION_CODE));
+    expect(cookie?.value.startsWith(`${laptopId}.`)).toBe(true);
+  });
+
+  it("should merge anonymous questions and votes into the account", async () => {
+    const laptopId = uuidv4();
+    const phoneId = uuidv4();
+    await db.participantIdentity.create({
+      data: { sessionId, userId: user.id, participantId: laptopId },
+    });
+
+    const phoneQuestion = await db.question.create({
+      data: {
+        sessionId,
+        participantId: phoneId,
+        content: "Asked from my phone",
+        status: "approved",
+      },
+    });
+    await castVote(phoneId);
+
+    signIn(user.id);
+    await joinSession(participantHeaders(SESSION_CODE, phoneId));
+
+    const question = await db.question.findUnique({
+      where: { id: phoneQuestion.id },
+    });
+    expect(question?.participantId).toBe(laptopId);
+
+    const votes = await db.vote.findMany({ where: { questionId } });
+    expect(votes.map((v) => v.participantId)).toEqual([laptopId]);
+  });
+
+  it("should drop an anonymous vote the account already cast", async () => {
+    const laptopId = uuidv4();
+    const phoneId = uuidv4();
+    await db.participantIdentity.create({
+      data: { sessionId, userId: user.id, participantId: laptopId },
+    });
+    await castVote(laptopId);
+    await castVote(phoneId);
+
+    signIn(user.id);
+    await joinSession(participantHeaders(SESSION_CODE, phoneId));
+
+    const votes = await db.vote.findMany({ where: { questionId } });
+    expect(votes.map((v) => v.participantId)).toEqual([laptopId]);
+
+    const question = await db.question.findUnique({
+      where: { id: questionId },
+    });
+    expect(question?.voteCount).toBe(1);
+  });
+
+  it("should not merge a browser ID linked to another account", async () => {
+    const otherUser = await db.user.create({
+      data: { id: uuidv4(), email: "other@example.com" },
+    });
+    const sharedId = uuidv4();
+    await db.participantIdentity.create({
+      data: { sessionId, userId: otherUser.id, participantId: sharedId },
+    });
+    await castVote(sharedId);
+
+    signIn(user.id);
+    const response = await joinSession(
+      participantHeaders(SESSION_CODE, sharedId),
+    );
+    const data = await response.json();
+
+    expect(data.participantId).not.toBe(sharedId);
+    const votes = await db.vote.findMany({ where: { questionId } });
+    expect(votes.map((v) => v.participantId)).toEqual([sharedId]);
+  });
+
+  it("should issue a new anonymous ID after signing out", async () => {
+    const linkedId = uuidv4();
+    await db.participantIdentity.create({
+      data: { sessionId, userId: user.id, participantId: linkedId },
+    });
+
+    const response = await joinSession(
+      participantHeaders(SESSION_CODE, linkedId),
+    );
+    const data = await response.json();
+
+    expect(response.status).toBe(201);
+    expect(data.participantId).not.toBe(linkedId);
+    expect(data.isLinked).toBe(false);
+  });
+
+  it("should only accept a linked ID while its account is signed in", async () => {
+    const linkedId = uuidv4();
+    await db.participantIdentity.create({
+      data: { sessionId, userId: user.id, participantId: linkedId },
+    });
+    const voteAs = () =>
+      vote(
+        new NextRequest(
+          `http://localhost:3000/api/questions/${questionId}/vote`,
+          {
+            method: "POST",
+            body: JSON.stringify({}),
+            headers: {
+              "Content-Type": "application/json",
+              ...participantHeaders(SESSION_CODE, linkedId),
+            },
+          },
+        ) as any,
+        { params: Promise.resolve({ id: questionId }) },
+      );
+
+    const signedOut = await voteAs();
+    const data = await signedOut.json();
+    expect(signedOut.status).toBe(401);
+    expect(data.code).toBe("INVALID_PARTICIPANT_TOKEN");
+
+    signIn(user.id);
+    expect((await voteAs()).status).toBe(201);
+  });
+});
@@ -0,0 +1,236 @@
+/**
+ * Integration tests for signed participant identity
+ * POST /api/sessions/[code]/participant and the participant routes that
+ * read its token
+ * @jest-environment node
+ */
+
+// Mock NextAuth and auth before any imports
+jest.mock("next-auth", () => ({
+  getServerSession: jest.fn(),
+}));
+
+jest.mock("@/lib/auth", () => ({
+  authOptions: {},
+}));
+
+jest.mock("@/lib/logger", () => ({
+  logger: {
+    error: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+// Mock prisma to use test database
+jest.mock("@/lib/db", () => {
+  const { getTestDb } = require("../setup/test-db");
+  return {
+    prisma: getTestDb(),
+  };
+});
+
+import { POST as join } from "@/app/api/sessions/[code]/participant/route";
+import { POST as submitQuestion } from "@/app/api/sessions/[code]/questions/route";
+import { POST as vote } from "@/app/api/questions/[id]/vote/route";
+import { getParticipantCookieName } from "@/lib/participant-token";
+import { getServerSession } from "next-auth";
+import { NextRequest } from "next/server";
+import { getTestDb, resetTestDb, closeTestDb } from "../setup/test-db";
+import { participantHeaders } from "../setup/participant-token";
+import { v4 as uuidv4 } from "uuid";
+
+const mockedGetServerSession = getServerSession as jest.MockedFunction<
+  typeof getServerSession
+>;
+
+const SESSION_CODE = "TOKEN1";
+
+describe("Participant Token Integration Tests", () => {
+  const db = getTestDb();
+  let questionId: string;
+
+  beforeEach(async () => {
+    await resetTestDb();
+    mockedGetServerSession.mockResolvedValue(null);
+
+    const host = await db.user.create({
+      data: {
+        id: uuidv4(),
+        email: "host@example.com",
+        name: "Test Host",
+      },
+    });
+
+    const session = await db.qaSession.create({
+      data: {
+        code: SESSION_CODE,
+        title: "Token Session",
+        hostId: host.id,
+        expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
+      },
+    });
+
+    const question = await db.question.create({
+      data: {
+        sessionId: session.id,
+        participantId: uuidv4(),
+        content: "Will the slides be shared?",
+        status: "approved",
+      },
+    });
+    questionId = question.id;
+  });
+
+  afterAll(async () => {
+    await closeTestDb();
+  });
+
+  const joinSession = (headers: Record<string, string> = {}) =>
+    join(
+      new NextRequest(
+        `http://localhost:3000/api/sessions/${SESSION_CODE}/participant`,
+        {
+          method: "POST",
+          // A fresh IP per join keeps the join rate limit out of the way
+          headers: { "x-forwarded-for": uuidv4(), ...headers },
+        },
+      ) as any,
+      { params: Promise.resolve({ code: SESSION_CODE }) },
+    );
+
+  const castVote = (body: unknown, headers: Record<string, string> = {}) =>
+    vote(
+      new NextRequest(
+        `http://localhost:3000/api/questions/${questionId}/vote`,
+        {
+          method: "POST",
+          body: JSON.stringify(body),
+          headers,
+        },
+      ) as any,
+      { params: Promise.resolve({ id: questionId }) },
+    );
+
+  describe("POST /api/sessions/[code]/participant", () => {
+    it("should issue a participant ID in an httpOnly cookie", async () => {
+      const response = await joinSession();
+      const data = await response.json();
+
+      expect(response.status).toBe(201);
+      expect(data.participantId).toMatch(/^[0-9a-f-]{36}$/);
+
+      const cookie = response.cookies.get(
+        getParticipantCookieName(SESSION_CODE),
+      );
+      expect(cookie?.value.startsWith(`${data.participantId}.`)).toBe(true);
+      expect(cookie?.httpOnly).toBe(true);
+    });
+
+    it("should return the same ID when the browser rejoins", async () => {
+      const participantId = uuidv4();
+
+      const response = await joinSession(
+        participantHeaders(SESSION_CODE, participantId),
+      );
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.participantId).toBe(participantId);
+    });
+
+    it("should issue a new ID for a forged token", async () => {
+      const participantId = uuidv4();
+
+      const response = await joinSession({
+        cookie: `${getParticipantCookieName(SESSION_CODE)}=${participantId}.forged`,
+      });
+      const data = await response.json();
+
+      expect(response.status).toBe(201);
+      expect(data.participantId).not.toBe(participantId);
+    });
+
+    it("should return 404 for unknown sessions", async () => {
+      const response = await join(
+        new NextRequest(
+          "http://localhost:3000/api/sessions/NOPE00/participant",
+          {
+            method: "POST",
+          },
+        ) as any,
+        { params: Promise.resolve({ code: "NOPE00" }) },
+      );
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe("participant routes", () => {
+    it("should count a vote against the participant in the token", async () => {
+      const participantId = uuidv4();
+
+      const response = await castVote(
+        {},
+        participantHeaders(SESSION_CODE, participantId),
+      );
+
+      expect(response.status).toBe(201);
+      const votes = await db.vote.findMany({ where: { questionId } });
+      expect(votes.map((v) => v.participantId)).toEqual([participantId]);
+    });
+
+    it("should reject votes with a made-up participant ID and no token", async () => {
+      const response = await castVote({ participantId: uuidv4() });
+      const data = await response.json();
+
+      expect(response.status).toBe(401);
+      expect(data.code).toBe("INVALID_PARTICIPANT_TOKEN");
+      expect(await db.vote.count()).toBe(0);
+    });
+
+    it("should reject a participant ID that doesn't match the token", async () => {
+      const response = await castVote(
+        { participantId: uuidv4() },
+        participantHeaders(SESSION_CODE, uuidv4()),
+      );
+      const data = await response.json();
+
+      expect(response.status).toBe(403);
+      expect(data.code).toBe("PARTICIPANT_MISMATCH");
+    });
+
+    it("should reject tokens issued for another session", async () => {
+      const response = await castVote(
+        {},
+        participantHeaders("OTHER1", uuidv4()),
+      );
+
+      expect(response.status).toBe(401);
+    });
+
+    it("should store submitted questions under the token's participant", async () => {
+      const participantId = uuidv4();
+
+      const response = await submitQuestion(
+        new NextRequest(
+          `http://localhost:3000/api/sessions/${SESSION_CODE}/questions`,
+          {
+            method: "POST",
+            body: JSON.stringify({
+              content: "What time does the office open?",
+              isAnonymous: true,
+            }),
+            headers: participantHeaders(SESSION_CODE, participantId),
+          },
+        ) as any,
+        { params: Promise.resolve({ code: SESSION_CODE }) },
+      );
+      const data = await response.json();
+
+      expect(response.status).toBe(201);
+      expect(data.question.participantId).toBe(participantId);
+    });
+  });
+});
@@ -0,0 +1,255 @@
+/**
+ * Integration tests for session polls
+ * POST /api/sessions/[code]/host/polls
+ * PATCH /api/polls/[id]
+ * POST /api/polls/[id]/responses
+ * GET /api/sessions/[code]/polls
+ * @jest-environment node
+ */
+
+// Mock NextAuth and auth before any imports
+jest.mock("next-auth", () => ({
+  getServerSession: jest.fn(),
+}));
+
+jest.mock("@/lib/auth", () => ({
+  authOptions: {},
+}));
+
+jest.mock("@/lib/logger", () => ({
+  logger: {
+    error: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+// Mock prisma to use test database
+jest.mock("@/lib/db", () => {
+  const { getTestDb } = require("../setup/test-db");
+  return {
+    prisma: getTestDb(),
+  };
+});
+
+import { POST as createPoll } from "@/app/api/sessions/[code]/host/polls/route";
+import { GET as getPolls } from "@/app/api/sessions/[code]/polls/route";
+import { PATCH as updatePoll } from "@/app/api/polls/[id]/route";
+import { POST as respond } from "@/app/api/polls/[id]/responses/route";
+import { NextRequest } from "next/server";
+import { getTestDb, resetTestDb, closeTestDb } from "../setup/test-db";
+import { participantHeaders } from "../setup/participant-token";
+import { v4 as uuidv4 } from "uuid";
+import { getServerSession } from "next-auth";
+
+const mockedGetServerSession = getServerSession as jest.MockedFunction<
+  typeof getServerSession
+>;
+
+const SESSION_CODE = "POLL01";
+
+describe("Poll API Integration Tests", () => {
+  const db = getTestDb();
+  let hostId: string;
+
+  beforeEach(async () => {
+    await resetTestDb();
+
+    const host = await db.user.create({
+      data: {
+        id: uuidv4(),
+        email: "host@example.com",
+        name: "Test Host",
+      },
+    });
+    hostId = host.id;
+
+    await db.qaSession.create({
+      data: {
+        code: SESSION_CODE,
+        title: "Poll Session",
+        hostId,
+        expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
+      },
+    });
+
+    mockedGetServerSession.mockResolvedValue({
+      user: { id: hostId, email: "host@example.com" },
+    } as any);
+  });
+
+  afterAll(async () => {
+    await closeTestDb();
+  });
+
+  const jsonRequest = (url: string, method: string, body?: unknown) =>
+    new NextRequest(`http://localhost:3000${url}`, {
+      method,
+      ...(body !== undefined && { body: JSON.stringify(body) }),
+    }) as any;
+
+  const create = (body: unknown) =>
+    createPoll(
+      jsonRequest(`/api/sessions/${SESSION_CODE}/host/polls`, "POST", body),
+      { params: Promise.resolve({ code: SESSION_CODE }) },
+    );
+
+  const answer = (
+    pollId: string,
+    body: { participantId: string } & Record<string, unknown>,
+  ) =>
+    respond(
+      new NextRequest(`http://localhost:3000/api/polls/${pollId}/responses`, {
+        method: "POST",
+        body: JSON.stringify(body),
+        headers: participantHeaders(SESSION_CODE, body.participantId),
+      }) as any,
+      { params: Promise.resolve({ id: pollId }) },
+    );
+
+  const list = (participantId?: string) =>
+    getPolls(
+      jsonRequest(
+        `/api/sessions/${SESSION_CODE}/polls${
+          participantId ? `?participantId=${participantId}` : ""
+        }`,
+        "GET",
+      ),
+      { params: Promise.resolve({ code: SESSION_CODE }) },
+    );
+
+  describe("POST /api/sessions/[code]/host/polls", () => {
+    it("should create a draft that participants can't see", async () => {
+      const response = await create({
+        question: "Which topic next?",
+        type: "multiple_choice",
+        options: ["Pricing", "Roadmap"],
+      });
+      const data = await response.json();
+
+      expect(response.status).toBe(201);
+      expect(data.poll.status).toBe("draft");
+      expect(data.poll.results.options.map((o: any) => o.label)).toEqual([
+        "Pricing",
+        "Roadmap",
+      ]);
+
+      const listed = await (await list()).json();
+      expect(listed.polls).toHaveLength(0);
+    });
+
+    it("should reject users without a role in the session", async () => {
+      mockedGetServerSession.mockResolvedValue({
+        user: { id: uuidv4(), email: "stranger@example.com" },
+      } as any);
+
+      const response = await create({
+        question: "How was it?",
+        type: "rating",
+      });
+
+      expect(response.status).toBe(403);
+    });
+
+    it("should reject invalid polls", async () => {
+      const response = await create({
+        question: "Pick one",
+        type: "multiple_choice",
+        options: ["Only one"],
+      });
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe("POST /api/polls/[id]/responses", () => {
+    it("should record one response per participant", async () => {
+      const { poll } = await (
+        await create({
+          question: "Which topic next?",
+          type: "multiple_choice",
+          options: ["Pricing", "Roadmap"],
+          open: true,
+        })
+      ).json();
+      const participantId = uuidv4();
+      const optionId = poll.results.options[1].id;
+
+      const first = await answer(poll.id, {
+        participantId,
+        optionIds: [optionId],
+      });
+      const data = await first.json();
+
+      expect(first.status).toBe(201);
+      expect(data.results.totalResponses).toBe(1);
+      expect(data.results.options[1].count).toBe(1);
+
+      const second = await answer(poll.id, {
+        participantId,
+        optionIds: [optionId],
+      });
+      expect(second.status).toBe(409);
+
+      const listed = await (await list(participantId)).json();
+      expect(listed.polls[0].hasResponded).toBe(true);
+    });
+
+    it("should record ratings", async () => {
+      const { poll } = await (
+        await create({ question: "How was it?", type: "rating", open: true })
+      ).json();
+
+      const response = await answer(poll.id, {
+        participantId: uuidv4(),
+        rating: 4,
+      });
+      const data = await response.json();
+
+      expect(response.status).toBe(201);
+      expect(data.results.averageRating).toBe(4);
+    });
+
+    it("should reject responses to drafts and closed polls", async () => {
+      const { poll } = await (
+        await create({ question: "How was it?", type: "rating" })
+      ).json();
+
+      const toDraft = await answer(poll.id, {
+        participantId: uuidv4(),
+        rating: 3,
+      });
+      expect(toDraft.status).toBe(404);
+
+      for (const status of ["open", "closed"]) {
+        const updated = await updatePoll(
+          jsonRequest(`/api/polls/${poll.id}`, "PATCH", { status }),
+          { params: Promise.resolve({ id: poll.id }) },
+        );
+        expect(updated.status).toBe(200);
+      }
+
+      const toClosed = await answer(poll.id, {
+        participantId: uuidv4(),
+        rating: 3,
+      });
+      expect(toClosed.status).toBe(409);
+    });
+  });
+
+  describe("PATCH /api/polls/[id]", () => {
+    it("should not close a draft", async () => {
+      const { poll } = await (
+        await create({ question: "How was it?", type: "rating" })
+      ).json();
+
+      const response = await updatePoll(
+        jsonRequest(`/api/polls/${poll.id}`, "PATCH", { status: "closed" }),
+        { params: Promise.resolve({ id: poll.id }) },
+      );
+
+      expect(response.status).toBe(409);
+    });
+  });
+});
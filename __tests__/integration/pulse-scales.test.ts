@@ -0,0 +1,292 @@
+/**
+ * Integration tests for custom pulse scales, comments and the session summary
+ * POST /api/questions/[id]/pulse
+ * PUT /api/sessions/[code]/pulse-scale
+ * GET /api/sessions/[code]/host/pulse
+ * @jest-environment node
+ */
+
+// Mock NextAuth and auth before any imports
+jest.mock("next-auth", () => ({
+  getServerSession: jest.fn(),
+}));
+
+jest.mock("@/lib/auth", () => ({
+  authOptions: {},
+}));
+
+jest.mock("@/lib/logger", () => ({
+  logger: {
+    error: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+// Mock prisma to use test database
+jest.mock("@/lib/db", () => {
+  const { getTestDb } = require("../setup/test-db");
+  return {
+    prisma: getTestDb(),
+  };
+});
+
+import { POST as submitPulse } from "@/app/api/questions/[id]/pulse/route";
+import {
+  GET as getPulseScale,
+  PUT as updatePulseScale,
+} from "@/app/api/sessions/[code]/pulse-scale/route";
+import { GET as getPulseSummary } from "@/app/api/sessions/[code]/host/pulse/route";
+import { GET as getParticipantQuestions } from "@/app/api/sessions/[code]/questions/route";
+import { NextRequest } from "next/server";
+import { getTestDb, resetTestDb, closeTestDb } from "../setup/test-db";
+import { participantHeaders } from "../setup/participant-token";
+import { v4 as uuidv4 } from "uuid";
+import { getServerSession } from "next-auth";
+
+const mockedGetServerSession = getServerSession as jest.MockedFunction<
+  typeof getServerSession
+>;
+
+const SESSION_CODE = "PULSE1";
+
+const CLARITY_SCALE = {
+  points: [
+    { label: "Still confused" },
+    { label: "Mostly clear" },
+    { label: "Crystal clear" },
+    { label: "Could teach it" },
+  ],
+};
+
+describe("Pulse Scale API Integration Tests", () => {
+  const db = getTestDb();
+  let sessionId: string;
+
+  beforeEach(async () => {
+    await resetTestDb();
+
+    const host = await db.user.create({
+      data: {
+        id: uuidv4(),
+        email: "host@example.com",
+        name: "Test Host",
+      },
+    });
+
+    const qaSession = await db.qaSession.create({
+      data: {
+        code: SESSION_CODE,
+        title: "Pulse Session",
+        hostId: host.id,
+        expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
+      },
+    });
+    sessionId = qaSession.id;
+
+    mockedGetServerSession.mockResolvedValue({
+      user: { id: host.id, email: "host@example.com" },
+    } as any);
+  });
+
+  afterAll(async () => {
+    await closeTestDb();
+  });
+
+  const jsonRequest = (url: string, method: string, body?: unknown) =>
+    new NextRequest(`http://localhost:3000${url}`, {
+      method,
+      ...(body !== undefined && { body: JSON.stringify(body) }),
+    }) as any;
+
+  const sessionParams = { params: Promise.resolve({ code: SESSION_CODE }) };
+
+  const createAnswered = (content: string) =>
+    db.question.create({
+      data: {
+        sessionId,
+        participantId: uuidv4(),
+        content,
+        status: "answered",
+      },
+    });
+
+  const pulse = (questionId: string, body: Record<string, unknown>) => {
+    const participantId = uuidv4();
+    return submitPulse(
+      new NextRequest(
+        `http://localhost:3000/api/questions/${questionId}/pulse`,
+        {
+          method: "POST",
+          body: JSON.stringify({ participantId, ...body }),
+          headers: participantHeaders(SESSION_CODE, participantId),
+        },
+      ) as any,
+      { params: Promise.resolve({ id: questionId }) },
+    );
+  };
+
+  const setScale = (pulseScale: unknown) =>
+    updatePulseScale(
+      jsonRequest(`/api/sessions/${SESSION_CODE}/pulse-scale`, "PUT", {
+        pulseScale,
+      }),
+      sessionParams,
+    );
+
+  describe("PUT /api/sessions/[code]/pulse-scale", () => {
+    it("should save a custom scale", async () => {
+      const response = await setScale(CLARITY_SCALE);
+
+      expect(response.status).toBe(200);
+      expect((await response.json()).pulseScale).toEqual(CLARITY_SCALE);
+
+      const saved = await getPulseScale(
+        jsonRequest(`/api/sessions/${SESSION_CODE}/pulse-scale`, "GET"),
+        sessionParams,
+      );
+      expect(await saved.json()).toEqual({
+        pulseScale: CLARITY_SCALE,
+        isLocked: false,
+      });
+    });
+
+    it("should reject an invalid scale", async () => {
+      const response = await setScale({ points: [{ label: "Only one" }] });
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.code).toBe("VALIDATION_ERROR");
+    });
+
+    it("should lock the scale once feedback exists", async () => {
+      const question = await createAnswered("How do refunds work?");
+      await pulse(question.id, { feedback: "helpful" });
+
+      const response = await setScale(CLARITY_SCALE);
+      const data = await response.json();
+
+      expect(response.status).toBe(409);
+      expect(data.code).toBe("PULSE_SCALE_LOCKED");
+    });
+
+    it("should reject users without a role in the session", async () => {
+      mockedGetServerSession.mockResolvedValue({
+        user: { id: uuidv4(), email: "stranger@example.com" },
+      } as any);
+
+      const response = await setScale(CLARITY_SCALE);
+
+      expect(response.status).toBe(403);
+    });
+  });
+
+  describe("POST /api/questions/[id]/pulse", () => {
+    it("should store a score and comment on a custom scale", async () => {
+      await setScale(CLARITY_SCALE);
+      const question = await createAnswered("What is a closure?");
+
+      const response = await pulse(question.id, {
+        score: 4,
+        comment: "  Great example  ",
+      });
+      const data = await response.json();
+
+      expect(response.status).toBe(201);
+      expect(data).toMatchObject({ score: 4, feedback: null });
+
+      const stored = await db.pulseCheckFeedback.findFirst({
+        where: { questionId: question.id },
+      });
+      expect(stored).toMatchObject({
+        score: 4,
+        feedback: null,
+        comment: "Great example",
+      });
+    });
+
+    it("should keep the feedback type on the default scale", async () => {
+      const question = await createAnswered("What is a closure?");
+
+      const response = await pulse(question.id, { score: 3 });
+
+      expect(response.status).toBe(201);
+      expect((await response.json()).feedback).toBe("helpful");
+    });
+
+    it("should reject scores outside the scale", async () => {
+      const question = await createAnswered("What is a closure?");
+
+      const response = await pulse(question.id, { score: 4 });
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.code).toBe("INVALID_FEEDBACK");
+    });
+
+    it("should require a score on custom scales", async () => {
+      await setScale(CLARITY_SCALE);
+      const question = await createAnswered("What is a closure?");
+
+      const response = await pulse(question.id, { feedback: "helpful" });
+
+      expect(response.status).toBe(400);
+    });
+
+    it("should reject long comments", async () => {
+      const question = await createAnswered("What is a closure?");
+
+      const response = await pulse(question.id, {
+        score: 2,
+        comment: "x".repeat(281),
+      });
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe("GET /api/sessions/[code]/host/pulse", () => {
+    it("should rank answers by helpfulness with comments", async () => {
+      const weak = await createAnswered("Weak answer");
+      const strong = await createAnswered("Strong answer");
+      await createAnswered("Unrated answer");
+
+      await pulse(weak.id, { score: 1, comment: "Still lost" });
+      await pulse(weak.id, { score: 2 });
+      await pulse(strong.id, { score: 3 });
+
+      const response = await getPulseSummary(
+        jsonRequest(`/api/sessions/${SESSION_CODE}/host/pulse`, "GET"),
+        sessionParams,
+      );
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.overall.responses).toBe(3);
+      expect(data.unratedCount).toBe(1);
+      expect(data.questions.map((q: any) => q.content)).toEqual([
+        "Strong answer",
+        "Weak answer",
+      ]);
+      expect(data.questions[0].summary.helpfulness).toBe(100);
+      expect(data.questions[1].comments).toEqual([
+        expect.objectContaining({ score: 1, comment: "Still lost" }),
+      ]);
+    });
+
+    it("should not expose comments to participants", async () => {
+      const question = await createAnswered("What is a closure?");
+      await pulse(question.id, { score: 3, comment: "Host-only note" });
+
+      const response = await getParticipantQuestions(
+        jsonRequest(`/api/sessions/${SESSION_CODE}/questions`, "GET"),
+        sessionParams,
+      );
+      const data = await response.json();
+
+      expect(data.questions[0].pulseSummary.responses).toBe(1);
+      expect(data.questions[0].pulseComments).toBeUndefined();
+    });
+  });
+});
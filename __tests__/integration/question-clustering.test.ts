@@ -0,0 +1,160 @@
+/**
+ * Integration tests for the question clustering job
+ * @jest-environment node
+ */
+
+jest.mock("@/lib/logger", () => ({
+  logger: {
+    error: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+// Mock prisma to use test database
+jest.mock("@/lib/db", () => {
+  const { getTestDb } = require("../setup/test-db");
+  return {
+    prisma: getTestDb(),
+  };
+});
+
+import { runClusteringJob } from "@/lib/clustering-job";
+import { LocalQuestionSummariser } from "@/lib/question-clustering";
+import { getTestDb, resetTestDb, closeTestDb } from "../setup/test-db";
+import { v4 as uuidv4 } from "uuid";
+
+describe("Question Clustering Job Integration Tests", () => {
+  const db = getTestDb();
+  const summariser = new LocalQuestionSummariser();
+  let testSession: { id: string; code: string };
+
+  beforeEach(async () => {
+    await resetTestDb();
+
+    const host = await db.user.create({
+      data: {
+        id: uuidv4(),
+        email: "host@example.com",
+        name: "Test Host",
+      },
+    });
+
+    testSession = await db.qaSession.create({
+      data: {
+        code: "CLUS01",
+        title: "Clustering Session",
+        hostId: host.id,
+        expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
+      },
+    });
+  });
+
+  afterAll(async () => {
+    await closeTestDb();
+  });
+
+  const createQuestion = (
+    content: string,
+    status = "approved",
+    voteCount = 0,
+  ) =>
+    db.question.create({
+      data: {
+        sessionId: testSession.id,
+        participantId: uuidv4(),
+        content,
+        status: status as "approved" | "pending" | "dismissed",
+        voteCount,
+      },
+    });
+
+  it("should create clusters and link questions to them", async () => {
+    const q1 = await createQuestion(
+      "When is the next product release?",
+      "approved",
+      3,
+    );
+    const q2 = await createQuestion(
+      "Is there a date for the next release?",
+      "approved",
+      2,
+    );
+    const q3 = await createQuestion("How do I request parental leave?");
+
+    const result = await runClusteringJob(testSession, { summariser });
+
+    expect(result).toEqual({ clusterCount: 2, questionCount: 3 });
+
+    const clusters = await db.cluster.findMany({
+      where: { sessionId: testSession.id },
+      include: { questions: { select: { id: true } } },
+    });
+    expect(clusters).toHaveLength(2);
+    expect(clusters.every((c) => c.summariser === "local")).toBe(true);
+
+    const releaseCluster = clusters.find((c) =>
+      c.questions.some((q) => q.id === q1.id),
+    );
+    expect(releaseCluster?.questions.map((q) => q.id).sort()).toEqual(
+      [q1.id, q2.id].sort(),
+    );
+
+    const leave = await db.question.findUnique({ where: { id: q3.id } });
+    expect(leave?.clusterId).not.toBeNull();
+    expect(leave?.clusterId).not.toBe(releaseCluster?.id);
+  });
+
+  it("should skip pending and dismissed questions", async () => {
+    await createQuestion("Visible question about the roadmap");
+    const pending = await createQuestion("Pending question", "pending");
+    const dismissed = await createQuestion("Dismissed question", "dismissed");
+
+    const result = await runClusteringJob(testSession, { summariser });
+
+    expect(result?.questionCount).toBe(1);
+
+    const hidden = await db.question.findMany({
+      where: { id: { in: [pending.id, dismissed.id] } },
+    });
+    expect(hidden.every((q) => q.clusterId === null)).toBe(true);
+  });
+
+  it("should replace clusters from a previous run", async () => {
+    await createQuestion("When is the next product release?");
+    await runClusteringJob(testSession, { summariser });
+    const firstRun = await db.cluster.findMany({
+      where: { sessionId: testSession.id },
+    });
+
+    await createQuestion("How do I request parental leave?");
+    await runClusteringJob(testSession, { summariser });
+    const secondRun = await db.cluster.findMany({
+      where: { sessionId: testSession.id },
+    });
+
+    expect(secondRun).toHaveLength(2);
+    expect(secondRun.map((c) => c.id)).not.toContain(firstRun[0].id);
+  });
+
+  it("should ignore question IDs the summariser made up", async () => {
+    const question = await createQuestion("Real question");
+
+    const result = await runClusteringJob(testSession, {
+      summariser: {
+        name: "faulty",
+        cluster: async () => [
+          { headline: "Made up", questionIds: ["not-a-question"] },
+          { headline: "Real", questionIds: [question.id, question.id] },
+        ],
+      },
+    });
+
+    expect(result?.clusterCount).toBe(1);
+    const clusters = await db.cluster.findMany({
+      where: { sessionId: testSession.id },
+    });
+    expect(clusters.map((c) => c.headline)).toEqual(["Real"]);
+  });
+});
@@ -0,0 +1,271 @@
+/**
+ * Integration tests for question history
+ * GET /api/questions/[id]/events and the changes that record events
+ * @jest-environment node
+ */
+
+// Mock NextAuth and auth before any imports
+jest.mock("next-auth", () => ({
+  getServerSession: jest.fn(),
+}));
+
+jest.mock("@/lib/auth", () => ({
+  authOptions: {},
+}));
+
+jest.mock("@/lib/logger", () => ({
+  logger: {
+    error: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+// Mock prisma to use test database
+jest.mock("@/lib/db", () => {
+  const { getTestDb } = require("../setup/test-db");
+  return {
+    prisma: getTestDb(),
+  };
+});
+
+import { GET } from "@/app/api/questions/[id]/events/route";
+import { PATCH } from "@/app/api/questions/[id]/route";
+import { DELETE as WITHDRAW } from "@/app/api/questions/[id]/participant/route";
+import { mergeQuestions } from "@/lib/question-merge";
+import { splitQuestion } from "@/lib/question-edits";
+import { NextRequest } from "next/server";
+import { getTestDb, resetTestDb, closeTestDb } from "../setup/test-db";
+import { participantHeaders } from "../setup/participant-token";
+import { v4 as uuidv4 } from "uuid";
+import { getServerSession } from "next-auth";
+
+const mockedGetServerSession = getServerSession as jest.MockedFunction<
+  typeof getServerSession
+>;
+
+describe("Question History Integration Tests", () => {
+  const db = getTestDb();
+  let host: { id: string; name: string | null };
+  let sessionId: string;
+  let participantId: string;
+
+  beforeEach(async () => {
+    await resetTestDb();
+
+    host = await db.user.create({
+      data: {
+        id: uuidv4(),
+        email: "host@example.com",
+        name: "Test Host",
+      },
+    });
+
+    const session = await db.qaSession.create({
+      data: {
+        code: "HIST01",
+        title: "History Session",
+        hostId: host.id,
+        expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
+      },
+    });
+    sessionId = session.id;
+    participantId = uuidv4();
+
+    mockedGetServerSession.mockResolvedValue({
+      user: { id: host.id, email: "host@example.com", name: "Test Host" },
+      expires: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+    });
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  afterAll(async () => {
+    await closeTestDb();
+  });
+
+  const createQuestion = (content = "When does the office open?") =>
+    db.question.create({
+      data: {
+        sessionId,
+        participantId,
+        content,
+        status: "approved",
+      },
+    });
+
+  const jsonRequest = (url: string, method: string, body?: unknown) =>
+    new NextRequest(url, {
+      method,
+      ...(body !== undefined && { body: JSON.stringify(body) }),
+    }) as any;
+
+  const getEvents = async (questionId: string) => {
+    const response = await GET(
+      jsonRequest(
+        `http://localhost:3000/api/questions/${questionId}/events`,
+        "GET",
+      ),
+      { params: Promise.resolve({ id: questionId }) },
+    );
+    return { response, data: await response.json() };
+  };
+
+  const patchQuestion = (questionId: string, body: unknown) =>
+    PATCH(
+      jsonRequest(
+        `http://localhost:3000/api/questions/${questionId}`,
+        "PATCH",
+        body,
+      ),
+      { params: Promise.resolve({ id: questionId }) },
+    );
+
+  it("should record status changes with the host who made them", async () => {
+    const question = await createQuestion();
+
+    await patchQuestion(question.id, { status: "being_answered" });
+    await patchQuestion(question.id, { status: "answered" });
+
+    const { response, data } = await getEvents(question.id);
+
+    expect(response.status).toBe(200);
+    expect(data.events).toHaveLength(2);
+    expect(data.events[0]).toMatchObject({
+      type: "status_changed",
+      actorType: "host",
+      actorName: "Test Host",
+      fromStatus: "approved",
+      toStatus: "being_answered",
+    });
+    expect(data.events[1]).toMatchObject({
+      fromStatus: "being_answered",
+      toStatus: "answered",
+    });
+    expect(data.events[0].actorUserId).toBeUndefined();
+  });
+
+  it("should not record a status change when the status is unchanged", async () => {
+    const question = await createQuestion();
+
+    await patchQuestion(question.id, { status: "approved" });
+
+    const { data } = await getEvents(question.id);
+    expect(data.events).toHaveLength(0);
+  });
+
+  it("should record host edits with the previous text", async () => {
+    const question = await createQuestion();
+
+    await patchQuestion(question.id, {
+      content: "When does the new office open?",
+    });
+
+    const { data } = await getEvents(question.id);
+    expect(data.events).toHaveLength(1);
+    expect(data.events[0]).toMatchObject({
+      type: "edited",
+      actorType: "host",
+      previousContent: "When does the office open?",
+    });
+  });
+
+  it("should keep the history of withdrawn questions", async () => {
+    const question = await createQuestion();
+
+    await WITHDRAW(
+      new NextRequest(
+        `http://localhost:3000/api/questions/${question.id}/participant`,
+        {
+          method: "DELETE",
+          body: JSON.stringify({ participantId }),
+          headers: participantHeaders("HIST01", participantId),
+        },
+      ) as any,
+      { params: Promise.resolve({ id: question.id }) },
+    );
+
+    const { response, data } = await getEvents(question.id);
+
+    expect(response.status).toBe(200);
+    expect(data.events).toHaveLength(1);
+    expect(data.events[0]).toMatchObject({
+      type: "deleted",
+      actorType: "participant",
+      fromStatus: "approved",
+      previousContent: "When does the office open?",
+    });
+    expect(data.events[0].actorName).toBeUndefined();
+  });
+
+  it("should record merges on the duplicate and the survivor", async () => {
+    const target = await createQuestion();
+    const duplicate = await createQuestion("What time does the office open?");
+
+    await mergeQuestions(target.id, [duplicate.id], {
+      actor: { actorType: "host", actorUserId: host.id, actorName: host.name },
+    });
+
+    const duplicateEvents = (await getEvents(duplicate.id)).data.events;
+    expect(duplicateEvents).toHaveLength(1);
+    expect(duplicateEvents[0]).toMatchObject({
+      type: "merged",
+      fromStatus: "approved",
+      toStatus: "dismissed",
+      relatedQuestionId: target.id,
+    });
+
+    const targetEvents = (await getEvents(target.id)).data.events;
+    expect(targetEvents).toHaveLength(1);
+    expect(targetEvents[0]).toMatchObject({
+      type: "merged",
+      relatedQuestionId: duplicate.id,
+    });
+  });
+
+  it("should link split-out questions to the original", async () => {
+    const original = await createQuestion(
+      "When does the office open and is there parking?",
+    );
+
+    const { createdQuestions } = await splitQuestion(original.id, [
+      "When does the office open?",
+      "Is there parking?",
+    ]);
+
+    const originalEvents = (await getEvents(original.id)).data.events;
+    expect(originalEvents[0]).toMatchObject({
+      type: "split",
+      actorType: "system",
+      previousContent: "When does the office open and is there parking?",
+    });
+
+    const createdEvents = (await getEvents(createdQuestions[0].id)).data.events;
+    expect(createdEvents[0]).toMatchObject({
+      type: "created",
+      toStatus: "approved",
+      relatedQuestionId: original.id,
+    });
+  });
+
+  it("should return 403 for users outside the session", async () => {
+    const question = await createQuestion();
+    mockedGetServerSession.mockResolvedValue({
+      user: { id: uuidv4(), email: "other@example.com" },
+      expires: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+    });
+
+    const { response } = await getEvents(question.id);
+
+    expect(response.status).toBe(403);
+  });
+
+  it("should return 404 for unknown questions", async () => {
+    const { response } = await getEvents(uuidv4());
+
+    expect(response.status).toBe(404);
+  });
+});
@@ -0,0 +1,202 @@
+/**
+ * Integration tests for merging duplicate questions
+ * @jest-environment node
+ */
+
+// Mock prisma to use test database
+jest.mock("@/lib/db", () => {
+  const { getTestDb } = require("../setup/test-db");
+  return {
+    prisma: getTestDb(),
+  };
+});
+
+import { mergeQuestions } from "@/lib/question-merge";
+import { getTestDb, resetTestDb, closeTestDb } from "../setup/test-db";
+import { v4 as uuidv4 } from "uuid";
+
+describe("Question Merge Integration Tests", () => {
+  const db = getTestDb();
+  let sessionId: string;
+
+  beforeEach(async () => {
+    await resetTestDb();
+
+    const host = await db.user.create({
+      data: {
+        id: uuidv4(),
+        email: "host@example.com",
+        name: "Test Host",
+      },
+    });
+
+    const session = await db.qaSession.create({
+      data: {
+        code: "MERGE1",
+        title: "Merge Session",
+        hostId: host.id,
+        expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
+      },
+    });
+    sessionId = session.id;
+  });
+
+  afterAll(async () => {
+    await closeTestDb();
+  });
+
+  // Create a question with a vote from each listed participant
+  const createQuestion = async (content: string, voters: string[] = []) => {
+    const question = await db.question.create({
+      data: {
+        sessionId,
+        participantId: uuidv4(),
+        content,
+        status: "approved",
+        voteCount: voters.length,
+      },
+    });
+
+    for (const participantId of voters) {
+      await db.vote.create({
+        data: { questionId: question.id, participantId },
+      });
+    }
+
+    return question;
+  };
+
+  it("should combine votes, counting each participant once", async () => {
+    const [alice, bob, carol] = [uuidv4(), uuidv4(), uuidv4()];
+    const target = await createQuestion("When does the office open?", [
+      alice,
+      bob,
+    ]);
+    const duplicate = await createQuestion("When will the office open?", [
+      bob,
+      carol,
+    ]);
+
+    const result = await mergeQuestions(target.id, [duplicate.id]);
+
+    expect(result).toEqual({
+      voteCount: 3,
+      movedVotes: 1,
+      movedPulseChecks: 0,
+    });
+
+    const votes = await db.vote.findMany({ where: { questionId: target.id } });
+    expect(votes.map((v) => v.participantId).sort()).toEqual(
+      [alice, bob, carol].sort(),
+    );
+    expect(await db.vote.count({ where: { questionId: duplicate.id } })).toBe(
+      0,
+    );
+
+    const updatedTarget = await db.question.findUnique({
+      where: { id: target.id },
+    });
+    expect(updatedTarget?.voteCount).toBe(3);
+  });
+
+  it("should dismiss duplicates and link them to the survivor", async () => {
+    const target = await createQuestion("Is remote work staying?");
+    const first = await createQuestion("Will remote work stay?");
+    const second = await createQuestion("Remote work staying?");
+
+    await mergeQuestions(target.id, [first.id, second.id]);
+
+    const duplicates = await db.question.findMany({
+      where: { id: { in: [first.id, second.id] } },
+    });
+    for (const duplicate of duplicates) {
+      expect(duplicate.status).toBe("dismissed");
+      expect(duplicate.mergedIntoId).toBe(target.id);
+      expect(duplicate.voteCount).toBe(0);
+    }
+  });
+
+  it("should move pulse check feedback without duplicating participants", async () => {
+    const participant = uuidv4();
+    const other = uuidv4();
+    const target = await createQuestion("What is the budget?");
+    const duplicate = await createQuestion("What's the budget?");
+
+    await db.pulseCheckFeedback.createMany({
+      data: [
+        {
+          questionId: target.id,
+          participantId: participant,
+          feedback: "helpful",
+        },
+        {
+          questionId: duplicate.id,
+          participantId: participant,
+          feedback: "not_helpful",
+        },
+        { questionId: duplicate.id, participantId: other, feedback: "neutral" },
+      ],
+    });
+
+    const result = await mergeQuestions(target.id, [duplicate.id]);
+
+    expect(result?.movedPulseChecks).toBe(1);
+
+    const feedback = await db.pulseCheckFeedback.findMany({
+      where: { questionId: target.id },
+      orderBy: { participantId: "asc" },
+    });
+    expect(feedback).toHaveLength(2);
+    // The survivor keeps its own feedback from a participant who responded to both
+    expect(
+      feedback.find((f) => f.participantId === participant)?.feedback,
+    ).toBe("helpful");
+  });
+
+  it("should re-point questions previously merged into a duplicate", async () => {
+    const target = await createQuestion("How do promotions work?");
+    const duplicate = await createQuestion("How are promotions decided?");
+    const earlier = await createQuestion("Promotion process?");
+
+    await mergeQuestions(duplicate.id, [earlier.id]);
+    await mergeQuestions(target.id, [duplicate.id]);
+
+    const reloaded = await db.question.findUnique({
+      where: { id: earlier.id },
+    });
+    expect(reloaded?.mergedIntoId).toBe(target.id);
+  });
+
+  it("should refuse duplicates merged elsewhere since they were checked", async () => {
+    const first = await createQuestion("Is there free parking?", ["p1"]);
+    const second = await createQuestion("Can I park on site?");
+    const duplicate = await createQuestion("Where do I park?", ["p2"]);
+
+    await mergeQuestions(first.id, [duplicate.id]);
+    const result = await mergeQuestions(second.id, [duplicate.id]);
+
+    expect(result).toBeNull();
+    const [reloadedSecond, reloadedDuplicate] = await Promise.all([
+      db.question.findUnique({ where: { id: second.id } }),
+      db.question.findUnique({ where: { id: duplicate.id } }),
+    ]);
+    expect(reloadedSecond?.voteCount).toBe(0);
+    expect(reloadedDuplicate?.mergedIntoId).toBe(first.id);
+  });
+
+  it("should refuse a target that has itself been merged", async () => {
+    const survivor = await createQuestion("What time is lunch?");
+    const target = await createQuestion("When do we eat?");
+    const duplicate = await createQuestion("Lunch break time?");
+
+    await mergeQuestions(survivor.id, [target.id]);
+    const result = await mergeQuestions(target.id, [duplicate.id]);
+
+    expect(result).toBeNull();
+    const reloaded = await db.question.findUnique({
+      where: { id: duplicate.id },
+    });
+    expect(reloaded?.mergedIntoId).toBeNull();
+    expect(reloaded?.status).toBe("approved");
+  });
+});
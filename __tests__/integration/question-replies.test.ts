@@ -0,0 +1,307 @@
+/**
+ * Integration tests for question replies
+ * POST /api/questions/[id]/replies
+ * DELETE /api/questions/[id]/replies/[replyId]
+ * @jest-environment node
+ */
+
+// Mock NextAuth and auth before any imports
+jest.mock("next-auth", () => ({
+  getServerSession: jest.fn(),
+}));
+
+jest.mock("@/lib/auth", () => ({
+  authOptions: {},
+}));
+
+jest.mock("@/lib/logger", () => ({
+  logger: {
+    error: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+// Mock prisma to use test database
+jest.mock("@/lib/db", () => {
+  const { getTestDb } = require("../setup/test-db");
+  return {
+    prisma: getTestDb(),
+  };
+});
+
+import { POST } from "@/app/api/questions/[id]/replies/route";
+import { DELETE } from "@/app/api/questions/[id]/replies/[replyId]/route";
+import { NextRequest } from "next/server";
+import { getTestDb, resetTestDb, closeTestDb } from "../setup/test-db";
+import { participantHeaders } from "../setup/participant-token";
+import { v4 as uuidv4 } from "uuid";
+import { getServerSession } from "next-auth";
+
+const mockedGetServerSession = getServerSession as jest.MockedFunction<
+  typeof getServerSession
+>;
+
+describe("Question Replies API Integration Tests", () => {
+  const db = getTestDb();
+  let host: { id: string; email: string; name: string | null };
+  let sessionId: string;
+  let questionId: string;
+
+  beforeEach(async () => {
+    await resetTestDb();
+    mockedGetServerSession.mockReset();
+
+    host = await db.user.create({
+      data: {
+        id: uuidv4(),
+        email: "host@example.com",
+        name: "Test Host",
+      },
+    });
+
+    const session = await db.qaSession.create({
+      data: {
+        code: "REPLY1",
+        title: "Replies Session",
+        hostId: host.id,
+        expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
+      },
+    });
+    sessionId = session.id;
+
+    const question = await db.question.create({
+      data: {
+        sessionId,
+        content: "Will the slides be shared?",
+        status: "approved",
+      },
+    });
+    questionId = question.id;
+  });
+
+  afterAll(async () => {
+    await closeTestDb();
+  });
+
+  const postReply = (body: Record<string, unknown>, participantId?: string) =>
+    POST(
+      new NextRequest(
+        `http://localhost:3000/api/questions/${questionId}/replies`,
+        {
+          method: "POST",
+          body: JSON.stringify(body),
+          ...(participantId && {
+            headers: participantHeaders("REPLY1", participantId),
+          }),
+        },
+      ) as any,
+      { params: Promise.resolve({ id: questionId }) },
+    );
+
+  const signInAsHost = () =>
+    mockedGetServerSession.mockResolvedValue({
+      user: { id: host.id, email: host.email, name: host.name },
+    } as any);
+
+  describe("POST host answers", () => {
+    it("should require authentication", async () => {
+      mockedGetServerSession.mockResolvedValue(null);
+
+      const response = await postReply({
+        as: "host",
+        content: "Yes, after the talk.",
+      });
+
+      expect(response.status).toBe(401);
+    });
+
+    it("should post the answer and mark the question answered", async () => {
+      signInAsHost();
+
+      const response = await postReply({
+        as: "host",
+        content: "Yes, after the talk.",
+      });
+      const data = await response.json();
+
+      expect(response.status).toBe(201);
+      expect(data.reply).toMatchObject({
+        authorType: "host",
+        authorName: "Test Host",
+        content: "Yes, after the talk.",
+      });
+
+      const question = await db.question.findUnique({
+        where: { id: questionId },
+      });
+      expect(question?.status).toBe("answered");
+    });
+
+    it("should leave the status alone when markAnswered is false", async () => {
+      signInAsHost();
+
+      const response = await postReply({
+        as: "host",
+        content: "Checking with the speaker.",
+        markAnswered: false,
+      });
+
+      expect(response.status).toBe(201);
+      const question = await db.question.findUnique({
+        where: { id: questionId },
+      });
+      expect(question?.status).toBe("approved");
+    });
+
+    it("should reject users without a role in the session", async () => {
+      mockedGetServerSession.mockResolvedValue({
+        user: { id: uuidv4(), email: "stranger@example.com" },
+      } as any);
+
+      const response = await postReply(
+        { as: "host", content: "Not my session" },
+        uuidv4(),
+      );
+
+      expect(response.status).toBe(403);
+    });
+
+    it("should not answer a question merged into another", async () => {
+      const target = await db.question.create({
+        data: {
+          sessionId,
+          content: "Will slides be shared?",
+          status: "approved",
+        },
+      });
+      await db.question.update({
+        where: { id: questionId },
+        data: { mergedIntoId: target.id, status: "dismissed" },
+      });
+      signInAsHost();
+
+      const response = await postReply({
+        as: "host",
+        content: "Yes, after the talk.",
+      });
+      const data = await response.json();
+
+      expect(response.status).toBe(409);
+      expect(data.code).toBe("ALREADY_MERGED");
+      expect(await db.questionReply.count({ where: { questionId } })).toBe(0);
+      const question = await db.question.findUnique({
+        where: { id: questionId },
+      });
+      expect(question?.status).toBe("dismissed");
+    });
+
+    it("should treat replies without as: host as participant replies", async () => {
+      signInAsHost();
+
+      const response = await postReply({ content: "Yes, after the talk." });
+      const data = await response.json();
+
+      expect(response.status).toBe(401);
+      expect(data.code).toBe("INVALID_PARTICIPANT_TOKEN");
+    });
+
+    it("should reject unknown authors", async () => {
+      signInAsHost();
+
+      const response = await postReply({ as: "admin", content: "Hello" });
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.errors).toEqual([expect.objectContaining({ field: "as" })]);
+    });
+  });
+
+  describe("POST participant replies", () => {
+    it("should reject replies when the session has them turned off", async () => {
+      const response = await postReply({ content: "Me too!" }, uuidv4());
+      const data = await response.json();
+
+      expect(response.status).toBe(403);
+      expect(data.code).toBe("REPLIES_DISABLED");
+    });
+
+    it("should post a reply when the session allows them", async () => {
+      await db.qaSession.update({
+        where: { id: sessionId },
+        data: { allowReplies: true },
+      });
+
+      const response = await postReply(
+        { authorName: "Sam", content: "  Me too!  " },
+        uuidv4(),
+      );
+      const data = await response.json();
+
+      expect(response.status).toBe(201);
+      expect(data.reply).toMatchObject({
+        authorType: "participant",
+        authorName: "Sam",
+        content: "Me too!",
+      });
+      expect(data.reply.participantId).toBeUndefined();
+    });
+
+    it("should reject empty replies", async () => {
+      const response = await postReply({ content: "   " }, uuidv4());
+
+      expect(response.status).toBe(400);
+    });
+
+    it("should ignore a participant ID in the body", async () => {
+      const response = await postReply({
+        participantId: uuidv4(),
+        content: "Me too!",
+      });
+
+      expect(response.status).toBe(401);
+    });
+  });
+
+  describe("DELETE", () => {
+    it("should let the host remove a reply", async () => {
+      const reply = await db.questionReply.create({
+        data: {
+          questionId,
+          authorType: "participant",
+          participantId: uuidv4(),
+          content: "Off-topic",
+        },
+      });
+      signInAsHost();
+
+      const response = await DELETE(
+        new NextRequest(
+          `http://localhost:3000/api/questions/${questionId}/replies/${reply.id}`,
+          { method: "DELETE" },
+        ) as any,
+        { params: Promise.resolve({ id: questionId, replyId: reply.id }) },
+      );
+
+      expect(response.status).toBe(200);
+      expect(
+        await db.questionReply.findUnique({ where: { id: reply.id } }),
+      ).toBeNull();
+    });
+
+    it("should return 404 for an unknown reply", async () => {
+      signInAsHost();
+
+      const response = await DELETE(
+        new NextRequest(
+          `http://localhost:3000/api/questions/${questionId}/replies/missing`,
+          { method: "DELETE" },
+        ) as any,
+        { params: Promise.resolve({ id: questionId, replyId: "missing" }) },
+      );
+
+      expect(response.status).toBe(404);
+    });
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * Integration tests for splitting questions
+ * @jest-environment node
+ */
+
+// Mock prisma to use test database
+jest.mock("@/lib/db", () => {
+  const { getTestDb } = require("../setup/test-db");
+  return {
+    prisma: getTestDb(),
+  };
+});
+
+import { splitQuestion } from "@/lib/question-edits";
+import { getTestDb, resetTestDb, closeTestDb } from "../setup/test-db";
+import { v4 as uuidv4 } from "uuid";
+
+describe("Question Split Integration Tests", () => {
+  const db = getTestDb();
+  let sessionId: string;
+
+  beforeEach(async () => {
+    await resetTestDb();
+
+    const host = await db.user.create({
+      data: {
+        id: uuidv4(),
+        email: "host@example.com",
+        name: "Test Host",
+      },
+    });
+
+    const session = await db.qaSession.create({
+      data: {
+        code: "SPLIT1",
+        title: "Split Session",
+        hostId: host.id,
+        expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
+      },
+    });
+    sessionId = session.id;
+  });
+
+  afterAll(async () => {
+    await closeTestDb();
+  });
+
+  // Create a question with a vote from each listed participant
+  const createQuestion = async (
+    content: string,
+    voters: string[] = [],
+    status: "approved" | "being_answered" = "approved",
+  ) => {
+    const question = await db.question.create({
+      data: {
+        sessionId,
+        participantId: uuidv4(),
+        authorName: "Sam",
+        isAnonymous: false,
+        content,
+        status,
+        voteCount: voters.length,
+      },
+    });
+
+    for (const participantId of voters) {
+      await db.vote.create({
+        data: { questionId: question.id, participantId },
+      });
+    }
+
+    return question;
+  };
+
+  it("should keep the first part on the original question", async () => {
+    const original = await createQuestion(
+      "When does the office open and is there parking?",
+    );
+
+    const result = await splitQuestion(original.id, [
+      "When does the office open?",
+      "Is there parking at the office?",
+    ]);
+
+    expect(result.question.id).toBe(original.id);
+    expect(result.question.content).toBe("When does the office open?");
+    expect(result.question.editedByHost).toBe(true);
+    expect(result.question.originalContent).toBe(original.content);
+  });
+
+  it("should create the remaining parts from the same author", async () => {
+    const original = await createQuestion(
+      "What is the budget, who approves it, and when?",
+    );
+
+    const { createdQuestions } = await splitQuestion(original.id, [
+      "What is the budget?",
+      "Who approves the budget?",
+      "When is the budget approved?",
+    ]);
+
+    expect(createdQuestions.map((q) => q.content)).toEqual([
+      "Who approves the budget?",
+      "When is the budget approved?",
+    ]);
+    for (const created of createdQuestions) {
+      expect(created.sessionId).toBe(sessionId);
+      expect(created.participantId).toBe(original.participantId);
+      expect(created.authorName).toBe("Sam");
+      expect(created.isAnonymous).toBe(false);
+      expect(created.status).toBe("approved");
+      expect(created.editedByHost).toBe(true);
+      expect(created.originalContent).toBe(original.content);
+    }
+  });
+
+  it("should carry the original's voters over to every part", async () => {
+    const voters = [uuidv4(), uuidv4()];
+    const original = await createQuestion(
+      "Is remote work staying and will offices close?",
+      voters,
+    );
+
+    const { createdQuestions } = await splitQuestion(original.id, [
+      "Is remote work staying?",
+      "Will offices close?",
+    ]);
+    const [created] = createdQuestions;
+
+    expect(created.voteCount).toBe(2);
+    const votes = await db.vote.findMany({ where: { questionId: created.id } });
+    expect(votes.map((v) => v.participantId).sort()).toEqual(voters.sort());
+    expect(await db.vote.count({ where: { questionId: original.id } })).toBe(2);
+  });
+
+  it("should not put new parts on stage", async () => {
+    const original = await createQuestion(
+      "How do promotions work and how often?",
+      [],
+      "being_answered",
+    );
+
+    const result = await splitQuestion(original.id, [
+      "How do promotions work?",
+      "How often are promotions?",
+    ]);
+
+    expect(result.question.status).toBe("being_answered");
+    expect(result.createdQuestions[0].status).toBe("approved");
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * Integration tests for the database-backed rate limit store
+ * @jest-environment node
+ */
+
+jest.mock("@/lib/logger", () => ({
+  logger: {
+    error: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+// Mock prisma to use test database
+jest.mock("@/lib/db", () => {
+  const { getTestDb } = require("../setup/test-db");
+  return {
+    prisma: getTestDb(),
+  };
+});
+
+import { PostgresRateLimitStore } from "@/lib/rate-limit-store";
+import { checkRateLimitInStore } from "@/lib/rate-limit";
+import { getTestDb, resetTestDb, closeTestDb } from "../setup/test-db";
+
+describe("Postgres Rate Limit Store Integration Tests", () => {
+  const db = getTestDb();
+
+  beforeEach(async () => {
+    await resetTestDb();
+  });
+
+  afterAll(async () => {
+    await closeTestDb();
+  });
+
+  it("should count requests within a window in the database", async () => {
+    const store = new PostgresRateLimitStore();
+
+    const first = await store.increment("vote:1.2.3.4", 60000);
+    const second = await store.increment("vote:1.2.3.4", 60000);
+
+    expect(first.count).toBe(1);
+    expect(second.count).toBe(2);
+    expect(second.resetAt).toBe(first.resetAt);
+
+    const row = await db.rateLimitCounter.findUnique({
+      where: { key: "vote:1.2.3.4" },
+    });
+    expect(row?.count).toBe(2);
+  });
+
+  it("should share counters between store instances", async () => {
+    const config = { max: 2, windowMs: 60000 };
+
+    // Separate instances stand in for separate serverless instances
+    await checkRateLimitInStore(
+      "vote",
+      "5.6.7.8",
+      config,
+      new PostgresRateLimitStore(),
+    );
+    await checkRateLimitInStore(
+      "vote",
+      "5.6.7.8",
+      config,
+      new PostgresRateLimitStore(),
+    );
+    const result = await checkRateLimitInStore(
+      "vote",
+      "5.6.7.8",
+      config,
+      new PostgresRateLimitStore(),
+    );
+
+    expect(result.allowed).toBe(false);
+    expect(result.current).toBe(3);
+  });
+
+  it("should start a new window once the previous one has ended", async () => {
+    await db.rateLimitCounter.create({
+      data: {
+        key: "submit-question:9.9.9.9",
+        count: 5,
+        resetAt: new Date(Date.now() - 1000),
+      },
+    });
+
+    const counter = await new PostgresRateLimitStore().increment(
+      "submit-question:9.9.9.9",
+      60000,
+    );
+
+    expect(counter.count).toBe(1);
+    expect(counter.resetAt).toBeGreaterThan(Date.now());
+  });
+});
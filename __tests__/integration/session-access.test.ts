@@ -0,0 +1,272 @@
+/**
+ * Integration tests for restricted-audience sessions
+ * Access checks on GET /api/sessions/[code], POST /api/sessions/[code]/access
+ * and the participant routes
+ * @jest-environment node
+ */
+
+// Mock NextAuth and auth before any imports
+jest.mock("next-auth", () => ({
+  getServerSession: jest.fn(),
+}));
+
+jest.mock("@/lib/auth", () => ({
+  authOptions: {},
+}));
+
+jest.mock("@/lib/logger", () => ({
+  logger: {
+    error: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+// Mock prisma to use test database
+jest.mock("@/lib/db", () => {
+  const { getTestDb } = require("../setup/test-db");
+  return {
+    prisma: getTestDb(),
+  };
+});
+
+import { GET as getSession } from "@/app/api/sessions/[code]/route";
+import { POST as enterPasscode } from "@/app/api/sessions/[code]/access/route";
+import { POST as join } from "@/app/api/sessions/[code]/participant/route";
+import { POST as vote } from "@/app/api/questions/[id]/vote/route";
+import { getAccessCookieName, hashPasscode } from "@/lib/session-access";
+import { NextRequest } from "next/server";
+import { getTestDb, resetTestDb, closeTestDb } from "../setup/test-db";
+import { participantHeaders } from "../setup/participant-token";
+import { v4 as uuidv4 } from "uuid";
+import { getServerSession } from "next-auth";
+
+const mockedGetServerSession = getServerSession as jest.MockedFunction<
+  typeof getServerSession
+>;
+
+const SESSION_CODE = "LOCKED";
+
+describe("Session Access Integration Tests", () => {
+  const db = getTestDb();
+  let host: { id: string };
+  let sessionId: string;
+
+  beforeEach(async () => {
+    await resetTestDb();
+
+    host = await db.user.create({
+      data: {
+        id: uuidv4(),
+        email: "host@example.com",
+        name: "Test Host",
+      },
+    });
+
+    const session = await db.qaSession.create({
+      data: {
+        code: SESSION_CODE,
+        title: "All Hands",
+        hostId: host.id,
+        expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
+        accessMode: "passcode",
+        accessPasscodeHash: await hashPasscode("allhands"),
+      },
+    });
+    sessionId = session.id;
+
+    mockedGetServerSession.mockResolvedValue(null);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  afterAll(async () => {
+    await closeTestDb();
+  });
+
+  const signInAs = (id: string, email: string) =>
+    mockedGetServerSession.mockResolvedValue({
+      user: { id, email },
+      expires: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+    });
+
+  const fetchSession = (headers: Record<string, string> = {}) =>
+    getSession(
+      new NextRequest(`http://localhost:3000/api/sessions/${SESSION_CODE}`, {
+        headers,
+      }) as any,
+      { params: Promise.resolve({ code: SESSION_CODE }) },
+    );
+
+  const submitPasscode = (passcode: string) =>
+    enterPasscode(
+      new NextRequest(
+        `http://localhost:3000/api/sessions/${SESSION_CODE}/access`,
+        {
+          method: "POST",
+          body: JSON.stringify({ passcode }),
+          headers: { "x-forwarded-for": uuidv4() },
+        },
+      ) as any,
+      { params: Promise.resolve({ code: SESSION_CODE }) },
+    );
+
+  const grantedHeaders = async (): Promise<Record<string, string>> => {
+    const response = await submitPasscode("allhands");
+    const grant = response.cookies.get(getAccessCookieName(SESSION_CODE));
+    return { cookie: `${grant?.name}=${grant?.value}` };
+  };
+
+  describe("passcode sessions", () => {
+    it("should hide the session until the passcode is entered", async () => {
+      const response = await fetchSession();
+      const data = await response.json();
+
+      expect(response.status).toBe(401);
+      expect(data.code).toBe("PASSCODE_REQUIRED");
+      expect(data.accessMode).toBe("passcode");
+      expect(data.session).toBeUndefined();
+    });
+
+    it("should reject a wrong passcode", async () => {
+      const response = await submitPasscode("guess");
+      const data = await response.json();
+
+      expect(response.status).toBe(401);
+      expect(data.code).toBe("INVALID_PASSCODE");
+      expect(
+        response.cookies.get(getAccessCookieName(SESSION_CODE)),
+      ).toBeUndefined();
+    });
+
+    it("should show the session once the passcode is entered", async () => {
+      const response = await fetchSession(await grantedHeaders());
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.session.accessMode).toBe("passcode");
+      expect(JSON.stringify(data)).not.toContain("accessPasscodeHash");
+    });
+
+    it("should lock out old grants when the passcode changes", async () => {
+      const headers = await grantedHeaders();
+      await db.qaSession.update({
+        where: { id: sessionId },
+        data: { accessPasscodeHash: await hashPasscode("newcode") },
+      });
+
+      const response = await fetchSession(headers);
+
+      expect(response.status).toBe(401);
+    });
+
+    it("should not issue participant IDs without the passcode", async () => {
+      const response = await join(
+        new NextRequest(
+          `http://localhost:3000/api/sessions/${SESSION_CODE}/participant`,
+          { method: "POST" },
+        ) as any,
+        { params: Promise.resolve({ code: SESSION_CODE }) },
+      );
+
+      expect(response.status).toBe(401);
+    });
+
+    it("should reject votes from participants without the passcode", async () => {
+      const question = await db.question.create({
+        data: {
+          sessionId,
+          participantId: uuidv4(),
+          content: "When is the next all hands?",
+          status: "approved",
+        },
+      });
+
+      const response = await vote(
+        new NextRequest(
+          `http://localhost:3000/api/questions/${question.id}/vote`,
+          {
+            method: "POST",
+            body: JSON.stringify({}),
+            headers: participantHeaders(SESSION_CODE, uuidv4()),
+          },
+        ) as any,
+        { params: Promise.resolve({ id: question.id }) },
+      );
+      const data = await response.json();
+
+      expect(response.status).toBe(401);
+      expect(data.code).toBe("PASSCODE_REQUIRED");
+      expect(await db.vote.count()).toBe(0);
+    });
+
+    it("should let the host in without the passcode", async () => {
+      signInAs(host.id, "host@example.com");
+
+      const response = await fetchSession();
+
+      expect(response.status).toBe(200);
+    });
+  });
+
+  describe("signed-in sessions", () => {
+    beforeEach(async () => {
+      await db.qaSession.update({
+        where: { id: sessionId },
+        data: { accessMode: "signed_in", accessPasscodeHash: null },
+      });
+    });
+
+    it("should ask anonymous visitors to sign in", async () => {
+      const response = await fetchSession();
+      const data = await response.json();
+
+      expect(response.status).toBe(401);
+      expect(data.code).toBe("SIGN_IN_REQUIRED");
+    });
+
+    it("should let any signed-in user in", async () => {
+      signInAs(uuidv4(), "someone@elsewhere.io");
+
+      const response = await fetchSession();
+
+      expect(response.status).toBe(200);
+    });
+  });
+
+  describe("email domain sessions", () => {
+    beforeEach(async () => {
+      await db.qaSession.update({
+        where: { id: sessionId },
+        data: {
+          accessMode: "email_domain",
+          accessPasscodeHash: null,
+          allowedEmailDomains: ["example.com"],
+        },
+      });
+    });
+
+    it("should let users from allowed domains in", async () => {
+      signInAs(uuidv4(), "staff@example.com");
+
+      const response = await fetchSession();
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.session.allowedEmailDomains).toEqual(["example.com"]);
+    });
+
+    it("should turn away users from other domains", async () => {
+      signInAs(uuidv4(), "guest@elsewhere.io");
+
+      const response = await fetchSession();
+      const data = await response.json();
+
+      expect(response.status).toBe(403);
+      expect(data.code).toBe("EMAIL_DOMAIN_NOT_ALLOWED");
+    });
+  });
+});
@@ -0,0 +1,160 @@
+/**
+ * Integration tests for session analytics
+ * GET /api/sessions/[code]/host/analytics
+ * @jest-environment node
+ */
+
+// Mock NextAuth and auth before any imports
+jest.mock("next-auth", () => ({
+  getServerSession: jest.fn(),
+}));
+
+jest.mock("@/lib/auth", () => ({
+  authOptions: {},
+}));
+
+jest.mock("@/lib/logger", () => ({
+  logger: {
+    error: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+// Mock prisma to use test database
+jest.mock("@/lib/db", () => {
+  const { getTestDb } = require("../setup/test-db");
+  return {
+    prisma: getTestDb(),
+  };
+});
+
+import { GET as getAnalytics } from "@/app/api/sessions/[code]/host/analytics/route";
+import { NextRequest } from "next/server";
+import { getTestDb, resetTestDb, closeTestDb } from "../setup/test-db";
+import { v4 as uuidv4 } from "uuid";
+import { getServerSession } from "next-auth";
+
+const mockedGetServerSession = getServerSession as jest.MockedFunction<
+  typeof getServerSession
+>;
+
+const SESSION_CODE = "STATS1";
+
+describe("Session Analytics API Integration Tests", () => {
+  const db = getTestDb();
+  let hostId: string;
+  let sessionId: string;
+
+  beforeEach(async () => {
+    await resetTestDb();
+
+    const host = await db.user.create({
+      data: {
+        id: uuidv4(),
+        email: "host@example.com",
+        name: "Test Host",
+      },
+    });
+    hostId = host.id;
+
+    // Already expired - analytics are for after the event
+    const qaSession = await db.qaSession.create({
+      data: {
+        code: SESSION_CODE,
+        title: "Town Hall",
+        hostId,
+        expiresAt: new Date(Date.now() - 60 * 60 * 1000),
+      },
+    });
+    sessionId = qaSession.id;
+
+    mockedGetServerSession.mockResolvedValue({
+      user: { id: hostId, email: "host@example.com" },
+    } as any);
+  });
+
+  afterAll(async () => {
+    await closeTestDb();
+  });
+
+  const fetchAnalytics = () =>
+    getAnalytics(
+      new NextRequest(
+        `http://localhost:3000/api/sessions/${SESSION_CODE}/host/analytics`,
+      ) as any,
+      { params: Promise.resolve({ code: SESSION_CODE }) },
+    );
+
+  it("should require authentication", async () => {
+    mockedGetServerSession.mockResolvedValue(null);
+
+    const response = await fetchAnalytics();
+
+    expect(response.status).toBe(401);
+  });
+
+  it("should reject users without a role in the session", async () => {
+    mockedGetServerSession.mockResolvedValue({
+      user: { id: uuidv4(), email: "stranger@example.com" },
+    } as any);
+
+    const response = await fetchAnalytics();
+
+    expect(response.status).toBe(403);
+  });
+
+  it("should compute metrics from questions, votes and pulse checks", async () => {
+    const asker = uuidv4();
+    const voter = uuidv4();
+    const createdAt = new Date(Date.now() - 2 * 60 * 60 * 1000);
+
+    const answered = await db.question.create({
+      data: {
+        sessionId,
+        participantId: asker,
+        content: "When is the launch?",
+        status: "answered",
+        voteCount: 1,
+        createdAt,
+        answeredAt: new Date(createdAt.getTime() + 5 * 60 * 1000),
+      },
+    });
+    await db.question.create({
+      data: {
+        sessionId,
+        participantId: asker,
+        content: "Will there be a recording?",
+        status: "approved",
+        createdAt,
+      },
+    });
+    await db.vote.create({
+      data: { questionId: answered.id, participantId: voter },
+    });
+    await db.pulseCheckFeedback.create({
+      data: {
+        questionId: answered.id,
+        participantId: voter,
+        feedback: "helpful",
+        score: 3,
+      },
+    });
+
+    const response = await fetchAnalytics();
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.session.title).toBe("Town Hall");
+    expect(data.analytics).toMatchObject({
+      participants: 2,
+      totalQuestions: 2,
+      totalVotes: 1,
+      answerRate: 50,
+      timeToAnswer: { sampleSize: 1, averageMs: 5 * 60 * 1000 },
+      satisfaction: { responses: 1, helpfulness: 100 },
+    });
+    expect(data.analytics.topQuestions[0].id).toBe(answered.id);
+  });
+});
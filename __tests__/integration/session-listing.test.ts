@@ -0,0 +1,175 @@
+/**
+ * Integration tests for the host session listing endpoint
+ * GET /api/sessions
+ * @jest-environment node
+ */
+
+// Mock NextAuth and auth before any imports
+jest.mock("next-auth", () => ({
+  getServerSession: jest.fn(),
+}));
+
+jest.mock("@/lib/auth", () => ({
+  authOptions: {},
+}));
+
+// Mock prisma to use test database
+jest.mock("@/lib/db", () => {
+  const { getTestDb } = require("../setup/test-db");
+  return {
+    prisma: getTestDb(),
+  };
+});
+
+import { GET } from "@/app/api/sessions/route";
+import { NextRequest } from "next/server";
+import { getTestDb, resetTestDb, closeTestDb } from "../setup/test-db";
+import { v4 as uuidv4 } from "uuid";
+import { getServerSession } from "next-auth";
+
+const mockedGetServerSession = getServerSession as jest.MockedFunction<
+  typeof getServerSession
+>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe("Session Listing API Integration Tests", () => {
+  const db = getTestDb();
+  let testUser: { id: string; email: string };
+
+  const signInAs = (user: { id: string; email: string }) => {
+    mockedGetServerSession.mockResolvedValue({
+      user: { id: user.id, email: user.email },
+      expires: new Date(Date.now() + 1000).toISOString(),
+    });
+  };
+
+  const listSessions = async (query = "") => {
+    const req = new NextRequest(`http://localhost:3000/api/sessions${query}`);
+    const response = await GET(req);
+    return { response, data: await response.json() };
+  };
+
+  beforeEach(async () => {
+    await resetTestDb();
+
+    testUser = await db.user.create({
+      data: {
+        id: uuidv4(),
+        email: "host@example.com",
+        name: "Test Host",
+      },
+    });
+
+    const otherUser = await db.user.create({
+      data: {
+        id: uuidv4(),
+        email: "other@example.com",
+        name: "Other User",
+      },
+    });
+
+    const activeSession = await db.qaSession.create({
+      data: {
+        code: "LIVE01",
+        title: "Live Session",
+        hostId: testUser.id,
+        createdAt: new Date(Date.now() - 60 * 1000),
+        expiresAt: new Date(Date.now() + DAY_MS),
+      },
+    });
+
+    await db.qaSession.create({
+      data: {
+        code: "PAST01",
+        title: "Past Session",
+        hostId: testUser.id,
+        createdAt: new Date(Date.now() - 3 * DAY_MS),
+        expiresAt: new Date(Date.now() - 2 * DAY_MS),
+      },
+    });
+
+    await db.qaSession.create({
+      data: {
+        code: "OTHER1",
+        title: "Someone Else's Session",
+        hostId: otherUser.id,
+        expiresAt: new Date(Date.now() + DAY_MS),
+      },
+    });
+
+    await db.question.createMany({
+      data: [
+        { sessionId: activeSession.id, content: "First question" },
+        { sessionId: activeSession.id, content: "Second question" },
+      ],
+    });
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  afterAll(async () => {
+    await closeTestDb();
+  });
+
+  it("should return 401 if user is not authenticated", async () => {
+    mockedGetServerSession.mockResolvedValue(null);
+
+    const { response } = await listSessions();
+
+    expect(response.status).toBe(401);
+  });
+
+  it("should list only the host's sessions, newest first", async () => {
+    signInAs(testUser);
+
+    const { response, data } = await listSessions();
+
+    expect(response.status).toBe(200);
+    expect(data.sessions.map((s: { code: string }) => s.code)).toEqual([
+      "LIVE01",
+      "PAST01",
+    ]);
+    expect(data.sessions[0].questionCount).toBe(2);
+    expect(data.pagination).toEqual({
+      page: 1,
+      pageSize: 20,
+      total: 2,
+      totalPages: 1,
+    });
+  });
+
+  it("should filter by active and expired status", async () => {
+    signInAs(testUser);
+
+    const active = await listSessions("?status=active");
+    const expired = await listSessions("?status=expired");
+
+    expect(active.data.sessions.map((s: { code: string }) => s.code)).toEqual([
+      "LIVE01",
+    ]);
+    expect(expired.data.sessions.map((s: { code: string }) => s.code)).toEqual([
+      "PAST01",
+    ]);
+  });
+
+  it("should page through results", async () => {
+    signInAs(testUser);
+
+    const { data } = await listSessions("?page=2&pageSize=1");
+
+    expect(data.sessions).toHaveLength(1);
+    expect(data.sessions[0].code).toBe("PAST01");
+    expect(data.pagination.totalPages).toBe(2);
+  });
+
+  it("should reject invalid query parameters", async () => {
+    signInAs(testUser);
+
+    expect((await listSessions("?page=0")).response.status).toBe(400);
+    expect((await listSessions("?pageSize=500")).response.status).toBe(400);
+    expect((await listSessions("?status=archived")).response.status).toBe(400);
+  });
+});
@@ -0,0 +1,279 @@
+/**
+ * Integration tests for session members and role-based host access
+ * GET/POST /api/sessions/[code]/members
+ * PATCH/DELETE /api/sessions/[code]/members/[memberId]
+ * @jest-environment node
+ */
+
+// Mock NextAuth and auth before any imports
+jest.mock("next-auth", () => ({
+  getServerSession: jest.fn(),
+}));
+
+jest.mock("@/lib/auth", () => ({
+  authOptions: {},
+}));
+
+jest.mock("@/lib/logger", () => ({
+  logger: {
+    error: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+// Mock prisma to use test database
+jest.mock("@/lib/db", () => {
+  const { getTestDb } = require("../setup/test-db");
+  return {
+    prisma: getTestDb(),
+  };
+});
+
+import { GET, POST } from "@/app/api/sessions/[code]/members/route";
+import {
+  PATCH as PATCH_MEMBER,
+  DELETE,
+} from "@/app/api/sessions/[code]/members/[memberId]/route";
+import { PATCH as PATCH_QUESTION } from "@/app/api/questions/[id]/route";
+import { GET as GET_HOST_QUESTIONS } from "@/app/api/sessions/[code]/host/questions/route";
+import { NextRequest } from "next/server";
+import { getTestDb, resetTestDb, closeTestDb } from "../setup/test-db";
+import { v4 as uuidv4 } from "uuid";
+import { getServerSession } from "next-auth";
+
+const mockedGetServerSession = getServerSession as jest.MockedFunction<
+  typeof getServerSession
+>;
+
+describe("Session Members API Integration Tests", () => {
+  const db = getTestDb();
+  let owner: { id: string; email: string };
+  let colleague: { id: string; email: string };
+  let testSession: { id: string; code: string };
+  let testQuestion: { id: string };
+
+  const signInAs = (user: { id: string; email: string }) => {
+    mockedGetServerSession.mockResolvedValue({
+      user: { id: user.id, email: user.email },
+      expires: new Date(Date.now() + 1000).toISOString(),
+    });
+  };
+
+  const membersUrl = "http://localhost:3000/api/sessions/TEAM01/members";
+  const sessionParams = () => Promise.resolve({ code: "TEAM01" });
+
+  const invite = (email: string, role: string) =>
+    POST(
+      new NextRequest(membersUrl, {
+        method: "POST",
+        body: JSON.stringify({ email, role }),
+      }),
+      { params: sessionParams() },
+    );
+
+  const updateQuestionStatus = (status: string) =>
+    PATCH_QUESTION(
+      new NextRequest(
+        `http://localhost:3000/api/questions/${testQuestion.id}`,
+        {
+          method: "PATCH",
+          body: JSON.stringify({ status }),
+        },
+      ),
+      { params: Promise.resolve({ id: testQuestion.id }) },
+    );
+
+  beforeEach(async () => {
+    await resetTestDb();
+
+    owner = await db.user.create({
+      data: { id: uuidv4(), email: "owner@example.com", name: "Owner" },
+    });
+
+    colleague = await db.user.create({
+      data: { id: uuidv4(), email: "producer@example.com", name: "Producer" },
+    });
+
+    testSession = await db.qaSession.create({
+      data: {
+        code: "TEAM01",
+        title: "Team Session",
+        hostId: owner.id,
+        expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
+      },
+    });
+
+    testQuestion = await db.question.create({
+      data: {
+        sessionId: testSession.id,
+        content: "How do roles work?",
+        status: "pending",
+      },
+    });
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  afterAll(async () => {
+    await closeTestDb();
+  });
+
+  describe("Inviting members", () => {
+    it("should let the owner invite by email and link existing users", async () => {
+      signInAs(owner);
+
+      const response = await invite("Producer@Example.com", "moderator");
+      const data = await response.json();
+
+      expect(response.status).toBe(201);
+      expect(data.member).toMatchObject({
+        email: "producer@example.com",
+        role: "moderator",
+        hasJoined: true,
+      });
+    });
+
+    it("should reject duplicate invites and invalid roles", async () => {
+      signInAs(owner);
+
+      await invite("producer@example.com", "moderator");
+      const duplicate = await invite("producer@example.com", "co_host");
+      const invalidRole = await invite("new@example.com", "owner");
+
+      expect(duplicate.status).toBe(409);
+      expect((await invalidRole.json()).code).toBe("INVALID_ROLE");
+    });
+
+    it("should not let non-owners invite members", async () => {
+      await db.sessionMember.create({
+        data: {
+          sessionId: testSession.id,
+          email: colleague.email,
+          userId: colleague.id,
+          role: "co_host",
+          invitedById: owner.id,
+        },
+      });
+      signInAs(colleague);
+
+      const response = await invite("someone@example.com", "moderator");
+
+      expect(response.status).toBe(403);
+    });
+
+    it("should list the owner first with the caller's role", async () => {
+      signInAs(owner);
+      await invite("pending@example.com", "co_host");
+
+      const response = await GET(new NextRequest(membersUrl), {
+        params: sessionParams(),
+      });
+      const data = await response.json();
+
+      expect(data.role).toBe("owner");
+      expect(data.members.map((m: { role: string }) => m.role)).toEqual([
+        "owner",
+        "co_host",
+      ]);
+      expect(data.members[1].hasJoined).toBe(false);
+    });
+  });
+
+  describe("Role-based access", () => {
+    it("should link a pending invite when the invitee first signs in", async () => {
+      const invitee = await db.user.create({
+        data: { id: uuidv4(), email: "late@example.com" },
+      });
+      await db.sessionMember.create({
+        data: {
+          sessionId: testSession.id,
+          email: "late@example.com",
+          role: "moderator",
+          invitedById: owner.id,
+        },
+      });
+      signInAs(invitee);
+
+      const response = await GET_HOST_QUESTIONS(
+        new NextRequest(
+          "http://localhost:3000/api/sessions/TEAM01/host/questions",
+        ),
+        { params: sessionParams() },
+      );
+
+      expect(response.status).toBe(200);
+      const member = await db.sessionMember.findFirst({
+        where: { email: "late@example.com" },
+      });
+      expect(member?.userId).toBe(invitee.id);
+    });
+
+    it("should let moderators approve but not answer questions", async () => {
+      await db.sessionMember.create({
+        data: {
+          sessionId: testSession.id,
+          email: colleague.email,
+          userId: colleague.id,
+          role: "moderator",
+          invitedById: owner.id,
+        },
+      });
+      signInAs(colleague);
+
+      expect((await updateQuestionStatus("approved")).status).toBe(200);
+      expect((await updateQuestionStatus("being_answered")).status).toBe(403);
+    });
+
+    it("should let co-hosts answer questions", async () => {
+      await db.sessionMember.create({
+        data: {
+          sessionId: testSession.id,
+          email: colleague.email,
+          userId: colleague.id,
+          role: "co_host",
+          invitedById: owner.id,
+        },
+      });
+      signInAs(colleague);
+
+      expect((await updateQuestionStatus("answered")).status).toBe(200);
+    });
+
+    it("should revoke access when a member is removed", async () => {
+      const member = await db.sessionMember.create({
+        data: {
+          sessionId: testSession.id,
+          email: colleague.email,
+          userId: colleague.id,
+          role: "co_host",
+          invitedById: owner.id,
+        },
+      });
+      const memberParams = () =>
+        Promise.resolve({ code: "TEAM01", memberId: member.id });
+
+      signInAs(owner);
+      const demoted = await PATCH_MEMBER(
+        new NextRequest(`${membersUrl}/${member.id}`, {
+          method: "PATCH",
+          body: JSON.stringify({ role: "moderator" }),
+        }),
+        { params: memberParams() },
+      );
+      expect((await demoted.json()).member.role).toBe("moderator");
+
+      const removed = await DELETE(
+        new NextRequest(`${membersUrl}/${member.id}`, { method: "DELETE" }),
+        { params: memberParams() },
+      );
+      expect(removed.status).toBe(204);
+
+      signInAs(colleague);
+      expect((await updateQuestionStatus("approved")).status).toBe(403);
+    });
+  });
+});
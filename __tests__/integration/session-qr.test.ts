@@ -0,0 +1,99 @@
+/**
+ * Integration tests for GET /api/sessions/[code]/qr
+ * @jest-environment node
+ */
+
+jest.mock("@/lib/logger", () => ({
+  logger: {
+    error: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+// Mock prisma to use test database
+jest.mock("@/lib/db", () => {
+  const { getTestDb } = require("../setup/test-db");
+  return {
+    prisma: getTestDb(),
+  };
+});
+
+// Capture the URL being encoded rather than decoding the image
+jest.mock("@/lib/session-qr", () => ({
+  renderQrCode: jest.fn().mockResolvedValue({
+    body: "<svg></svg>",
+    contentType: "image/svg+xml",
+  }),
+}));
+
+import { GET } from "@/app/api/sessions/[code]/qr/route";
+import { renderQrCode } from "@/lib/session-qr";
+import { NextRequest } from "next/server";
+import { getTestDb, resetTestDb, closeTestDb } from "../setup/test-db";
+import { v4 as uuidv4 } from "uuid";
+
+const SESSION_CODE = "QRCODE";
+
+describe("Session QR Code Integration Tests", () => {
+  const db = getTestDb();
+  const originalNextAuthUrl = process.env.NEXTAUTH_URL;
+
+  beforeEach(async () => {
+    await resetTestDb();
+
+    const host = await db.user.create({
+      data: { id: uuidv4(), email: "host@example.com" },
+    });
+    await db.qaSession.create({
+      data: {
+        code: SESSION_CODE,
+        title: "QR Session",
+        hostId: host.id,
+        expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+      },
+    });
+  });
+
+  afterEach(() => {
+    if (originalNextAuthUrl === undefined) delete process.env.NEXTAUTH_URL;
+    else process.env.NEXTAUTH_URL = originalNextAuthUrl;
+    jest.clearAllMocks();
+  });
+
+  afterAll(async () => {
+    await closeTestDb();
+  });
+
+  // Requests arrive with a forged Host header
+  const getQrCode = () =>
+    GET(
+      new NextRequest(`https://evil.example/api/sessions/${SESSION_CODE}/qr`, {
+        headers: { host: "evil.example" },
+      }) as any,
+      { params: Promise.resolve({ code: SESSION_CODE }) },
+    );
+
+  it("should encode the configured site URL, not the request host", async () => {
+    process.env.NEXTAUTH_URL = "https://hubbly.app/";
+
+    const response = await getQrCode();
+
+    expect(response.status).toBe(200);
+    expect(renderQrCode).toHaveBeenCalledWith(
+      `https://hubbly.app/session/${SESSION_CODE}`,
+      "svg",
+    );
+    expect(response.headers.get("Cache-Control")).toBe("public, max-age=3600");
+  });
+
+  it("should only cache privately without a configured site URL", async () => {
+    delete process.env.NEXTAUTH_URL;
+
+    const response = await getQrCode();
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("Cache-Control")).toBe("private, max-age=3600");
+  });
+});
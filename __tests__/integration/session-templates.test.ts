@@ -0,0 +1,383 @@
+/**
+ * Integration tests for session templates and cloning
+ * /api/templates, /api/templates/[id], /api/templates/[id]/sessions and
+ * POST /api/sessions/[code]/clone
+ * @jest-environment node
+ */
+
+// Mock NextAuth and auth before any imports
+jest.mock("next-auth", () => ({
+  getServerSession: jest.fn(),
+}));
+
+jest.mock("@/lib/auth", () => ({
+  authOptions: {},
+}));
+
+jest.mock("@/lib/logger", () => ({
+  logger: {
+    error: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+// Mock prisma to use test database
+jest.mock("@/lib/db", () => {
+  const { getTestDb } = require("../setup/test-db");
+  return {
+    prisma: getTestDb(),
+  };
+});
+
+import {
+  GET as listTemplates,
+  POST as saveTemplate,
+} from "@/app/api/templates/route";
+import { DELETE as deleteTemplate } from "@/app/api/templates/[id]/route";
+import { POST as createFromTemplate } from "@/app/api/templates/[id]/sessions/route";
+import { POST as cloneSession } from "@/app/api/sessions/[code]/clone/route";
+import { hashPasscode } from "@/lib/session-access";
+import { NextRequest } from "next/server";
+import { getTestDb, resetTestDb, closeTestDb } from "../setup/test-db";
+import { v4 as uuidv4 } from "uuid";
+import { getServerSession } from "next-auth";
+
+const mockedGetServerSession = getServerSession as jest.MockedFunction<
+  typeof getServerSession
+>;
+
+const SESSION_CODE = "WEEKLY";
+const HOUR_MS = 60 * 60 * 1000;
+
+describe("Session Templates Integration Tests", () => {
+  const db = getTestDb();
+  let host: { id: string; email: string };
+  let sessionId: string;
+
+  beforeEach(async () => {
+    await resetTestDb();
+
+    host = await db.user.create({
+      data: {
+        id: uuidv4(),
+        email: "host@example.com",
+        name: "Test Host",
+      },
+    });
+
+    const createdAt = new Date();
+    const session = await db.qaSession.create({
+      data: {
+        code: SESSION_CODE,
+        title: "Weekly AMA",
+        description: "Ask the leadership team anything",
+        hostId: host.id,
+        createdAt,
+        expiresAt: new Date(createdAt.getTime() + 2 * HOUR_MS),
+        requireApproval: true,
+        allowReplies: true,
+        questionRateLimit: 3,
+        pulseScale: [
+          { value: 1, label: "Bad" },
+          { value: 2, label: "Good" },
+        ],
+        accessMode: "passcode",
+        accessPasscodeHash: await hashPasscode("allhands"),
+      },
+    });
+    sessionId = session.id;
+
+    signInAs(host.id, host.email);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  afterAll(async () => {
+    await closeTestDb();
+  });
+
+  const signInAs = (id: string, email: string) =>
+    mockedGetServerSession.mockResolvedValue({
+      user: { id, email, name: "Test Host" },
+      expires: new Date(Date.now() + HOUR_MS).toISOString(),
+    });
+
+  const jsonRequest = (url: string, body: unknown) =>
+    new NextRequest(`http://localhost:3000${url}`, {
+      method: "POST",
+      body: JSON.stringify(body),
+      headers: { "Content-Type": "application/json" },
+    }) as any;
+
+  const save = (body: unknown) =>
+    saveTemplate(jsonRequest("/api/templates", body));
+
+  const createFrom = (templateId: string, body: unknown = {}) =>
+    createFromTemplate(
+      jsonRequest(`/api/templates/${templateId}/sessions`, body),
+      { params: Promise.resolve({ id: templateId }) },
+    );
+
+  const clone = (body: unknown = {}) =>
+    cloneSession(jsonRequest(`/api/sessions/${SESSION_CODE}/clone`, body), {
+      params: Promise.resolve({ code: SESSION_CODE }),
+    });
+
+  describe("saving templates", () => {
+    it("should save the session's title, description and settings", async () => {
+      const response = await save({
+        sessionCode: SESSION_CODE.toLowerCase(),
+        name: "Weekly AMA template",
+      });
+      const data = await response.json();
+
+      expect(response.status).toBe(201);
+      expect(data.template).toMatchObject({
+        name: "Weekly AMA template",
+        title: "Weekly AMA",
+        description: "Ask the leadership team anything",
+        requireApproval: true,
+        allowReplies: true,
+        accessMode: "passcode",
+        durationHours: 2,
+      });
+      expect(data.template.accessPasscodeHash).toBeUndefined();
+
+      const stored = await db.sessionTemplate.findUniqueOrThrow({
+        where: { id: data.template.id },
+      });
+      expect(stored.hostId).toBe(host.id);
+      expect(stored.questionRateLimit).toBe(3);
+      expect(stored.pulseScale).toEqual([
+        { value: 1, label: "Bad" },
+        { value: 2, label: "Good" },
+      ]);
+      expect(stored.accessPasscodeHash).toBeTruthy();
+    });
+
+    it("should name the template after the session by default", async () => {
+      const response = await save({ sessionCode: SESSION_CODE });
+      const data = await response.json();
+
+      expect(response.status).toBe(201);
+      expect(data.template.name).toBe("Weekly AMA");
+    });
+
+    it("should require sign-in and access to the session", async () => {
+      mockedGetServerSession.mockResolvedValue(null);
+      expect((await save({ sessionCode: SESSION_CODE })).status).toBe(401);
+
+      const other = await db.user.create({
+        data: { id: uuidv4(), email: "other@example.com" },
+      });
+      signInAs(other.id, other.email);
+      expect((await save({ sessionCode: SESSION_CODE })).status).toBe(403);
+
+      signInAs(host.id, host.email);
+      expect((await save({ sessionCode: "NOPE00" })).status).toBe(404);
+    });
+
+    it("should reject blank template names", async () => {
+      const response = await save({ sessionCode: SESSION_CODE, name: " " });
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.field).toBe("name");
+    });
+  });
+
+  describe("listing and deleting templates", () => {
+    it("should only list the signed-in user's templates", async () => {
+      const other = await db.user.create({
+        data: { id: uuidv4(), email: "other@example.com" },
+      });
+      await db.sessionTemplate.create({
+        data: { hostId: other.id, name: "Theirs", title: "Their session" },
+      });
+      await save({ sessionCode: SESSION_CODE, name: "Mine" });
+
+      const response = await listTemplates();
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.templates.map((t: { name: string }) => t.name)).toEqual([
+        "Mine",
+      ]);
+    });
+
+    it("should only let the owner delete a template", async () => {
+      const { template } = await (
+        await save({ sessionCode: SESSION_CODE })
+      ).json();
+      const request = () =>
+        deleteTemplate(
+          new NextRequest(
+            `http://localhost:3000/api/templates/${template.id}`,
+            {
+              method: "DELETE",
+            },
+          ) as any,
+          { params: Promise.resolve({ id: template.id }) },
+        );
+
+      const other = await db.user.create({
+        data: { id: uuidv4(), email: "other@example.com" },
+      });
+      signInAs(other.id, other.email);
+      expect((await request()).status).toBe(404);
+
+      signInAs(host.id, host.email);
+      expect((await request()).status).toBe(200);
+      expect(
+        await db.sessionTemplate.findUnique({ where: { id: template.id } }),
+      ).toBeNull();
+    });
+  });
+
+  describe("creating sessions from templates", () => {
+    it("should create a session with the template's settings", async () => {
+      const { template } = await (
+        await save({ sessionCode: SESSION_CODE })
+      ).json();
+
+      const response = await createFrom(template.id, {
+        title: "Weekly AMA - week 2",
+      });
+      const data = await response.json();
+
+      expect(response.status).toBe(201);
+      expect(data.session.title).toBe("Weekly AMA - week 2");
+      expect(data.session.description).toBe("Ask the leadership team anything");
+      expect(data.session.code).not.toBe(SESSION_CODE);
+      expect(data.session.requireApproval).toBe(true);
+
+      const created = await db.qaSession.findUniqueOrThrow({
+        where: { id: data.session.id },
+      });
+      expect(created.hostId).toBe(host.id);
+      expect(created.allowReplies).toBe(true);
+      expect(created.questionRateLimit).toBe(3);
+      expect(created.accessMode).toBe("passcode");
+      expect(created.contentFilter).toBeNull();
+      expect(
+        created.expiresAt.getTime() - created.createdAt.getTime(),
+      ).toBeCloseTo(2 * HOUR_MS, -4);
+    });
+
+    it("should not create sessions from another user's template", async () => {
+      const other = await db.user.create({
+        data: { id: uuidv4(), email: "other@example.com" },
+      });
+      const template = await db.sessionTemplate.create({
+        data: { hostId: other.id, name: "Theirs", title: "Their session" },
+      });
+
+      expect((await createFrom(template.id)).status).toBe(404);
+    });
+
+    it("should validate the schedule", async () => {
+      const { template } = await (
+        await save({ sessionCode: SESSION_CODE })
+      ).json();
+
+      const response = await createFrom(template.id, { durationHours: -1 });
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.errors).toEqual([
+        expect.objectContaining({ field: "durationHours" }),
+      ]);
+    });
+  });
+
+  describe("cloning sessions", () => {
+    beforeEach(async () => {
+      await db.question.createMany({
+        data: [
+          { sessionId, content: "Pending question", status: "pending" },
+          {
+            sessionId,
+            content: "Approved question",
+            status: "approved",
+            voteCount: 5,
+            participantId: "participant-1",
+          },
+          { sessionId, content: "Live question", status: "being_answered" },
+          { sessionId, content: "Answered question", status: "answered" },
+          { sessionId, content: "Dismissed question", status: "dismissed" },
+        ],
+      });
+    });
+
+    it("should copy settings without questions by default", async () => {
+      const response = await clone();
+      const data = await response.json();
+
+      expect(response.status).toBe(201);
+      expect(data.carriedOverQuestions).toBe(0);
+      expect(data.session.title).toBe("Weekly AMA");
+
+      const created = await db.qaSession.findUniqueOrThrow({
+        where: { id: data.session.id },
+        include: { questions: true },
+      });
+      expect(created.requireApproval).toBe(true);
+      expect(created.accessMode).toBe("passcode");
+      expect(created.questions).toHaveLength(0);
+    });
+
+    it("should carry over unanswered questions without their votes", async () => {
+      const response = await clone({ includeQuestions: true });
+      const data = await response.json();
+
+      expect(response.status).toBe(201);
+      expect(data.carriedOverQuestions).toBe(3);
+
+      const questions = await db.question.findMany({
+        where: { sessionId: data.session.id },
+        orderBy: { content: "asc" },
+      });
+      expect(
+        questions.map(({ content, status }) => ({ content, status })),
+      ).toEqual([
+        { content: "Approved question", status: "approved" },
+        { content: "Live question", status: "approved" },
+        { content: "Pending question", status: "pending" },
+      ]);
+      expect(questions.every((q) => q.voteCount === 0)).toBe(true);
+      expect(questions.every((q) => q.participantId === null)).toBe(true);
+
+      const events = await db.questionEvent.findMany({
+        where: { sessionId: data.session.id },
+      });
+      expect(events).toHaveLength(3);
+      expect(events[0]).toMatchObject({
+        type: "created",
+        actorType: "host",
+        actorUserId: host.id,
+      });
+    });
+
+    it("should only let owners and co-hosts clone", async () => {
+      const moderator = await db.user.create({
+        data: { id: uuidv4(), email: "mod@example.com" },
+      });
+      await db.sessionMember.create({
+        data: {
+          sessionId,
+          userId: moderator.id,
+          email: moderator.email,
+          role: "moderator",
+          invitedById: host.id,
+        },
+      });
+      signInAs(moderator.id, moderator.email);
+
+      expect((await clone()).status).toBe(403);
+    });
+  });
+});
@@ -0,0 +1,23 @@
+/**
+ * Participant Token Helpers
+ *
+ * Request headers carrying a participant's signed token, for testing
+ * participant routes
+ */
+
+import {
+  createParticipantToken,
+  getParticipantCookieName,
+} from "@/lib/participant-token";
+
+/**
+ * Cookie header for a participant in a session
+ */
+export function participantHeaders(
+  sessionCode: string,
+  participantId: string,
+): Record<string, string> {
+  return {
+    cookie: `${getParticipantCookieName(sessionCode)}=${createParticipantToken(sessionCode, participantId)}`,
+  };
+}
@@ -42,7 +42,18 @@ export async function resetTestDb(): Promise<void> {
 
     // Clear all tables in correct order (child tables first)
     await db.vote.deleteMany().catch(() => {}); // Ignore if table doesn't exist
+    await db.questionReply.deleteMany().catch(() => {});
+    await db.questionEvent.deleteMany().catch(() => {});
     await db.question.deleteMany().catch(() => {});
+    await db.cluster.deleteMany().catch(() => {});
+    await db.pollSelection.deleteMany().catch(() => {});
+    await db.pollResponse.deleteMany().catch(() => {});
+    await db.pollOption.deleteMany().catch(() => {});
+    await db.poll.deleteMany().catch(() => {});
+    await db.sessionMember.deleteMany().catch(() => {});
+    await db.participantIdentity.deleteMany().catch(() => {});
+    await db.rateLimitCounter.deleteMany().catch(() => {});
+    await db.sessionTemplate.deleteMany().catch(() => {});
     await db.qaSession.deleteMany().catch(() => {});
     await db.session.deleteMany().catch(() => {}); // NextAuth sessions
     await db.account.deleteMany().catch(() => {}); // NextAuth accounts
@@ -54,7 +54,12 @@ export class UserFactory {
 export class SessionFactory {
   static async create(
     db: PrismaClient,
-    overrides: Partial<QaSession & { hostId: string }> = {},
+    overrides: Partial<
+      Omit<
+        QaSession,
+        "contentFilter" | "pulseScale" | "allowedEmailDomains"
+      > & { hostId: string }
+    > = {},
   ) {
     const code = await generateUniqueSessionCode(db);
     const timestamp = Date.now();
@@ -0,0 +1,169 @@
+/**
+ * Unit tests for environment-configured sign-in providers
+ * @jest-environment node
+ */
+
+import {
+  authorizeDevLogin,
+  DEV_LOGIN_PROVIDER_ID,
+  getAuthProviders,
+  hasVerifiedEmail,
+  isDevLoginEnabled,
+} from "@/lib/auth-providers";
+
+jest.mock("@/lib/db", () => ({
+  prisma: {},
+}));
+
+// NextAuth applies options like a custom id when it loads the providers
+const providerIds = (env: Record<string, string | undefined>) =>
+  getAuthProviders(env).map(
+    (provider) =>
+      (provider.options as { id?: string } | undefined)?.id ?? provider.id,
+  );
+
+describe("Auth Providers", () => {
+  describe("getAuthProviders", () => {
+    it("should configure no providers without credentials", () => {
+      expect(providerIds({})).toEqual([]);
+    });
+
+    it("should only enable providers with complete credentials", () => {
+      expect(
+        providerIds({
+          GOOGLE_CLIENT_ID: "google-id",
+          GOOGLE_CLIENT_SECRET: "google-secret",
+          GITHUB_CLIENT_ID: "github-id",
+          AZURE_AD_CLIENT_ID: "azure-id",
+          AZURE_AD_CLIENT_SECRET: "azure-secret",
+        }),
+      ).toEqual(["google"]);
+    });
+
+    it("should enable every configured provider", () => {
+      expect(
+        providerIds({
+          GOOGLE_CLIENT_ID: "google-id",
+          GOOGLE_CLIENT_SECRET: "google-secret",
+          GITHUB_CLIENT_ID: "github-id",
+          GITHUB_CLIENT_SECRET: "github-secret",
+          AZURE_AD_CLIENT_ID: "azure-id",
+          AZURE_AD_CLIENT_SECRET: "azure-secret",
+          AZURE_AD_TENANT_ID: "tenant",
+          OIDC_ISSUER: "https://sso.example.com/",
+          OIDC_CLIENT_ID: "oidc-id",
+          OIDC_CLIENT_SECRET: "oidc-secret",
+          EMAIL_SERVER: "smtp://localhost:25",
+          EMAIL_FROM: "Hubbly <no-reply@example.com>",
+        }),
+      ).toEqual(["google", "github", "azure-ad", "oidc", "email"]);
+    });
+
+    it("should discover OIDC endpoints from the issuer", () => {
+      const [provider] = getAuthProviders({
+        OIDC_ISSUER: "https://sso.example.com/",
+        OIDC_CLIENT_ID: "oidc-id",
+        OIDC_CLIENT_SECRET: "oidc-secret",
+        OIDC_NAME: "Example SSO",
+      });
+
+      expect(provider).toMatchObject({
+        name: "Example SSO",
+        wellKnown: "https://sso.example.com/.well-known/openid-configuration",
+      });
+    });
+  });
+
+  describe("hasVerifiedEmail", () => {
+    it("should refuse OpenID Connect sign-ins with unverified emails", () => {
+      const profile = { sub: "1", email: "ceo@example.com" };
+
+      expect(hasVerifiedEmail("oidc", profile)).toBe(false);
+      expect(
+        hasVerifiedEmail("oidc", { ...profile, email_verified: false }),
+      ).toBe(false);
+      expect(hasVerifiedEmail("azure-ad", profile)).toBe(false);
+      expect(
+        hasVerifiedEmail("google", { ...profile, email_verified: false }),
+      ).toBe(false);
+      expect(hasVerifiedEmail("oidc", undefined)).toBe(false);
+    });
+
+    it("should allow OpenID Connect sign-ins with verified emails", () => {
+      const profile = { sub: "1", email: "ceo@example.com" };
+
+      expect(
+        hasVerifiedEmail("oidc", { ...profile, email_verified: true }),
+      ).toBe(true);
+      expect(
+        hasVerifiedEmail("oidc", { ...profile, email_verified: "true" }),
+      ).toBe(true);
+      expect(hasVerifiedEmail("azure-ad", { ...profile, xms_edov: true })).toBe(
+        true,
+      );
+      expect(
+        hasVerifiedEmail("google", { ...profile, email_verified: true }),
+      ).toBe(true);
+    });
+
+    it("should allow providers that verify emails themselves", () => {
+      expect(hasVerifiedEmail("github", { email: "dev@example.com" })).toBe(
+        true,
+      );
+      expect(hasVerifiedEmail("email", undefined)).toBe(true);
+      expect(hasVerifiedEmail(DEV_LOGIN_PROVIDER_ID, undefined)).toBe(true);
+    });
+  });
+
+  describe("development login", () => {
+    it("should only be enabled outside production", () => {
+      expect(isDevLoginEnabled({ ENABLE_DEV_LOGIN: "true" })).toBe(true);
+      expect(
+        isDevLoginEnabled({ ENABLE_DEV_LOGIN: "true", NODE_ENV: "production" }),
+      ).toBe(false);
+      expect(isDevLoginEnabled({ ENABLE_DEV_LOGIN: "false" })).toBe(false);
+      expect(isDevLoginEnabled({})).toBe(false);
+    });
+
+    it("should add the credentials provider when enabled", () => {
+      expect(
+        providerIds({ ENABLE_DEV_LOGIN: "true", NODE_ENV: "test" }),
+      ).toEqual([DEV_LOGIN_PROVIDER_ID]);
+      expect(
+        providerIds({ ENABLE_DEV_LOGIN: "true", NODE_ENV: "production" }),
+      ).toEqual([]);
+    });
+
+    it("should sign in as the user with the given email", async () => {
+      const upsert = jest.fn().mockResolvedValue({
+        id: "user-1",
+        email: "host@example.com",
+        name: "host",
+      });
+      const db = { user: { upsert } } as any;
+
+      const user = await authorizeDevLogin(
+        { email: " Host@Example.com " },
+        { db },
+      );
+
+      expect(user).toEqual({
+        id: "user-1",
+        email: "host@example.com",
+        name: "host",
+      });
+      expect(upsert).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { email: "host@example.com" } }),
+      );
+    });
+
+    it("should refuse malformed email addresses", async () => {
+      const upsert = jest.fn();
+      const db = { user: { upsert } } as any;
+
+      expect(await authorizeDevLogin({ email: "host" }, { db })).toBeNull();
+      expect(await authorizeDevLogin(undefined, { db })).toBeNull();
+      expect(upsert).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,291 @@
+/**
+ * Unit tests for the question content filter
+ * @jest-environment node
+ */
+
+import {
+  applyContentFilter,
+  CONTENT_FILTER_LIMITS,
+  DEFAULT_CONTENT_FILTER,
+  getContentFilterRules,
+  parseContentFilterConfig,
+  validateContentFilterConfig,
+} from "@/lib/content-filter";
+import type { ContentFilterConfig } from "@/types/content-filter";
+
+const createConfig = (
+  overrides: Partial<ContentFilterConfig> = {},
+): ContentFilterConfig => ({
+  ...DEFAULT_CONTENT_FILTER,
+  profanity: false,
+  ...overrides,
+});
+
+describe("Content Filter", () => {
+  describe("getContentFilterRules", () => {
+    it("should only build the rules the config enables", () => {
+      expect(getContentFilterRules(createConfig())).toEqual([]);
+
+      const rules = getContentFilterRules(
+        createConfig({ profanity: true, blockLinks: true, blockPii: true }),
+      );
+      expect(rules.map((rule) => rule.type)).toEqual([
+        "word_list",
+        "links",
+        "pii",
+      ]);
+    });
+  });
+
+  describe("applyContentFilter", () => {
+    it("should allow everything when filtering is off", () => {
+      const result = applyContentFilter("Visit https://example.com", null);
+
+      expect(result.outcome).toBe("allow");
+      expect(result.content).toBe("Visit https://example.com");
+    });
+
+    it("should allow questions that match no rule", () => {
+      const result = applyContentFilter(
+        "What is the roadmap for next quarter?",
+        createConfig({ profanity: true, blockLinks: true, blockPii: true }),
+      );
+
+      expect(result.outcome).toBe("allow");
+      expect(result.violations).toEqual([]);
+    });
+
+    it("should reject profanity, including suffixed variants", () => {
+      const result = applyContentFilter(
+        "Why is this so FUCKING slow?",
+        createConfig({ profanity: true }),
+      );
+
+      expect(result.outcome).toBe("reject");
+      expect(result.violations).toHaveLength(1);
+      expect(result.violations[0].rule).toBe("word_list");
+    });
+
+    it("should match blocked words as whole words only", () => {
+      const config = createConfig({ blockedWords: ["ham", "rival corp"] });
+
+      expect(applyContentFilter("Is the hamster okay?", config).outcome).toBe(
+        "allow",
+      );
+      expect(applyContentFilter("Any ham left?", config).outcome).toBe(
+        "reject",
+      );
+      expect(
+        applyContentFilter("What about Rival  Corp pricing?", config).outcome,
+      ).toBe("reject");
+    });
+
+    it("should mask blocked words with asterisks", () => {
+      const result = applyContentFilter(
+        "Is the troll still trolling?",
+        createConfig({ action: "mask", blockedWords: ["troll"] }),
+      );
+
+      expect(result.outcome).toBe("mask");
+      expect(result.content).toBe("Is the ***** still ********?");
+    });
+
+    it("should mask links", () => {
+      const result = applyContentFilter(
+        "See https://example.com/docs and www.test.org for details",
+        createConfig({ action: "mask", blockLinks: true }),
+      );
+
+      expect(result.content).toBe(
+        "See [link removed] and [link removed] for details",
+      );
+    });
+
+    it("should block bare domains", () => {
+      const result = applyContentFilter(
+        "Have you seen example.io yet?",
+        createConfig({ blockLinks: true }),
+      );
+
+      expect(result.outcome).toBe("reject");
+      expect(result.violations[0].rule).toBe("links");
+    });
+
+    it("should mask email addresses and phone numbers", () => {
+      const result = applyContentFilter(
+        "Email jane.doe@example.com or call +1 (555) 123-4567",
+        createConfig({ action: "mask", blockPii: true }),
+      );
+
+      expect(result.content).toBe(
+        "Email [email removed] or call [phone removed]",
+      );
+    });
+
+    it("should not treat short numbers as phone numbers", () => {
+      const result = applyContentFilter(
+        "Will the 2025 budget grow by 15%?",
+        createConfig({ blockPii: true }),
+      );
+
+      expect(result.outcome).toBe("allow");
+    });
+
+    it("should keep the email match when a link rule overlaps it", () => {
+      const result = applyContentFilter(
+        "Contact me at jane@example.com",
+        createConfig({ action: "mask", blockLinks: true, blockPii: true }),
+      );
+
+      expect(result.content).toBe("Contact me at [email removed]");
+      expect(result.violations.map((v) => v.rule)).toEqual(["links", "pii"]);
+    });
+
+    it("should apply custom patterns case-insensitively", () => {
+      const result = applyContentFilter(
+        "My ticket is TICKET-1234.",
+        createConfig({ action: "mask", blockedPatterns: ["ticket-*"] }),
+      );
+
+      expect(result.content).toBe("My ticket is ***********.");
+    });
+
+    it("should match multi-word patterns and single-character wildcards", () => {
+      const result = applyContentFilter(
+        "When is Project Falcon shipping? Is v2 out?",
+        createConfig({
+          action: "mask",
+          blockedPatterns: ["project falc*", "v?"],
+        }),
+      );
+
+      expect(result.content).toBe(
+        "When is ************** shipping? Is ** out?",
+      );
+    });
+
+    it("should treat regular expression syntax literally", () => {
+      const result = applyContentFilter(
+        "My ticket is TICKET-1234",
+        createConfig({ blockedPatterns: ["ticket-\\d+"] }),
+      );
+
+      expect(result.outcome).toBe("allow");
+    });
+
+    it("should finish quickly on patterns that backtrack catastrophically as regexes", () => {
+      const content = `${"a".repeat(499)}!`;
+      const started = Date.now();
+
+      const result = applyContentFilter(
+        content,
+        createConfig({
+          blockedPatterns: [
+            "(a+)+$",
+            `${"*a".repeat(CONTENT_FILTER_LIMITS.maxPatternLength / 2 - 1)}b`,
+          ],
+        }),
+      );
+
+      expect(result.outcome).toBe("allow");
+      expect(Date.now() - started).toBeLessThan(500);
+    });
+
+    it("should hold matching questions for review without changing them", () => {
+      const result = applyContentFilter(
+        "Check out https://example.com",
+        createConfig({ action: "review", blockLinks: true }),
+      );
+
+      expect(result.outcome).toBe("review");
+      expect(result.content).toBe("Check out https://example.com");
+    });
+  });
+
+  describe("validateContentFilterConfig", () => {
+    it("should accept null to turn filtering off", () => {
+      const result = validateContentFilterConfig(null);
+
+      expect(result.isValid).toBe(true);
+      expect(result.config).toBeNull();
+    });
+
+    it("should normalise a valid config", () => {
+      const result = validateContentFilterConfig({
+        action: "mask",
+        blockLinks: true,
+        blockedWords: [" Spoiler ", "spoiler", "", "leak"],
+        blockedPatterns: ["  build-v*  "],
+      });
+
+      expect(result.isValid).toBe(true);
+      expect(result.config).toEqual({
+        action: "mask",
+        profanity: false,
+        blockedWords: ["Spoiler", "leak"],
+        blockedPatterns: ["build-v*"],
+        blockLinks: true,
+        blockPii: false,
+      });
+    });
+
+    it("should reject non-objects and unknown actions", () => {
+      expect(validateContentFilterConfig("reject").isValid).toBe(false);
+      expect(validateContentFilterConfig(undefined).isValid).toBe(false);
+
+      const result = validateContentFilterConfig({ action: "delete" });
+      expect(result.isValid).toBe(false);
+      expect(result.errors.action).toBeDefined();
+    });
+
+    it("should reject non-boolean toggles", () => {
+      const result = validateContentFilterConfig({
+        action: "reject",
+        blockPii: "yes",
+      });
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors.blockPii).toBeDefined();
+    });
+
+    it("should reject patterns that are only wildcards", () => {
+      const result = validateContentFilterConfig({
+        action: "reject",
+        blockedPatterns: ["valid", "* ?"],
+      });
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors.blockedPatterns).toBe("Invalid pattern: * ?");
+    });
+
+    it("should enforce list and length limits", () => {
+      const tooManyWords = Array.from(
+        { length: CONTENT_FILTER_LIMITS.maxBlockedWords + 1 },
+        (_, i) => `word${i}`,
+      );
+      const longPattern = "a".repeat(
+        CONTENT_FILTER_LIMITS.maxPatternLength + 1,
+      );
+
+      const result = validateContentFilterConfig({
+        action: "reject",
+        blockedWords: tooManyWords,
+        blockedPatterns: [longPattern],
+      });
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors.blockedWords).toBeDefined();
+      expect(result.errors.blockedPatterns).toBeDefined();
+    });
+  });
+
+  describe("parseContentFilterConfig", () => {
+    it("should read stored configs and ignore invalid ones", () => {
+      const config = createConfig({ blockLinks: true });
+
+      expect(parseContentFilterConfig(config)).toEqual(config);
+      expect(parseContentFilterConfig(null)).toBeNull();
+      expect(parseContentFilterConfig({ action: "unknown" })).toBeNull();
+    });
+  });
+});
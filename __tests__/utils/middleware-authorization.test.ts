@@ -2,8 +2,20 @@
  * Middleware Authorization Business Logic Tests
  * Tests the authorization rules for route protection
  * Target: src/middleware.ts (authorization callback logic)
+ * @jest-environment node
  */
 
+import { unstable_doesMiddlewareMatch } from "next/experimental/testing/server";
+import { config } from "@/middleware";
+
+jest.mock("next-auth/middleware", () => ({
+  withAuth: jest.fn(),
+}));
+
+// Whether the middleware (and so the sign-in check) runs for a path
+const isProtected = (path: string) =>
+  unstable_doesMiddlewareMatch({ config, url: path });
+
 describe("Middleware Authorization Business Logic", () => {
   describe("Authorization Callback", () => {
     it("should authorize users with valid tokens", () => {
@@ -65,6 +77,7 @@ describe("Middleware Authorization Business Logic", () => {
 
       const matcher = [
         "/create/:path*",
+        "/sessions/:path*",
         "/session/:path*/host/:path*",
         "/api/sessions",
       ];
@@ -87,6 +100,13 @@ describe("Middleware Authorization Business Logic", () => {
       });
     });
 
+    it("should protect the host session history page", () => {
+      // Test business rule: "/sessions" (My sessions) requires authentication
+      expect(isProtected("/sessions")).toBe(true);
+      expect(isProtected("/sessions/expired")).toBe(true);
+      expect(isProtected("/session/ABC123")).toBe(false);
+    });
+
     it("should protect session API routes", () => {
       // Test business rule: "/api/sessions" requires authentication
       const protectedPath = "/api/sessions";
@@ -105,6 +125,7 @@ describe("Middleware Authorization Business Logic", () => {
 
       const matcher = [
         "/create/:path*",
+        "/sessions/:path*",
         "/session/:path*/host/:path*",
         "/api/sessions",
       ];
@@ -0,0 +1,209 @@
+/**
+ * Participant Token Tests
+ * Tests signing participant IDs and resolving them from requests
+ * @jest-environment node
+ */
+
+jest.mock("next-auth", () => ({
+  getServerSession: jest.fn(),
+}));
+
+jest.mock("@/lib/auth", () => ({
+  authOptions: {},
+}));
+
+jest.mock("@/lib/db", () => ({
+  prisma: {
+    participantIdentity: { findFirst: jest.fn() },
+  },
+}));
+
+import {
+  clearParticipantCookies,
+  createParticipantToken,
+  getParticipant,
+  getParticipantCookieName,
+  verifyParticipantToken,
+} from "@/lib/participant-token";
+import { NextRequest } from "next/server";
+import { getServerSession } from "next-auth";
+import { prisma } from "@/lib/db";
+
+const mockedGetServerSession = getServerSession as jest.MockedFunction<
+  typeof getServerSession
+>;
+const mockedFindIdentity = prisma.participantIdentity
+  .findFirst as unknown as jest.Mock;
+
+const PARTICIPANT_ID = "3f2b8c1e-9a4d-4e6f-8b7a-1c2d3e4f5a6b";
+const OTHER_ID = "7a6b5c4d-3e2f-4a1b-9c8d-7e6f5a4b3c2d";
+
+const requestWithToken = (token?: string) =>
+  new NextRequest("http://localhost/api/test", {
+    headers: token
+      ? { cookie: `${getParticipantCookieName("ABC123")}=${token}` }
+      : {},
+  });
+
+describe("Participant Tokens", () => {
+  describe("verifyParticipantToken", () => {
+    it("should accept a token issued for the session", () => {
+      const token = createParticipantToken("ABC123", PARTICIPANT_ID);
+
+      expect(verifyParticipantToken(token, "ABC123")).toBe(PARTICIPANT_ID);
+    });
+
+    it("should ignore the case of the session code", () => {
+      const token = createParticipantToken("abc123", PARTICIPANT_ID);
+
+      expect(verifyParticipantToken(token, "ABC123")).toBe(PARTICIPANT_ID);
+    });
+
+    it("should reject tokens issued for another session", () => {
+      const token = createParticipantToken("XYZ789", PARTICIPANT_ID);
+
+      expect(verifyParticipantToken(token, "ABC123")).toBeNull();
+    });
+
+    it("should reject a signature moved onto another participant ID", () => {
+      const signature = createParticipantToken("ABC123", PARTICIPANT_ID).split(
+        ".",
+      )[1];
+
+      expect(
+        verifyParticipantToken(`${OTHER_ID}.${signature}`, "ABC123"),
+      ).toBeNull();
+    });
+
+    it("should reject malformed tokens", () => {
+      expect(verifyParticipantToken(undefined, "ABC123")).toBeNull();
+      expect(verifyParticipantToken("", "ABC123")).toBeNull();
+      expect(verifyParticipantToken(PARTICIPANT_ID, "ABC123")).toBeNull();
+      expect(verifyParticipantToken("not-a-uuid.abc", "ABC123")).toBeNull();
+    });
+  });
+
+  describe("getParticipant", () => {
+    beforeEach(() => {
+      mockedFindIdentity.mockResolvedValue(null);
+      mockedGetServerSession.mockResolvedValue(null);
+    });
+
+    afterEach(() => {
+      jest.clearAllMocks();
+    });
+
+    it("should return the participant ID from the token", async () => {
+      const result = await getParticipant(
+        requestWithToken(createParticipantToken("ABC123", PARTICIPANT_ID)),
+        "ABC123",
+      );
+
+      expect(result).toEqual({ participantId: PARTICIPANT_ID });
+    });
+
+    it("should accept a matching participant ID in the body", async () => {
+      const result = await getParticipant(
+        requestWithToken(createParticipantToken("ABC123", PARTICIPANT_ID)),
+        "ABC123",
+        PARTICIPANT_ID,
+      );
+
+      expect(result).toEqual({ participantId: PARTICIPANT_ID });
+    });
+
+    it("should return 401 without a valid token", async () => {
+      const result = await getParticipant(requestWithToken(), "ABC123");
+
+      expect("error" in result && result.error.status).toBe(401);
+    });
+
+    it("should return 403 when the body claims another participant", async () => {
+      const result = await getParticipant(
+        requestWithToken(createParticipantToken("ABC123", PARTICIPANT_ID)),
+        "ABC123",
+        OTHER_ID,
+      );
+
+      expect("error" in result && result.error.status).toBe(403);
+    });
+
+    it("should return 400 for a malformed participant ID in the body", async () => {
+      const result = await getParticipant(
+        requestWithToken(createParticipantToken("ABC123", PARTICIPANT_ID)),
+        "ABC123",
+        "not-a-uuid",
+      );
+
+      expect("error" in result && result.error.status).toBe(400);
+    });
+
+    it("should accept a linked participant ID while its account is signed in", async () => {
+      mockedFindIdentity.mockResolvedValue({ userId: "user-1" });
+      mockedGetServerSession.mockResolvedValue({
+        user: { id: "user-1" },
+        expires: new Date(Date.now() + 60000).toISOString(),
+      });
+
+      const result = await getParticipant(
+        requestWithToken(createParticipantToken("ABC123", PARTICIPANT_ID)),
+        "abc123",
+      );
+
+      expect(result).toEqual({ participantId: PARTICIPANT_ID });
+      expect(mockedFindIdentity).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            participantId: PARTICIPANT_ID,
+            qaSession: { code: "ABC123" },
+          },
+        }),
+      );
+    });
+
+    it("should return 401 for a linked participant ID after its account signs out", async () => {
+      mockedFindIdentity.mockResolvedValue({ userId: "user-1" });
+
+      const signedOut = await getParticipant(
+        requestWithToken(createParticipantToken("ABC123", PARTICIPANT_ID)),
+        "ABC123",
+      );
+
+      mockedGetServerSession.mockResolvedValue({
+        user: { id: "user-2" },
+        expires: new Date(Date.now() + 60000).toISOString(),
+      });
+      const otherAccount = await getParticipant(
+        requestWithToken(createParticipantToken("ABC123", PARTICIPANT_ID)),
+        "ABC123",
+      );
+
+      expect("error" in signedOut && signedOut.error.status).toBe(401);
+      expect("error" in otherAccount && otherAccount.error.status).toBe(401);
+    });
+  });
+
+  describe("clearParticipantCookies", () => {
+    it("should expire every session's participant token and nothing else", () => {
+      const req = new NextRequest("http://localhost:3000/api/auth/signout", {
+        headers: {
+          cookie: [
+            `${getParticipantCookieName("ABC123")}=token-a`,
+            `${getParticipantCookieName("XYZ789")}=token-b`,
+            "next-auth.session-token=session",
+          ].join("; "),
+        },
+      });
+      const headers = new Headers();
+      headers.append("Set-Cookie", "next-auth.session-token=; Max-Age=0");
+
+      clearParticipantCookies(req, headers);
+
+      expect(headers.getSetCookie()).toEqual([
+        "next-auth.session-token=; Max-Age=0",
+        "qa_participant_ABC123=; Path=/; Max-Age=0; HttpOnly; SameSite=Lax",
+        "qa_participant_XYZ789=; Path=/; Max-Age=0; HttpOnly; SameSite=Lax",
+      ]);
+    });
+  });
+});
@@ -0,0 +1,189 @@
+/**
+ * Unit tests for poll validation and tallying
+ * @jest-environment node
+ */
+
+import {
+  getPollAnswerError,
+  tallyPollResults,
+  toPollResponseData,
+  validatePollInput,
+} from "@/lib/polls";
+import type { PollType } from "@/types/poll";
+
+const makePoll = (
+  type: PollType,
+  responses: Array<{
+    participantId: string;
+    rating?: number;
+    optionIds?: string[];
+  }> = [],
+) => ({
+  id: "poll1",
+  sessionId: "session1",
+  question: "Which topic next?",
+  type,
+  status: "open" as const,
+  createdAt: new Date("2026-01-01T09:00:00.000Z"),
+  updatedAt: new Date("2026-01-01T09:00:00.000Z"),
+  openedAt: new Date("2026-01-01T09:01:00.000Z"),
+  closedAt: null,
+  options:
+    type === "rating"
+      ? []
+      : [
+          { id: "a", pollId: "poll1", label: "Pricing", position: 0 },
+          { id: "b", pollId: "poll1", label: "Roadmap", position: 1 },
+          { id: "c", pollId: "poll1", label: "Hiring", position: 2 },
+        ],
+  responses: responses.map((response) => ({
+    participantId: response.participantId,
+    rating: response.rating ?? null,
+    selections: (response.optionIds ?? []).map((optionId) => ({ optionId })),
+  })),
+});
+
+describe("Polls", () => {
+  describe("validatePollInput", () => {
+    it("should accept a multiple choice poll", () => {
+      const result = validatePollInput({
+        question: "Which topic next?",
+        type: "multiple_choice",
+        options: ["Pricing", "Roadmap"],
+      });
+
+      expect(result.isValid).toBe(true);
+    });
+
+    it("should not require options for rating polls", () => {
+      const result = validatePollInput({
+        question: "How was the talk?",
+        type: "rating",
+      });
+
+      expect(result.isValid).toBe(true);
+    });
+
+    it("should reject a missing question and unknown type", () => {
+      const result = validatePollInput({
+        question: "  ",
+        type: "ranking" as PollType,
+      });
+
+      expect(result.errors.map((e) => e.field)).toEqual(["question", "type"]);
+    });
+
+    it("should reject too few, empty or duplicate options", () => {
+      const base = { question: "Pick one", type: "multi_select" as const };
+
+      expect(validatePollInput({ ...base, options: ["Only"] }).isValid).toBe(
+        false,
+      );
+      expect(validatePollInput({ ...base, options: ["A", " "] }).isValid).toBe(
+        false,
+      );
+      expect(
+        validatePollInput({ ...base, options: ["Yes", "yes "] }).errors[0]
+          .message,
+      ).toBe("Options must be unique");
+    });
+  });
+
+  describe("getPollAnswerError", () => {
+    const choicePoll = {
+      type: "multiple_choice" as const,
+      options: [{ id: "a" }, { id: "b" }],
+    };
+
+    it("should accept a single known option", () => {
+      expect(getPollAnswerError(choicePoll, { optionIds: ["a"] })).toBeNull();
+    });
+
+    it("should only allow one option for multiple choice", () => {
+      expect(getPollAnswerError(choicePoll, { optionIds: ["a", "b"] })).toBe(
+        "Choose only one option",
+      );
+    });
+
+    it("should allow several options for multi-select", () => {
+      expect(
+        getPollAnswerError(
+          { ...choicePoll, type: "multi_select" },
+          { optionIds: ["a", "b"] },
+        ),
+      ).toBeNull();
+    });
+
+    it("should reject unknown or repeated options", () => {
+      expect(getPollAnswerError(choicePoll, { optionIds: ["z"] })).toBe(
+        "Unknown poll option",
+      );
+      expect(
+        getPollAnswerError(
+          { ...choicePoll, type: "multi_select" },
+          { optionIds: ["a", "a"] },
+        ),
+      ).toBe("Options can only be chosen once");
+    });
+
+    it("should require a whole rating within the scale", () => {
+      const ratingPoll = { type: "rating" as const, options: [] };
+
+      expect(getPollAnswerError(ratingPoll, { rating: 4 })).toBeNull();
+      expect(getPollAnswerError(ratingPoll, { rating: 0 })).not.toBeNull();
+      expect(getPollAnswerError(ratingPoll, { rating: 6 })).not.toBeNull();
+      expect(getPollAnswerError(ratingPoll, { rating: 2.5 })).not.toBeNull();
+    });
+  });
+
+  describe("tallyPollResults", () => {
+    it("should count selections per option", () => {
+      const results = tallyPollResults(
+        makePoll("multi_select", [
+          { participantId: "p1", optionIds: ["a", "b"] },
+          { participantId: "p2", optionIds: ["b"] },
+        ]),
+      );
+
+      expect(results.totalResponses).toBe(2);
+      expect(results.options.map((o) => [o.label, o.count])).toEqual([
+        ["Pricing", 1],
+        ["Roadmap", 2],
+        ["Hiring", 0],
+      ]);
+      expect(results.averageRating).toBeNull();
+    });
+
+    it("should bucket ratings and average them", () => {
+      const results = tallyPollResults(
+        makePoll("rating", [
+          { participantId: "p1", rating: 5 },
+          { participantId: "p2", rating: 4 },
+          { participantId: "p3", rating: 4 },
+        ]),
+      );
+
+      expect(results.options.map((o) => o.count)).toEqual([0, 0, 0, 2, 1]);
+      expect(results.averageRating).toBe(4.3);
+    });
+
+    it("should report no average for a rating poll without responses", () => {
+      expect(tallyPollResults(makePoll("rating")).averageRating).toBeNull();
+    });
+  });
+
+  describe("toPollResponseData", () => {
+    const poll = makePoll("multiple_choice", [
+      { participantId: "p1", optionIds: ["a"] },
+    ]);
+
+    it("should report whether the participant responded", () => {
+      expect(toPollResponseData(poll, "p1").hasResponded).toBe(true);
+      expect(toPollResponseData(poll, "p2").hasResponded).toBe(false);
+    });
+
+    it("should leave hasResponded out of the host view", () => {
+      expect(toPollResponseData(poll)).not.toHaveProperty("hasResponded");
+    });
+  });
+});
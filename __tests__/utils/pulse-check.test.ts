@@ -0,0 +1,201 @@
+/**
+ * Unit tests for pulse check scales and summaries
+ * @jest-environment node
+ */
+
+import {
+  DEFAULT_PULSE_SCALE,
+  PULSE_SCALE_LIMITS,
+  compareByHelpfulness,
+  getFeedbackScore,
+  getPulseScale,
+  parsePulseScaleConfig,
+  scoreToFeedbackType,
+  summarisePulseFeedback,
+  toPulseComments,
+  validatePulseScaleConfig,
+} from "@/lib/pulse-check";
+
+const fivePoint = {
+  points: ["1", "2", "3", "4", "5"].map((label) => ({ label })),
+};
+
+const feedback = (
+  score: number | null,
+  extra: {
+    feedback?: "helpful" | "neutral" | "not_helpful";
+    comment?: string;
+    createdAt?: Date;
+  } = {},
+) => ({
+  score,
+  feedback: extra.feedback ?? null,
+  comment: extra.comment ?? null,
+  createdAt: extra.createdAt ?? new Date("2026-01-01T10:00:00.000Z"),
+});
+
+describe("Pulse check", () => {
+  describe("validatePulseScaleConfig", () => {
+    it("should accept null to restore the default scale", () => {
+      expect(validatePulseScaleConfig(null)).toEqual({
+        isValid: true,
+        error: null,
+        config: null,
+      });
+    });
+
+    it("should trim labels and drop empty emoji", () => {
+      const result = validatePulseScaleConfig({
+        points: [
+          { label: "  Lost ", emoji: " " },
+          { label: "Got it", emoji: "👍" },
+        ],
+      });
+
+      expect(result.isValid).toBe(true);
+      expect(result.config).toEqual({
+        points: [{ label: "Lost" }, { label: "Got it", emoji: "👍" }],
+      });
+    });
+
+    it("should enforce the number of points", () => {
+      expect(
+        validatePulseScaleConfig({ points: [{ label: "Only" }] }).isValid,
+      ).toBe(false);
+      expect(
+        validatePulseScaleConfig({
+          points: Array.from(
+            { length: PULSE_SCALE_LIMITS.maxPoints + 1 },
+            (_, i) => ({ label: `Point ${i}` }),
+          ),
+        }).isValid,
+      ).toBe(false);
+    });
+
+    it("should reject missing, long and duplicate labels", () => {
+      expect(
+        validatePulseScaleConfig({ points: [{ label: "Yes" }, {}] }).error,
+      ).toBe("Every point on the scale needs a label");
+      expect(
+        validatePulseScaleConfig({
+          points: [{ label: "Yes" }, { label: "x".repeat(31) }],
+        }).error,
+      ).toBe("Labels cannot exceed 30 characters");
+      expect(
+        validatePulseScaleConfig({
+          points: [{ label: "Yes" }, { label: "yes" }],
+        }).error,
+      ).toBe("Labels must be unique");
+    });
+
+    it("should reject input that isn't a scale", () => {
+      expect(validatePulseScaleConfig("1-5").isValid).toBe(false);
+      expect(validatePulseScaleConfig(undefined).isValid).toBe(false);
+    });
+  });
+
+  describe("getPulseScale", () => {
+    it("should fall back to the default scale", () => {
+      expect(getPulseScale(null)).toBe(DEFAULT_PULSE_SCALE);
+      expect(getPulseScale({ points: "broken" })).toBe(DEFAULT_PULSE_SCALE);
+      expect(parsePulseScaleConfig({ points: "broken" })).toBeNull();
+    });
+
+    it("should return a stored custom scale", () => {
+      expect(getPulseScale(fivePoint)).toEqual(fivePoint.points);
+    });
+  });
+
+  describe("scores", () => {
+    it("should map default-scale scores to legacy feedback types", () => {
+      expect(scoreToFeedbackType(1, null)).toBe("not_helpful");
+      expect(scoreToFeedbackType(2, null)).toBe("neutral");
+      expect(scoreToFeedbackType(3, null)).toBe("helpful");
+      expect(scoreToFeedbackType(3, fivePoint)).toBeNull();
+    });
+
+    it("should read scores from legacy rows", () => {
+      expect(getFeedbackScore({ score: null, feedback: "helpful" })).toBe(3);
+      expect(getFeedbackScore({ score: 5, feedback: null })).toBe(5);
+      expect(getFeedbackScore({ score: null, feedback: null })).toBeNull();
+    });
+  });
+
+  describe("summarisePulseFeedback", () => {
+    it("should count each point and compute helpfulness", () => {
+      const summary = summarisePulseFeedback(
+        [feedback(5), feedback(4), feedback(3)],
+        fivePoint.points,
+      );
+
+      expect(summary.responses).toBe(3);
+      expect(summary.average).toBe(4);
+      expect(summary.helpfulness).toBe(75);
+      expect(summary.points.map((p) => p.count)).toEqual([0, 0, 1, 1, 1]);
+    });
+
+    it("should include legacy rows and ignore out-of-range scores", () => {
+      const summary = summarisePulseFeedback(
+        [feedback(null, { feedback: "helpful" }), feedback(9)],
+        DEFAULT_PULSE_SCALE,
+      );
+
+      expect(summary.responses).toBe(1);
+      expect(summary.helpfulness).toBe(100);
+    });
+
+    it("should report nulls without responses", () => {
+      const summary = summarisePulseFeedback([], DEFAULT_PULSE_SCALE);
+
+      expect(summary).toMatchObject({
+        responses: 0,
+        average: null,
+        helpfulness: null,
+      });
+      expect(summary.points).toHaveLength(3);
+    });
+  });
+
+  describe("toPulseComments", () => {
+    it("should keep written feedback, newest first", () => {
+      const comments = toPulseComments([
+        feedback(1, {
+          comment: "Too vague",
+          createdAt: new Date("2026-01-01T10:00:00.000Z"),
+        }),
+        feedback(3),
+        feedback(3, {
+          comment: "Perfect",
+          createdAt: new Date("2026-01-01T11:00:00.000Z"),
+        }),
+      ]);
+
+      expect(comments).toEqual([
+        { score: 3, comment: "Perfect", createdAt: "2026-01-01T11:00:00.000Z" },
+        {
+          score: 1,
+          comment: "Too vague",
+          createdAt: "2026-01-01T10:00:00.000Z",
+        },
+      ]);
+    });
+  });
+
+  describe("compareByHelpfulness", () => {
+    it("should rank by helpfulness, then by responses", () => {
+      const summaryOf = (scores: number[]) => ({
+        summary: summarisePulseFeedback(
+          scores.map((s) => feedback(s)),
+          DEFAULT_PULSE_SCALE,
+        ),
+      });
+      const ranked = [
+        { id: "mixed", ...summaryOf([1, 3]) },
+        { id: "great", ...summaryOf([3]) },
+        { id: "popular", ...summaryOf([3, 3, 3]) },
+      ].sort(compareByHelpfulness);
+
+      expect(ranked.map((q) => q.id)).toEqual(["popular", "great", "mixed"]);
+    });
+  });
+});
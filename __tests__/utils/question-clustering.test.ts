@@ -0,0 +1,127 @@
+/**
+ * Question Clustering Tests
+ * Tests the deterministic local summariser and its text helpers
+ */
+
+import {
+  getQuestionSummariser,
+  LocalQuestionSummariser,
+  tokenizeQuestion,
+  tokenSimilarity,
+  type ClusterableQuestion,
+} from "@/lib/question-clustering";
+
+const makeQuestion = (
+  id: string,
+  content: string,
+  voteCount = 0,
+  minutesAgo = 0,
+): ClusterableQuestion => ({
+  id,
+  content,
+  voteCount,
+  createdAt: new Date(Date.UTC(2026, 0, 1, 12, 0) - minutesAgo * 60000),
+});
+
+describe("Question Clustering", () => {
+  describe("tokenizeQuestion", () => {
+    it("should lowercase, strip punctuation and drop stop words", () => {
+      expect(tokenizeQuestion("What is the ROADMAP for Q3?")).toEqual([
+        "roadmap",
+      ]);
+    });
+
+    it("should normalise simple plurals", () => {
+      expect(tokenizeQuestion("release dates")).toEqual(["release", "date"]);
+      expect(tokenizeQuestion("access process")).toEqual(["access", "process"]);
+    });
+  });
+
+  describe("tokenSimilarity", () => {
+    it("should return 1 for identical sets and 0 for disjoint sets", () => {
+      expect(tokenSimilarity(new Set(["a", "b"]), new Set(["a", "b"]))).toBe(1);
+      expect(tokenSimilarity(new Set(["a"]), new Set(["b"]))).toBe(0);
+    });
+
+    it("should return 0 when either set is empty", () => {
+      expect(tokenSimilarity(new Set(), new Set(["a"]))).toBe(0);
+    });
+  });
+
+  describe("LocalQuestionSummariser", () => {
+    const summariser = new LocalQuestionSummariser();
+
+    it("should group similar questions together", async () => {
+      const clusters = await summariser.cluster([
+        makeQuestion("q1", "When is the next product release?", 5),
+        makeQuestion("q2", "Is there a date for the next release?", 2),
+        makeQuestion("q3", "How do I request parental leave?", 1),
+      ]);
+
+      expect(clusters).toHaveLength(2);
+      expect(clusters[0].questionIds).toEqual(["q1", "q2"]);
+      expect(clusters[1].questionIds).toEqual(["q3"]);
+    });
+
+    it("should assign every question to exactly one cluster", async () => {
+      const questions = [
+        makeQuestion("q1", "Remote work policy next year?"),
+        makeQuestion("q2", "Will the remote work policy change?"),
+        makeQuestion("q3", "Budget for team offsites?"),
+        makeQuestion("q4", "Any news on the office move?"),
+        makeQuestion("q5", "?!"),
+      ];
+
+      const clusters = await summariser.cluster(questions);
+      const ids = clusters.flatMap((c) => c.questionIds).sort();
+
+      expect(ids).toEqual(["q1", "q2", "q3", "q4", "q5"]);
+    });
+
+    it("should use the question itself as the headline for singletons", async () => {
+      const [cluster] = await summariser.cluster([
+        makeQuestion("q1", "  How do I request parental leave?  "),
+      ]);
+
+      expect(cluster.headline).toBe("How do I request parental leave?");
+    });
+
+    it("should paraphrase multi-question clusters from shared keywords", async () => {
+      const [cluster] = await summariser.cluster([
+        makeQuestion("q1", "When is the next product release?", 3),
+        makeQuestion("q2", "Next release date for the product?", 1),
+      ]);
+
+      expect(cluster.headline).toBe(
+        "Questions about next, product and release",
+      );
+    });
+
+    it("should be deterministic regardless of input order", async () => {
+      const questions = [
+        makeQuestion("q1", "Remote work policy next year?", 1, 3),
+        makeQuestion("q2", "Will the remote work policy change?", 4, 2),
+        makeQuestion("q3", "Budget for team offsites?", 0, 1),
+      ];
+
+      const forward = await summariser.cluster(questions);
+      const reversed = await summariser.cluster([...questions].reverse());
+
+      expect(reversed).toEqual(forward);
+    });
+
+    it("should return no clusters for no questions", async () => {
+      expect(await summariser.cluster([])).toEqual([]);
+    });
+  });
+
+  describe("getQuestionSummariser", () => {
+    it("should default to the local summariser", () => {
+      expect(getQuestionSummariser(undefined).name).toBe("local");
+    });
+
+    it("should fall back to the local summariser for unknown names", () => {
+      expect(getQuestionSummariser("does-not-exist").name).toBe("local");
+    });
+  });
+});
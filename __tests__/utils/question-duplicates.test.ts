@@ -0,0 +1,79 @@
+/**
+ * Unit tests for duplicate question detection
+ * @jest-environment node
+ */
+
+import {
+  findSimilarQuestions,
+  MAX_SIMILAR_QUESTIONS,
+} from "@/lib/question-duplicates";
+
+const question = (id: string, content: string, voteCount = 0) => ({
+  id,
+  content,
+  voteCount,
+});
+
+describe("Duplicate Question Detection", () => {
+  describe("findSimilarQuestions", () => {
+    const questions = [
+      question("office", "When will the new office open?", 4),
+      question("parking", "Is there parking at the new office?", 2),
+      question("budget", "What is the training budget this year?", 7),
+    ];
+
+    it("should suggest questions with overlapping topics", () => {
+      const similar = findSimilarQuestions(
+        "When does the new office open?",
+        questions,
+      );
+
+      expect(similar.map((q) => q.id)).toEqual(["office", "parking"]);
+      expect(similar[0].similarity).toBe(1);
+      expect(similar[1].similarity).toBeLessThan(1);
+    });
+
+    it("should ignore case, punctuation and plurals", () => {
+      const similar = findSimilarQuestions(
+        "TRAINING BUDGETS this year???",
+        questions,
+      );
+
+      expect(similar[0].id).toBe("budget");
+    });
+
+    it("should return nothing for unrelated drafts", () => {
+      expect(
+        findSimilarQuestions("Who is speaking after lunch?", questions),
+      ).toEqual([]);
+    });
+
+    it("should return nothing for drafts made only of stop words", () => {
+      expect(findSimilarQuestions("What is it?", questions)).toEqual([]);
+    });
+
+    it("should order by similarity, then votes, and apply the limit", () => {
+      const duplicates = Array.from({ length: 5 }, (_, i) =>
+        question(`dup-${i}`, "Can we get free snacks?", i),
+      );
+
+      const similar = findSimilarQuestions(
+        "Can we get free snacks?",
+        duplicates,
+      );
+
+      expect(similar).toHaveLength(MAX_SIMILAR_QUESTIONS);
+      expect(similar.map((q) => q.id)).toEqual(["dup-4", "dup-3", "dup-2"]);
+    });
+
+    it("should respect a custom threshold", () => {
+      const similar = findSimilarQuestions(
+        "Parking near the office?",
+        questions,
+        { threshold: 0.9 },
+      );
+
+      expect(similar).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * Unit tests for question utilities used by the presenter display,
+ * participant edits and status updates
+ */
+
+import {
+  getAnsweredAtUpdate,
+  getEditOwnQuestionError,
+  getPresenterQueue,
+  getWithdrawOwnQuestionError,
+} from "@/lib/question-utils";
+import {
+  OWN_QUESTION_EDIT_WINDOW_MS,
+  type QuestionResponse,
+} from "@/types/question";
+
+const makeQuestion = (
+  id: string,
+  overrides: Partial<QuestionResponse> = {},
+): QuestionResponse => ({
+  id,
+  sessionId: "session-1",
+  content: `Question ${id}`,
+  voteCount: 0,
+  status: "approved",
+  isAnonymous: false,
+  createdAt: "2026-01-01T10:00:00.000Z",
+  updatedAt: "2026-01-01T10:00:00.000Z",
+  ...overrides,
+});
+
+describe("Question Utilities", () => {
+  describe("getPresenterQueue", () => {
+    it("should return the question being answered and top-voted approved questions", () => {
+      const questions = [
+        makeQuestion("low", { voteCount: 1 }),
+        makeQuestion("current", { status: "being_answered", voteCount: 2 }),
+        makeQuestion("high", { voteCount: 8 }),
+        makeQuestion("done", { status: "answered", voteCount: 20 }),
+      ];
+
+      const { current, upcoming } = getPresenterQueue(questions, 5);
+
+      expect(current?.id).toBe("current");
+      expect(upcoming.map((q) => q.id)).toEqual(["high", "low"]);
+    });
+
+    it("should limit the upcoming queue", () => {
+      const questions = ["a", "b", "c"].map((id, i) =>
+        makeQuestion(id, { voteCount: i }),
+      );
+
+      const { current, upcoming } = getPresenterQueue(questions, 2);
+
+      expect(current).toBeNull();
+      expect(upcoming.map((q) => q.id)).toEqual(["c", "b"]);
+    });
+
+    it("should show the most recently started question when several are being answered", () => {
+      const questions = [
+        makeQuestion("older", {
+          status: "being_answered",
+          updatedAt: "2026-01-01T10:05:00.000Z",
+        }),
+        makeQuestion("newer", {
+          status: "being_answered",
+          updatedAt: "2026-01-01T10:10:00.000Z",
+        }),
+      ];
+
+      expect(getPresenterQueue(questions, 5).current?.id).toBe("newer");
+    });
+  });
+
+  describe("getEditOwnQuestionError", () => {
+    const asked = new Date("2026-01-01T10:00:00.000Z");
+    const now = new Date(asked.getTime() + 60 * 1000);
+
+    it("should allow edits to open questions within the window", () => {
+      expect(getEditOwnQuestionError(makeQuestion("q1"), now)).toBeNull();
+      expect(
+        getEditOwnQuestionError(makeQuestion("q1", { status: "pending" }), now),
+      ).toBeNull();
+    });
+
+    it("should reject edits after the window closes", () => {
+      const later = new Date(asked.getTime() + OWN_QUESTION_EDIT_WINDOW_MS + 1);
+
+      expect(getEditOwnQuestionError(makeQuestion("q1"), later)).toContain(
+        "minutes",
+      );
+    });
+
+    it("should reject edits once the question is being answered or closed", () => {
+      for (const status of [
+        "being_answered",
+        "answered",
+        "dismissed",
+      ] as const) {
+        expect(
+          getEditOwnQuestionError(makeQuestion("q1", { status }), now),
+        ).not.toBeNull();
+      }
+    });
+
+    it("should reject edits to questions a host has edited or merged", () => {
+      expect(
+        getEditOwnQuestionError(
+          makeQuestion("q1", { editedByHost: true }),
+          now,
+        ),
+      ).not.toBeNull();
+      expect(
+        getEditOwnQuestionError(
+          makeQuestion("q1", { mergedIntoId: "q2" }),
+          now,
+        ),
+      ).not.toBeNull();
+    });
+  });
+
+  describe("getWithdrawOwnQuestionError", () => {
+    it("should allow withdrawing unanswered questions at any time", () => {
+      expect(
+        getWithdrawOwnQuestionError(
+          makeQuestion("q1", { createdAt: "2020-01-01T00:00:00.000Z" }),
+        ),
+      ).toBeNull();
+    });
+
+    it("should reject withdrawing questions that are being answered", () => {
+      expect(
+        getWithdrawOwnQuestionError(
+          makeQuestion("q1", { status: "being_answered" }),
+        ),
+      ).not.toBeNull();
+    });
+  });
+
+  describe("getAnsweredAtUpdate", () => {
+    it("should stamp questions as they become answered", () => {
+      const update = getAnsweredAtUpdate("being_answered", "answered");
+
+      expect(update.answeredAt).toBeInstanceOf(Date);
+    });
+
+    it("should clear the timestamp when an answered question is reopened", () => {
+      expect(getAnsweredAtUpdate("answered", "approved")).toEqual({
+        answeredAt: null,
+      });
+    });
+
+    it("should leave the timestamp alone when the status is unchanged", () => {
+      expect(getAnsweredAtUpdate("answered", "answered")).toEqual({});
+    });
+  });
+});
@@ -0,0 +1,189 @@
+/**
+ * Unit tests for per-session rate limit policies
+ * @jest-environment node
+ */
+
+import {
+  getSessionRateLimitConfig,
+  MAX_RATE_LIMIT,
+  RATE_LIMITS,
+  validateRateLimitPolicy,
+} from "@/lib/rate-limit-policy";
+import {
+  checkSessionRateLimit,
+  getRateLimitIdentifiers,
+} from "@/lib/rate-limit";
+import type { SessionRateLimitPolicy } from "@/types/session";
+
+jest.mock("@/lib/logger", () => ({
+  logger: {
+    error: jest.fn(),
+    warn: jest.fn(),
+    info: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+const defaultPolicy: SessionRateLimitPolicy = {
+  rateLimitScope: "ip",
+  questionRateLimit: null,
+  voteRateLimit: null,
+  pulseRateLimit: null,
+};
+
+let sessionCounter = 0;
+const createSession = (policy: Partial<SessionRateLimitPolicy> = {}) => ({
+  id: `session-${++sessionCounter}`,
+  ...defaultPolicy,
+  ...policy,
+});
+
+describe("Rate Limit Policy", () => {
+  describe("getSessionRateLimitConfig", () => {
+    it("should use the defaults when the session has no overrides", () => {
+      expect(
+        getSessionRateLimitConfig(defaultPolicy, "submit-question"),
+      ).toEqual(RATE_LIMITS.SUBMIT_QUESTION);
+      expect(getSessionRateLimitConfig(defaultPolicy, "vote")).toEqual(
+        RATE_LIMITS.VOTE,
+      );
+    });
+
+    it("should apply a custom ceiling but keep the default window", () => {
+      const config = getSessionRateLimitConfig(
+        { ...defaultPolicy, pulseRateLimit: 100 },
+        "pulse-check",
+      );
+
+      expect(config).toEqual({
+        max: 100,
+        windowMs: RATE_LIMITS.PULSE_CHECK.windowMs,
+      });
+    });
+  });
+
+  describe("validateRateLimitPolicy", () => {
+    it("should only return the fields present in the input", () => {
+      const result = validateRateLimitPolicy({ voteRateLimit: 60 });
+
+      expect(result.isValid).toBe(true);
+      expect(result.policy).toEqual({ voteRateLimit: 60 });
+    });
+
+    it("should accept null to reset a limit to its default", () => {
+      const result = validateRateLimitPolicy({
+        rateLimitScope: "participant",
+        questionRateLimit: null,
+      });
+
+      expect(result.isValid).toBe(true);
+      expect(result.policy).toEqual({
+        rateLimitScope: "participant",
+        questionRateLimit: null,
+      });
+    });
+
+    it("should reject unknown scopes and out-of-range limits", () => {
+      const result = validateRateLimitPolicy({
+        rateLimitScope: "device",
+        questionRateLimit: 0,
+        voteRateLimit: MAX_RATE_LIMIT + 1,
+        pulseRateLimit: 2.5,
+      });
+
+      expect(result.isValid).toBe(false);
+      expect(Object.keys(result.errors).sort()).toEqual([
+        "pulseRateLimit",
+        "questionRateLimit",
+        "rateLimitScope",
+        "voteRateLimit",
+      ]);
+      expect(result.policy).toEqual({});
+    });
+
+    it("should reject numeric strings", () => {
+      const result = validateRateLimitPolicy({ voteRateLimit: "10" });
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors.voteRateLimit).toBeDefined();
+    });
+  });
+
+  describe("getRateLimitIdentifiers", () => {
+    const client = { ip: "1.2.3.4", participantId: "p-1" };
+
+    it("should map each scope to its identifiers", () => {
+      expect(getRateLimitIdentifiers("ip", client)).toEqual(["ip:1.2.3.4"]);
+      expect(getRateLimitIdentifiers("participant", client)).toEqual([
+        "participant:p-1",
+      ]);
+      expect(getRateLimitIdentifiers("ip_and_participant", client)).toEqual([
+        "ip:1.2.3.4",
+        "participant:p-1",
+      ]);
+    });
+  });
+
+  describe("checkSessionRateLimit", () => {
+    it("should enforce the session's custom limit", async () => {
+      const session = createSession({ voteRateLimit: 2 });
+      const client = { ip: "10.0.0.1", participantId: "p-1" };
+
+      await checkSessionRateLimit("vote", session, client);
+      await checkSessionRateLimit("vote", session, client);
+      const result = await checkSessionRateLimit("vote", session, client);
+
+      expect(result.allowed).toBe(false);
+      expect(result.limit).toBe(2);
+    });
+
+    it("should count participants behind one IP separately", async () => {
+      const session = createSession({
+        rateLimitScope: "participant",
+        questionRateLimit: 1,
+      });
+
+      const first = await checkSessionRateLimit("submit-question", session, {
+        ip: "10.0.0.2",
+        participantId: "p-1",
+      });
+      const second = await checkSessionRateLimit("submit-question", session, {
+        ip: "10.0.0.2",
+        participantId: "p-2",
+      });
+
+      expect(first.allowed).toBe(true);
+      expect(second.allowed).toBe(true);
+    });
+
+    it("should deny when either limit is exceeded under both scopes", async () => {
+      const session = createSession({
+        rateLimitScope: "ip_and_participant",
+        pulseRateLimit: 1,
+      });
+
+      await checkSessionRateLimit("pulse-check", session, {
+        ip: "10.0.0.3",
+        participantId: "p-1",
+      });
+      // New participant, but the shared IP is already at its limit
+      const result = await checkSessionRateLimit("pulse-check", session, {
+        ip: "10.0.0.3",
+        participantId: "p-2",
+      });
+
+      expect(result.allowed).toBe(false);
+    });
+
+    it("should keep counters separate per session", async () => {
+      const client = { ip: "10.0.0.4", participantId: "p-1" };
+      const sessionA = createSession({ voteRateLimit: 1 });
+      const sessionB = createSession({ voteRateLimit: 1 });
+
+      await checkSessionRateLimit("vote", sessionA, client);
+      const result = await checkSessionRateLimit("vote", sessionB, client);
+
+      expect(result.allowed).toBe(true);
+    });
+  });
+});
@@ -5,9 +5,33 @@
 
 import {
   checkRateLimit,
+  checkRateLimitInStore,
   getRateLimitHeaders,
   RATE_LIMITS,
 } from "@/lib/rate-limit";
+import {
+  getRateLimitStore,
+  MemoryRateLimitStore,
+  PostgresRateLimitStore,
+  RedisRateLimitStore,
+  type RateLimitStore,
+} from "@/lib/rate-limit-store";
+import type { PrismaClient } from "@prisma/client";
+
+const mockRedisEval = jest.fn();
+jest.mock("ioredis", () => ({
+  __esModule: true,
+  default: jest.fn().mockImplementation(() => ({ eval: mockRedisEval })),
+}));
+
+jest.mock("@/lib/logger", () => ({
+  logger: {
+    error: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
 
 describe("Rate Limit Utility", () => {
   describe("checkRateLimit", () => {
@@ -105,6 +129,60 @@ describe("Rate Limit Utility", () => {
       expect(result.retryAfter).toBeLessThanOrEqual(5);
       expect(result.retryAfter).toBeGreaterThan(0);
     });
+
+    it("should return the result synchronously", () => {
+      const result = checkRateLimit("test-sync", "user10", {
+        max: 1,
+        windowMs: 60000,
+      });
+
+      expect(result).not.toBeInstanceOf(Promise);
+      expect(result.allowed).toBe(true);
+    });
+  });
+
+  describe("checkRateLimitInStore", () => {
+    it("should count requests in the given store", async () => {
+      const store = new MemoryRateLimitStore();
+      const config = { max: 1, windowMs: 60000 };
+
+      await checkRateLimitInStore("test-store", "user8", config, store);
+      const denied = await checkRateLimitInStore(
+        "test-store",
+        "user8",
+        config,
+        store,
+      );
+      // The default store has its own counters
+      const other = await checkRateLimitInStore("test-store", "user8", config);
+
+      expect(denied.allowed).toBe(false);
+      expect(other.allowed).toBe(true);
+    });
+
+    it("should fall back to in-memory counting when the store fails", async () => {
+      const failingStore: RateLimitStore = {
+        name: "broken",
+        increment: jest.fn().mockRejectedValue(new Error("connection refused")),
+      };
+      const config = { max: 1, windowMs: 60000 };
+
+      const first = await checkRateLimitInStore(
+        "test-down",
+        "user9",
+        config,
+        failingStore,
+      );
+      const second = await checkRateLimitInStore(
+        "test-down",
+        "user9",
+        config,
+        failingStore,
+      );
+
+      expect(first.allowed).toBe(true);
+      expect(second.allowed).toBe(false);
+    });
   });
 
   describe("getRateLimitHeaders", () => {
@@ -173,5 +251,91 @@ describe("Rate Limit Utility", () => {
       expect(RATE_LIMITS.PULSE_CHECK.max).toBe(20);
       expect(RATE_LIMITS.PULSE_CHECK.windowMs).toBe(60 * 1000);
     });
+
+    it("should define join session rate limit", () => {
+      expect(RATE_LIMITS.JOIN_SESSION).toBeDefined();
+      expect(RATE_LIMITS.JOIN_SESSION.max).toBe(10);
+      expect(RATE_LIMITS.JOIN_SESSION.windowMs).toBe(10 * 60 * 1000);
+    });
+
+    it("should define passcode attempt rate limit", () => {
+      expect(RATE_LIMITS.PASSCODE_ATTEMPT).toBeDefined();
+      expect(RATE_LIMITS.PASSCODE_ATTEMPT.max).toBe(10);
+      expect(RATE_LIMITS.PASSCODE_ATTEMPT.windowMs).toBe(10 * 60 * 1000);
+    });
+  });
+
+  describe("Rate limit stores", () => {
+    it("should default to the memory store", () => {
+      expect(getRateLimitStore().name).toBe("memory");
+      expect(getRateLimitStore()).toBe(getRateLimitStore());
+    });
+
+    it("should start a new window in the memory store once it expires", async () => {
+      const store = new MemoryRateLimitStore();
+
+      await store.increment("key", 50);
+      const second = await store.increment("key", 50);
+      await new Promise((resolve) => setTimeout(resolve, 80));
+      const afterReset = await store.increment("key", 50);
+
+      expect(second.count).toBe(2);
+      expect(afterReset.count).toBe(1);
+    });
+
+    it("should count with an atomic script in the Redis store", async () => {
+      const client = { eval: jest.fn().mockResolvedValue([3, 45000]) };
+      const store = new RedisRateLimitStore(client);
+
+      const counter = await store.increment("vote:1.2.3.4", 60000);
+
+      expect(client.eval).toHaveBeenCalledWith(
+        expect.stringContaining("INCR"),
+        1,
+        "rate-limit:vote:1.2.3.4",
+        60000,
+      );
+      expect(counter.count).toBe(3);
+      expect(counter.resetAt).toBeGreaterThan(Date.now() + 40000);
+      expect(counter.resetAt).toBeLessThanOrEqual(Date.now() + 45000);
+    });
+
+    it("should count with a single upsert in the Postgres store", async () => {
+      const resetAt = new Date(Date.now() + 30000);
+      const db = {
+        $queryRaw: jest.fn().mockResolvedValue([{ count: 4, resetAt }]),
+        rateLimitCounter: { deleteMany: jest.fn() },
+      };
+      const store = new PostgresRateLimitStore(db as unknown as PrismaClient);
+
+      const counter = await store.increment("vote:1.2.3.4", 60000);
+
+      expect(db.$queryRaw).toHaveBeenCalledTimes(1);
+      const [sql, key] = db.$queryRaw.mock.calls[0];
+      expect(sql.join("?")).toContain("ON CONFLICT");
+      expect(key).toBe("vote:1.2.3.4");
+      expect(counter).toEqual({ count: 4, resetAt: resetAt.getTime() });
+    });
+
+    it("should retry connecting to Redis after a failed attempt", async () => {
+      const store = new RedisRateLimitStore();
+      const url = process.env.RATE_LIMIT_REDIS_URL;
+
+      try {
+        delete process.env.RATE_LIMIT_REDIS_URL;
+        await expect(store.increment("vote:1.2.3.4", 60000)).rejects.toThrow(
+          "RATE_LIMIT_REDIS_URL must be set",
+        );
+
+        process.env.RATE_LIMIT_REDIS_URL = "redis://localhost:6379";
+        mockRedisEval.mockResolvedValue([1, 60000]);
+        const counter = await store.increment("vote:1.2.3.4", 60000);
+
+        expect(counter.count).toBe(1);
+      } finally {
+        if (url === undefined) delete process.env.RATE_LIMIT_REDIS_URL;
+        else process.env.RATE_LIMIT_REDIS_URL = url;
+      }
+    });
   });
 });
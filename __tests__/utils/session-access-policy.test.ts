@@ -0,0 +1,161 @@
+/**
+ * Unit tests for per-session access policies
+ * @jest-environment node
+ */
+
+import {
+  getAllowedEmailDomains,
+  isEmailDomainAllowed,
+  MAX_EMAIL_DOMAINS,
+  normaliseEmailDomain,
+  validateSessionAccess,
+} from "@/lib/session-access-policy";
+import { hashPasscode, verifyPasscode } from "@/lib/session-access";
+
+jest.mock("next-auth", () => ({
+  getServerSession: jest.fn(),
+}));
+
+jest.mock("@/lib/auth", () => ({
+  authOptions: {},
+}));
+
+jest.mock("@/lib/db", () => ({
+  prisma: {},
+}));
+
+describe("Session Access Policy", () => {
+  describe("validateSessionAccess", () => {
+    it("should leave the policy empty when nothing is sent", () => {
+      const result = validateSessionAccess({});
+
+      expect(result.isValid).toBe(true);
+      expect(result.policy).toEqual({});
+      expect(result.passcode).toBeNull();
+    });
+
+    it("should reject unknown access modes", () => {
+      const result = validateSessionAccess({ accessMode: "secret" });
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors.accessMode).toBeDefined();
+    });
+
+    it("should require a passcode in passcode mode", () => {
+      expect(
+        validateSessionAccess({ accessMode: "passcode" }).errors.accessPasscode,
+      ).toBeDefined();
+      expect(
+        validateSessionAccess({ accessMode: "passcode", accessPasscode: "ab" })
+          .errors.accessPasscode,
+      ).toBeDefined();
+    });
+
+    it("should return the trimmed passcode to hash", () => {
+      const result = validateSessionAccess({
+        accessMode: "passcode",
+        accessPasscode: "  allhands  ",
+      });
+
+      expect(result.isValid).toBe(true);
+      expect(result.policy).toEqual({ accessMode: "passcode" });
+      expect(result.passcode).toBe("allhands");
+    });
+
+    it("should normalise and dedupe email domains", () => {
+      const result = validateSessionAccess({
+        accessMode: "email_domain",
+        allowedEmailDomains: [
+          "@Example.com",
+          "example.com ",
+          "corp.example.org",
+        ],
+      });
+
+      expect(result.isValid).toBe(true);
+      expect(result.policy.allowedEmailDomains).toEqual([
+        "example.com",
+        "corp.example.org",
+      ]);
+    });
+
+    it("should require at least one valid email domain", () => {
+      expect(
+        validateSessionAccess({
+          accessMode: "email_domain",
+          allowedEmailDomains: [],
+        }).errors.allowedEmailDomains,
+      ).toBeDefined();
+      expect(
+        validateSessionAccess({
+          accessMode: "email_domain",
+          allowedEmailDomains: ["not a domain"],
+        }).errors.allowedEmailDomains,
+      ).toBe("Invalid email domain: not a domain");
+      expect(
+        validateSessionAccess({
+          accessMode: "email_domain",
+          allowedEmailDomains: "example.com",
+        }).errors.allowedEmailDomains,
+      ).toBeDefined();
+    });
+
+    it("should cap the number of email domains", () => {
+      const domains = Array.from(
+        { length: MAX_EMAIL_DOMAINS + 1 },
+        (_, i) => `team${i}.example.com`,
+      );
+
+      expect(
+        validateSessionAccess({
+          accessMode: "email_domain",
+          allowedEmailDomains: domains,
+        }).isValid,
+      ).toBe(false);
+    });
+  });
+
+  describe("email domains", () => {
+    it("should normalise domains as hosts type them", () => {
+      expect(normaliseEmailDomain(" @Example.COM ")).toBe("example.com");
+    });
+
+    it("should match email addresses on allowed domains only", () => {
+      const domains = ["example.com"];
+
+      expect(isEmailDomainAllowed("Jo@Example.com", domains)).toBe(true);
+      expect(isEmailDomainAllowed("jo@eu.example.com", domains)).toBe(false);
+      expect(isEmailDomainAllowed("jo@example.com.evil.io", domains)).toBe(
+        false,
+      );
+      expect(isEmailDomainAllowed(null, domains)).toBe(false);
+    });
+
+    it("should ignore malformed stored domain lists", () => {
+      expect(getAllowedEmailDomains(null)).toEqual([]);
+      expect(getAllowedEmailDomains(["example.com", 42])).toEqual([
+        "example.com",
+      ]);
+    });
+  });
+
+  describe("passcodes", () => {
+    it("should verify a passcode against its hash", async () => {
+      const hash = await hashPasscode("allhands");
+
+      expect(hash).not.toContain("allhands");
+      expect(await verifyPasscode("allhands", hash)).toBe(true);
+      expect(await verifyPasscode("wrong", hash)).toBe(false);
+    });
+
+    it("should salt each hash", async () => {
+      expect(await hashPasscode("allhands")).not.toBe(
+        await hashPasscode("allhands"),
+      );
+    });
+
+    it("should reject malformed stored hashes", async () => {
+      expect(await verifyPasscode("allhands", "garbage")).toBe(false);
+    });
+  });
+});
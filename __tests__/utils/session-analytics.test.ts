@@ -0,0 +1,159 @@
+/**
+ * Unit tests for session analytics
+ * @jest-environment node
+ */
+
+import {
+  buildTimeline,
+  buildVoteDistribution,
+  computeSessionAnalytics,
+  formatDuration,
+  summariseTimeToAnswer,
+} from "@/lib/session-analytics";
+import type { AnalyticsQuestionRecord } from "@/lib/session-analytics";
+
+const at = (time: string) => new Date(`2026-01-01T${time}:00.000Z`);
+
+const makeQuestion = (
+  overrides: Partial<AnalyticsQuestionRecord> = {},
+): AnalyticsQuestionRecord => ({
+  id: "q1",
+  content: "What is the roadmap?",
+  status: "approved",
+  voteCount: 0,
+  participantId: "p1",
+  createdAt: at("09:00"),
+  answeredAt: null,
+  ...overrides,
+});
+
+describe("Session Analytics", () => {
+  describe("buildTimeline", () => {
+    it("should return no buckets without activity", () => {
+      expect(buildTimeline([], []).buckets).toEqual([]);
+    });
+
+    it("should use minute buckets for short sessions", () => {
+      const timeline = buildTimeline(
+        [at("09:00"), at("09:00"), at("09:03")],
+        [at("09:02")],
+      );
+
+      expect(timeline.bucketMinutes).toBe(1);
+      expect(timeline.buckets).toHaveLength(4);
+      expect(timeline.buckets[0]).toEqual({
+        start: "2026-01-01T09:00:00.000Z",
+        questions: 2,
+        votes: 0,
+      });
+      expect(timeline.buckets[2].votes).toBe(1);
+    });
+
+    it("should widen buckets to keep long sessions readable", () => {
+      const timeline = buildTimeline([at("09:00"), at("12:59")], []);
+
+      expect(timeline.bucketMinutes).toBe(15);
+      expect(timeline.buckets.length).toBeLessThanOrEqual(24);
+      expect(
+        timeline.buckets.reduce((sum, bucket) => sum + bucket.questions, 0),
+      ).toBe(2);
+    });
+  });
+
+  describe("buildVoteDistribution", () => {
+    it("should count questions per vote range", () => {
+      const distribution = buildVoteDistribution([0, 0, 1, 3, 7, 12, 40]);
+
+      expect(
+        distribution.map(({ label, questions }) => [label, questions]),
+      ).toEqual([
+        ["0", 2],
+        ["1", 1],
+        ["2-4", 1],
+        ["5-9", 1],
+        ["10+", 2],
+      ]);
+    });
+  });
+
+  describe("summariseTimeToAnswer", () => {
+    it("should report average and median durations", () => {
+      const summary = summariseTimeToAnswer([
+        { createdAt: at("09:00"), answeredAt: at("09:02") },
+        { createdAt: at("09:00"), answeredAt: at("09:04") },
+        { createdAt: at("09:00"), answeredAt: at("09:12") },
+        { createdAt: at("09:00"), answeredAt: null },
+      ]);
+
+      expect(summary).toEqual({
+        sampleSize: 3,
+        averageMs: 6 * 60000,
+        medianMs: 4 * 60000,
+      });
+    });
+
+    it("should return nulls without answered questions", () => {
+      expect(summariseTimeToAnswer([])).toEqual({
+        sampleSize: 0,
+        averageMs: null,
+        medianMs: null,
+      });
+    });
+  });
+
+  describe("computeSessionAnalytics", () => {
+    const analytics = computeSessionAnalytics({
+      questions: [
+        makeQuestion({
+          id: "q1",
+          status: "answered",
+          voteCount: 3,
+          answeredAt: at("09:10"),
+        }),
+        makeQuestion({ id: "q2", participantId: "p2", voteCount: 5 }),
+        makeQuestion({ id: "q3", status: "pending", participantId: null }),
+        makeQuestion({ id: "q4", status: "dismissed" }),
+      ],
+      votes: [
+        { participantId: "p2", createdAt: at("09:01") },
+        { participantId: "p3", createdAt: at("09:02") },
+      ],
+      pulseFeedback: [
+        { participantId: "p4", feedback: "helpful", score: 3 },
+        { participantId: "p2", feedback: "neutral", score: 2 },
+      ],
+      pulseScale: null,
+    });
+
+    it("should count distinct participants across tables", () => {
+      expect(analytics.participants).toBe(4);
+    });
+
+    it("should compute the answer rate over visible questions", () => {
+      expect(analytics.questionsByStatus).toMatchObject({
+        answered: 1,
+        approved: 1,
+        pending: 1,
+        dismissed: 1,
+      });
+      expect(analytics.answerRate).toBe(50);
+    });
+
+    it("should rank top questions and summarise satisfaction", () => {
+      expect(analytics.topQuestions.map((q) => q.id)).toEqual(["q2", "q1"]);
+      expect(analytics.timeToAnswer.averageMs).toBe(10 * 60000);
+      expect(analytics.satisfaction).toMatchObject({
+        responses: 2,
+        helpfulness: 75,
+      });
+    });
+  });
+
+  describe("formatDuration", () => {
+    it("should format seconds, minutes and hours", () => {
+      expect(formatDuration(45000)).toBe("45s");
+      expect(formatDuration(270000)).toBe("4m 30s");
+      expect(formatDuration(3900000)).toBe("1h 5m");
+    });
+  });
+});
@@ -0,0 +1,357 @@
+/**
+ * Session Event Broker Tests
+ * Tests in-process pub/sub for the session event stream, the Redis relay
+ * between instances and client cache patching
+ */
+
+jest.mock("@/lib/logger", () => ({
+  logger: {
+    error: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+import {
+  connectSessionEventRelay,
+  formatSseMessage,
+  getSubscriberCount,
+  publishSessionEvent,
+  RedisSessionEventRelay,
+  subscribeToSession,
+  type RedisPubSubClient,
+  type RelayedSessionEvent,
+} from "@/lib/session-events";
+import {
+  applyEventToQuestions,
+  PARTICIPANT_VISIBLE_STATUSES,
+} from "@/lib/use-session-stream";
+import type { QuestionResponse } from "@/types/question";
+import type { SessionEventMessage } from "@/types/session-events";
+
+const makeQuestion = (overrides: Partial<QuestionResponse> = {}) => ({
+  id: "q1",
+  sessionId: "s1",
+  content: "What is the roadmap?",
+  voteCount: 0,
+  status: "approved" as const,
+  isAnonymous: true,
+  createdAt: new Date().toISOString(),
+  updatedAt: new Date().toISOString(),
+  ...overrides,
+});
+
+describe("Session Event Broker", () => {
+  describe("subscribeToSession / publishSessionEvent", () => {
+    it("should deliver events to subscribers of the same session", () => {
+      const listener = jest.fn();
+      const unsubscribe = subscribeToSession("ABC123", listener);
+
+      publishSessionEvent("ABC123", {
+        type: "question.created",
+        questionId: "q1",
+      });
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener.mock.calls[0][0]).toMatchObject({
+        type: "question.created",
+        questionId: "q1",
+        sessionCode: "ABC123",
+      });
+      expect(listener.mock.calls[0][0].id).toBeGreaterThan(0);
+
+      unsubscribe();
+    });
+
+    it("should not deliver events to other sessions", () => {
+      const listener = jest.fn();
+      const unsubscribe = subscribeToSession("ABC123", listener);
+
+      publishSessionEvent("XYZ789", {
+        type: "session.updated",
+        isActive: false,
+      });
+
+      expect(listener).not.toHaveBeenCalled();
+      unsubscribe();
+    });
+
+    it("should treat session codes case-insensitively", () => {
+      const listener = jest.fn();
+      const unsubscribe = subscribeToSession("abc123", listener);
+
+      publishSessionEvent("ABC123", {
+        type: "question.updated",
+        questionId: "q1",
+      });
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      unsubscribe();
+    });
+
+    it("should stop delivering after unsubscribe and release the session", () => {
+      const listener = jest.fn();
+      const unsubscribe = subscribeToSession("UNSUB1", listener);
+      expect(getSubscriberCount("UNSUB1")).toBe(1);
+
+      unsubscribe();
+      publishSessionEvent("UNSUB1", {
+        type: "question.created",
+        questionId: "q1",
+      });
+
+      expect(listener).not.toHaveBeenCalled();
+      expect(getSubscriberCount("UNSUB1")).toBe(0);
+    });
+
+    it("should keep delivering when one listener throws", () => {
+      const failing = jest.fn(() => {
+        throw new Error("stream closed");
+      });
+      const healthy = jest.fn();
+      const unsubscribeFailing = subscribeToSession("THROW1", failing);
+      const unsubscribeHealthy = subscribeToSession("THROW1", healthy);
+
+      expect(() =>
+        publishSessionEvent("THROW1", {
+          type: "question.created",
+          questionId: "q1",
+        }),
+      ).not.toThrow();
+      expect(healthy).toHaveBeenCalledTimes(1);
+
+      unsubscribeFailing();
+      unsubscribeHealthy();
+    });
+
+    it("should assign increasing event IDs", () => {
+      const listener = jest.fn();
+      const unsubscribe = subscribeToSession("ORDER1", listener);
+
+      publishSessionEvent("ORDER1", {
+        type: "question.created",
+        questionId: "a",
+      });
+      publishSessionEvent("ORDER1", {
+        type: "question.created",
+        questionId: "b",
+      });
+
+      const [first, second] = listener.mock.calls.map((call) => call[0].id);
+      expect(second).toBeGreaterThan(first);
+      unsubscribe();
+    });
+  });
+
+  describe("RedisSessionEventRelay", () => {
+    // Stand-in for a Redis server: every subscribed client hears every publish
+    const createBus = () => {
+      const handlers: Array<(channel: string, message: string) => void> = [];
+      const subscribed = new Set<(channel: string, message: string) => void>();
+
+      const client = (): RedisPubSubClient => {
+        let handler: ((channel: string, message: string) => void) | undefined;
+        return {
+          publish: jest.fn(async (channel: string, message: string) => {
+            subscribed.forEach((deliver) => deliver(channel, message));
+            return subscribed.size;
+          }),
+          subscribe: jest.fn(async () => {
+            if (handler) subscribed.add(handler);
+            return 1;
+          }),
+          on: jest.fn((_event, listener) => {
+            handler = listener;
+            handlers.push(listener);
+          }),
+        };
+      };
+
+      return { client, handlers };
+    };
+
+    const relayed: RelayedSessionEvent = {
+      sessionCode: "ABC123",
+      event: { type: "question.created", questionId: "q1" },
+      timestamp: "2026-01-01T00:00:00.000Z",
+    };
+
+    it("should deliver events published on one instance to every instance", async () => {
+      const bus = createBus();
+      const first = new RedisSessionEventRelay(bus.client(), bus.client());
+      const second = new RedisSessionEventRelay(bus.client(), bus.client());
+      const deliverFirst = jest.fn();
+      const deliverSecond = jest.fn();
+
+      await first.start(deliverFirst);
+      await second.start(deliverSecond);
+      await first.publish(relayed);
+
+      expect(deliverFirst).toHaveBeenCalledWith(relayed);
+      expect(deliverSecond).toHaveBeenCalledWith(relayed);
+    });
+
+    it("should subscribe once however often it is started", async () => {
+      const bus = createBus();
+      const subscriber = bus.client();
+      const relay = new RedisSessionEventRelay(bus.client(), subscriber);
+
+      await relay.start(jest.fn());
+      await relay.start(jest.fn());
+
+      expect(subscriber.subscribe).toHaveBeenCalledTimes(1);
+      expect(bus.handlers).toHaveLength(1);
+    });
+
+    it("should retry a failed subscription on the next start", async () => {
+      const bus = createBus();
+      const subscriber = bus.client();
+      (subscriber.subscribe as jest.Mock).mockRejectedValueOnce(
+        new Error("connection refused"),
+      );
+      const relay = new RedisSessionEventRelay(bus.client(), subscriber);
+
+      await expect(relay.start(jest.fn())).rejects.toThrow(
+        "connection refused",
+      );
+      await expect(relay.start(jest.fn())).resolves.toBeUndefined();
+      expect(subscriber.subscribe).toHaveBeenCalledTimes(2);
+      expect(bus.handlers).toHaveLength(1);
+    });
+
+    it("should ignore messages on other channels or that aren't JSON", async () => {
+      const bus = createBus();
+      const deliver = jest.fn();
+      const relay = new RedisSessionEventRelay(bus.client(), bus.client());
+      await relay.start(deliver);
+
+      bus.handlers[0]("other-channel", JSON.stringify(relayed));
+      bus.handlers[0]("session-events", "not json");
+
+      expect(deliver).not.toHaveBeenCalled();
+    });
+
+    it("should report events as instance-local when no relay is configured", async () => {
+      await expect(connectSessionEventRelay()).resolves.toBe(false);
+    });
+  });
+
+  describe("formatSseMessage", () => {
+    it("should format an SSE frame with id, event and data fields", () => {
+      const message: SessionEventMessage = {
+        type: "question.voted",
+        questionId: "q1",
+        voteCount: 3,
+        id: 42,
+        sessionCode: "ABC123",
+        timestamp: "2026-01-01T00:00:00.000Z",
+      };
+
+      const frame = formatSseMessage(message);
+
+      expect(frame).toBe(
+        `id: 42\nevent: question.voted\ndata: ${JSON.stringify(message)}\n\n`,
+      );
+    });
+  });
+
+  describe("applyEventToQuestions", () => {
+    const baseMessage = {
+      id: 1,
+      sessionCode: "ABC123",
+      timestamp: new Date().toISOString(),
+    };
+
+    it("should set the absolute vote count from a voted event", () => {
+      const data = {
+        questions: [makeQuestion({ voteCount: 2 }), makeQuestion({ id: "q2" })],
+        total: 2,
+      };
+
+      const result = applyEventToQuestions(data, {
+        ...baseMessage,
+        type: "question.voted",
+        questionId: "q1",
+        voteCount: 5,
+      });
+
+      expect(result?.questions[0].voteCount).toBe(5);
+      expect(result?.questions[1].voteCount).toBe(0);
+    });
+
+    it("should update status from a status changed event", () => {
+      const data = { questions: [makeQuestion()], total: 1 };
+
+      const result = applyEventToQuestions(data, {
+        ...baseMessage,
+        type: "question.status_changed",
+        questionId: "q1",
+        status: "being_answered",
+      });
+
+      expect(result?.questions[0].status).toBe("being_answered");
+    });
+
+    it("should drop questions the participant list no longer shows", () => {
+      const data = {
+        questions: [makeQuestion(), makeQuestion({ id: "q2" })],
+        total: 2,
+      };
+      const dismissed = {
+        ...baseMessage,
+        type: "question.status_changed" as const,
+        questionId: "q1",
+        status: "dismissed" as const,
+      };
+
+      const participantList = applyEventToQuestions(
+        data,
+        dismissed,
+        PARTICIPANT_VISIBLE_STATUSES,
+      );
+      const hostList = applyEventToQuestions(data, dismissed);
+
+      expect(participantList?.questions.map((q) => q.id)).toEqual(["q2"]);
+      expect(hostList?.questions[0].status).toBe("dismissed");
+    });
+
+    it("should drop withdrawn questions", () => {
+      const data = {
+        questions: [makeQuestion(), makeQuestion({ id: "q2" })],
+        total: 2,
+      };
+
+      const result = applyEventToQuestions(data, {
+        ...baseMessage,
+        type: "question.deleted",
+        questionId: "q1",
+      });
+
+      expect(result?.questions.map((q) => q.id)).toEqual(["q2"]);
+    });
+
+    it("should leave data untouched for events that need a refetch", () => {
+      const data = { questions: [makeQuestion()], total: 1 };
+
+      const result = applyEventToQuestions(data, {
+        ...baseMessage,
+        type: "question.created",
+        questionId: "q2",
+      });
+
+      expect(result).toBe(data);
+    });
+
+    it("should handle missing cache data", () => {
+      const result = applyEventToQuestions(undefined, {
+        ...baseMessage,
+        type: "question.voted",
+        questionId: "q1",
+        voteCount: 1,
+      });
+
+      expect(result).toBeUndefined();
+    });
+  });
+});
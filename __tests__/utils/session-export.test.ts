@@ -0,0 +1,369 @@
+/**
+ * Session Export Tests
+ * Tests CSV, JSON and Markdown formatting of session exports
+ */
+
+import {
+  buildSessionExport,
+  formatExportCsv,
+  formatExportJson,
+  formatExportMarkdown,
+  isExportFormat,
+  renderSessionExport,
+} from "@/lib/session-export";
+
+const session = {
+  code: "EXP123",
+  title: "Quarterly Town Hall",
+  description: "Ask the leadership team anything",
+  createdAt: new Date("2026-01-01T09:00:00.000Z"),
+  expiresAt: new Date("2026-01-02T09:00:00.000Z"),
+};
+
+const makeQuestion = (overrides: Record<string, unknown> = {}) => ({
+  id: "q1",
+  content: "What is the roadmap?",
+  status: "approved" as const,
+  voteCount: 0,
+  authorName: null as string | null,
+  isAnonymous: true,
+  createdAt: new Date("2026-01-01T09:05:00.000Z"),
+  updatedAt: new Date("2026-01-01T09:05:00.000Z"),
+  pulseCheckFeedback: [] as Array<{
+    feedback: "helpful" | "neutral" | "not_helpful" | null;
+    score: number | null;
+    comment: string | null;
+    createdAt: Date;
+  }>,
+  replies: [] as Array<{
+    authorType: "host" | "participant";
+    authorName: string | null;
+    content: string;
+    createdAt: Date;
+  }>,
+  ...overrides,
+});
+
+const replies = [
+  {
+    authorType: "host" as const,
+    authorName: "Dana",
+    content: "It ships in March.",
+    createdAt: new Date("2026-01-01T09:30:00.000Z"),
+  },
+  {
+    authorType: "participant" as const,
+    authorName: null,
+    content: "Thanks!",
+    createdAt: new Date("2026-01-01T09:35:00.000Z"),
+  },
+];
+
+const pulseFeedback = (overrides: Record<string, unknown> = {}) => ({
+  feedback: null,
+  score: null,
+  comment: null,
+  createdAt: new Date("2026-01-01T09:40:00.000Z"),
+  ...overrides,
+});
+
+const exportedAt = new Date("2026-01-01T12:00:00.000Z");
+
+describe("Session Export", () => {
+  describe("buildSessionExport", () => {
+    it("should hide author names on anonymous questions", () => {
+      const data = buildSessionExport(
+        session,
+        [
+          makeQuestion({ id: "q1", authorName: "Alice", isAnonymous: true }),
+          makeQuestion({ id: "q2", authorName: "Bob", isAnonymous: false }),
+          makeQuestion({ id: "q3", authorName: null, isAnonymous: false }),
+        ],
+        exportedAt,
+      );
+
+      expect(data.questions.map((q) => q.author)).toEqual([
+        "Anonymous",
+        "Bob",
+        "Anonymous",
+      ]);
+    });
+
+    it("should count pulse check feedback by type", () => {
+      const data = buildSessionExport(
+        session,
+        [
+          makeQuestion({
+            status: "answered",
+            pulseCheckFeedback: [
+              { feedback: "helpful" },
+              { feedback: "helpful" },
+              { feedback: "not_helpful" },
+            ],
+          }),
+        ],
+        exportedAt,
+      );
+
+      expect(data.questions[0].pulseCheckStats).toEqual({
+        helpful: 2,
+        neutral: 0,
+        not_helpful: 1,
+      });
+    });
+
+    it("should summarise pulse checks on a custom scale", () => {
+      const data = buildSessionExport(
+        {
+          ...session,
+          pulseScale: { points: [{ label: "No" }, { label: "Yes" }] },
+        },
+        [
+          makeQuestion({
+            status: "answered",
+            pulseCheckFeedback: [
+              pulseFeedback({ score: 2, comment: "Clear, thanks" }),
+              pulseFeedback({ score: 1 }),
+            ],
+          }),
+        ],
+        exportedAt,
+      );
+
+      expect(data.questions[0].pulseSummary).toMatchObject({
+        responses: 2,
+        average: 1.5,
+        points: [
+          { label: "No", score: 1, count: 1 },
+          { label: "Yes", score: 2, count: 1 },
+        ],
+      });
+      expect(data.questions[0].pulseComments).toEqual([
+        {
+          score: 2,
+          comment: "Clear, thanks",
+          createdAt: "2026-01-01T09:40:00.000Z",
+        },
+      ]);
+    });
+
+    it("should include the reply thread", () => {
+      const data = buildSessionExport(
+        session,
+        [makeQuestion({ replies })],
+        exportedAt,
+      );
+
+      expect(data.questions[0].replies).toEqual([
+        {
+          authorType: "host",
+          author: "Dana",
+          content: "It ships in March.",
+          createdAt: "2026-01-01T09:30:00.000Z",
+        },
+        {
+          authorType: "participant",
+          author: "Anonymous",
+          content: "Thanks!",
+          createdAt: "2026-01-01T09:35:00.000Z",
+        },
+      ]);
+    });
+  });
+
+  describe("formatExportCsv", () => {
+    it("should output a header row and one row per question", () => {
+      const csv = formatExportCsv(
+        buildSessionExport(session, [makeQuestion()], exportedAt),
+      );
+      const lines = csv.trimEnd().split("\r\n");
+
+      expect(lines).toHaveLength(2);
+      expect(lines[0]).toBe(
+        "id,content,status,vote_count,author,created_at,updated_at,pulse_helpful,pulse_neutral,pulse_not_helpful,host_answers,participant_replies,pulse_average,pulse_comments",
+      );
+      expect(lines[1]).toBe(
+        "q1,What is the roadmap?,approved,0,Anonymous,2026-01-01T09:05:00.000Z,2026-01-01T09:05:00.000Z,0,0,0,,,,",
+      );
+    });
+
+    it("should put host answers and participant replies in separate cells", () => {
+      const csv = formatExportCsv(
+        buildSessionExport(session, [makeQuestion({ replies })], exportedAt),
+      );
+
+      expect(csv.trimEnd().split("\r\n")[1]).toMatch(
+        /,Dana: It ships in March\.,Anonymous: Thanks!,,$/,
+      );
+    });
+
+    it("should add the pulse average and comments", () => {
+      const csv = formatExportCsv(
+        buildSessionExport(
+          session,
+          [
+            makeQuestion({
+              status: "answered",
+              pulseCheckFeedback: [
+                pulseFeedback({
+                  feedback: "helpful",
+                  score: 3,
+                  comment: "Great",
+                }),
+                pulseFeedback({ feedback: "neutral", score: 2 }),
+              ],
+            }),
+          ],
+          exportedAt,
+        ),
+      );
+
+      expect(csv.trimEnd().split("\r\n")[1]).toMatch(/,1,1,0,,,2\.5,Great$/);
+    });
+
+    it("should quote cells containing commas, quotes and newlines", () => {
+      const csv = formatExportCsv(
+        buildSessionExport(
+          session,
+          [makeQuestion({ content: 'Why "agile", and\nwhy now?' })],
+          exportedAt,
+        ),
+      );
+
+      expect(csv).toContain('"Why ""agile"", and\nwhy now?"');
+    });
+
+    it("should neutralise cells that look like spreadsheet formulas", () => {
+      const csv = formatExportCsv(
+        buildSessionExport(
+          session,
+          [makeQuestion({ content: '=HYPERLINK("http://x")' })],
+          exportedAt,
+        ),
+      );
+
+      expect(csv).toContain(`"'=HYPERLINK(""http://x"")"`);
+    });
+  });
+
+  describe("formatExportJson", () => {
+    it("should round-trip the export payload", () => {
+      const data = buildSessionExport(session, [makeQuestion()], exportedAt);
+
+      expect(JSON.parse(formatExportJson(data))).toEqual(data);
+    });
+  });
+
+  describe("formatExportMarkdown", () => {
+    it("should group questions by status, highest votes first", () => {
+      const markdown = formatExportMarkdown(
+        buildSessionExport(
+          session,
+          [
+            makeQuestion({ id: "q1", content: "Low votes", voteCount: 1 }),
+            makeQuestion({ id: "q2", content: "High votes", voteCount: 9 }),
+            makeQuestion({
+              id: "q3",
+              content: "Already answered",
+              status: "answered",
+            }),
+          ],
+          exportedAt,
+        ),
+      );
+
+      expect(markdown).toContain("# Quarterly Town Hall");
+      expect(markdown).toContain("## Answered (1)");
+      expect(markdown).toContain("## Approved (2)");
+      expect(markdown.indexOf("## Answered")).toBeLessThan(
+        markdown.indexOf("## Approved"),
+      );
+      expect(markdown.indexOf("High votes")).toBeLessThan(
+        markdown.indexOf("Low votes"),
+      );
+    });
+
+    it("should include pulse check results when there is feedback", () => {
+      const markdown = formatExportMarkdown(
+        buildSessionExport(
+          session,
+          [
+            makeQuestion({
+              status: "answered",
+              pulseCheckFeedback: [{ feedback: "neutral" }],
+            }),
+          ],
+          exportedAt,
+        ),
+      );
+
+      expect(markdown).toContain(
+        "Pulse check: 0 helpful, 1 neutral, 0 not helpful",
+      );
+    });
+
+    it("should list pulse comments and numeric ratings", () => {
+      const markdown = formatExportMarkdown(
+        buildSessionExport(
+          {
+            ...session,
+            pulseScale: {
+              points: ["1", "2", "3", "4", "5"].map((label) => ({ label })),
+            },
+          },
+          [
+            makeQuestion({
+              status: "answered",
+              pulseCheckFeedback: [
+                pulseFeedback({ score: 4, comment: "Mostly\nclear" }),
+              ],
+            }),
+          ],
+          exportedAt,
+        ),
+      );
+
+      expect(markdown).toContain(
+        "Pulse check: 0 rated 5, 1 rated 4, 0 rated 3, 0 rated 2, 0 rated 1 (average 4 of 5)",
+      );
+      expect(markdown).toContain("   - **Pulse comment:** Mostly clear");
+    });
+
+    it("should list answers and replies under their question", () => {
+      const markdown = formatExportMarkdown(
+        buildSessionExport(
+          session,
+          [makeQuestion({ status: "answered", replies })],
+          exportedAt,
+        ),
+      );
+
+      expect(markdown).toContain(
+        "   - **Answer from Dana:** It ships in March.",
+      );
+      expect(markdown).toContain("   - **Reply from Anonymous:** Thanks!");
+    });
+  });
+
+  describe("renderSessionExport", () => {
+    it("should pick content type and filename per format", () => {
+      const data = buildSessionExport(session, [], exportedAt);
+
+      expect(renderSessionExport(data, "csv")).toMatchObject({
+        contentType: "text/csv; charset=utf-8",
+        filename: "session-EXP123-questions.csv",
+      });
+      expect(renderSessionExport(data, "markdown").filename).toBe(
+        "session-EXP123-questions.md",
+      );
+    });
+  });
+
+  describe("isExportFormat", () => {
+    it("should only accept supported formats", () => {
+      expect(isExportFormat("json")).toBe(true);
+      expect(isExportFormat("xlsx")).toBe(false);
+      expect(isExportFormat(null)).toBe(false);
+    });
+  });
+});
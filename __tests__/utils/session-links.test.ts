@@ -0,0 +1,74 @@
+/**
+ * Unit tests for session join links and QR code rendering
+ * @jest-environment node
+ */
+
+import {
+  getSessionCodeError,
+  getSessionJoinUrl,
+  getSessionQrCodePath,
+  isQrCodeFormat,
+} from "@/lib/session-links";
+import { renderQrCode } from "@/lib/session-qr";
+
+describe("Session Links", () => {
+  describe("getSessionCodeError", () => {
+    it("should accept 6-character alphanumeric codes", () => {
+      expect(getSessionCodeError("ABC123")).toBeNull();
+    });
+
+    it("should reject empty, short and non-alphanumeric codes", () => {
+      expect(getSessionCodeError("")).toBe("Please enter a session code");
+      expect(getSessionCodeError("ABC")).toBe(
+        "Session code must be 6 characters",
+      );
+      expect(getSessionCodeError("ABC-12")).toBe(
+        "Session code must contain only letters and numbers",
+      );
+    });
+  });
+
+  describe("getSessionJoinUrl / getSessionQrCodePath", () => {
+    it("should build links with an uppercased code", () => {
+      expect(getSessionJoinUrl("https://hubbly.app", "abc123")).toBe(
+        "https://hubbly.app/session/ABC123",
+      );
+      expect(getSessionQrCodePath("abc123")).toBe(
+        "/api/sessions/ABC123/qr?format=svg",
+      );
+      expect(getSessionQrCodePath("ABC123", "png")).toBe(
+        "/api/sessions/ABC123/qr?format=png",
+      );
+    });
+  });
+
+  describe("isQrCodeFormat", () => {
+    it("should only accept svg and png", () => {
+      expect(isQrCodeFormat("svg")).toBe(true);
+      expect(isQrCodeFormat("png")).toBe(true);
+      expect(isQrCodeFormat("gif")).toBe(false);
+      expect(isQrCodeFormat(null)).toBe(false);
+    });
+  });
+
+  describe("renderQrCode", () => {
+    const url = "https://hubbly.app/session/ABC123";
+
+    it("should render an SVG document", async () => {
+      const { body, contentType } = await renderQrCode(url, "svg");
+
+      expect(contentType).toBe("image/svg+xml");
+      expect(typeof body).toBe("string");
+      expect(body).toContain("<svg");
+    });
+
+    it("should render a PNG image", async () => {
+      const { body, contentType } = await renderQrCode(url, "png");
+
+      expect(contentType).toBe("image/png");
+      expect(Buffer.isBuffer(body)).toBe(true);
+      // PNG signature
+      expect((body as Buffer).subarray(1, 4).toString()).toBe("PNG");
+    });
+  });
+});
@@ -0,0 +1,183 @@
+/**
+ * Unit tests for session templates and cloning helpers
+ * @jest-environment node
+ */
+
+import { Prisma } from "@prisma/client";
+import {
+  getSessionDurationHours,
+  MAX_TEMPLATE_NAME_LENGTH,
+  toSessionSettingsData,
+  validateSessionFromSource,
+  validateTemplateName,
+  type SessionSettings,
+} from "@/lib/session-templates";
+import { MAX_SESSION_DURATION_HOURS } from "@/lib/session-utils";
+
+jest.mock("next-auth", () => ({
+  getServerSession: jest.fn(),
+}));
+
+jest.mock("@/lib/auth", () => ({
+  authOptions: {},
+}));
+
+jest.mock("@/lib/db", () => ({
+  prisma: {},
+}));
+
+const HOUR_MS = 60 * 60 * 1000;
+
+describe("Session Templates", () => {
+  describe("getSessionDurationHours", () => {
+    const createdAt = new Date("2026-10-19T09:00:00Z");
+
+    it("should measure from creation for sessions that started right away", () => {
+      expect(
+        getSessionDurationHours({
+          createdAt,
+          startsAt: null,
+          expiresAt: new Date(createdAt.getTime() + 1.5 * HOUR_MS),
+        }),
+      ).toBe(1.5);
+    });
+
+    it("should measure from the scheduled start", () => {
+      const startsAt = new Date(createdAt.getTime() + 24 * HOUR_MS);
+
+      expect(
+        getSessionDurationHours({
+          createdAt,
+          startsAt,
+          expiresAt: new Date(startsAt.getTime() + 2 * HOUR_MS),
+        }),
+      ).toBe(2);
+    });
+
+    it("should cap extended sessions at the longest allowed duration", () => {
+      expect(
+        getSessionDurationHours({
+          createdAt,
+          startsAt: null,
+          expiresAt: new Date(
+            createdAt.getTime() + (MAX_SESSION_DURATION_HOURS + 5) * HOUR_MS,
+          ),
+        }),
+      ).toBe(MAX_SESSION_DURATION_HOURS);
+    });
+
+    it("should return null for sessions with no length", () => {
+      expect(
+        getSessionDurationHours({
+          createdAt,
+          startsAt: null,
+          expiresAt: createdAt,
+        }),
+      ).toBeNull();
+    });
+  });
+
+  describe("validateTemplateName", () => {
+    it("should fall back to the session title", () => {
+      expect(validateTemplateName(undefined, "Weekly AMA")).toEqual({
+        name: "Weekly AMA",
+      });
+    });
+
+    it("should trim names and reject blank or overlong ones", () => {
+      expect(validateTemplateName("  AMA  ", "Weekly AMA")).toEqual({
+        name: "AMA",
+      });
+      expect(validateTemplateName(" ", "Weekly AMA")).toHaveProperty("error");
+      expect(validateTemplateName(42, "Weekly AMA")).toHaveProperty("error");
+      expect(
+        validateTemplateName(
+          "x".repeat(MAX_TEMPLATE_NAME_LENGTH + 1),
+          "Weekly AMA",
+        ),
+      ).toHaveProperty("error");
+    });
+  });
+
+  describe("validateSessionFromSource", () => {
+    const now = new Date("2026-10-19T09:00:00Z");
+    const source = {
+      title: "Weekly AMA",
+      description: "Ask anything",
+      durationHours: 2,
+    };
+
+    it("should default to the source's title, description and length", () => {
+      const result = validateSessionFromSource(source, {}, now);
+
+      expect(result.isValid).toBe(true);
+      expect(result.title).toBe("Weekly AMA");
+      expect(result.description).toBe("Ask anything");
+      expect(result.startsAt).toBeNull();
+      expect(result.expiresAt).toEqual(new Date(now.getTime() + 2 * HOUR_MS));
+    });
+
+    it("should apply overrides", () => {
+      const result = validateSessionFromSource(
+        source,
+        {
+          title: " Weekly AMA - week 2 ",
+          description: "",
+          endsAt: "2026-10-19T10:00:00Z",
+        },
+        now,
+      );
+
+      expect(result.isValid).toBe(true);
+      expect(result.title).toBe("Weekly AMA - week 2");
+      expect(result.description).toBeUndefined();
+      expect(result.expiresAt).toEqual(new Date("2026-10-19T10:00:00Z"));
+    });
+
+    it("should use the default length when the source has none", () => {
+      const result = validateSessionFromSource(
+        { ...source, durationHours: null },
+        {},
+        now,
+      );
+
+      expect(result.expiresAt).toEqual(new Date(now.getTime() + 24 * HOUR_MS));
+    });
+
+    it("should report invalid fields", () => {
+      const result = validateSessionFromSource(
+        source,
+        { title: "AB", durationHours: 0 },
+        now,
+      );
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors.title).toBeDefined();
+      expect(result.errors.durationHours).toBeDefined();
+    });
+  });
+
+  describe("toSessionSettingsData", () => {
+    it("should write unset JSON settings as database nulls", () => {
+      const settings: SessionSettings = {
+        requireApproval: true,
+        allowReplies: false,
+        rateLimitScope: "ip",
+        questionRateLimit: null,
+        voteRateLimit: 10,
+        pulseRateLimit: null,
+        contentFilter: null,
+        pulseScale: [{ value: 1, label: "Meh" }],
+        accessMode: "public",
+        accessPasscodeHash: null,
+        allowedEmailDomains: null,
+      };
+
+      expect(toSessionSettingsData(settings)).toEqual({
+        ...settings,
+        contentFilter: Prisma.DbNull,
+        allowedEmailDomains: Prisma.DbNull,
+      });
+    });
+  });
+});
@@ -7,7 +7,10 @@
 import {
   generateUniqueSessionCode,
   getSessionExpirationDate,
+  MAX_SESSION_DURATION_HOURS,
+  resolveSessionExtension,
   validateSessionInput,
+  validateSessionSchedule,
 } from "@/lib/session-utils";
 import { getTestDb, resetTestDb } from "../setup/test-db";
 
@@ -112,6 +115,150 @@ describe("Session Expiration Date", () => {
   });
 });
 
+describe("Session Schedule Validation", () => {
+  const now = new Date("2026-03-01T10:00:00.000Z");
+  const hours = (n: number) => n * 60 * 60 * 1000;
+
+  it("defaults to 24 hours starting now", () => {
+    const result = validateSessionSchedule({}, now);
+
+    expect(result.isValid).toBe(true);
+    expect(result.startsAt).toBeNull();
+    expect(result.expiresAt.getTime()).toBe(now.getTime() + hours(24));
+  });
+
+  it("counts the duration from a scheduled start", () => {
+    const result = validateSessionSchedule(
+      { durationHours: 2, startsAt: "2026-03-02T09:00:00.000Z" },
+      now,
+    );
+
+    expect(result.isValid).toBe(true);
+    expect(result.startsAt?.toISOString()).toBe("2026-03-02T09:00:00.000Z");
+    expect(result.expiresAt.toISOString()).toBe("2026-03-02T11:00:00.000Z");
+  });
+
+  it("accepts an explicit end time", () => {
+    const result = validateSessionSchedule(
+      { endsAt: "2026-03-04T17:00:00.000Z" },
+      now,
+    );
+
+    expect(result.isValid).toBe(true);
+    expect(result.expiresAt.toISOString()).toBe("2026-03-04T17:00:00.000Z");
+  });
+
+  it("rejects invalid durations and end times", () => {
+    expect(
+      validateSessionSchedule({ durationHours: 0 }, now).errors.durationHours,
+    ).toBeDefined();
+    expect(
+      validateSessionSchedule(
+        { durationHours: MAX_SESSION_DURATION_HOURS + 1 },
+        now,
+      ).errors.durationHours,
+    ).toBeDefined();
+    expect(
+      validateSessionSchedule({ endsAt: "2026-03-01T09:00:00.000Z" }, now)
+        .errors.endsAt,
+    ).toBe("End time must be in the future");
+    expect(
+      validateSessionSchedule({ endsAt: "not a date" }, now).errors.endsAt,
+    ).toBe("End time must be a valid date");
+  });
+
+  it("rejects an end time before the scheduled start", () => {
+    const result = validateSessionSchedule(
+      {
+        startsAt: "2026-03-02T09:00:00.000Z",
+        endsAt: "2026-03-02T08:00:00.000Z",
+      },
+      now,
+    );
+
+    expect(result.isValid).toBe(false);
+    expect(result.errors.endsAt).toBe("End time must be after the start time");
+  });
+
+  it("rejects a duration and an end time together", () => {
+    const result = validateSessionSchedule(
+      { durationHours: 2, endsAt: "2026-03-02T08:00:00.000Z" },
+      now,
+    );
+
+    expect(result.isValid).toBe(false);
+  });
+
+  it("treats a start time in the past as starting now", () => {
+    const result = validateSessionSchedule(
+      { startsAt: "2026-03-01T09:00:00.000Z" },
+      now,
+    );
+
+    expect(result.isValid).toBe(true);
+    expect(result.startsAt).toBeNull();
+  });
+});
+
+describe("Session Extension", () => {
+  const now = new Date("2026-03-01T10:00:00.000Z");
+
+  it("extends from the current expiry", () => {
+    const result = resolveSessionExtension(
+      { extendByHours: 2 },
+      { expiresAt: new Date("2026-03-01T12:00:00.000Z"), startsAt: null },
+      now,
+    );
+
+    expect(result).toEqual({ expiresAt: new Date("2026-03-01T14:00:00.000Z") });
+  });
+
+  it("extends an expired session from now", () => {
+    const result = resolveSessionExtension(
+      { extendByHours: 1 },
+      { expiresAt: new Date("2026-02-20T10:00:00.000Z"), startsAt: null },
+      now,
+    );
+
+    expect(result).toEqual({ expiresAt: new Date("2026-03-01T11:00:00.000Z") });
+  });
+
+  it("accepts an explicit expiry", () => {
+    const result = resolveSessionExtension(
+      { expiresAt: "2026-03-05T10:00:00.000Z" },
+      { expiresAt: new Date("2026-03-01T12:00:00.000Z"), startsAt: null },
+      now,
+    );
+
+    expect(result).toEqual({ expiresAt: new Date("2026-03-05T10:00:00.000Z") });
+  });
+
+  it("rejects expiries in the past or too far ahead", () => {
+    const current = {
+      expiresAt: new Date("2026-03-01T12:00:00.000Z"),
+      startsAt: null,
+    };
+
+    expect(
+      resolveSessionExtension(
+        { expiresAt: "2026-03-01T09:00:00.000Z" },
+        current,
+        now,
+      ),
+    ).toEqual({ error: "Expiry must be in the future" });
+    expect(
+      resolveSessionExtension({ extendByHours: -1 }, current, now),
+    ).toHaveProperty("error");
+    expect(
+      resolveSessionExtension(
+        { expiresAt: "2026-06-01T09:00:00.000Z" },
+        current,
+        now,
+      ),
+    ).toHaveProperty("error");
+  });
+});
+
 describe("Session Code Generation", () => {
   const db = getTestDb();
 
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."qa_sessions" ADD COLUMN "require_approval" BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,28 @@
+-- AlterTable
+ALTER TABLE "public"."questions" ADD COLUMN "cluster_id" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."clusters" (
+    "id" TEXT NOT NULL,
+    "session_id" TEXT NOT NULL,
+    "headline" TEXT NOT NULL,
+    "summariser" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "clusters_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "questions_cluster_id_idx" ON "public"."questions"("cluster_id");
+
+-- CreateIndex
+CREATE INDEX "clusters_session_id_idx" ON "public"."clusters"("session_id");
+
+-- AddForeignKey
+ALTER TABLE "public"."questions" ADD CONSTRAINT "questions_cluster_id_fkey" FOREIGN KEY ("cluster_id") REFERENCES "public"."clusters"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."clusters" ADD CONSTRAINT "clusters_session_id_fkey" FOREIGN KEY ("session_id") REFERENCES "public"."qa_sessions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Enable RLS (no policies - see 20260102000000_enable_rls_security)
+ALTER TABLE "public"."clusters" ENABLE ROW LEVEL SECURITY;
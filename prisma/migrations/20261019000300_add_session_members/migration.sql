@@ -0,0 +1,34 @@
+-- CreateEnum
+CREATE TYPE "public"."SessionMemberRole" AS ENUM ('co_host', 'moderator');
+
+-- CreateTable
+CREATE TABLE "public"."session_members" (
+    "id" TEXT NOT NULL,
+    "session_id" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    "user_id" TEXT,
+    "role" "public"."SessionMemberRole" NOT NULL,
+    "invited_by_id" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "session_members_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "session_members_user_id_idx" ON "public"."session_members"("user_id");
+
+-- CreateIndex
+CREATE INDEX "session_members_email_idx" ON "public"."session_members"("email");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "session_members_session_id_email_key" ON "public"."session_members"("session_id", "email");
+
+-- AddForeignKey
+ALTER TABLE "public"."session_members" ADD CONSTRAINT "session_members_session_id_fkey" FOREIGN KEY ("session_id") REFERENCES "public"."qa_sessions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."session_members" ADD CONSTRAINT "session_members_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Enable RLS (no policies - see 20260102000000_enable_rls_security)
+ALTER TABLE "public"."session_members" ENABLE ROW LEVEL SECURITY;
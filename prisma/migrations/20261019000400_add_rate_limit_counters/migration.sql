@@ -0,0 +1,14 @@
+-- CreateTable
+CREATE TABLE "public"."rate_limit_counters" (
+    "key" TEXT NOT NULL,
+    "count" INTEGER NOT NULL,
+    "reset_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "rate_limit_counters_pkey" PRIMARY KEY ("key")
+);
+
+-- CreateIndex
+CREATE INDEX "rate_limit_counters_reset_at_idx" ON "public"."rate_limit_counters"("reset_at");
+
+-- Enable RLS (no policies - see 20260102000000_enable_rls_security)
+ALTER TABLE "public"."rate_limit_counters" ENABLE ROW LEVEL SECURITY;
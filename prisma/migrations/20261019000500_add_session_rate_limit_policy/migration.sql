@@ -0,0 +1,8 @@
+-- CreateEnum
+CREATE TYPE "public"."RateLimitScope" AS ENUM ('ip', 'participant', 'ip_and_participant');
+
+-- AlterTable
+ALTER TABLE "public"."qa_sessions" ADD COLUMN     "pulse_rate_limit" INTEGER,
+ADD COLUMN     "question_rate_limit" INTEGER,
+ADD COLUMN     "rate_limit_scope" "public"."RateLimitScope" NOT NULL DEFAULT 'ip',
+ADD COLUMN     "vote_rate_limit" INTEGER;
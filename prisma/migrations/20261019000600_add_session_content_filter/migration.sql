@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."qa_sessions" ADD COLUMN     "content_filter" JSONB;
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "public"."questions" ADD COLUMN     "merged_into_id" TEXT;
+
+-- CreateIndex
+CREATE INDEX "questions_merged_into_id_idx" ON "public"."questions"("merged_into_id");
+
+-- AddForeignKey
+ALTER TABLE "public"."questions" ADD CONSTRAINT "questions_merged_into_id_fkey" FOREIGN KEY ("merged_into_id") REFERENCES "public"."questions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "public"."questions" ADD COLUMN     "edited_by_host" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "original_content" TEXT;
@@ -0,0 +1,35 @@
+-- CreateEnum
+CREATE TYPE "public"."ReplyAuthorType" AS ENUM ('host', 'participant');
+
+-- AlterTable
+ALTER TABLE "public"."qa_sessions" ADD COLUMN     "allow_replies" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "public"."question_replies" (
+    "id" TEXT NOT NULL,
+    "question_id" TEXT NOT NULL,
+    "author_type" "public"."ReplyAuthorType" NOT NULL,
+    "user_id" TEXT,
+    "participant_id" TEXT,
+    "author_name" TEXT,
+    "content" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "question_replies_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "question_replies_question_id_idx" ON "public"."question_replies"("question_id");
+
+-- CreateIndex
+CREATE INDEX "question_replies_user_id_idx" ON "public"."question_replies"("user_id");
+
+-- AddForeignKey
+ALTER TABLE "public"."question_replies" ADD CONSTRAINT "question_replies_question_id_fkey" FOREIGN KEY ("question_id") REFERENCES "public"."questions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."question_replies" ADD CONSTRAINT "question_replies_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Enable RLS (no policies - see 20260102000000_enable_rls_security)
+ALTER TABLE "public"."question_replies" ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,82 @@
+-- CreateEnum
+CREATE TYPE "public"."PollType" AS ENUM ('multiple_choice', 'multi_select', 'rating');
+
+-- CreateEnum
+CREATE TYPE "public"."PollStatus" AS ENUM ('draft', 'open', 'closed');
+
+-- CreateTable
+CREATE TABLE "public"."polls" (
+    "id" TEXT NOT NULL,
+    "session_id" TEXT NOT NULL,
+    "question" TEXT NOT NULL,
+    "type" "public"."PollType" NOT NULL,
+    "status" "public"."PollStatus" NOT NULL DEFAULT 'draft',
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+    "opened_at" TIMESTAMP(3),
+    "closed_at" TIMESTAMP(3),
+
+    CONSTRAINT "polls_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."poll_options" (
+    "id" TEXT NOT NULL,
+    "poll_id" TEXT NOT NULL,
+    "label" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+
+    CONSTRAINT "poll_options_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."poll_responses" (
+    "id" TEXT NOT NULL,
+    "poll_id" TEXT NOT NULL,
+    "participant_id" TEXT NOT NULL,
+    "rating" INTEGER,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "poll_responses_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."poll_selections" (
+    "response_id" TEXT NOT NULL,
+    "option_id" TEXT NOT NULL,
+
+    CONSTRAINT "poll_selections_pkey" PRIMARY KEY ("response_id","option_id")
+);
+
+-- CreateIndex
+CREATE INDEX "polls_session_id_idx" ON "public"."polls"("session_id");
+
+-- CreateIndex
+CREATE INDEX "poll_options_poll_id_idx" ON "public"."poll_options"("poll_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "poll_responses_poll_id_participant_id_key" ON "public"."poll_responses"("poll_id", "participant_id");
+
+-- CreateIndex
+CREATE INDEX "poll_selections_option_id_idx" ON "public"."poll_selections"("option_id");
+
+-- AddForeignKey
+ALTER TABLE "public"."polls" ADD CONSTRAINT "polls_session_id_fkey" FOREIGN KEY ("session_id") REFERENCES "public"."qa_sessions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."poll_options" ADD CONSTRAINT "poll_options_poll_id_fkey" FOREIGN KEY ("poll_id") REFERENCES "public"."polls"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."poll_responses" ADD CONSTRAINT "poll_responses_poll_id_fkey" FOREIGN KEY ("poll_id") REFERENCES "public"."polls"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."poll_selections" ADD CONSTRAINT "poll_selections_response_id_fkey" FOREIGN KEY ("response_id") REFERENCES "public"."poll_responses"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."poll_selections" ADD CONSTRAINT "poll_selections_option_id_fkey" FOREIGN KEY ("option_id") REFERENCES "public"."poll_options"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Enable RLS (no policies - see 20260102000000_enable_rls_security)
+ALTER TABLE "public"."polls" ENABLE ROW LEVEL SECURITY;
+ALTER TABLE "public"."poll_options" ENABLE ROW LEVEL SECURITY;
+ALTER TABLE "public"."poll_responses" ENABLE ROW LEVEL SECURITY;
+ALTER TABLE "public"."poll_selections" ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,15 @@
+-- AlterTable
+ALTER TABLE "public"."qa_sessions" ADD COLUMN     "pulse_scale" JSONB;
+
+-- AlterTable
+ALTER TABLE "public"."pulse_check_feedback" ALTER COLUMN "feedback" DROP NOT NULL,
+ADD COLUMN     "score" INTEGER,
+ADD COLUMN     "comment" TEXT;
+
+-- Backfill scores on the default three-point scale
+UPDATE "public"."pulse_check_feedback"
+SET "score" = CASE "feedback"
+    WHEN 'not_helpful' THEN 1
+    WHEN 'neutral' THEN 2
+    WHEN 'helpful' THEN 3
+END;
@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "public"."questions" ADD COLUMN     "answered_at" TIMESTAMP(3);
+
+-- Backfill: the last update is the closest record of when existing answers were given
+UPDATE "public"."questions"
+SET "answered_at" = "updated_at"
+WHERE "status" = 'answered';
@@ -0,0 +1,35 @@
+-- CreateEnum
+CREATE TYPE "public"."QuestionEventType" AS ENUM ('created', 'status_changed', 'edited', 'split', 'merged', 'deleted');
+
+-- CreateEnum
+CREATE TYPE "public"."QuestionEventActor" AS ENUM ('host', 'participant', 'system');
+
+-- CreateTable
+CREATE TABLE "public"."question_events" (
+    "id" TEXT NOT NULL,
+    "question_id" TEXT NOT NULL,
+    "session_id" TEXT NOT NULL,
+    "type" "public"."QuestionEventType" NOT NULL,
+    "actor_type" "public"."QuestionEventActor" NOT NULL,
+    "actor_user_id" TEXT,
+    "actor_name" TEXT,
+    "from_status" "public"."QuestionStatus",
+    "to_status" "public"."QuestionStatus",
+    "previous_content" TEXT,
+    "related_question_id" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "question_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "question_events_question_id_created_at_idx" ON "public"."question_events"("question_id", "created_at");
+
+-- CreateIndex
+CREATE INDEX "question_events_session_id_idx" ON "public"."question_events"("session_id");
+
+-- AddForeignKey
+ALTER TABLE "public"."question_events" ADD CONSTRAINT "question_events_session_id_fkey" FOREIGN KEY ("session_id") REFERENCES "public"."qa_sessions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Enable RLS (no policies - see 20260102000000_enable_rls_security)
+ALTER TABLE "public"."question_events" ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,28 @@
+-- CreateTable
+CREATE TABLE "public"."participant_identities" (
+    "id" TEXT NOT NULL,
+    "session_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "participant_id" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "participant_identities_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "participant_identities_session_id_user_id_key" ON "public"."participant_identities"("session_id", "user_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "participant_identities_session_id_participant_id_key" ON "public"."participant_identities"("session_id", "participant_id");
+
+-- CreateIndex
+CREATE INDEX "participant_identities_user_id_idx" ON "public"."participant_identities"("user_id");
+
+-- AddForeignKey
+ALTER TABLE "public"."participant_identities" ADD CONSTRAINT "participant_identities_session_id_fkey" FOREIGN KEY ("session_id") REFERENCES "public"."qa_sessions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."participant_identities" ADD CONSTRAINT "participant_identities_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Enable RLS (no policies - see 20260102000000_enable_rls_security)
+ALTER TABLE "public"."participant_identities" ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,7 @@
+-- CreateEnum
+CREATE TYPE "public"."SessionAccessMode" AS ENUM ('public', 'passcode', 'signed_in', 'email_domain');
+
+-- AlterTable
+ALTER TABLE "public"."qa_sessions" ADD COLUMN     "access_mode" "public"."SessionAccessMode" NOT NULL DEFAULT 'public',
+ADD COLUMN     "access_passcode_hash" TEXT,
+ADD COLUMN     "allowed_email_domains" JSONB;
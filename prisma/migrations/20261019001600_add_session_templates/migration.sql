@@ -0,0 +1,33 @@
+-- CreateTable
+CREATE TABLE "public"."session_templates" (
+    "id" TEXT NOT NULL,
+    "host_id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "description" TEXT,
+    "require_approval" BOOLEAN NOT NULL DEFAULT false,
+    "allow_replies" BOOLEAN NOT NULL DEFAULT false,
+    "rate_limit_scope" "public"."RateLimitScope" NOT NULL DEFAULT 'ip',
+    "question_rate_limit" INTEGER,
+    "vote_rate_limit" INTEGER,
+    "pulse_rate_limit" INTEGER,
+    "content_filter" JSONB,
+    "pulse_scale" JSONB,
+    "access_mode" "public"."SessionAccessMode" NOT NULL DEFAULT 'public',
+    "access_passcode_hash" TEXT,
+    "allowed_email_domains" JSONB,
+    "duration_hours" DOUBLE PRECISION,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "session_templates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "session_templates_host_id_idx" ON "public"."session_templates"("host_id");
+
+-- AddForeignKey
+ALTER TABLE "public"."session_templates" ADD CONSTRAINT "session_templates_host_id_fkey" FOREIGN KEY ("host_id") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Enable RLS (no policies - see 20260102000000_enable_rls_security)
+ALTER TABLE "public"."session_templates" ENABLE ROW LEVEL SECURITY;
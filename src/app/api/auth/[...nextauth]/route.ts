@@ -1,6 +1,27 @@
+/**
+ * NextAuth handler
+ *
+ * Signing out also clears the browser's participant tokens, so anonymous
+ * activity from before can't be merged into the next account to sign in
+ * on a shared device.
+ */
+
 import NextAuth from "next-auth";
+import { NextRequest } from "next/server";
 import { authOptions } from "@/lib/auth";
+import { clearParticipantCookies } from "@/lib/participant-token";
+
+type NextAuthContext = { params: Promise<{ nextauth: string[] }> };
 
 const handler = NextAuth(authOptions);
 
-export { handler as GET, handler as POST };
+export async function POST(req: NextRequest, context: NextAuthContext) {
+  const response: Response = await handler(req, context);
+  const { nextauth } = await context.params;
+  if (nextauth[0] === "signout") {
+    clearParticipantCookies(req, response.headers);
+  }
+  return response;
+}
+
+export { handler as GET };
@@ -0,0 +1,202 @@
+/**
+ * POST /api/polls/[id]/responses - Answer an open poll
+ *
+ * One response per participant, identified by the request's signed
+ * participant token; answers can't be changed afterwards. Counts towards
+ * the session's vote rate limit.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { logger } from "@/lib/logger";
+import { getParticipant } from "@/lib/participant-token";
+import {
+  getPollAnswerError,
+  POLL_INCLUDE,
+  tallyPollResults,
+} from "@/lib/polls";
+import { checkSessionRateLimit, getRateLimitHeaders } from "@/lib/rate-limit";
+import { RATE_LIMIT_POLICY_SELECT } from "@/lib/rate-limit-policy";
+import { getClientIp } from "@/lib/request-utils";
+import {
+  checkSessionAccess,
+  SESSION_ACCESS_SELECT,
+} from "@/lib/session-access";
+import { publishSessionEvent } from "@/lib/session-events";
+import type {
+  SubmitPollResponseRequest,
+  SubmitPollResponseResponse,
+} from "@/types/poll";
+
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id: pollId } = await params;
+
+  try {
+    let body: SubmitPollResponseRequest;
+    try {
+      body = await req.json();
+    } catch {
+      return NextResponse.json(
+        {
+          code: "INVALID_JSON",
+          message: "Invalid JSON in request body",
+        },
+        { status: 400 },
+      );
+    }
+
+    const poll = await prisma.poll.findUnique({
+      where: { id: pollId },
+      include: {
+        options: { select: { id: true } },
+        qaSession: {
+          select: {
+            ...SESSION_ACCESS_SELECT,
+            isActive: true,
+            ...RATE_LIMIT_POLICY_SELECT,
+          },
+        },
+      },
+    });
+
+    // Drafts are invisible to participants
+    if (!poll || poll.status === "draft") {
+      return NextResponse.json(
+        {
+          code: "POLL_NOT_FOUND",
+          message: "Poll not found",
+        },
+        { status: 404 },
+      );
+    }
+
+    const denied = await checkSessionAccess(req, poll.qaSession);
+    if (denied) {
+      return denied.error;
+    }
+
+    // The participant ID comes from the signed participant token
+    const participant = await getParticipant(
+      req,
+      poll.qaSession.code,
+      body.participantId,
+    );
+    if ("error" in participant) {
+      return participant.error;
+    }
+    const { participantId } = participant;
+
+    if (!poll.qaSession.isActive || poll.status !== "open") {
+      return NextResponse.json(
+        {
+          code: "POLL_CLOSED",
+          message: "This poll is closed",
+        },
+        { status: 409 },
+      );
+    }
+
+    const answerError = getPollAnswerError(poll, body);
+    if (answerError) {
+      return NextResponse.json(
+        {
+          code: "VALIDATION_ERROR",
+          message: answerError,
+          errors: [
+            {
+              field: poll.type === "rating" ? "rating" : "optionIds",
+              message: answerError,
+            },
+          ],
+        },
+        { status: 400 },
+      );
+    }
+
+    const rateLimitResult = await checkSessionRateLimit(
+      "vote",
+      poll.qaSession,
+      { ip: getClientIp(req), participantId },
+    );
+
+    if (!rateLimitResult.allowed) {
+      const headers = getRateLimitHeaders(rateLimitResult);
+      return NextResponse.json(
+        {
+          code: "RATE_LIMIT_EXCEEDED",
+          message: `Too many votes. Please try again in ${rateLimitResult.retryAfter} seconds.`,
+          retryAfter: rateLimitResult.retryAfter,
+        },
+        { status: 429, headers },
+      );
+    }
+
+    const existingResponse = await prisma.pollResponse.findUnique({
+      where: {
+        pollId_participantId: {
+          pollId,
+          participantId,
+        },
+      },
+    });
+
+    if (existingResponse) {
+      return NextResponse.json(
+        {
+          code: "ALREADY_RESPONDED",
+          message: "You have already answered this poll",
+        },
+        { status: 409 },
+      );
+    }
+
+    await prisma.pollResponse.create({
+      data: {
+        pollId,
+        participantId,
+        rating: poll.type === "rating" ? body.rating : null,
+        selections: {
+          create:
+            poll.type === "rating"
+              ? []
+              : (body.optionIds ?? []).map((optionId) => ({ optionId })),
+        },
+      },
+    });
+
+    publishSessionEvent(poll.qaSession.code, {
+      type: "poll.updated",
+      pollId,
+    });
+
+    const tallied = await prisma.poll.findUniqueOrThrow({
+      where: { id: pollId },
+      include: POLL_INCLUDE,
+    });
+
+    const response: SubmitPollResponseResponse = {
+      pollId,
+      results: tallyPollResults(tallied),
+    };
+
+    return NextResponse.json(response, {
+      status: 201,
+      headers: getRateLimitHeaders(rateLimitResult),
+    });
+  } catch (error) {
+    logger.error("Error answering poll", error, {
+      pollId,
+      endpoint: "POST /api/polls/[id]/responses",
+    });
+    return NextResponse.json(
+      {
+        code: "INTERNAL_ERROR",
+        message: "An error occurred while answering the poll",
+      },
+      { status: 500 },
+    );
+  }
+}
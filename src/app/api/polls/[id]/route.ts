@@ -0,0 +1,208 @@
+/**
+ * PATCH /api/polls/[id] - Open or close a poll (session owner, co-hosts)
+ * DELETE /api/polls/[id] - Delete a poll and its responses
+ *
+ * Closed polls can be reopened; drafts have to be opened before they can
+ * be closed.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import type { Poll, QaSession } from "@prisma/client";
+import { authOptions } from "@/lib/auth";
+import { prisma } from "@/lib/db";
+import { logger } from "@/lib/logger";
+import { POLL_INCLUDE, toPollResponseData } from "@/lib/polls";
+import { getSessionRole } from "@/lib/session-auth";
+import { publishSessionEvent } from "@/lib/session-events";
+import { hasSessionPermission } from "@/lib/session-roles";
+import type { PollMutationResponse, UpdatePollRequest } from "@/types/poll";
+
+type HostPollResult =
+  | { poll: Poll & { qaSession: Pick<QaSession, "id" | "hostId" | "code"> } }
+  | { error: NextResponse };
+
+/**
+ * Load a poll and check the signed-in user can run polls in its session
+ * Returns the poll, or an error response to send back.
+ */
+async function getHostPoll(pollId: string): Promise<HostPollResult> {
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user?.id) {
+    return {
+      error: NextResponse.json(
+        {
+          code: "UNAUTHORIZED",
+          message: "Authentication required",
+        },
+        { status: 401 },
+      ),
+    };
+  }
+
+  const poll = await prisma.poll.findUnique({
+    where: { id: pollId },
+    include: {
+      qaSession: {
+        select: {
+          id: true,
+          hostId: true,
+          code: true,
+        },
+      },
+    },
+  });
+
+  if (!poll) {
+    return {
+      error: NextResponse.json(
+        {
+          code: "POLL_NOT_FOUND",
+          message: "Poll not found",
+        },
+        { status: 404 },
+      ),
+    };
+  }
+
+  const role = await getSessionRole(poll.qaSession, session.user);
+  if (!role || !hasSessionPermission(role, "manage_session")) {
+    return {
+      error: NextResponse.json(
+        {
+          code: "FORBIDDEN",
+          message: "You are not authorized to run polls in this session",
+        },
+        { status: 403 },
+      ),
+    };
+  }
+
+  return { poll };
+}
+
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id: pollId } = await params;
+
+  try {
+    let body: UpdatePollRequest;
+    try {
+      body = await req.json();
+    } catch {
+      return NextResponse.json(
+        {
+          code: "INVALID_JSON",
+          message: "Invalid JSON in request body",
+        },
+        { status: 400 },
+      );
+    }
+
+    if (body.status !== "open" && body.status !== "closed") {
+      return NextResponse.json(
+        {
+          code: "INVALID_STATUS",
+          message: "Status must be one of: open, closed",
+        },
+        { status: 400 },
+      );
+    }
+
+    const result = await getHostPoll(pollId);
+    if ("error" in result) {
+      return result.error;
+    }
+    const { poll } = result;
+
+    if (body.status === "closed" && poll.status === "draft") {
+      return NextResponse.json(
+        {
+          code: "INVALID_STATUS",
+          message: "Open the poll before closing it",
+        },
+        { status: 409 },
+      );
+    }
+
+    const updatedPoll = await prisma.poll.update({
+      where: { id: pollId },
+      data:
+        body.status === "open"
+          ? { status: "open", openedAt: poll.openedAt ?? new Date() }
+          : { status: "closed", closedAt: new Date() },
+      include: POLL_INCLUDE,
+    });
+
+    publishSessionEvent(poll.qaSession.code, {
+      type: "poll.updated",
+      pollId,
+    });
+
+    const response: PollMutationResponse = {
+      poll: toPollResponseData(updatedPoll),
+      message: body.status === "open" ? "Poll opened" : "Poll closed",
+    };
+
+    return NextResponse.json(response, { status: 200 });
+  } catch (error) {
+    logger.error("Error updating poll", error, {
+      pollId,
+      endpoint: "PATCH /api/polls/[id]",
+    });
+    return NextResponse.json(
+      {
+        code: "INTERNAL_ERROR",
+        message: "An error occurred while updating the poll",
+      },
+      { status: 500 },
+    );
+  }
+}
+
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id: pollId } = await params;
+
+  try {
+    const result = await getHostPoll(pollId);
+    if ("error" in result) {
+      return result.error;
+    }
+    const { poll } = result;
+
+    // Options and responses are removed with the poll
+    await prisma.poll.delete({
+      where: { id: pollId },
+    });
+
+    if (poll.status !== "draft") {
+      publishSessionEvent(poll.qaSession.code, {
+        type: "poll.updated",
+        pollId,
+      });
+    }
+
+    return NextResponse.json(
+      { message: "Poll deleted successfully" },
+      { status: 200 },
+    );
+  } catch (error) {
+    logger.error("Error deleting poll", error, {
+      pollId,
+      endpoint: "DELETE /api/polls/[id]",
+    });
+    return NextResponse.json(
+      {
+        code: "INTERNAL_ERROR",
+        message: "An error occurred while deleting the poll",
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,105 @@
+/**
+ * GET /api/questions/[id]/events - A question's history (session owner, co-hosts, moderators)
+ *
+ * Lists every recorded change to the question, oldest first. Works for
+ * withdrawn questions too: events outlive the question they describe.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { prisma } from "@/lib/db";
+import { logger } from "@/lib/logger";
+import {
+  QUESTION_EVENT_ORDER_BY,
+  toQuestionEventResponse,
+} from "@/lib/question-events";
+import { getSessionRole } from "@/lib/session-auth";
+import { hasSessionPermission } from "@/lib/session-roles";
+import type { GetQuestionEventsResponse } from "@/types/question-event";
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id: questionId } = await params;
+
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        {
+          code: "UNAUTHORIZED",
+          message: "Authentication required",
+        },
+        { status: 401 },
+      );
+    }
+
+    const events = await prisma.questionEvent.findMany({
+      where: { questionId },
+      orderBy: [...QUESTION_EVENT_ORDER_BY],
+    });
+
+    // Questions asked before history was recorded have no events yet
+    const sessionId =
+      events[0]?.sessionId ??
+      (
+        await prisma.question.findUnique({
+          where: { id: questionId },
+          select: { sessionId: true },
+        })
+      )?.sessionId;
+
+    const qaSession = sessionId
+      ? await prisma.qaSession.findUnique({
+          where: { id: sessionId },
+          select: {
+            id: true,
+            hostId: true,
+            code: true,
+          },
+        })
+      : null;
+
+    if (!qaSession) {
+      return NextResponse.json(
+        {
+          code: "QUESTION_NOT_FOUND",
+          message: "Question not found",
+        },
+        { status: 404 },
+      );
+    }
+
+    const role = await getSessionRole(qaSession, session.user);
+    if (!role || !hasSessionPermission(role, "view_questions")) {
+      return NextResponse.json(
+        {
+          code: "FORBIDDEN",
+          message: "You are not authorized to view this question's history",
+        },
+        { status: 403 },
+      );
+    }
+
+    const response: GetQuestionEventsResponse = {
+      events: events.map(toQuestionEventResponse),
+    };
+
+    return NextResponse.json(response, { status: 200 });
+  } catch (error) {
+    logger.error("Error fetching question history", error, {
+      questionId,
+      endpoint: "GET /api/questions/[id]/events",
+    });
+    return NextResponse.json(
+      {
+        code: "INTERNAL_ERROR",
+        message: "An error occurred while fetching the question's history",
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,215 @@
+/**
+ * POST /api/questions/[id]/merge - Merge duplicate questions into this one (session owner, co-hosts, moderators)
+ *
+ * Votes and pulse check feedback from the duplicates are combined into the
+ * surviving question (one per participant) and the duplicates are dismissed.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { prisma } from "@/lib/db";
+import { logger } from "@/lib/logger";
+import { getHostActor } from "@/lib/question-events";
+import { mergeQuestions } from "@/lib/question-merge";
+import { publishSessionEvent } from "@/lib/session-events";
+import { getSessionRole } from "@/lib/session-auth";
+import { hasSessionPermission } from "@/lib/session-roles";
+import type {
+  MergeQuestionsRequest,
+  MergeQuestionsResponse,
+} from "@/types/question";
+
+// Upper bound on duplicates merged in one request
+const MAX_MERGE_QUESTIONS = 50;
+
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id: targetId } = await params;
+
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        {
+          code: "UNAUTHORIZED",
+          message: "Authentication required",
+        },
+        { status: 401 },
+      );
+    }
+
+    let body: MergeQuestionsRequest;
+    try {
+      body = await req.json();
+    } catch {
+      return NextResponse.json(
+        {
+          code: "INVALID_JSON",
+          message: "Invalid JSON in request body",
+        },
+        { status: 400 },
+      );
+    }
+
+    if (
+      !Array.isArray(body.questionIds) ||
+      body.questionIds.length === 0 ||
+      body.questionIds.length > MAX_MERGE_QUESTIONS ||
+      body.questionIds.some((id) => typeof id !== "string")
+    ) {
+      return NextResponse.json(
+        {
+          code: "VALIDATION_ERROR",
+          message: `questionIds must list between 1 and ${MAX_MERGE_QUESTIONS} question IDs`,
+        },
+        { status: 400 },
+      );
+    }
+
+    const duplicateIds = Array.from(new Set(body.questionIds));
+    if (duplicateIds.includes(targetId)) {
+      return NextResponse.json(
+        {
+          code: "VALIDATION_ERROR",
+          message: "A question cannot be merged into itself",
+        },
+        { status: 400 },
+      );
+    }
+
+    const target = await prisma.question.findUnique({
+      where: { id: targetId },
+      include: {
+        qaSession: {
+          select: {
+            id: true,
+            hostId: true,
+            code: true,
+          },
+        },
+      },
+    });
+
+    if (!target) {
+      return NextResponse.json(
+        {
+          code: "QUESTION_NOT_FOUND",
+          message: "Question not found",
+        },
+        { status: 404 },
+      );
+    }
+
+    const role = await getSessionRole(target.qaSession, session.user);
+    if (!role || !hasSessionPermission(role, "moderate_questions")) {
+      return NextResponse.json(
+        {
+          code: "FORBIDDEN",
+          message: "You are not authorized to merge questions in this session",
+        },
+        { status: 403 },
+      );
+    }
+
+    if (target.mergedIntoId) {
+      return NextResponse.json(
+        {
+          code: "ALREADY_MERGED",
+          message: "This question has already been merged into another",
+        },
+        { status: 409 },
+      );
+    }
+
+    // Every duplicate must be an unmerged question in the same session
+    const duplicates = await prisma.question.findMany({
+      where: {
+        id: { in: duplicateIds },
+        sessionId: target.sessionId,
+        mergedIntoId: null,
+      },
+      select: { id: true },
+    });
+
+    if (duplicates.length !== duplicateIds.length) {
+      return NextResponse.json(
+        {
+          code: "INVALID_QUESTIONS",
+          message:
+            "Questions must belong to the same session and not already be merged",
+        },
+        { status: 400 },
+      );
+    }
+
+    const result = await mergeQuestions(targetId, duplicateIds, {
+      actor: getHostActor(session.user),
+    });
+
+    // Another merge touched these questions after the checks above
+    if (!result) {
+      return NextResponse.json(
+        {
+          code: "ALREADY_MERGED",
+          message:
+            "These questions were merged by someone else in the meantime",
+        },
+        { status: 409 },
+      );
+    }
+
+    const updatedQuestion = await prisma.question.findUniqueOrThrow({
+      where: { id: targetId },
+    });
+
+    publishSessionEvent(target.qaSession.code, {
+      type: "question.voted",
+      questionId: targetId,
+      voteCount: result.voteCount,
+    });
+    for (const questionId of duplicateIds) {
+      publishSessionEvent(target.qaSession.code, {
+        type: "question.status_changed",
+        questionId,
+        status: "dismissed",
+      });
+    }
+
+    const response: MergeQuestionsResponse = {
+      question: {
+        id: updatedQuestion.id,
+        sessionId: updatedQuestion.sessionId,
+        participantId: updatedQuestion.participantId || undefined,
+        authorName: updatedQuestion.authorName || undefined,
+        content: updatedQuestion.content,
+        voteCount: updatedQuestion.voteCount,
+        status: updatedQuestion.status,
+        isAnonymous: updatedQuestion.isAnonymous,
+        createdAt: updatedQuestion.createdAt.toISOString(),
+        updatedAt: updatedQuestion.updatedAt.toISOString(),
+        editedByHost: updatedQuestion.editedByHost || undefined,
+        originalContent: updatedQuestion.originalContent || undefined,
+      },
+      mergedQuestionIds: duplicateIds,
+      message: `Merged ${duplicateIds.length} ${duplicateIds.length === 1 ? "question" : "questions"}`,
+    };
+
+    return NextResponse.json(response, { status: 200 });
+  } catch (error) {
+    logger.error("Error merging questions", error, {
+      questionId: targetId,
+      endpoint: "POST /api/questions/[id]/merge",
+    });
+    return NextResponse.json(
+      {
+        code: "INTERNAL_ERROR",
+        message: "An error occurred while merging questions",
+      },
+      { status: 500 },
+    );
+  }
+}
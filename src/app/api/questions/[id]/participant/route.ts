@@ -0,0 +1,361 @@
+/**
+ * PATCH /api/questions/[id]/participant - Edit your own question
+ * DELETE /api/questions/[id]/participant - Withdraw your own question
+ *
+ * Keyed on the participant ID that submitted the question, taken from the
+ * request's signed participant token. Edits are only allowed for a short
+ * window after asking and go through the session's content filter again.
+ * In sessions that require approval, an edited question goes back to the
+ * host for review. Both actions stop once a host starts answering or
+ * dismisses the question.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import type { QaSession, Question } from "@prisma/client";
+import { prisma } from "@/lib/db";
+import {
+  applyContentFilter,
+  parseContentFilterConfig,
+} from "@/lib/content-filter";
+import { logger } from "@/lib/logger";
+import { getParticipant } from "@/lib/participant-token";
+import { PARTICIPANT_ACTOR, recordQuestionEvents } from "@/lib/question-events";
+import {
+  getEditOwnQuestionError,
+  getWithdrawOwnQuestionError,
+  validateQuestionContent,
+} from "@/lib/question-utils";
+import {
+  checkSessionAccess,
+  SESSION_ACCESS_SELECT,
+} from "@/lib/session-access";
+import { publishSessionEvent } from "@/lib/session-events";
+import type {
+  EditOwnQuestionRequest,
+  EditOwnQuestionResponse,
+  WithdrawQuestionRequest,
+  WithdrawQuestionResponse,
+} from "@/types/question";
+
+type OwnQuestionResult =
+  | {
+      question: Question & {
+        qaSession: Pick<
+          QaSession,
+          "code" | "isActive" | "requireApproval" | "contentFilter"
+        >;
+      };
+    }
+  | { error: NextResponse };
+
+/**
+ * Load a question and check it belongs to the participant
+ * Returns the question, or an error response to send back.
+ */
+async function getOwnQuestion(
+  req: NextRequest,
+  questionId: string,
+  claimedId: unknown,
+): Promise<OwnQuestionResult> {
+  const question = await prisma.question.findUnique({
+    where: { id: questionId },
+    include: {
+      qaSession: {
+        select: {
+          ...SESSION_ACCESS_SELECT,
+          isActive: true,
+          requireApproval: true,
+          contentFilter: true,
+        },
+      },
+    },
+  });
+
+  if (!question) {
+    return {
+      error: NextResponse.json(
+        {
+          code: "QUESTION_NOT_FOUND",
+          message: "Question not found",
+        },
+        { status: 404 },
+      ),
+    };
+  }
+
+  const denied = await checkSessionAccess(req, question.qaSession);
+  if (denied) {
+    return denied;
+  }
+
+  const participant = await getParticipant(
+    req,
+    question.qaSession.code,
+    claimedId,
+  );
+  if ("error" in participant) {
+    return participant;
+  }
+
+  if (question.participantId !== participant.participantId) {
+    return {
+      error: NextResponse.json(
+        {
+          code: "FORBIDDEN",
+          message: "You can only change your own questions",
+        },
+        { status: 403 },
+      ),
+    };
+  }
+
+  if (!question.qaSession.isActive) {
+    return {
+      error: NextResponse.json(
+        {
+          code: "SESSION_INACTIVE",
+          message: "This session is no longer active",
+        },
+        { status: 403 },
+      ),
+    };
+  }
+
+  return { question };
+}
+
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id: questionId } = await params;
+
+  try {
+    let body: EditOwnQuestionRequest;
+    try {
+      body = await req.json();
+    } catch {
+      return NextResponse.json(
+        {
+          code: "INVALID_JSON",
+          message: "Invalid JSON in request body",
+        },
+        { status: 400 },
+      );
+    }
+
+    const contentError =
+      typeof body.content === "string"
+        ? validateQuestionContent(body.content)
+        : "Question content is required";
+    if (contentError) {
+      return NextResponse.json(
+        {
+          code: "VALIDATION_ERROR",
+          message: contentError,
+          errors: [{ field: "content", message: contentError }],
+        },
+        { status: 400 },
+      );
+    }
+
+    const result = await getOwnQuestion(req, questionId, body.participantId);
+    if ("error" in result) {
+      return result.error;
+    }
+    const { question } = result;
+
+    const editError = getEditOwnQuestionError(question);
+    if (editError) {
+      return NextResponse.json(
+        {
+          code: "QUESTION_NOT_EDITABLE",
+          message: editError,
+        },
+        { status: 409 },
+      );
+    }
+
+    // Edited text goes through the same filter as new questions
+    const filtered = applyContentFilter(
+      body.content.trim(),
+      parseContentFilterConfig(question.qaSession.contentFilter),
+    );
+
+    if (filtered.outcome === "reject") {
+      return NextResponse.json(
+        {
+          code: "CONTENT_REJECTED",
+          message: filtered.violations[0].message,
+          errors: filtered.violations.map(({ message }) => ({
+            field: "content",
+            message,
+          })),
+        },
+        { status: 400 },
+      );
+    }
+
+    // Approved text can't be swapped for unreviewed text, so edits in
+    // sessions that require approval go back to the host
+    const needsReview =
+      filtered.outcome === "review" || question.qaSession.requireApproval;
+
+    const updatedQuestion = await prisma.$transaction(async (tx) => {
+      const updated = await tx.question.update({
+        where: { id: questionId },
+        data: {
+          content: filtered.content,
+          ...(needsReview && { status: "pending" }),
+        },
+      });
+
+      await recordQuestionEvents(tx, PARTICIPANT_ACTOR, [
+        {
+          questionId,
+          sessionId: question.sessionId,
+          type: "edited",
+          previousContent: question.content,
+        },
+        ...(updated.status !== question.status
+          ? [
+              {
+                questionId,
+                sessionId: question.sessionId,
+                type: "status_changed" as const,
+                fromStatus: question.status,
+                toStatus: updated.status,
+              },
+            ]
+          : []),
+      ]);
+
+      return updated;
+    });
+
+    if (updatedQuestion.status !== question.status) {
+      publishSessionEvent(question.qaSession.code, {
+        type: "question.status_changed",
+        questionId,
+        status: updatedQuestion.status,
+      });
+    }
+    publishSessionEvent(question.qaSession.code, {
+      type: "question.updated",
+      questionId,
+    });
+
+    const response: EditOwnQuestionResponse = {
+      question: {
+        id: updatedQuestion.id,
+        sessionId: updatedQuestion.sessionId,
+        participantId: updatedQuestion.participantId || undefined,
+        authorName: updatedQuestion.authorName || undefined,
+        content: updatedQuestion.content,
+        voteCount: updatedQuestion.voteCount,
+        status: updatedQuestion.status,
+        isAnonymous: updatedQuestion.isAnonymous,
+        createdAt: updatedQuestion.createdAt.toISOString(),
+        updatedAt: updatedQuestion.updatedAt.toISOString(),
+      },
+      message:
+        updatedQuestion.status === "pending"
+          ? "Question updated and sent for review"
+          : "Question updated successfully",
+    };
+
+    return NextResponse.json(response, { status: 200 });
+  } catch (error) {
+    logger.error("Error editing own question", error, {
+      questionId,
+      endpoint: "PATCH /api/questions/[id]/participant",
+    });
+    return NextResponse.json(
+      {
+        code: "INTERNAL_ERROR",
+        message: "An error occurred while editing the question",
+      },
+      { status: 500 },
+    );
+  }
+}
+
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id: questionId } = await params;
+
+  try {
+    let body: WithdrawQuestionRequest;
+    try {
+      body = await req.json();
+    } catch {
+      return NextResponse.json(
+        {
+          code: "INVALID_JSON",
+          message: "Invalid JSON in request body",
+        },
+        { status: 400 },
+      );
+    }
+
+    const result = await getOwnQuestion(req, questionId, body.participantId);
+    if ("error" in result) {
+      return result.error;
+    }
+    const { question } = result;
+
+    const withdrawError = getWithdrawOwnQuestionError(question);
+    if (withdrawError) {
+      return NextResponse.json(
+        {
+          code: "QUESTION_NOT_EDITABLE",
+          message: withdrawError,
+        },
+        { status: 409 },
+      );
+    }
+
+    // Votes and pulse check feedback are removed with the question
+    await prisma.$transaction(async (tx) => {
+      await tx.question.delete({
+        where: { id: questionId },
+      });
+
+      await recordQuestionEvents(tx, PARTICIPANT_ACTOR, [
+        {
+          questionId,
+          sessionId: question.sessionId,
+          type: "deleted",
+          fromStatus: question.status,
+          previousContent: question.content,
+        },
+      ]);
+    });
+
+    publishSessionEvent(question.qaSession.code, {
+      type: "question.deleted",
+      questionId,
+    });
+
+    const response: WithdrawQuestionResponse = {
+      questionId,
+      withdrawn: true,
+    };
+
+    return NextResponse.json(response, { status: 200 });
+  } catch (error) {
+    logger.error("Error withdrawing question", error, {
+      questionId,
+      endpoint: "DELETE /api/questions/[id]/participant",
+    });
+    return NextResponse.json(
+      {
+        code: "INTERNAL_ERROR",
+        message: "An error occurred while withdrawing the question",
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -1,16 +1,30 @@
 /**
  * POST /api/questions/[id]/pulse - Submit pulse check feedback on answered question
+ *
+ * Feedback is a score on the session's pulse scale, with an optional short
+ * comment for the host. Clients on the default scale may still send a
+ * feedback type instead of a score. Feedback is recorded against the
+ * participant in the request's signed participant token.
  */
 
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/db";
-import {
-  checkRateLimit,
-  RATE_LIMITS,
-  getRateLimitHeaders,
-} from "@/lib/rate-limit";
+import { checkSessionRateLimit, getRateLimitHeaders } from "@/lib/rate-limit";
+import { RATE_LIMIT_POLICY_SELECT } from "@/lib/rate-limit-policy";
 import { getClientIp } from "@/lib/request-utils";
-import { isValidParticipantId } from "@/lib/participant-id";
+import { getParticipant } from "@/lib/participant-token";
+import {
+  getFeedbackScore,
+  getPulseScale,
+  parsePulseScaleConfig,
+  PULSE_COMMENT_MAX_LENGTH,
+  scoreToFeedbackType,
+} from "@/lib/pulse-check";
+import {
+  checkSessionAccess,
+  SESSION_ACCESS_SELECT,
+} from "@/lib/session-access";
+import { publishSessionEvent } from "@/lib/session-events";
 import type { PulseCheckRequest, PulseCheckResponse } from "@/types/question";
 import { PulseCheckFeedbackType } from "@prisma/client";
 
@@ -32,36 +46,85 @@ export async function POST(
     const { id: questionId } = await params;
     const body = (await req.json()) as PulseCheckRequest;
 
-    // Validate participantId format
-    if (!body.participantId || !isValidParticipantId(body.participantId)) {
+    // Validate feedback type when no score is given
+    if (
+      body.score === undefined &&
+      (!body.feedback || !VALID_FEEDBACK_TYPES.includes(body.feedback))
+    ) {
       return NextResponse.json(
         {
-          code: "INVALID_PARTICIPANT_ID",
-          message: "Invalid participant ID format",
+          code: "INVALID_FEEDBACK",
+          message: `Feedback must be one of: ${VALID_FEEDBACK_TYPES.join(", ")}`,
         },
         { status: 400 },
       );
     }
 
-    // Validate feedback type
-    if (!body.feedback || !VALID_FEEDBACK_TYPES.includes(body.feedback)) {
+    if (
+      body.comment !== undefined &&
+      (typeof body.comment !== "string" ||
+        body.comment.trim().length > PULSE_COMMENT_MAX_LENGTH)
+    ) {
       return NextResponse.json(
         {
-          code: "INVALID_FEEDBACK",
-          message: `Feedback must be one of: ${VALID_FEEDBACK_TYPES.join(", ")}`,
+          code: "VALIDATION_ERROR",
+          message: `Comment cannot exceed ${PULSE_COMMENT_MAX_LENGTH} characters`,
+          errors: [
+            {
+              field: "comment",
+              message: `Comment cannot exceed ${PULSE_COMMENT_MAX_LENGTH} characters`,
+            },
+          ],
         },
         { status: 400 },
       );
     }
 
-    // Extract client IP for rate limiting
-    const clientIp = getClientIp(req);
+    // Verify question exists and has appropriate status
+    const question = await prisma.question.findUnique({
+      where: { id: questionId },
+      include: {
+        qaSession: {
+          select: {
+            ...SESSION_ACCESS_SELECT,
+            pulseScale: true,
+            ...RATE_LIMIT_POLICY_SELECT,
+          },
+        },
+      },
+    });
+
+    if (!question) {
+      return NextResponse.json(
+        {
+          code: "QUESTION_NOT_FOUND",
+          message: "Question not found",
+        },
+        { status: 404 },
+      );
+    }
+
+    const denied = await checkSessionAccess(req, question.qaSession);
+    if (denied) {
+      return denied.error;
+    }
+
+    // The participant ID comes from the signed participant token
+    const participant = await getParticipant(
+      req,
+      question.qaSession.code,
+      body.participantId,
+    );
+    if ("error" in participant) {
+      return participant.error;
+    }
+    const { participantId } = participant;
 
-    // Check rate limit (IP-based security layer)
-    const rateLimitResult = checkRateLimit(
+    // Check rate limit against the session's policy
+    const rateLimitResult = await checkSessionRateLimit(
       "pulse-check",
-      clientIp,
-      RATE_LIMITS.PULSE_CHECK,
+      question.qaSession,
+      { ip: getClientIp(req), participantId },
     );
 
     if (!rateLimitResult.allowed) {
@@ -76,26 +139,44 @@ export async function POST(
       );
     }
 
-    // Verify question exists and has appropriate status
-    const question = await prisma.question.findUnique({
-      where: { id: questionId },
-    });
+    if (!ANSWERED_STATUSES.includes(question.status)) {
+      return NextResponse.json(
+        {
+          code: "QUESTION_NOT_ANSWERED",
+          message: `Pulse check is only available for answered questions. Question status: ${question.status}`,
+        },
+        { status: 400 },
+      );
+    }
 
-    if (!question) {
+    // Feedback types only exist on the default scale
+    const { pulseScale } = question.qaSession;
+    if (body.score === undefined && parsePulseScaleConfig(pulseScale)) {
       return NextResponse.json(
         {
-          code: "QUESTION_NOT_FOUND",
-          message: "Question not found",
+          code: "INVALID_FEEDBACK",
+          message: "This session uses a custom scale - send a score instead",
         },
-        { status: 404 },
+        { status: 400 },
       );
     }
 
-    if (!ANSWERED_STATUSES.includes(question.status)) {
+    const scaleSize = getPulseScale(pulseScale).length;
+    const score = getFeedbackScore({
+      score: body.score ?? null,
+      feedback: body.feedback ?? null,
+    });
+
+    if (
+      score === null ||
+      !Number.isInteger(score) ||
+      score < 1 ||
+      score > scaleSize
+    ) {
       return NextResponse.json(
         {
-          code: "QUESTION_NOT_ANSWERED",
-          message: `Pulse check is only available for answered questions. Question status: ${question.status}`,
+          code: "INVALID_FEEDBACK",
+          message: `Score must be a whole number from 1 to ${scaleSize}`,
         },
         { status: 400 },
       );
@@ -106,7 +187,7 @@ export async function POST(
       where: {
         questionId_participantId: {
           questionId,
-          participantId: body.participantId,
+          participantId,
         },
       },
     });
@@ -123,19 +204,27 @@ export async function POST(
     }
 
     // Create pulse check feedback
-    await prisma.pulseCheckFeedback.create({
+    const feedback = await prisma.pulseCheckFeedback.create({
       data: {
         questionId,
-        participantId: body.participantId,
-        feedback: body.feedback,
+        participantId,
+        score,
+        feedback: scoreToFeedbackType(score, pulseScale),
+        comment: body.comment?.trim() || null,
       },
     });
 
+    publishSessionEvent(question.qaSession.code, {
+      type: "question.updated",
+      questionId,
+    });
+
     const headers = getRateLimitHeaders(rateLimitResult);
 
     const response: PulseCheckResponse = {
       questionId,
-      feedback: body.feedback,
+      score,
+      feedback: feedback.feedback,
       success: true,
     };
 
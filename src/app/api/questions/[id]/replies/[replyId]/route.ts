@@ -0,0 +1,98 @@
+/**
+ * DELETE /api/questions/[id]/replies/[replyId] - Remove a reply (session owner, co-hosts, moderators)
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { prisma } from "@/lib/db";
+import { logger } from "@/lib/logger";
+import { publishSessionEvent } from "@/lib/session-events";
+import { getSessionRole } from "@/lib/session-auth";
+import { hasSessionPermission } from "@/lib/session-roles";
+
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string; replyId: string }> },
+) {
+  const { id: questionId, replyId } = await params;
+
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        {
+          code: "UNAUTHORIZED",
+          message: "Authentication required",
+        },
+        { status: 401 },
+      );
+    }
+
+    const reply = await prisma.questionReply.findFirst({
+      where: { id: replyId, questionId },
+      include: {
+        question: {
+          select: {
+            qaSession: {
+              select: {
+                id: true,
+                hostId: true,
+                code: true,
+              },
+            },
+          },
+        },
+      },
+    });
+
+    if (!reply) {
+      return NextResponse.json(
+        {
+          code: "REPLY_NOT_FOUND",
+          message: "Reply not found",
+        },
+        { status: 404 },
+      );
+    }
+
+    const { qaSession } = reply.question;
+    const role = await getSessionRole(qaSession, session.user);
+    if (!role || !hasSessionPermission(role, "moderate_questions")) {
+      return NextResponse.json(
+        {
+          code: "FORBIDDEN",
+          message: "You are not authorized to remove replies in this session",
+        },
+        { status: 403 },
+      );
+    }
+
+    await prisma.questionReply.delete({
+      where: { id: replyId },
+    });
+
+    publishSessionEvent(qaSession.code, {
+      type: "question.updated",
+      questionId,
+    });
+
+    return NextResponse.json(
+      { message: "Reply removed successfully" },
+      { status: 200 },
+    );
+  } catch (error) {
+    logger.error("Error removing reply", error, {
+      questionId,
+      endpoint: "DELETE /api/questions/[id]/replies/[replyId]",
+    });
+    return NextResponse.json(
+      {
+        code: "INTERNAL_ERROR",
+        message: "An error occurred while removing the reply",
+      },
+      { status: 500 },
+    );
+  }
+}
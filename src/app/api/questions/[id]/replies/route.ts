@@ -0,0 +1,351 @@
+/**
+ * POST /api/questions/[id]/replies - Post a written answer or a follow-up reply
+ *
+ * With `as: "host"` the request is a host answer: it needs a session role
+ * that can answer questions and, unless markAnswered is false, marks the
+ * question answered. Otherwise it is a participant follow-up from the
+ * participant in the signed token, allowed only when the session has
+ * replies turned on. These replies go through the content filter and count
+ * towards the session's question rate limit.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { prisma } from "@/lib/db";
+import {
+  applyContentFilter,
+  parseContentFilterConfig,
+} from "@/lib/content-filter";
+import { logger } from "@/lib/logger";
+import { getParticipant } from "@/lib/participant-token";
+import { getHostActor, recordQuestionEvent } from "@/lib/question-events";
+import {
+  toQuestionReplyResponse,
+  validateReplyContent,
+} from "@/lib/question-replies";
+import { getAnsweredAtUpdate } from "@/lib/question-utils";
+import { checkSessionRateLimit, getRateLimitHeaders } from "@/lib/rate-limit";
+import { RATE_LIMIT_POLICY_SELECT } from "@/lib/rate-limit-policy";
+import { getClientIp } from "@/lib/request-utils";
+import {
+  checkSessionAccess,
+  SESSION_ACCESS_SELECT,
+} from "@/lib/session-access";
+import { publishSessionEvent } from "@/lib/session-events";
+import { getSessionRole } from "@/lib/session-auth";
+import { hasSessionPermission } from "@/lib/session-roles";
+import { AUTHOR_NAME_MAX_LENGTH } from "@/types/question";
+import type {
+  CreateQuestionReplyRequest,
+  CreateQuestionReplyResponse,
+} from "@/types/question-reply";
+
+// Participants can only reply to questions that are visible to them
+const REPLYABLE_STATUSES = ["approved", "being_answered", "answered"];
+
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id: questionId } = await params;
+
+  try {
+    let body: CreateQuestionReplyRequest;
+    try {
+      body = await req.json();
+    } catch {
+      return NextResponse.json(
+        {
+          code: "INVALID_JSON",
+          message: "Invalid JSON in request body",
+        },
+        { status: 400 },
+      );
+    }
+
+    const contentError = validateReplyContent(body.content);
+    if (contentError) {
+      return NextResponse.json(
+        {
+          code: "VALIDATION_ERROR",
+          message: contentError,
+          errors: [{ field: "content", message: contentError }],
+        },
+        { status: 400 },
+      );
+    }
+
+    const question = await prisma.question.findUnique({
+      where: { id: questionId },
+      include: {
+        qaSession: {
+          select: {
+            ...SESSION_ACCESS_SELECT,
+            isActive: true,
+            allowReplies: true,
+            contentFilter: true,
+            ...RATE_LIMIT_POLICY_SELECT,
+          },
+        },
+      },
+    });
+
+    if (!question) {
+      return NextResponse.json(
+        {
+          code: "QUESTION_NOT_FOUND",
+          message: "Question not found",
+        },
+        { status: 404 },
+      );
+    }
+
+    if (body.as !== undefined && body.as !== "host") {
+      return NextResponse.json(
+        {
+          code: "VALIDATION_ERROR",
+          message: 'as must be "host" or omitted',
+          errors: [{ field: "as", message: 'as must be "host" or omitted' }],
+        },
+        { status: 400 },
+      );
+    }
+
+    const sessionCode = question.qaSession.code;
+    const content = body.content.trim();
+
+    // Host answer
+    if (body.as === "host") {
+      const session = await getServerSession(authOptions);
+
+      if (!session?.user?.id) {
+        return NextResponse.json(
+          {
+            code: "UNAUTHORIZED",
+            message: "Authentication required",
+          },
+          { status: 401 },
+        );
+      }
+
+      const role = await getSessionRole(question.qaSession, session.user);
+      if (!role || !hasSessionPermission(role, "answer_questions")) {
+        return NextResponse.json(
+          {
+            code: "FORBIDDEN",
+            message:
+              "You are not authorized to answer questions in this session",
+          },
+          { status: 403 },
+        );
+      }
+
+      if (question.mergedIntoId) {
+        return NextResponse.json(
+          {
+            code: "ALREADY_MERGED",
+            message: "This question has been merged into another",
+          },
+          { status: 409 },
+        );
+      }
+
+      const markAnswered =
+        body.markAnswered !== false && question.status !== "answered";
+
+      // Post the answer, mark the question answered and audit the change
+      // together, so an answer never lands without its status change
+      const reply = await prisma.$transaction(async (tx) => {
+        const created = await tx.questionReply.create({
+          data: {
+            questionId,
+            authorType: "host",
+            userId: session.user.id,
+            authorName: session.user.name || "Host",
+            content,
+          },
+        });
+
+        if (markAnswered) {
+          await tx.question.update({
+            where: { id: questionId },
+            data: {
+              status: "answered",
+              ...getAnsweredAtUpdate(question.status, "answered"),
+            },
+          });
+          await recordQuestionEvent(tx, getHostActor(session.user), {
+            questionId,
+            sessionId: question.sessionId,
+            type: "status_changed",
+            fromStatus: question.status,
+            toStatus: "answered",
+          });
+        }
+
+        return created;
+      });
+
+      if (markAnswered) {
+        publishSessionEvent(sessionCode, {
+          type: "question.status_changed",
+          questionId,
+          status: "answered",
+        });
+      }
+
+      publishSessionEvent(sessionCode, {
+        type: "question.updated",
+        questionId,
+      });
+
+      const response: CreateQuestionReplyResponse = {
+        reply: toQuestionReplyResponse(reply),
+        message: "Answer posted successfully",
+      };
+
+      return NextResponse.json(response, { status: 201 });
+    }
+
+    const denied = await checkSessionAccess(req, question.qaSession);
+    if (denied) {
+      return denied.error;
+    }
+
+    // Participant follow-up, from the participant in the signed token
+    const participant = await getParticipant(req, sessionCode);
+    if ("error" in participant) {
+      return participant.error;
+    }
+    const { participantId } = participant;
+
+    if (
+      body.authorName !== undefined &&
+      (typeof body.authorName !== "string" ||
+        body.authorName.trim().length > AUTHOR_NAME_MAX_LENGTH)
+    ) {
+      return NextResponse.json(
+        {
+          code: "VALIDATION_ERROR",
+          message: `Author name cannot exceed ${AUTHOR_NAME_MAX_LENGTH} characters`,
+          errors: [
+            {
+              field: "authorName",
+              message: `Author name cannot exceed ${AUTHOR_NAME_MAX_LENGTH} characters`,
+            },
+          ],
+        },
+        { status: 400 },
+      );
+    }
+
+    if (!question.qaSession.isActive) {
+      return NextResponse.json(
+        {
+          code: "SESSION_INACTIVE",
+          message: "This session is no longer active",
+        },
+        { status: 403 },
+      );
+    }
+
+    if (!question.qaSession.allowReplies) {
+      return NextResponse.json(
+        {
+          code: "REPLIES_DISABLED",
+          message: "Replies are turned off for this session",
+        },
+        { status: 403 },
+      );
+    }
+
+    if (
+      question.mergedIntoId ||
+      !REPLYABLE_STATUSES.includes(question.status)
+    ) {
+      return NextResponse.json(
+        {
+          code: "QUESTION_NOT_FOUND",
+          message: "Question not found",
+        },
+        { status: 404 },
+      );
+    }
+
+    const rateLimitResult = await checkSessionRateLimit(
+      "submit-question",
+      question.qaSession,
+      { ip: getClientIp(req), participantId },
+    );
+
+    if (!rateLimitResult.allowed) {
+      const headers = getRateLimitHeaders(rateLimitResult);
+      return NextResponse.json(
+        {
+          code: "RATE_LIMIT_EXCEEDED",
+          message: `Too many replies. Please try again in ${rateLimitResult.retryAfter} seconds.`,
+          retryAfter: rateLimitResult.retryAfter,
+        },
+        { status: 429, headers },
+      );
+    }
+
+    // Replies have no moderation queue, so anything held for review is rejected
+    const filtered = applyContentFilter(
+      content,
+      parseContentFilterConfig(question.qaSession.contentFilter),
+    );
+
+    if (filtered.outcome === "reject" || filtered.outcome === "review") {
+      return NextResponse.json(
+        {
+          code: "CONTENT_REJECTED",
+          message: filtered.violations[0].message,
+          errors: filtered.violations.map(({ message }) => ({
+            field: "content",
+            message,
+          })),
+        },
+        { status: 400 },
+      );
+    }
+
+    const reply = await prisma.questionReply.create({
+      data: {
+        questionId,
+        authorType: "participant",
+        participantId,
+        authorName: body.authorName?.trim() || null,
+        content: filtered.content,
+      },
+    });
+
+    publishSessionEvent(sessionCode, {
+      type: "question.updated",
+      questionId,
+    });
+
+    const response: CreateQuestionReplyResponse = {
+      reply: toQuestionReplyResponse(reply),
+      message: "Reply posted successfully",
+    };
+
+    return NextResponse.json(response, {
+      status: 201,
+      headers: getRateLimitHeaders(rateLimitResult),
+    });
+  } catch (error) {
+    logger.error("Error posting reply", error, {
+      questionId,
+      endpoint: "POST /api/questions/[id]/replies",
+    });
+    return NextResponse.json(
+      {
+        code: "INTERNAL_ERROR",
+        message: "An error occurred while posting the reply",
+      },
+      { status: 500 },
+    );
+  }
+}
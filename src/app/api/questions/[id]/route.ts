@@ -1,8 +1,16 @@
 /**
- * PATCH /api/questions/[id] - Update question status (host only)
+ * PATCH /api/questions/[id] - Update question status and/or text (session owner, co-hosts, moderators)
  *
- * Allows authenticated hosts to update the status of questions in their sessions.
- * Valid statuses: being_answered, answered
+ * Allows session members to update the status of questions in their sessions.
+ * Valid statuses: approved, dismissed, being_answered, answered
+ *
+ * approved/dismissed are used by the moderation queue for sessions that
+ * require approval and are open to moderators; being_answered/answered
+ * drive the live Q&A flow and need a role that can answer questions.
+ *
+ * Editing the text needs moderate_questions. The participant's original
+ * text is kept for audit and participants see an "edited by host" marker.
+ * Every change is recorded in the question's history.
  */
 
 import { NextRequest, NextResponse } from "next/server";
@@ -10,12 +18,36 @@ import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
 import { prisma } from "@/lib/db";
 import { logger } from "@/lib/logger";
+import { editQuestionContent } from "@/lib/question-edits";
+import { getHostActor, recordQuestionEvent } from "@/lib/question-events";
+import {
+  getAnsweredAtUpdate,
+  validateQuestionContent,
+} from "@/lib/question-utils";
+import { publishSessionEvent } from "@/lib/session-events";
+import { getSessionRole } from "@/lib/session-auth";
+import { hasSessionPermission } from "@/lib/session-roles";
 import type {
-  UpdateQuestionStatusRequest,
+  HostQuestionStatus,
+  UpdateQuestionRequest,
   UpdateQuestionStatusResponse,
 } from "@/types/question";
+import type { SessionPermission } from "@/types/session-member";
+
+const VALID_HOST_STATUSES = [
+  "approved",
+  "dismissed",
+  "being_answered",
+  "answered",
+] as const;
 
-const VALID_HOST_STATUSES = ["being_answered", "answered"] as const;
+// Permission needed to move a question into each status
+const STATUS_PERMISSIONS: Record<HostQuestionStatus, SessionPermission> = {
+  approved: "moderate_questions",
+  dismissed: "moderate_questions",
+  being_answered: "answer_questions",
+  answered: "answer_questions",
+};
 
 export async function PATCH(
   req: NextRequest,
@@ -38,7 +70,7 @@ export async function PATCH(
     }
 
     // Parse and validate request body
-    let body: UpdateQuestionStatusRequest;
+    let body: UpdateQuestionRequest;
     try {
       body = await req.json();
     } catch {
@@ -51,9 +83,9 @@ export async function PATCH(
       );
     }
 
-    // Validate status value
+    // Validate status value (optional when only the text is edited)
     if (
-      !body.status ||
+      (body.status !== undefined || body.content === undefined) &&
       !VALID_HOST_STATUSES.includes(
         body.status as (typeof VALID_HOST_STATUSES)[number],
       )
@@ -67,13 +99,35 @@ export async function PATCH(
       );
     }
 
+    // Validate edited text
+    let content: string | undefined;
+    if (body.content !== undefined) {
+      const contentError =
+        typeof body.content === "string"
+          ? validateQuestionContent(body.content)
+          : "Question content must be a string";
+      if (contentError) {
+        return NextResponse.json(
+          {
+            code: "VALIDATION_ERROR",
+            message: contentError,
+            errors: [{ field: "content", message: contentError }],
+          },
+          { status: 400 },
+        );
+      }
+      content = body.content.trim();
+    }
+
     // Find question and verify it exists
     const question = await prisma.question.findUnique({
       where: { id: questionId },
       include: {
         qaSession: {
           select: {
+            id: true,
             hostId: true,
+            code: true,
           },
         },
       },
@@ -89,8 +143,18 @@ export async function PATCH(
       );
     }
 
-    // Verify user owns the session
-    if (question.qaSession.hostId !== session.user.id) {
+    // Verify the user's session role allows every requested change
+    const requiredPermissions: SessionPermission[] = [];
+    if (body.status) requiredPermissions.push(STATUS_PERMISSIONS[body.status]);
+    if (content !== undefined) requiredPermissions.push("moderate_questions");
+
+    const role = await getSessionRole(question.qaSession, session.user);
+    if (
+      !role ||
+      !requiredPermissions.every((permission) =>
+        hasSessionPermission(role, permission),
+      )
+    ) {
       return NextResponse.json(
         {
           code: "FORBIDDEN",
@@ -100,13 +164,47 @@ export async function PATCH(
       );
     }
 
+    const actor = getHostActor(session.user);
+
+    if (content !== undefined && content !== question.content) {
+      await editQuestionContent(questionId, content, { actor });
+
+      publishSessionEvent(question.qaSession.code, {
+        type: "question.updated",
+        questionId,
+      });
+    }
+
     // Update question status
-    const updatedQuestion = await prisma.question.update({
-      where: { id: questionId },
-      data: {
-        status: body.status,
-      },
-    });
+    const updatedQuestion = body.status
+      ? await prisma.question.update({
+          where: { id: questionId },
+          data: {
+            status: body.status,
+            ...getAnsweredAtUpdate(question.status, body.status),
+          },
+        })
+      : await prisma.question.findUniqueOrThrow({
+          where: { id: questionId },
+        });
+
+    if (body.status && body.status !== question.status) {
+      await recordQuestionEvent(prisma, actor, {
+        questionId,
+        sessionId: question.sessionId,
+        type: "status_changed",
+        fromStatus: question.status,
+        toStatus: body.status,
+      });
+    }
+
+    if (body.status) {
+      publishSessionEvent(question.qaSession.code, {
+        type: "question.status_changed",
+        questionId,
+        status: updatedQuestion.status,
+      });
+    }
 
     const response: UpdateQuestionStatusResponse = {
       question: {
@@ -120,20 +218,24 @@ export async function PATCH(
         isAnonymous: updatedQuestion.isAnonymous,
         createdAt: updatedQuestion.createdAt.toISOString(),
         updatedAt: updatedQuestion.updatedAt.toISOString(),
+        editedByHost: updatedQuestion.editedByHost || undefined,
+        originalContent: updatedQuestion.originalContent || undefined,
       },
-      message: "Question status updated successfully",
+      message: body.status
+        ? "Question status updated successfully"
+        : "Question updated successfully",
     };
 
     return NextResponse.json(response, { status: 200 });
   } catch (error) {
-    logger.error("Error updating question status", error, {
+    logger.error("Error updating question", error, {
       questionId,
       endpoint: "PATCH /api/questions/[id]",
     });
     return NextResponse.json(
       {
         code: "INTERNAL_ERROR",
-        message: "An error occurred while updating question status",
+        message: "An error occurred while updating the question",
       },
       { status: 500 },
     );
@@ -0,0 +1,190 @@
+/**
+ * POST /api/questions/[id]/split - Split a question into separate questions (session owner, co-hosts, moderators)
+ *
+ * For questions that ask several things at once. The original question
+ * takes the first part and keeps its votes; every other part becomes a new
+ * question from the same author, carrying over the original's voters. The
+ * participant's original text is kept for audit.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import type { Question } from "@prisma/client";
+import { authOptions } from "@/lib/auth";
+import { prisma } from "@/lib/db";
+import { logger } from "@/lib/logger";
+import { splitQuestion } from "@/lib/question-edits";
+import { getHostActor } from "@/lib/question-events";
+import { validateQuestionContent } from "@/lib/question-utils";
+import { publishSessionEvent } from "@/lib/session-events";
+import { getSessionRole } from "@/lib/session-auth";
+import { hasSessionPermission } from "@/lib/session-roles";
+import {
+  MAX_QUESTION_SPLIT_PARTS,
+  type QuestionResponse,
+  type SplitQuestionRequest,
+  type SplitQuestionResponse,
+} from "@/types/question";
+
+function toQuestionResponse(question: Question): QuestionResponse {
+  return {
+    id: question.id,
+    sessionId: question.sessionId,
+    participantId: question.participantId || undefined,
+    authorName: question.authorName || undefined,
+    content: question.content,
+    voteCount: question.voteCount,
+    status: question.status,
+    isAnonymous: question.isAnonymous,
+    createdAt: question.createdAt.toISOString(),
+    updatedAt: question.updatedAt.toISOString(),
+    editedByHost: question.editedByHost || undefined,
+    originalContent: question.originalContent || undefined,
+  };
+}
+
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id: questionId } = await params;
+
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        {
+          code: "UNAUTHORIZED",
+          message: "Authentication required",
+        },
+        { status: 401 },
+      );
+    }
+
+    let body: SplitQuestionRequest;
+    try {
+      body = await req.json();
+    } catch {
+      return NextResponse.json(
+        {
+          code: "INVALID_JSON",
+          message: "Invalid JSON in request body",
+        },
+        { status: 400 },
+      );
+    }
+
+    if (
+      !Array.isArray(body.parts) ||
+      body.parts.length < 2 ||
+      body.parts.length > MAX_QUESTION_SPLIT_PARTS ||
+      body.parts.some((part) => typeof part !== "string")
+    ) {
+      return NextResponse.json(
+        {
+          code: "VALIDATION_ERROR",
+          message: `parts must list between 2 and ${MAX_QUESTION_SPLIT_PARTS} questions`,
+        },
+        { status: 400 },
+      );
+    }
+
+    const errors = body.parts.flatMap((part, index) => {
+      const message = validateQuestionContent(part);
+      return message ? [{ field: `parts.${index}`, message }] : [];
+    });
+
+    if (errors.length > 0) {
+      return NextResponse.json(
+        {
+          code: "VALIDATION_ERROR",
+          message: errors[0].message,
+          errors,
+        },
+        { status: 400 },
+      );
+    }
+
+    const question = await prisma.question.findUnique({
+      where: { id: questionId },
+      include: {
+        qaSession: {
+          select: {
+            id: true,
+            hostId: true,
+            code: true,
+          },
+        },
+      },
+    });
+
+    if (!question) {
+      return NextResponse.json(
+        {
+          code: "QUESTION_NOT_FOUND",
+          message: "Question not found",
+        },
+        { status: 404 },
+      );
+    }
+
+    const role = await getSessionRole(question.qaSession, session.user);
+    if (!role || !hasSessionPermission(role, "moderate_questions")) {
+      return NextResponse.json(
+        {
+          code: "FORBIDDEN",
+          message: "You are not authorized to split questions in this session",
+        },
+        { status: 403 },
+      );
+    }
+
+    if (question.mergedIntoId) {
+      return NextResponse.json(
+        {
+          code: "ALREADY_MERGED",
+          message: "This question has been merged into another",
+        },
+        { status: 409 },
+      );
+    }
+
+    const result = await splitQuestion(
+      questionId,
+      body.parts.map((part) => part.trim()),
+      { actor: getHostActor(session.user) },
+    );
+
+    publishSessionEvent(question.qaSession.code, {
+      type: "question.updated",
+      questionId,
+    });
+    for (const created of result.createdQuestions) {
+      publishSessionEvent(question.qaSession.code, {
+        type: "question.created",
+        questionId: created.id,
+      });
+    }
+
+    const response: SplitQuestionResponse = {
+      question: toQuestionResponse(result.question),
+      createdQuestions: result.createdQuestions.map(toQuestionResponse),
+      message: `Split into ${body.parts.length} questions`,
+    };
+
+    return NextResponse.json(response, { status: 200 });
+  } catch (error) {
+    logger.error("Error splitting question", error, {
+      questionId,
+      endpoint: "POST /api/questions/[id]/split",
+    });
+    return NextResponse.json(
+      {
+        code: "INTERNAL_ERROR",
+        message: "An error occurred while splitting the question",
+      },
+      { status: 500 },
+    );
+  }
+}
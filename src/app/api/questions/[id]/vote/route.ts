@@ -1,17 +1,22 @@
 /**
  * POST /api/questions/[id]/vote - Vote on a question
  * DELETE /api/questions/[id]/vote - Remove vote from a question
+ *
+ * Votes are counted against the participant in the request's signed
+ * participant token.
  */
 
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/db";
-import {
-  checkRateLimit,
-  RATE_LIMITS,
-  getRateLimitHeaders,
-} from "@/lib/rate-limit";
+import { checkSessionRateLimit, getRateLimitHeaders } from "@/lib/rate-limit";
+import { RATE_LIMIT_POLICY_SELECT } from "@/lib/rate-limit-policy";
 import { getClientIp } from "@/lib/request-utils";
-import { isValidParticipantId } from "@/lib/participant-id";
+import { getParticipant } from "@/lib/participant-token";
+import {
+  checkSessionAccess,
+  SESSION_ACCESS_SELECT,
+} from "@/lib/session-access";
+import { publishSessionEvent } from "@/lib/session-events";
 import type { VoteRequest, VoteResponse } from "@/types/question";
 
 export async function POST(
@@ -22,22 +27,51 @@ export async function POST(
     const { id: questionId } = await params;
     const body = (await req.json()) as VoteRequest;
 
-    // Validate participantId format
-    if (!body.participantId || !isValidParticipantId(body.participantId)) {
+    // Verify question exists
+    const question = await prisma.question.findUnique({
+      where: { id: questionId },
+      include: {
+        qaSession: {
+          select: {
+            ...SESSION_ACCESS_SELECT,
+            ...RATE_LIMIT_POLICY_SELECT,
+          },
+        },
+      },
+    });
+
+    if (!question) {
       return NextResponse.json(
         {
-          code: "INVALID_PARTICIPANT_ID",
-          message: "Invalid participant ID format",
+          code: "QUESTION_NOT_FOUND",
+          message: "Question not found",
         },
-        { status: 400 },
+        { status: 404 },
       );
     }
 
-    // Extract client IP for rate limiting
-    const clientIp = getClientIp(req);
+    const denied = await checkSessionAccess(req, question.qaSession);
+    if (denied) {
+      return denied.error;
+    }
 
-    // Check rate limit (IP-based security layer)
-    const rateLimitResult = checkRateLimit("vote", clientIp, RATE_LIMITS.VOTE);
+    // The participant ID comes from the signed participant token
+    const participant = await getParticipant(
+      req,
+      question.qaSession.code,
+      body.participantId,
+    );
+    if ("error" in participant) {
+      return participant.error;
+    }
+    const { participantId } = participant;
+
+    // Check rate limit against the session's policy
+    const rateLimitResult = await checkSessionRateLimit(
+      "vote",
+      question.qaSession,
+      { ip: getClientIp(req), participantId },
+    );
 
     if (!rateLimitResult.allowed) {
       const headers = getRateLimitHeaders(rateLimitResult);
@@ -51,27 +85,12 @@ export async function POST(
       );
     }
 
-    // Verify question exists
-    const question = await prisma.question.findUnique({
-      where: { id: questionId },
-    });
-
-    if (!question) {
-      return NextResponse.json(
-        {
-          code: "QUESTION_NOT_FOUND",
-          message: "Question not found",
-        },
-        { status: 404 },
-      );
-    }
-
     // Check for duplicate vote
     const existingVote = await prisma.vote.findUnique({
       where: {
         questionId_participantId: {
           questionId,
-          participantId: body.participantId,
+          participantId,
         },
       },
     });
@@ -91,7 +110,7 @@ export async function POST(
       prisma.vote.create({
         data: {
           questionId,
-          participantId: body.participantId,
+          participantId,
         },
       }),
       prisma.question.update({
@@ -104,6 +123,12 @@ export async function POST(
       }),
     ]);
 
+    publishSessionEvent(question.qaSession.code, {
+      type: "question.voted",
+      questionId,
+      voteCount: updatedQuestion.voteCount,
+    });
+
     const headers = getRateLimitHeaders(rateLimitResult);
 
     const response: VoteResponse = {
@@ -133,22 +158,51 @@ export async function DELETE(
     const { id: questionId } = await params;
     const body = (await req.json()) as VoteRequest;
 
-    // Validate participantId format
-    if (!body.participantId || !isValidParticipantId(body.participantId)) {
+    // Verify question exists
+    const question = await prisma.question.findUnique({
+      where: { id: questionId },
+      include: {
+        qaSession: {
+          select: {
+            ...SESSION_ACCESS_SELECT,
+            ...RATE_LIMIT_POLICY_SELECT,
+          },
+        },
+      },
+    });
+
+    if (!question) {
       return NextResponse.json(
         {
-          code: "INVALID_PARTICIPANT_ID",
-          message: "Invalid participant ID format",
+          code: "QUESTION_NOT_FOUND",
+          message: "Question not found",
         },
-        { status: 400 },
+        { status: 404 },
       );
     }
 
-    // Extract client IP for rate limiting
-    const clientIp = getClientIp(req);
+    const denied = await checkSessionAccess(req, question.qaSession);
+    if (denied) {
+      return denied.error;
+    }
 
-    // Check rate limit (IP-based security layer)
-    const rateLimitResult = checkRateLimit("vote", clientIp, RATE_LIMITS.VOTE);
+    // The participant ID comes from the signed participant token
+    const participant = await getParticipant(
+      req,
+      question.qaSession.code,
+      body.participantId,
+    );
+    if ("error" in participant) {
+      return participant.error;
+    }
+    const { participantId } = participant;
+
+    // Check rate limit against the session's policy
+    const rateLimitResult = await checkSessionRateLimit(
+      "vote",
+      question.qaSession,
+      { ip: getClientIp(req), participantId },
+    );
 
     if (!rateLimitResult.allowed) {
       const headers = getRateLimitHeaders(rateLimitResult);
@@ -162,27 +216,12 @@ export async function DELETE(
       );
     }
 
-    // Verify question exists
-    const question = await prisma.question.findUnique({
-      where: { id: questionId },
-    });
-
-    if (!question) {
-      return NextResponse.json(
-        {
-          code: "QUESTION_NOT_FOUND",
-          message: "Question not found",
-        },
-        { status: 404 },
-      );
-    }
-
     // Check if vote exists
     const existingVote = await prisma.vote.findUnique({
       where: {
         questionId_participantId: {
           questionId,
-          participantId: body.participantId,
+          participantId,
         },
       },
     });
@@ -203,7 +242,7 @@ export async function DELETE(
         where: {
           questionId_participantId: {
             questionId,
-            participantId: body.participantId,
+            participantId,
           },
         },
       }),
@@ -217,6 +256,12 @@ export async function DELETE(
       }),
     ]);
 
+    publishSessionEvent(question.qaSession.code, {
+      type: "question.voted",
+      questionId,
+      voteCount: updatedQuestion.voteCount,
+    });
+
     const headers = getRateLimitHeaders(rateLimitResult);
 
     const response: VoteResponse = {
@@ -0,0 +1,128 @@
+/**
+ * POST /api/sessions/[code]/access - Enter a passcode session's passcode
+ *
+ * Sets the access cookie that participant routes check in passcode mode.
+ * Attempts are rate limited per IP so passcodes can't be guessed.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { logger } from "@/lib/logger";
+import {
+  checkRateLimitInStore,
+  getRateLimitHeaders,
+  RATE_LIMITS,
+} from "@/lib/rate-limit";
+import { getClientIp } from "@/lib/request-utils";
+import { setAccessCookie, verifyPasscode } from "@/lib/session-access";
+import type {
+  EnterPasscodeRequest,
+  EnterPasscodeResponse,
+} from "@/types/session";
+
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ code: string }> },
+) {
+  const { code } = await params;
+  const sessionCode = code.toUpperCase();
+
+  try {
+    let body: EnterPasscodeRequest;
+    try {
+      body = await req.json();
+    } catch {
+      return NextResponse.json(
+        {
+          code: "INVALID_JSON",
+          message: "Invalid JSON in request body",
+        },
+        { status: 400 },
+      );
+    }
+
+    if (typeof body.passcode !== "string" || !body.passcode.trim()) {
+      return NextResponse.json(
+        {
+          code: "VALIDATION_ERROR",
+          message: "Invalid request data",
+          errors: [{ field: "passcode", message: "Passcode is required" }],
+        },
+        { status: 400 },
+      );
+    }
+
+    const session = await prisma.qaSession.findUnique({
+      where: { code: sessionCode },
+      select: { id: true, accessMode: true, accessPasscodeHash: true },
+    });
+
+    if (!session) {
+      return NextResponse.json(
+        {
+          code: "SESSION_NOT_FOUND",
+          message: "Session not found",
+        },
+        { status: 404 },
+      );
+    }
+
+    if (session.accessMode !== "passcode" || !session.accessPasscodeHash) {
+      return NextResponse.json(
+        {
+          code: "PASSCODE_NOT_REQUIRED",
+          message: "This session does not use a passcode",
+        },
+        { status: 400 },
+      );
+    }
+
+    const rateLimitResult = await checkRateLimitInStore(
+      `passcode:${session.id}`,
+      `ip:${getClientIp(req)}`,
+      RATE_LIMITS.PASSCODE_ATTEMPT,
+    );
+    const headers = getRateLimitHeaders(rateLimitResult);
+
+    if (!rateLimitResult.allowed) {
+      return NextResponse.json(
+        {
+          code: "RATE_LIMIT_EXCEEDED",
+          message: `Too many passcode attempts. Please try again in ${rateLimitResult.retryAfter} seconds.`,
+          retryAfter: rateLimitResult.retryAfter,
+        },
+        { status: 429, headers },
+      );
+    }
+
+    if (
+      !(await verifyPasscode(body.passcode.trim(), session.accessPasscodeHash))
+    ) {
+      return NextResponse.json(
+        {
+          code: "INVALID_PASSCODE",
+          message: "Incorrect passcode",
+        },
+        { status: 401, headers },
+      );
+    }
+
+    const responseBody: EnterPasscodeResponse = { granted: true };
+    const response = NextResponse.json(responseBody, { status: 200, headers });
+    setAccessCookie(response, sessionCode, session.accessPasscodeHash);
+
+    return response;
+  } catch (error) {
+    logger.error("Error checking session passcode", error, {
+      sessionCode,
+      endpoint: "POST /api/sessions/[code]/access",
+    });
+    return NextResponse.json(
+      {
+        code: "INTERNAL_ERROR",
+        message: "An error occurred while checking the passcode",
+      },
+      { status: 500 },
+    );
+  }
+}
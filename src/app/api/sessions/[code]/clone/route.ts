@@ -0,0 +1,108 @@
+/**
+ * POST /api/sessions/[code]/clone - Create a new session with this session's settings
+ *
+ * The caller hosts the new session. With includeQuestions, questions that
+ * are still pending, approved or being answered are copied across (without
+ * their votes), so a recurring event picks up where the last one left off.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { logger } from "@/lib/logger";
+import { getHostActor } from "@/lib/question-events";
+import { getHostSession } from "@/lib/session-auth";
+import {
+  createSessionFromSource,
+  getSessionDurationHours,
+  getSessionSettings,
+  toCreateSessionResponse,
+  validateSessionFromSource,
+} from "@/lib/session-templates";
+import type {
+  CloneSessionRequest,
+  CloneSessionResponse,
+} from "@/types/session-template";
+
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ code: string }> },
+) {
+  const { code } = await params;
+  const sessionCode = code.toUpperCase();
+
+  try {
+    const hostSession = await getHostSession(
+      sessionCode,
+      "manage_session",
+      "You are not authorized to clone this session",
+    );
+    if ("error" in hostSession) return hostSession.error;
+    const { qaSession, user } = hostSession;
+
+    let body: CloneSessionRequest;
+    try {
+      body = await req.json();
+    } catch {
+      return NextResponse.json(
+        {
+          code: "INVALID_JSON",
+          message: "Invalid JSON in request body",
+        },
+        { status: 400 },
+      );
+    }
+
+    const validation = validateSessionFromSource(
+      {
+        title: qaSession.title,
+        description: qaSession.description,
+        durationHours: getSessionDurationHours(qaSession),
+      },
+      body,
+    );
+    if (!validation.isValid) {
+      return NextResponse.json(
+        {
+          code: "VALIDATION_ERROR",
+          message: "Validation failed",
+          errors: Object.entries(validation.errors).map(([field, message]) => ({
+            field,
+            message,
+          })),
+        },
+        { status: 400 },
+      );
+    }
+
+    const { qaSession: clone, carriedOverQuestions } =
+      await createSessionFromSource({
+        hostId: user.id,
+        title: validation.title,
+        description: validation.description,
+        startsAt: validation.startsAt,
+        expiresAt: validation.expiresAt,
+        settings: getSessionSettings(qaSession),
+        carryOverFromSessionId:
+          body.includeQuestions === true ? qaSession.id : undefined,
+        actor: getHostActor(user),
+      });
+
+    const response: CloneSessionResponse = {
+      ...toCreateSessionResponse(clone),
+      carriedOverQuestions,
+    };
+
+    return NextResponse.json(response, { status: 201 });
+  } catch (error) {
+    logger.error("Error cloning session", error, {
+      sessionCode: code,
+      endpoint: "POST /api/sessions/[code]/clone",
+    });
+    return NextResponse.json(
+      {
+        code: "INTERNAL_ERROR",
+        message: "An error occurred while cloning the session",
+      },
+      { status: 500 },
+    );
+  }
+}
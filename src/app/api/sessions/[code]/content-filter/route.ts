@@ -0,0 +1,128 @@
+/**
+ * GET /api/sessions/[code]/content-filter - Get the session's content filter
+ * PUT /api/sessions/[code]/content-filter - Replace the content filter (null turns it off)
+ *
+ * Host-only: the blocked words and patterns aren't exposed to participants,
+ * so they can't be worked around.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/db";
+import { logger } from "@/lib/logger";
+import { getHostSession } from "@/lib/session-auth";
+import {
+  parseContentFilterConfig,
+  validateContentFilterConfig,
+} from "@/lib/content-filter";
+import type {
+  ContentFilterResponse,
+  UpdateContentFilterRequest,
+} from "@/types/content-filter";
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ code: string }> },
+) {
+  const { code } = await params;
+  const sessionCode = code.toUpperCase();
+
+  try {
+    const hostSession = await getHostSession(
+      sessionCode,
+      "view_questions",
+      "You are not authorized to view this session's content filter",
+    );
+    if ("error" in hostSession) return hostSession.error;
+
+    const response: ContentFilterResponse = {
+      contentFilter: parseContentFilterConfig(
+        hostSession.qaSession.contentFilter,
+      ),
+    };
+
+    return NextResponse.json(response, { status: 200 });
+  } catch (error) {
+    logger.error("Error retrieving content filter", error, {
+      sessionCode: code,
+      endpoint: "GET /api/sessions/[code]/content-filter",
+    });
+    return NextResponse.json(
+      {
+        code: "INTERNAL_ERROR",
+        message: "An error occurred while retrieving the content filter",
+      },
+      { status: 500 },
+    );
+  }
+}
+
+export async function PUT(
+  req: NextRequest,
+  { params }: { params: Promise<{ code: string }> },
+) {
+  const { code } = await params;
+  const sessionCode = code.toUpperCase();
+
+  try {
+    const hostSession = await getHostSession(
+      sessionCode,
+      "manage_session",
+      "You are not authorized to change this session's content filter",
+    );
+    if ("error" in hostSession) return hostSession.error;
+    const { qaSession } = hostSession;
+
+    let body: UpdateContentFilterRequest;
+    try {
+      body = await req.json();
+    } catch {
+      return NextResponse.json(
+        {
+          code: "INVALID_JSON",
+          message: "Invalid JSON in request body",
+        },
+        { status: 400 },
+      );
+    }
+
+    const validation = validateContentFilterConfig(body.contentFilter);
+    if (!validation.isValid) {
+      return NextResponse.json(
+        {
+          code: "VALIDATION_ERROR",
+          message: "Invalid content filter",
+          errors: validation.errors,
+        },
+        { status: 400 },
+      );
+    }
+
+    await prisma.qaSession.update({
+      where: { id: qaSession.id },
+      data: {
+        contentFilter: validation.config
+          ? { ...validation.config }
+          : Prisma.DbNull,
+      },
+    });
+
+    const response: ContentFilterResponse = {
+      contentFilter: validation.config,
+    };
+
+    return NextResponse.json(response, { status: 200 });
+  } catch (error) {
+    logger.error("Error updating content filter", error, {
+      sessionCode: code,
+      endpoint: "PUT /api/sessions/[code]/content-filter",
+    });
+    return NextResponse.json(
+      {
+        code: "INTERNAL_ERROR",
+        message: "An error occurred while updating the content filter",
+      },
+      { status: 500 },
+    );
+  }
+}
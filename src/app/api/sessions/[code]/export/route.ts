@@ -0,0 +1,94 @@
+/**
+ * GET /api/sessions/[code]/export?format=csv|json|markdown - Export all questions (owner and co-hosts)
+ *
+ * Includes every question regardless of status, with vote counts, author
+ * (hidden for anonymous questions), timestamps, pulse check stats and
+ * the reply thread (written answers and participant follow-ups).
+ * Responds with a file download; format defaults to CSV.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { logger } from "@/lib/logger";
+import { REPLY_ORDER_BY } from "@/lib/question-replies";
+import { getHostSession } from "@/lib/session-auth";
+import {
+  buildSessionExport,
+  EXPORT_FORMATS,
+  isExportFormat,
+  renderSessionExport,
+} from "@/lib/session-export";
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ code: string }> },
+) {
+  const { code } = await params;
+  const sessionCode = code.toUpperCase();
+
+  try {
+    const format = req.nextUrl.searchParams.get("format") ?? "csv";
+
+    if (!isExportFormat(format)) {
+      return NextResponse.json(
+        {
+          code: "INVALID_FORMAT",
+          message: `Format must be one of: ${EXPORT_FORMATS.join(", ")}`,
+        },
+        { status: 400 },
+      );
+    }
+
+    const hostSession = await getHostSession(
+      sessionCode,
+      "export_session",
+      "You are not authorized to export this session",
+    );
+    if ("error" in hostSession) return hostSession.error;
+    const { qaSession } = hostSession;
+
+    const questions = await prisma.question.findMany({
+      where: { sessionId: qaSession.id },
+      orderBy: [{ voteCount: "desc" }, { createdAt: "asc" }],
+      include: {
+        pulseCheckFeedback: {
+          select: {
+            feedback: true,
+            score: true,
+            comment: true,
+            createdAt: true,
+          },
+        },
+        replies: {
+          orderBy: REPLY_ORDER_BY,
+        },
+      },
+    });
+
+    const { body, contentType, filename } = renderSessionExport(
+      buildSessionExport(qaSession, questions),
+      format,
+    );
+
+    return new NextResponse(body, {
+      status: 200,
+      headers: {
+        "Content-Type": contentType,
+        "Content-Disposition": `attachment; filename="${filename}"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    logger.error("Error exporting session", error, {
+      sessionCode: code,
+      endpoint: "GET /api/sessions/[code]/export",
+    });
+    return NextResponse.json(
+      {
+        code: "INTERNAL_ERROR",
+        message: "An error occurred while exporting the session",
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,85 @@
+/**
+ * GET /api/sessions/[code]/host/analytics - Post-event metrics for the host team
+ *
+ * Participants, questions over time, vote distribution, answer rate,
+ * time-to-answer and pulse check satisfaction. Works after the session has
+ * expired so hosts can review it afterwards.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { logger } from "@/lib/logger";
+import { computeSessionAnalytics } from "@/lib/session-analytics";
+import { getHostSession } from "@/lib/session-auth";
+import type { GetSessionAnalyticsResponse } from "@/types/analytics";
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ code: string }> },
+) {
+  const { code } = await params;
+  const sessionCode = code.toUpperCase();
+
+  try {
+    const hostSession = await getHostSession(
+      sessionCode,
+      "view_questions",
+      "You are not authorized to view analytics for this session",
+    );
+    if ("error" in hostSession) return hostSession.error;
+    const { qaSession } = hostSession;
+
+    const [questions, votes, pulseFeedback] = await Promise.all([
+      prisma.question.findMany({
+        where: { sessionId: qaSession.id },
+        select: {
+          id: true,
+          content: true,
+          status: true,
+          voteCount: true,
+          participantId: true,
+          createdAt: true,
+          answeredAt: true,
+        },
+      }),
+      prisma.vote.findMany({
+        where: { question: { sessionId: qaSession.id } },
+        select: { participantId: true, createdAt: true },
+      }),
+      prisma.pulseCheckFeedback.findMany({
+        where: { question: { sessionId: qaSession.id, status: "answered" } },
+        select: { participantId: true, feedback: true, score: true },
+      }),
+    ]);
+
+    const response: GetSessionAnalyticsResponse = {
+      session: {
+        code: qaSession.code,
+        title: qaSession.title,
+        createdAt: qaSession.createdAt.toISOString(),
+        expiresAt: qaSession.expiresAt.toISOString(),
+      },
+      analytics: computeSessionAnalytics({
+        questions,
+        votes,
+        pulseFeedback,
+        pulseScale: qaSession.pulseScale,
+      }),
+      generatedAt: new Date().toISOString(),
+    };
+
+    return NextResponse.json(response, { status: 200 });
+  } catch (error) {
+    logger.error("Error computing session analytics", error, {
+      sessionCode: code,
+      endpoint: "GET /api/sessions/[code]/host/analytics",
+    });
+    return NextResponse.json(
+      {
+        code: "INTERNAL_ERROR",
+        message: "An error occurred while computing session analytics",
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,141 @@
+/**
+ * GET /api/sessions/[code]/host/clusters - Retrieve question clusters for a host's session
+ * POST /api/sessions/[code]/host/clusters - Queue a clustering run for the session
+ *
+ * Clusters group similar questions under a paraphrased headline. They are
+ * computed by a background job (see lib/clustering-job.ts); POST returns
+ * immediately and hosts are notified over the session stream when the run
+ * completes. Combined vote counts are summed at read time so they stay
+ * current between runs.
+ */
+
+import { NextRequest, NextResponse, after } from "next/server";
+import { prisma } from "@/lib/db";
+import { logger } from "@/lib/logger";
+import { CLUSTERED_STATUSES, runClusteringJob } from "@/lib/clustering-job";
+import { getHostSession } from "@/lib/session-auth";
+import type {
+  GetClustersResponse,
+  RecomputeClustersResponse,
+} from "@/types/cluster";
+
+const FORBIDDEN_MESSAGE =
+  "You are not authorized to access clusters for this session";
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ code: string }> },
+) {
+  const { code } = await params;
+  const sessionCode = code.toUpperCase();
+
+  try {
+    const hostSession = await getHostSession(
+      sessionCode,
+      "view_questions",
+      FORBIDDEN_MESSAGE,
+    );
+    if ("error" in hostSession) return hostSession.error;
+    const { qaSession } = hostSession;
+
+    const [clusters, unclusteredCount] = await Promise.all([
+      prisma.cluster.findMany({
+        where: { sessionId: qaSession.id },
+        include: {
+          questions: {
+            where: { status: { in: [...CLUSTERED_STATUSES] } },
+            select: {
+              id: true,
+              content: true,
+              voteCount: true,
+              status: true,
+            },
+            orderBy: [{ voteCount: "desc" }, { createdAt: "asc" }],
+          },
+        },
+      }),
+      prisma.question.count({
+        where: {
+          sessionId: qaSession.id,
+          clusterId: null,
+          status: { in: [...CLUSTERED_STATUSES] },
+        },
+      }),
+    ]);
+
+    const clusterResponses = clusters
+      // Questions dismissed since the last run leave empty clusters behind
+      .filter((cluster) => cluster.questions.length > 0)
+      .map((cluster) => ({
+        id: cluster.id,
+        headline: cluster.headline,
+        combinedVoteCount: cluster.questions.reduce(
+          (sum, q) => sum + q.voteCount,
+          0,
+        ),
+        questions: cluster.questions,
+      }))
+      .sort((a, b) => b.combinedVoteCount - a.combinedVoteCount);
+
+    const response: GetClustersResponse = {
+      clusters: clusterResponses,
+      summariser: clusters[0]?.summariser ?? null,
+      computedAt: clusters[0]?.createdAt.toISOString() ?? null,
+      unclusteredCount,
+    };
+
+    return NextResponse.json(response, { status: 200 });
+  } catch (error) {
+    logger.error("Error retrieving clusters", error, {
+      sessionCode: code,
+      endpoint: "GET /api/sessions/[code]/host/clusters",
+    });
+    return NextResponse.json(
+      {
+        code: "INTERNAL_ERROR",
+        message: "An error occurred while retrieving clusters",
+      },
+      { status: 500 },
+    );
+  }
+}
+
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ code: string }> },
+) {
+  const { code } = await params;
+  const sessionCode = code.toUpperCase();
+
+  try {
+    const hostSession = await getHostSession(
+      sessionCode,
+      "moderate_questions",
+      FORBIDDEN_MESSAGE,
+    );
+    if ("error" in hostSession) return hostSession.error;
+    const { qaSession } = hostSession;
+
+    // Run after the response is sent so the host isn't kept waiting
+    after(() => runClusteringJob({ id: qaSession.id, code: qaSession.code }));
+
+    const response: RecomputeClustersResponse = {
+      status: "queued",
+      message: "Clustering has been queued",
+    };
+
+    return NextResponse.json(response, { status: 202 });
+  } catch (error) {
+    logger.error("Error queueing clustering run", error, {
+      sessionCode: code,
+      endpoint: "POST /api/sessions/[code]/host/clusters",
+    });
+    return NextResponse.json(
+      {
+        code: "INTERNAL_ERROR",
+        message: "An error occurred while queueing clustering",
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,150 @@
+/**
+ * GET /api/sessions/[code]/host/polls - Retrieve all polls, drafts included
+ * POST /api/sessions/[code]/host/polls - Create a poll (session owner, co-hosts)
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { logger } from "@/lib/logger";
+import {
+  POLL_INCLUDE,
+  toPollResponseData,
+  validatePollInput,
+} from "@/lib/polls";
+import { getHostSession } from "@/lib/session-auth";
+import { publishSessionEvent } from "@/lib/session-events";
+import type {
+  CreatePollRequest,
+  GetPollsResponse,
+  PollMutationResponse,
+} from "@/types/poll";
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ code: string }> },
+) {
+  const { code } = await params;
+  const sessionCode = code.toUpperCase();
+
+  try {
+    const hostSession = await getHostSession(
+      sessionCode,
+      "view_questions",
+      "You are not authorized to view polls for this session",
+    );
+    if ("error" in hostSession) return hostSession.error;
+
+    const polls = await prisma.poll.findMany({
+      where: { sessionId: hostSession.qaSession.id },
+      orderBy: { createdAt: "desc" },
+      include: POLL_INCLUDE,
+    });
+
+    const response: GetPollsResponse = {
+      polls: polls.map((poll) => toPollResponseData(poll)),
+    };
+
+    return NextResponse.json(response, { status: 200 });
+  } catch (error) {
+    logger.error("Error retrieving host polls", error, {
+      sessionCode: code,
+      endpoint: "GET /api/sessions/[code]/host/polls",
+    });
+    return NextResponse.json(
+      {
+        code: "INTERNAL_ERROR",
+        message: "An error occurred while retrieving polls",
+      },
+      { status: 500 },
+    );
+  }
+}
+
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ code: string }> },
+) {
+  const { code } = await params;
+  const sessionCode = code.toUpperCase();
+
+  try {
+    let body: CreatePollRequest;
+    try {
+      body = await req.json();
+    } catch {
+      return NextResponse.json(
+        {
+          code: "INVALID_JSON",
+          message: "Invalid JSON in request body",
+        },
+        { status: 400 },
+      );
+    }
+
+    const validation = validatePollInput(body);
+    if (!validation.isValid) {
+      return NextResponse.json(
+        {
+          code: "VALIDATION_ERROR",
+          message: validation.errors[0].message,
+          errors: validation.errors,
+        },
+        { status: 400 },
+      );
+    }
+
+    const hostSession = await getHostSession(
+      sessionCode,
+      "manage_session",
+      "You are not authorized to run polls in this session",
+    );
+    if ("error" in hostSession) return hostSession.error;
+    const { qaSession } = hostSession;
+
+    const labels =
+      body.type === "rating"
+        ? []
+        : (body.options ?? []).map((label) => label.trim());
+    const open = body.open === true;
+
+    const poll = await prisma.poll.create({
+      data: {
+        sessionId: qaSession.id,
+        question: body.question.trim(),
+        type: body.type,
+        status: open ? "open" : "draft",
+        openedAt: open ? new Date() : null,
+        options: {
+          create: labels.map((label, position) => ({ label, position })),
+        },
+      },
+      include: POLL_INCLUDE,
+    });
+
+    if (open) {
+      publishSessionEvent(qaSession.code, {
+        type: "poll.updated",
+        pollId: poll.id,
+      });
+    }
+
+    const response: PollMutationResponse = {
+      poll: toPollResponseData(poll),
+      message: open ? "Poll opened" : "Poll saved as a draft",
+    };
+
+    return NextResponse.json(response, { status: 201 });
+  } catch (error) {
+    logger.error("Error creating poll", error, {
+      sessionCode: code,
+      endpoint: "POST /api/sessions/[code]/host/polls",
+    });
+    return NextResponse.json(
+      {
+        code: "INTERNAL_ERROR",
+        message: "An error occurred while creating the poll",
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,85 @@
+/**
+ * GET /api/sessions/[code]/host/pulse - Session-level pulse check summary
+ *
+ * Rolls up feedback across every answered question and ranks the rated
+ * answers from most to least helpful, with participants' comments.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { logger } from "@/lib/logger";
+import {
+  compareByHelpfulness,
+  getPulseScale,
+  summarisePulseFeedback,
+  toPulseComments,
+} from "@/lib/pulse-check";
+import { getHostSession } from "@/lib/session-auth";
+import type { SessionPulseSummaryResponse } from "@/types/pulse-check";
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ code: string }> },
+) {
+  const { code } = await params;
+  const sessionCode = code.toUpperCase();
+
+  try {
+    const hostSession = await getHostSession(
+      sessionCode,
+      "view_questions",
+      "You are not authorized to view pulse checks for this session",
+    );
+    if ("error" in hostSession) return hostSession.error;
+    const { qaSession } = hostSession;
+
+    const questions = await prisma.question.findMany({
+      where: { sessionId: qaSession.id, status: "answered" },
+      select: {
+        id: true,
+        content: true,
+        pulseCheckFeedback: {
+          select: {
+            feedback: true,
+            score: true,
+            comment: true,
+            createdAt: true,
+          },
+        },
+      },
+    });
+
+    const scale = getPulseScale(qaSession.pulseScale);
+    const summaries = questions.map((q) => ({
+      questionId: q.id,
+      content: q.content,
+      summary: summarisePulseFeedback(q.pulseCheckFeedback, scale),
+      comments: toPulseComments(q.pulseCheckFeedback),
+    }));
+    const rated = summaries.filter((q) => q.summary.responses > 0);
+
+    const response: SessionPulseSummaryResponse = {
+      scale,
+      overall: summarisePulseFeedback(
+        questions.flatMap((q) => q.pulseCheckFeedback),
+        scale,
+      ),
+      questions: rated.sort(compareByHelpfulness),
+      unratedCount: summaries.length - rated.length,
+    };
+
+    return NextResponse.json(response, { status: 200 });
+  } catch (error) {
+    logger.error("Error retrieving pulse summary", error, {
+      sessionCode: code,
+      endpoint: "GET /api/sessions/[code]/host/pulse",
+    });
+    return NextResponse.json(
+      {
+        code: "INTERNAL_ERROR",
+        message: "An error occurred while retrieving the pulse summary",
+      },
+      { status: 500 },
+    );
+  }
+}
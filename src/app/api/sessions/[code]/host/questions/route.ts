@@ -1,16 +1,25 @@
 /**
  * GET /api/sessions/[code]/host/questions - Retrieve all questions for a host's session
  *
- * This endpoint allows authenticated hosts to view all questions submitted to their session,
- * regardless of status (pending, approved, dismissed, answered, being_answered).
+ * This endpoint allows the session's owner, co-hosts and moderators to view all
+ * questions submitted to the session, regardless of status
+ * (pending, approved, dismissed, answered, being_answered).
  * Questions are sorted by vote count (descending) to help hosts prioritize.
  */
 
 import { NextRequest, NextResponse } from "next/server";
-import { getServerSession } from "next-auth";
-import { authOptions } from "@/lib/auth";
 import { prisma } from "@/lib/db";
 import { logger } from "@/lib/logger";
+import {
+  getPulseScale,
+  summarisePulseFeedback,
+  toPulseComments,
+} from "@/lib/pulse-check";
+import {
+  REPLY_ORDER_BY,
+  toQuestionReplyResponse,
+} from "@/lib/question-replies";
+import { getHostSession } from "@/lib/session-auth";
 import type { GetHostQuestionsResponse } from "@/types/question";
 
 export async function GET(
@@ -21,45 +30,13 @@ export async function GET(
   const sessionCode = code.toUpperCase();
 
   try {
-    // Check authentication
-    const session = await getServerSession(authOptions);
-
-    if (!session?.user?.id) {
-      return NextResponse.json(
-        {
-          code: "UNAUTHORIZED",
-          message: "Authentication required",
-        },
-        { status: 401 },
-      );
-    }
-
-    // Verify session exists
-    const qaSession = await prisma.qaSession.findUnique({
-      where: { code: sessionCode },
-    });
-
-    if (!qaSession) {
-      return NextResponse.json(
-        {
-          code: "SESSION_NOT_FOUND",
-          message: "Session not found",
-        },
-        { status: 404 },
-      );
-    }
-
-    // Verify user is the host of this session
-    if (qaSession.hostId !== session.user.id) {
-      return NextResponse.json(
-        {
-          code: "FORBIDDEN",
-          message:
-            "You are not authorized to access questions for this session",
-        },
-        { status: 403 },
-      );
-    }
+    const hostSession = await getHostSession(
+      sessionCode,
+      "view_questions",
+      "You are not authorized to access questions for this session",
+    );
+    if ("error" in hostSession) return hostSession.error;
+    const { qaSession } = hostSession;
 
     // Retrieve all questions for the session (all statuses)
     // Sort by vote count descending (highest votes first), then by creation date
@@ -72,11 +49,19 @@ export async function GET(
         pulseCheckFeedback: {
           select: {
             feedback: true,
+            score: true,
+            comment: true,
+            createdAt: true,
           },
         },
+        replies: {
+          orderBy: REPLY_ORDER_BY,
+        },
       },
     });
 
+    const pulseScale = getPulseScale(qaSession.pulseScale);
+
     const response: GetHostQuestionsResponse = {
       questions: questions.map((q) => {
         // Calculate pulse check stats for answered questions
@@ -107,6 +92,17 @@ export async function GET(
           createdAt: q.createdAt.toISOString(),
           updatedAt: q.updatedAt.toISOString(),
           pulseCheckStats,
+          ...(q.status === "answered" && {
+            pulseSummary: summarisePulseFeedback(
+              q.pulseCheckFeedback,
+              pulseScale,
+            ),
+            pulseComments: toPulseComments(q.pulseCheckFeedback),
+          }),
+          mergedIntoId: q.mergedIntoId || undefined,
+          editedByHost: q.editedByHost || undefined,
+          originalContent: q.originalContent || undefined,
+          replies: q.replies.map(toQuestionReplyResponse),
         };
       }),
       total: questions.length,
@@ -0,0 +1,142 @@
+/**
+ * PATCH /api/sessions/[code]/members/[memberId] - Change a member's role (owner only)
+ * DELETE /api/sessions/[code]/members/[memberId] - Remove a member (owner only)
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { logger } from "@/lib/logger";
+import { getHostSession } from "@/lib/session-auth";
+import { toSessionMemberResponse } from "@/lib/session-members";
+import { isSessionMemberRole, SESSION_MEMBER_ROLES } from "@/lib/session-roles";
+import type { UpdateSessionMemberRequest } from "@/types/session-member";
+
+const memberNotFound = () =>
+  NextResponse.json(
+    {
+      code: "MEMBER_NOT_FOUND",
+      message: "Member not found",
+    },
+    { status: 404 },
+  );
+
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ code: string; memberId: string }> },
+) {
+  const { code, memberId } = await params;
+  const sessionCode = code.toUpperCase();
+
+  try {
+    const hostSession = await getHostSession(
+      sessionCode,
+      "manage_members",
+      "Only the session owner can change member roles",
+    );
+    if ("error" in hostSession) return hostSession.error;
+    const { qaSession } = hostSession;
+
+    let body: UpdateSessionMemberRequest;
+    try {
+      body = await req.json();
+    } catch {
+      return NextResponse.json(
+        {
+          code: "INVALID_JSON",
+          message: "Invalid JSON in request body",
+        },
+        { status: 400 },
+      );
+    }
+
+    if (!isSessionMemberRole(body.role)) {
+      return NextResponse.json(
+        {
+          code: "INVALID_ROLE",
+          message: `Role must be one of: ${SESSION_MEMBER_ROLES.join(", ")}`,
+          field: "role",
+        },
+        { status: 400 },
+      );
+    }
+
+    const member = await prisma.sessionMember.findFirst({
+      where: { id: memberId, sessionId: qaSession.id },
+    });
+
+    if (!member) {
+      return memberNotFound();
+    }
+
+    const updatedMember = await prisma.sessionMember.update({
+      where: { id: member.id },
+      data: { role: body.role },
+      include: {
+        user: {
+          select: { name: true },
+        },
+      },
+    });
+
+    return NextResponse.json(
+      { member: toSessionMemberResponse(updatedMember) },
+      { status: 200 },
+    );
+  } catch (error) {
+    logger.error("Error updating session member", error, {
+      sessionCode: code,
+      endpoint: "PATCH /api/sessions/[code]/members/[memberId]",
+    });
+    return NextResponse.json(
+      {
+        code: "INTERNAL_ERROR",
+        message: "An error occurred while updating the member",
+      },
+      { status: 500 },
+    );
+  }
+}
+
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ code: string; memberId: string }> },
+) {
+  const { code, memberId } = await params;
+  const sessionCode = code.toUpperCase();
+
+  try {
+    const hostSession = await getHostSession(
+      sessionCode,
+      "manage_members",
+      "Only the session owner can remove members",
+    );
+    if ("error" in hostSession) return hostSession.error;
+    const { qaSession } = hostSession;
+
+    const member = await prisma.sessionMember.findFirst({
+      where: { id: memberId, sessionId: qaSession.id },
+    });
+
+    if (!member) {
+      return memberNotFound();
+    }
+
+    await prisma.sessionMember.delete({
+      where: { id: member.id },
+    });
+
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    logger.error("Error removing session member", error, {
+      sessionCode: code,
+      endpoint: "DELETE /api/sessions/[code]/members/[memberId]",
+    });
+    return NextResponse.json(
+      {
+        code: "INTERNAL_ERROR",
+        message: "An error occurred while removing the member",
+      },
+      { status: 500 },
+    );
+  }
+}
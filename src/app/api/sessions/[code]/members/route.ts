@@ -0,0 +1,205 @@
+/**
+ * GET /api/sessions/[code]/members - List the session's owner, co-hosts and moderators
+ * POST /api/sessions/[code]/members - Invite a co-host or moderator by email (owner only)
+ *
+ * Invites are matched by email: the invitee gets access as soon as they
+ * sign in with that address. No email is sent - the owner shares the host
+ * dashboard link themselves.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { logger } from "@/lib/logger";
+import { getHostSession, normaliseEmail } from "@/lib/session-auth";
+import { isValidEmail, toSessionMemberResponse } from "@/lib/session-members";
+import { isSessionMemberRole, SESSION_MEMBER_ROLES } from "@/lib/session-roles";
+import type {
+  InviteSessionMemberRequest,
+  ListSessionMembersResponse,
+  SessionMemberResponse,
+} from "@/types/session-member";
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ code: string }> },
+) {
+  const { code } = await params;
+  const sessionCode = code.toUpperCase();
+
+  try {
+    const hostSession = await getHostSession(
+      sessionCode,
+      "view_questions",
+      "You are not authorized to view members of this session",
+    );
+    if ("error" in hostSession) return hostSession.error;
+    const { qaSession, role } = hostSession;
+
+    const [host, members] = await Promise.all([
+      prisma.user.findUnique({
+        where: { id: qaSession.hostId },
+        select: { email: true, name: true },
+      }),
+      prisma.sessionMember.findMany({
+        where: { sessionId: qaSession.id },
+        orderBy: { createdAt: "asc" },
+        include: {
+          user: {
+            select: { name: true },
+          },
+        },
+      }),
+    ]);
+
+    const owner: SessionMemberResponse = {
+      id: null,
+      email: host?.email ?? "",
+      name: host?.name ?? null,
+      role: "owner",
+      hasJoined: true,
+      createdAt: qaSession.createdAt.toISOString(),
+    };
+
+    const response: ListSessionMembersResponse = {
+      role,
+      members: [owner, ...members.map(toSessionMemberResponse)],
+    };
+
+    return NextResponse.json(response, { status: 200 });
+  } catch (error) {
+    logger.error("Error listing session members", error, {
+      sessionCode: code,
+      endpoint: "GET /api/sessions/[code]/members",
+    });
+    return NextResponse.json(
+      {
+        code: "INTERNAL_ERROR",
+        message: "An error occurred while retrieving session members",
+      },
+      { status: 500 },
+    );
+  }
+}
+
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ code: string }> },
+) {
+  const { code } = await params;
+  const sessionCode = code.toUpperCase();
+
+  try {
+    const hostSession = await getHostSession(
+      sessionCode,
+      "manage_members",
+      "Only the session owner can invite members",
+    );
+    if ("error" in hostSession) return hostSession.error;
+    const { qaSession, userId } = hostSession;
+
+    let body: InviteSessionMemberRequest;
+    try {
+      body = await req.json();
+    } catch {
+      return NextResponse.json(
+        {
+          code: "INVALID_JSON",
+          message: "Invalid JSON in request body",
+        },
+        { status: 400 },
+      );
+    }
+
+    if (!isValidEmail(body.email)) {
+      return NextResponse.json(
+        {
+          code: "VALIDATION_ERROR",
+          message: "A valid email address is required",
+          field: "email",
+        },
+        { status: 400 },
+      );
+    }
+
+    if (!isSessionMemberRole(body.role)) {
+      return NextResponse.json(
+        {
+          code: "INVALID_ROLE",
+          message: `Role must be one of: ${SESSION_MEMBER_ROLES.join(", ")}`,
+          field: "role",
+        },
+        { status: 400 },
+      );
+    }
+
+    const email = normaliseEmail(body.email);
+
+    const existingMember = await prisma.sessionMember.findUnique({
+      where: {
+        sessionId_email: {
+          sessionId: qaSession.id,
+          email,
+        },
+      },
+    });
+
+    if (existingMember) {
+      return NextResponse.json(
+        {
+          code: "MEMBER_EXISTS",
+          message: "That email has already been invited to this session",
+        },
+        { status: 409 },
+      );
+    }
+
+    // Link straight away if the invitee already has an account
+    const invitee = await prisma.user.findUnique({
+      where: { email },
+      select: { id: true },
+    });
+
+    if (invitee?.id === qaSession.hostId) {
+      return NextResponse.json(
+        {
+          code: "VALIDATION_ERROR",
+          message: "The session owner is already a member",
+          field: "email",
+        },
+        { status: 400 },
+      );
+    }
+
+    const member = await prisma.sessionMember.create({
+      data: {
+        sessionId: qaSession.id,
+        email,
+        userId: invitee?.id ?? null,
+        role: body.role,
+        invitedById: userId,
+      },
+      include: {
+        user: {
+          select: { name: true },
+        },
+      },
+    });
+
+    return NextResponse.json(
+      { member: toSessionMemberResponse(member) },
+      { status: 201 },
+    );
+  } catch (error) {
+    logger.error("Error inviting session member", error, {
+      sessionCode: code,
+      endpoint: "POST /api/sessions/[code]/members",
+    });
+    return NextResponse.json(
+      {
+        code: "INTERNAL_ERROR",
+        message: "An error occurred while inviting the member",
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,136 @@
+/**
+ * POST /api/sessions/[code]/participant - Join a session as a participant
+ *
+ * Returns the participant ID held in the request's participant token, or
+ * issues a new ID and token on first join. New tokens are rate limited per
+ * IP so participant IDs can't be minted in bulk.
+ *
+ * Signed-in participants get their account's participant ID for the
+ * session instead, with anything this browser did anonymously since the
+ * last sign-out merged in, so their questions and votes follow them
+ * across devices.
+ *
+ * Restricted sessions only issue IDs to people allowed in.
+ */
+
+import { randomUUID } from "crypto";
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { prisma } from "@/lib/db";
+import { logger } from "@/lib/logger";
+import {
+  isLinkedParticipant,
+  linkParticipant,
+} from "@/lib/participant-identity";
+import {
+  readParticipantId,
+  setParticipantCookie,
+} from "@/lib/participant-token";
+import {
+  checkRateLimitInStore,
+  getRateLimitHeaders,
+  RATE_LIMITS,
+} from "@/lib/rate-limit";
+import { getClientIp } from "@/lib/request-utils";
+import {
+  checkSessionAccess,
+  SESSION_ACCESS_SELECT,
+} from "@/lib/session-access";
+import type { JoinSessionResponse } from "@/types/participant";
+
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ code: string }> },
+) {
+  const { code } = await params;
+  const sessionCode = code.toUpperCase();
+
+  try {
+    const session = await prisma.qaSession.findUnique({
+      where: { code: sessionCode },
+      select: SESSION_ACCESS_SELECT,
+    });
+
+    if (!session) {
+      return NextResponse.json(
+        {
+          code: "SESSION_NOT_FOUND",
+          message: "Session not found",
+        },
+        { status: 404 },
+      );
+    }
+
+    const denied = await checkSessionAccess(req, session);
+    if (denied) {
+      return denied.error;
+    }
+
+    const existingId = readParticipantId(req, sessionCode);
+    const authSession = await getServerSession(authOptions);
+
+    if (authSession?.user?.id) {
+      const body: JoinSessionResponse = {
+        participantId: await linkParticipant(
+          session.id,
+          authSession.user.id,
+          existingId,
+        ),
+        isLinked: true,
+      };
+      const response = NextResponse.json(body, { status: 200 });
+      setParticipantCookie(response, sessionCode, body.participantId);
+      return response;
+    }
+
+    // A linked ID left behind by someone who signed out stays with their
+    // account - this browser carries on under a new anonymous ID
+    if (existingId && !(await isLinkedParticipant(session.id, existingId))) {
+      const response: JoinSessionResponse = {
+        participantId: existingId,
+        isLinked: false,
+      };
+      return NextResponse.json(response, { status: 200 });
+    }
+
+    const rateLimitResult = await checkRateLimitInStore(
+      `join:${session.id}`,
+      `ip:${getClientIp(req)}`,
+      RATE_LIMITS.JOIN_SESSION,
+    );
+    const headers = getRateLimitHeaders(rateLimitResult);
+
+    if (!rateLimitResult.allowed) {
+      return NextResponse.json(
+        {
+          code: "RATE_LIMIT_EXCEEDED",
+          message: `Too many joins from this network. Please try again in ${rateLimitResult.retryAfter} seconds.`,
+          retryAfter: rateLimitResult.retryAfter,
+        },
+        { status: 429, headers },
+      );
+    }
+
+    const body: JoinSessionResponse = {
+      participantId: randomUUID(),
+      isLinked: false,
+    };
+    const response = NextResponse.json(body, { status: 201, headers });
+    setParticipantCookie(response, sessionCode, body.participantId);
+
+    return response;
+  } catch (error) {
+    logger.error("Error joining session", error, {
+      sessionCode,
+      endpoint: "POST /api/sessions/[code]/participant",
+    });
+    return NextResponse.json(
+      {
+        code: "INTERNAL_ERROR",
+        message: "An error occurred while joining the session",
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,87 @@
+/**
+ * GET /api/sessions/[code]/polls - Retrieve open and closed polls for participants
+ *
+ * Drafts stay hidden until the host opens them. Pass ?participantId= to
+ * learn which polls that participant has already answered.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { logger } from "@/lib/logger";
+import { isValidParticipantId } from "@/lib/participant-id";
+import { POLL_INCLUDE, toPollResponseData } from "@/lib/polls";
+import {
+  checkSessionAccess,
+  SESSION_ACCESS_SELECT,
+} from "@/lib/session-access";
+import type { GetPollsResponse } from "@/types/poll";
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ code: string }> },
+) {
+  const { code } = await params;
+  const sessionCode = code.toUpperCase();
+
+  try {
+    const participantId =
+      req.nextUrl.searchParams.get("participantId") ?? undefined;
+
+    if (participantId !== undefined && !isValidParticipantId(participantId)) {
+      return NextResponse.json(
+        {
+          code: "INVALID_PARTICIPANT_ID",
+          message: "Invalid participant ID format",
+        },
+        { status: 400 },
+      );
+    }
+
+    const session = await prisma.qaSession.findUnique({
+      where: { code: sessionCode },
+      select: SESSION_ACCESS_SELECT,
+    });
+
+    if (!session) {
+      return NextResponse.json(
+        {
+          code: "SESSION_NOT_FOUND",
+          message: "Session not found",
+        },
+        { status: 404 },
+      );
+    }
+
+    const denied = await checkSessionAccess(req, session);
+    if (denied) {
+      return denied.error;
+    }
+
+    const polls = await prisma.poll.findMany({
+      where: {
+        sessionId: session.id,
+        status: { in: ["open", "closed"] },
+      },
+      orderBy: { createdAt: "desc" },
+      include: POLL_INCLUDE,
+    });
+
+    const response: GetPollsResponse = {
+      polls: polls.map((poll) => toPollResponseData(poll, participantId)),
+    };
+
+    return NextResponse.json(response, { status: 200 });
+  } catch (error) {
+    logger.error("Error retrieving polls", error, {
+      sessionCode: code,
+      endpoint: "GET /api/sessions/[code]/polls",
+    });
+    return NextResponse.json(
+      {
+        code: "INTERNAL_ERROR",
+        message: "An error occurred while retrieving polls",
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,153 @@
+/**
+ * GET /api/sessions/[code]/pulse-scale - Get the session's custom pulse scale
+ * PUT /api/sessions/[code]/pulse-scale - Replace the pulse scale (null restores the default)
+ *
+ * The scale is locked once any feedback has been given, so existing scores
+ * keep their meaning.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/db";
+import { logger } from "@/lib/logger";
+import {
+  parsePulseScaleConfig,
+  validatePulseScaleConfig,
+} from "@/lib/pulse-check";
+import { getHostSession } from "@/lib/session-auth";
+import { publishSessionEvent } from "@/lib/session-events";
+import type {
+  PulseScaleResponse,
+  UpdatePulseScaleRequest,
+} from "@/types/pulse-check";
+
+/**
+ * Whether any question in the session has pulse check feedback
+ */
+async function hasPulseFeedback(sessionId: string): Promise<boolean> {
+  const count = await prisma.pulseCheckFeedback.count({
+    where: { question: { sessionId } },
+  });
+  return count > 0;
+}
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ code: string }> },
+) {
+  const { code } = await params;
+  const sessionCode = code.toUpperCase();
+
+  try {
+    const hostSession = await getHostSession(
+      sessionCode,
+      "view_questions",
+      "You are not authorized to view this session's pulse scale",
+    );
+    if ("error" in hostSession) return hostSession.error;
+    const { qaSession } = hostSession;
+
+    const response: PulseScaleResponse = {
+      pulseScale: parsePulseScaleConfig(qaSession.pulseScale),
+      isLocked: await hasPulseFeedback(qaSession.id),
+    };
+
+    return NextResponse.json(response, { status: 200 });
+  } catch (error) {
+    logger.error("Error retrieving pulse scale", error, {
+      sessionCode: code,
+      endpoint: "GET /api/sessions/[code]/pulse-scale",
+    });
+    return NextResponse.json(
+      {
+        code: "INTERNAL_ERROR",
+        message: "An error occurred while retrieving the pulse scale",
+      },
+      { status: 500 },
+    );
+  }
+}
+
+export async function PUT(
+  req: NextRequest,
+  { params }: { params: Promise<{ code: string }> },
+) {
+  const { code } = await params;
+  const sessionCode = code.toUpperCase();
+
+  try {
+    const hostSession = await getHostSession(
+      sessionCode,
+      "manage_session",
+      "You are not authorized to change this session's pulse scale",
+    );
+    if ("error" in hostSession) return hostSession.error;
+    const { qaSession } = hostSession;
+
+    let body: UpdatePulseScaleRequest;
+    try {
+      body = await req.json();
+    } catch {
+      return NextResponse.json(
+        {
+          code: "INVALID_JSON",
+          message: "Invalid JSON in request body",
+        },
+        { status: 400 },
+      );
+    }
+
+    const validation = validatePulseScaleConfig(body.pulseScale);
+    if (!validation.isValid) {
+      return NextResponse.json(
+        {
+          code: "VALIDATION_ERROR",
+          message: validation.error,
+          errors: [{ field: "pulseScale", message: validation.error }],
+        },
+        { status: 400 },
+      );
+    }
+
+    if (await hasPulseFeedback(qaSession.id)) {
+      return NextResponse.json(
+        {
+          code: "PULSE_SCALE_LOCKED",
+          message:
+            "The pulse scale can't change once participants have given feedback",
+        },
+        { status: 409 },
+      );
+    }
+
+    await prisma.qaSession.update({
+      where: { id: qaSession.id },
+      data: {
+        pulseScale: validation.config
+          ? { points: validation.config.points.map((point) => ({ ...point })) }
+          : Prisma.DbNull,
+      },
+    });
+
+    publishSessionEvent(qaSession.code, { type: "session.updated" });
+
+    const response: PulseScaleResponse = {
+      pulseScale: validation.config,
+      isLocked: false,
+    };
+
+    return NextResponse.json(response, { status: 200 });
+  } catch (error) {
+    logger.error("Error updating pulse scale", error, {
+      sessionCode: code,
+      endpoint: "PUT /api/sessions/[code]/pulse-scale",
+    });
+    return NextResponse.json(
+      {
+        code: "INTERNAL_ERROR",
+        message: "An error occurred while updating the pulse scale",
+      },
+      { status: 500 },
+    );
+  }
+}
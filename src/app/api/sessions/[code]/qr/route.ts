@@ -0,0 +1,102 @@
+/**
+ * GET /api/sessions/[code]/qr?format=svg|png - QR code image of the session's join link
+ *
+ * Public, like the session itself: the code is what participants share.
+ * Format defaults to SVG.
+ *
+ * The link is built from NEXTAUTH_URL, never the request's Host header, so
+ * a forged header can't get a QR code pointing elsewhere into shared
+ * caches. Without NEXTAUTH_URL the request origin is used and the image is
+ * only cached privately.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { logger } from "@/lib/logger";
+import {
+  getSessionJoinUrl,
+  isQrCodeFormat,
+  QR_CODE_FORMATS,
+} from "@/lib/session-links";
+import { renderQrCode } from "@/lib/session-qr";
+
+/**
+ * Origin configured for the app, if NEXTAUTH_URL holds a valid URL
+ */
+function getConfiguredOrigin(): string | null {
+  try {
+    return process.env.NEXTAUTH_URL
+      ? new URL(process.env.NEXTAUTH_URL).origin
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ code: string }> },
+) {
+  const { code } = await params;
+  const sessionCode = code.toUpperCase();
+
+  try {
+    const format = req.nextUrl.searchParams.get("format") ?? "svg";
+
+    if (!isQrCodeFormat(format)) {
+      return NextResponse.json(
+        {
+          code: "INVALID_FORMAT",
+          message: `Format must be one of: ${QR_CODE_FORMATS.join(", ")}`,
+        },
+        { status: 400 },
+      );
+    }
+
+    const qaSession = await prisma.qaSession.findUnique({
+      where: { code: sessionCode },
+      select: { id: true },
+    });
+
+    if (!qaSession) {
+      return NextResponse.json(
+        {
+          code: "SESSION_NOT_FOUND",
+          message: "Session not found",
+        },
+        { status: 404 },
+      );
+    }
+
+    const configuredOrigin = getConfiguredOrigin();
+    const { body, contentType } = await renderQrCode(
+      getSessionJoinUrl(configuredOrigin ?? req.nextUrl.origin, sessionCode),
+      format,
+    );
+
+    return new NextResponse(
+      typeof body === "string" ? body : new Uint8Array(body),
+      {
+        status: 200,
+        headers: {
+          "Content-Type": contentType,
+          "Cache-Control": configuredOrigin
+            ? "public, max-age=3600"
+            : "private, max-age=3600",
+        },
+      },
+    );
+  } catch (error) {
+    logger.error("Error generating session QR code", error, {
+      sessionCode: code,
+      endpoint: "GET /api/sessions/[code]/qr",
+    });
+    return NextResponse.json(
+      {
+        code: "INTERNAL_ERROR",
+        message: "An error occurred while generating the QR code",
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -6,14 +6,22 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/db";
 import { validateQuestionInput } from "@/lib/question-utils";
+import { PARTICIPANT_ACTOR, recordQuestionEvent } from "@/lib/question-events";
 import {
-  checkRateLimit,
-  RATE_LIMITS,
-  getRateLimitHeaders,
-} from "@/lib/rate-limit";
+  applyContentFilter,
+  parseContentFilterConfig,
+} from "@/lib/content-filter";
+import { checkSessionRateLimit, getRateLimitHeaders } from "@/lib/rate-limit";
 import { getClientIp } from "@/lib/request-utils";
-import { isValidParticipantId } from "@/lib/participant-id";
+import { getParticipant } from "@/lib/participant-token";
 import { logger } from "@/lib/logger";
+import { getPulseScale, summarisePulseFeedback } from "@/lib/pulse-check";
+import {
+  REPLY_ORDER_BY,
+  toQuestionReplyResponse,
+} from "@/lib/question-replies";
+import { publishSessionEvent } from "@/lib/session-events";
+import { checkSessionAccess } from "@/lib/session-access";
 import type {
   SubmitQuestionRequest,
   SubmitQuestionResponse,
@@ -30,21 +38,21 @@ export async function POST(
   try {
     const body = (await req.json()) as SubmitQuestionRequest;
 
-    // Validate participantId format
-    if (!body.participantId || !isValidParticipantId(body.participantId)) {
-      return NextResponse.json(
-        {
-          code: "INVALID_PARTICIPANT_ID",
-          message: "Invalid participant ID format",
-        },
-        { status: 400 },
-      );
+    // The participant ID comes from the signed participant token
+    const participant = await getParticipant(
+      req,
+      sessionCode,
+      body.participantId,
+    );
+    if ("error" in participant) {
+      return participant.error;
     }
+    const { participantId } = participant;
 
     // Validate question input
     const validation = validateQuestionInput({
       content: body.content,
-      participantId: body.participantId,
+      participantId,
       authorName: body.authorName,
     });
 
@@ -59,14 +67,31 @@ export async function POST(
       );
     }
 
-    // Extract client IP for rate limiting
-    const clientIp = getClientIp(req);
+    // Verify session exists and is accepting questions
+    const session = await prisma.qaSession.findUnique({
+      where: { code: sessionCode },
+    });
+
+    if (!session) {
+      return NextResponse.json(
+        {
+          code: "SESSION_NOT_FOUND",
+          message: "Session not found",
+        },
+        { status: 404 },
+      );
+    }
+
+    const denied = await checkSessionAccess(req, session);
+    if (denied) {
+      return denied.error;
+    }
 
-    // Check rate limit (IP-based security layer)
-    const rateLimitResult = checkRateLimit(
+    // Check rate limit against the session's policy
+    const rateLimitResult = await checkSessionRateLimit(
       "submit-question",
-      clientIp,
-      RATE_LIMITS.SUBMIT_QUESTION,
+      session,
+      { ip: getClientIp(req), participantId },
     );
 
     if (!rateLimitResult.allowed) {
@@ -81,26 +106,21 @@ export async function POST(
       );
     }
 
-    // Verify session exists and is accepting questions
-    const session = await prisma.qaSession.findUnique({
-      where: { code: sessionCode },
-    });
-
-    if (!session) {
+    if (!session.isActive) {
       return NextResponse.json(
         {
-          code: "SESSION_NOT_FOUND",
-          message: "Session not found",
+          code: "SESSION_INACTIVE",
+          message: "This session is no longer active",
         },
-        { status: 404 },
+        { status: 403 },
       );
     }
 
-    if (!session.isActive) {
+    if (session.startsAt && session.startsAt > new Date()) {
       return NextResponse.json(
         {
-          code: "SESSION_INACTIVE",
-          message: "This session is no longer active",
+          code: "SESSION_NOT_STARTED",
+          message: "This session has not started yet",
         },
         { status: 403 },
       );
@@ -116,21 +136,57 @@ export async function POST(
       );
     }
 
-    // Create question with auto-approved status (moderation UI to be added later)
+    // Run the session's content filter
+    const filtered = applyContentFilter(
+      body.content.trim(),
+      parseContentFilterConfig(session.contentFilter),
+    );
+
+    if (filtered.outcome === "reject") {
+      return NextResponse.json(
+        {
+          code: "CONTENT_REJECTED",
+          message: filtered.violations[0].message,
+          errors: filtered.violations.map(({ message }) => ({
+            field: "content",
+            message,
+          })),
+        },
+        { status: 400 },
+      );
+    }
+
+    // Sessions that require approval, and questions flagged by the content
+    // filter, are held for the moderation queue
     // Use client-provided ID if present (for optimistic UI updates)
     const question = await prisma.question.create({
       data: {
         ...(body.id && { id: body.id }), // Use client ID if provided
         sessionId: session.id,
-        participantId: body.participantId,
-        content: body.content.trim(),
+        participantId,
+        content: filtered.content,
         authorName: body.authorName?.trim() || null,
         isAnonymous: body.isAnonymous,
-        status: "approved",
+        status:
+          session.requireApproval || filtered.outcome === "review"
+            ? "pending"
+            : "approved",
         voteCount: 0,
       },
     });
 
+    await recordQuestionEvent(prisma, PARTICIPANT_ACTOR, {
+      questionId: question.id,
+      sessionId: session.id,
+      type: "created",
+      toStatus: question.status,
+    });
+
+    publishSessionEvent(sessionCode, {
+      type: "question.created",
+      questionId: question.id,
+    });
+
     // Return success response with rate limit headers
     const headers = getRateLimitHeaders(rateLimitResult);
 
@@ -147,7 +203,10 @@ export async function POST(
         createdAt: question.createdAt.toISOString(),
         updatedAt: question.updatedAt.toISOString(),
       },
-      message: "Question submitted successfully",
+      message:
+        question.status === "pending"
+          ? "Question submitted and awaiting host approval"
+          : "Question submitted successfully",
     };
 
     return NextResponse.json(response, { status: 201, headers });
@@ -189,6 +248,11 @@ export async function GET(
       );
     }
 
+    const denied = await checkSessionAccess(req, session);
+    if (denied) {
+      return denied.error;
+    }
+
     // Retrieve approved and answered questions sorted by vote count (desc) and creation date (desc)
     const questions = await prisma.question.findMany({
       where: {
@@ -202,11 +266,17 @@ export async function GET(
         pulseCheckFeedback: {
           select: {
             feedback: true,
+            score: true,
           },
         },
+        replies: {
+          orderBy: REPLY_ORDER_BY,
+        },
       },
     });
 
+    const pulseScale = getPulseScale(session.pulseScale);
+
     const response: GetQuestionsResponse = {
       questions: questions.map((q) => {
         // Calculate pulse check stats for answered questions
@@ -237,6 +307,12 @@ export async function GET(
           createdAt: q.createdAt.toISOString(),
           updatedAt: q.updatedAt.toISOString(),
           pulseCheckStats,
+          pulseSummary:
+            q.status === "answered"
+              ? summarisePulseFeedback(q.pulseCheckFeedback, pulseScale)
+              : undefined,
+          editedByHost: q.editedByHost || undefined,
+          replies: q.replies.map(toQuestionReplyResponse),
         };
       }),
       total: questions.length,
@@ -0,0 +1,101 @@
+/**
+ * GET /api/sessions/[code]/questions/similar?content=... - Find open questions similar to a draft
+ *
+ * Used while a participant types so they can upvote an existing question
+ * instead of posting a duplicate. Only questions that can still be voted on
+ * (approved or being answered) are suggested.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { logger } from "@/lib/logger";
+import {
+  findSimilarQuestions,
+  SIMILAR_QUESTION_MIN_LENGTH,
+} from "@/lib/question-duplicates";
+import {
+  checkSessionAccess,
+  SESSION_ACCESS_SELECT,
+} from "@/lib/session-access";
+import {
+  QUESTION_VALIDATION,
+  type GetSimilarQuestionsResponse,
+} from "@/types/question";
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ code: string }> },
+) {
+  const { code } = await params;
+  const sessionCode = code.toUpperCase();
+
+  try {
+    const draft = req.nextUrl.searchParams.get("content")?.trim() ?? "";
+
+    if (draft.length > QUESTION_VALIDATION.maxLength) {
+      return NextResponse.json(
+        {
+          code: "VALIDATION_ERROR",
+          message: `Question cannot exceed ${QUESTION_VALIDATION.maxLength} characters`,
+        },
+        { status: 400 },
+      );
+    }
+
+    const session = await prisma.qaSession.findUnique({
+      where: { code: sessionCode },
+      select: SESSION_ACCESS_SELECT,
+    });
+
+    if (!session) {
+      return NextResponse.json(
+        {
+          code: "SESSION_NOT_FOUND",
+          message: "Session not found",
+        },
+        { status: 404 },
+      );
+    }
+
+    const denied = await checkSessionAccess(req, session);
+    if (denied) {
+      return denied.error;
+    }
+
+    if (draft.length < SIMILAR_QUESTION_MIN_LENGTH) {
+      const response: GetSimilarQuestionsResponse = { questions: [] };
+      return NextResponse.json(response, { status: 200 });
+    }
+
+    const candidates = await prisma.question.findMany({
+      where: {
+        sessionId: session.id,
+        status: { in: ["approved", "being_answered"] },
+      },
+      select: {
+        id: true,
+        content: true,
+        voteCount: true,
+        status: true,
+      },
+    });
+
+    const response: GetSimilarQuestionsResponse = {
+      questions: findSimilarQuestions(draft, candidates),
+    };
+
+    return NextResponse.json(response, { status: 200 });
+  } catch (error) {
+    logger.error("Error finding similar questions", error, {
+      sessionCode: code,
+      endpoint: "GET /api/sessions/[code]/questions/similar",
+    });
+    return NextResponse.json(
+      {
+        code: "INTERNAL_ERROR",
+        message: "An error occurred while finding similar questions",
+      },
+      { status: 500 },
+    );
+  }
+}
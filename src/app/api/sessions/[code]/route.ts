@@ -1,8 +1,19 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/db";
-import { GetSessionResponse } from "@/types/session";
+import { GetSessionResponse, SessionRateLimitPolicy } from "@/types/session";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
+import { publishSessionEvent } from "@/lib/session-events";
+import { resolveSessionExtension } from "@/lib/session-utils";
+import { getSessionRole } from "@/lib/session-auth";
+import { hasSessionPermission } from "@/lib/session-roles";
+import { getPulseScale } from "@/lib/pulse-check";
+import { checkSessionAccess } from "@/lib/session-access";
+import { getAllowedEmailDomains } from "@/lib/session-access-policy";
+import {
+  RATE_LIMIT_POLICY_SELECT,
+  validateRateLimitPolicy,
+} from "@/lib/rate-limit-policy";
 
 export async function GET(
   req: NextRequest,
@@ -30,8 +41,16 @@ export async function GET(
         hostId: true,
         isActive: true,
         isAcceptingQuestions: true,
+        requireApproval: true,
+        allowReplies: true,
+        pulseScale: true,
+        accessMode: true,
+        accessPasscodeHash: true,
+        allowedEmailDomains: true,
+        ...RATE_LIMIT_POLICY_SELECT,
         createdAt: true,
         updatedAt: true,
+        startsAt: true,
         expiresAt: true,
         host: {
           select: {
@@ -60,6 +79,12 @@ export async function GET(
       );
     }
 
+    // Restricted sessions only reveal themselves to people allowed in
+    const denied = await checkSessionAccess(req, qaSession);
+    if (denied) {
+      return denied.error;
+    }
+
     const response: GetSessionResponse = {
       session: {
         id: qaSession.id,
@@ -69,8 +94,20 @@ export async function GET(
         hostId: qaSession.hostId,
         isActive: qaSession.isActive,
         isAcceptingQuestions: qaSession.isAcceptingQuestions,
+        requireApproval: qaSession.requireApproval,
+        allowReplies: qaSession.allowReplies,
+        pulseScale: getPulseScale(qaSession.pulseScale),
+        accessMode: qaSession.accessMode,
+        allowedEmailDomains: getAllowedEmailDomains(
+          qaSession.allowedEmailDomains,
+        ),
+        rateLimitScope: qaSession.rateLimitScope,
+        questionRateLimit: qaSession.questionRateLimit,
+        voteRateLimit: qaSession.voteRateLimit,
+        pulseRateLimit: qaSession.pulseRateLimit,
         createdAt: qaSession.createdAt.toISOString(),
         updatedAt: qaSession.updatedAt.toISOString(),
+        startsAt: qaSession.startsAt?.toISOString() ?? null,
         expiresAt: qaSession.expiresAt.toISOString(),
         host: {
           id: qaSession.host.id,
@@ -124,6 +161,7 @@ export async function PATCH(
       select: {
         id: true,
         hostId: true,
+        startsAt: true,
         expiresAt: true,
       },
     });
@@ -132,31 +170,45 @@ export async function PATCH(
       return NextResponse.json({ error: "Session not found" }, { status: 404 });
     }
 
-    // Verify host ownership
-    if (qaSession.hostId !== session.user.id) {
+    // Verify the user's role lets them manage the session
+    const role = await getSessionRole(qaSession, session.user);
+    if (!role || !hasSessionPermission(role, "manage_session")) {
       return NextResponse.json(
-        { error: "Access denied. You are not the host of this session." },
+        { error: "Access denied. You are not a host of this session." },
         { status: 403 },
       );
     }
 
-    // Check if session has expired
-    if (new Date() > qaSession.expiresAt) {
+    // Parse request body
+    const body = await req.json();
+    const isExtending =
+      body.extendByHours !== undefined || body.expiresAt !== undefined;
+
+    // Expired sessions can only be extended (which reopens them)
+    if (new Date() > qaSession.expiresAt && !isExtending) {
       return NextResponse.json(
         { error: "Session has expired" },
         { status: 410 },
       );
     }
 
-    // Parse request body
-    const body = await req.json();
-
     // Validate and build update data
-    const updateData: {
+    const updateData: Partial<SessionRateLimitPolicy> & {
       isActive?: boolean;
       isAcceptingQuestions?: boolean;
+      requireApproval?: boolean;
+      allowReplies?: boolean;
+      expiresAt?: Date;
     } = {};
 
+    if (isExtending) {
+      const extension = resolveSessionExtension(body, qaSession);
+      if ("error" in extension) {
+        return NextResponse.json({ error: extension.error }, { status: 400 });
+      }
+      updateData.expiresAt = extension.expiresAt;
+    }
+
     if (typeof body.isActive === "boolean") {
       updateData.isActive = body.isActive;
     }
@@ -165,6 +217,26 @@ export async function PATCH(
       updateData.isAcceptingQuestions = body.isAcceptingQuestions;
     }
 
+    if (typeof body.requireApproval === "boolean") {
+      updateData.requireApproval = body.requireApproval;
+    }
+
+    if (typeof body.allowReplies === "boolean") {
+      updateData.allowReplies = body.allowReplies;
+    }
+
+    const rateLimitPolicy = validateRateLimitPolicy(body);
+    if (!rateLimitPolicy.isValid) {
+      return NextResponse.json(
+        {
+          error: "Invalid rate limit policy",
+          details: rateLimitPolicy.errors,
+        },
+        { status: 400 },
+      );
+    }
+    Object.assign(updateData, rateLimitPolicy.policy);
+
     // Ensure at least one field is being updated
     if (Object.keys(updateData).length === 0) {
       return NextResponse.json(
@@ -181,17 +253,37 @@ export async function PATCH(
         id: true,
         isActive: true,
         isAcceptingQuestions: true,
+        requireApproval: true,
+        allowReplies: true,
+        ...RATE_LIMIT_POLICY_SELECT,
         updatedAt: true,
+        expiresAt: true,
       },
     });
 
+    publishSessionEvent(code, {
+      type: "session.updated",
+      isActive: updatedSession.isActive,
+      isAcceptingQuestions: updatedSession.isAcceptingQuestions,
+      requireApproval: updatedSession.requireApproval,
+      allowReplies: updatedSession.allowReplies,
+      expiresAt: updatedSession.expiresAt.toISOString(),
+    });
+
     return NextResponse.json(
       {
         session: {
           id: updatedSession.id,
           isActive: updatedSession.isActive,
           isAcceptingQuestions: updatedSession.isAcceptingQuestions,
+          requireApproval: updatedSession.requireApproval,
+          allowReplies: updatedSession.allowReplies,
+          rateLimitScope: updatedSession.rateLimitScope,
+          questionRateLimit: updatedSession.questionRateLimit,
+          voteRateLimit: updatedSession.voteRateLimit,
+          pulseRateLimit: updatedSession.pulseRateLimit,
           updatedAt: updatedSession.updatedAt.toISOString(),
+          expiresAt: updatedSession.expiresAt.toISOString(),
         },
       },
       { status: 200 },
@@ -0,0 +1,147 @@
+/**
+ * GET /api/sessions/[code]/stream - Server-sent events stream for a session
+ *
+ * Pushes question created/voted/status-changed and session toggled events
+ * to participants and hosts. Connections are cut when the function hits its
+ * max duration; EventSource reconnects automatically using the `retry` hint,
+ * and clients fall back to SWR polling while disconnected. The `ready` event
+ * says whether events from every server instance reach this stream; clients
+ * keep polling at their normal rate when they don't.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { logger } from "@/lib/logger";
+import {
+  checkSessionAccess,
+  SESSION_ACCESS_SELECT,
+} from "@/lib/session-access";
+import {
+  connectSessionEventRelay,
+  formatSseMessage,
+  subscribeToSession,
+} from "@/lib/session-events";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+// Keep-alive comment interval - stops proxies closing idle connections
+const HEARTBEAT_INTERVAL_MS = 25 * 1000;
+
+// How long EventSource should wait before reconnecting
+const RECONNECT_DELAY_MS = 3000;
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ code: string }> },
+) {
+  const { code } = await params;
+  const sessionCode = code.toUpperCase();
+
+  try {
+    // Verify session exists before holding a connection open
+    const qaSession = await prisma.qaSession.findUnique({
+      where: { code: sessionCode },
+      select: { ...SESSION_ACCESS_SELECT, expiresAt: true },
+    });
+
+    if (!qaSession) {
+      return NextResponse.json(
+        {
+          code: "SESSION_NOT_FOUND",
+          message: "Session not found",
+        },
+        { status: 404 },
+      );
+    }
+
+    if (new Date() > qaSession.expiresAt) {
+      return NextResponse.json(
+        {
+          code: "SESSION_EXPIRED",
+          message: "Session has expired",
+        },
+        { status: 410 },
+      );
+    }
+
+    const denied = await checkSessionAccess(req, qaSession);
+    if (denied) {
+      return denied.error;
+    }
+
+    const shared = await connectSessionEventRelay();
+
+    const encoder = new TextEncoder();
+    let cleanup: (() => void) | null = null;
+
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        let closed = false;
+
+        const send = (chunk: string) => {
+          if (closed) return;
+          try {
+            controller.enqueue(encoder.encode(chunk));
+          } catch {
+            // Stream already closed by the runtime
+            cleanup?.();
+          }
+        };
+
+        const unsubscribe = subscribeToSession(sessionCode, (message) => {
+          send(formatSseMessage(message));
+        });
+
+        const heartbeat = setInterval(() => {
+          send(": heartbeat\n\n");
+        }, HEARTBEAT_INTERVAL_MS);
+
+        cleanup = () => {
+          if (closed) return;
+          closed = true;
+          clearInterval(heartbeat);
+          unsubscribe();
+          try {
+            controller.close();
+          } catch {
+            // Already closed
+          }
+        };
+
+        req.signal.addEventListener("abort", () => cleanup?.());
+
+        // Tell the client how quickly to reconnect, then confirm the subscription
+        send(`retry: ${RECONNECT_DELAY_MS}\n\n`);
+        send(
+          `event: ready\ndata: ${JSON.stringify({ sessionCode, shared })}\n\n`,
+        );
+      },
+      cancel() {
+        cleanup?.();
+      },
+    });
+
+    return new Response(stream, {
+      status: 200,
+      headers: {
+        "Content-Type": "text/event-stream; charset=utf-8",
+        "Cache-Control": "no-cache, no-transform",
+        Connection: "keep-alive",
+        "X-Accel-Buffering": "no",
+      },
+    });
+  } catch (error) {
+    logger.error("Error opening session stream", error, {
+      sessionCode: code,
+      endpoint: "GET /api/sessions/[code]/stream",
+    });
+    return NextResponse.json(
+      {
+        code: "INTERNAL_ERROR",
+        message: "An error occurred while opening the session stream",
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -2,12 +2,25 @@ import { NextRequest, NextResponse } from "next/server";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
 import { prisma } from "@/lib/db";
+import { memberMatchFor } from "@/lib/session-auth";
 import {
   generateUniqueSessionCode,
-  getSessionExpirationDate,
   validateSessionInput,
+  validateSessionSchedule,
 } from "@/lib/session-utils";
-import { CreateSessionRequest, CreateSessionResponse } from "@/types/session";
+import { validateRateLimitPolicy } from "@/lib/rate-limit-policy";
+import { hashPasscode } from "@/lib/session-access";
+import { validateSessionAccess } from "@/lib/session-access-policy";
+import {
+  CreateSessionRequest,
+  CreateSessionResponse,
+  ListSessionsResponse,
+  SessionListStatus,
+} from "@/types/session";
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+const SESSION_LIST_STATUSES: SessionListStatus[] = ["all", "active", "expired"];
 
 export async function POST(req: NextRequest) {
   try {
@@ -32,15 +45,39 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    const { title, description } = body;
+    const {
+      title,
+      description,
+      requireApproval,
+      durationHours,
+      endsAt,
+      startsAt,
+    } = body;
 
     // Validate input
     const validation = validateSessionInput({ title, description });
-    if (!validation.isValid) {
+    const schedule = validateSessionSchedule({
+      durationHours,
+      endsAt,
+      startsAt,
+    });
+    const rateLimitPolicy = validateRateLimitPolicy(body);
+    const access = validateSessionAccess(body);
+    if (
+      !validation.isValid ||
+      !schedule.isValid ||
+      !rateLimitPolicy.isValid ||
+      !access.isValid
+    ) {
       return NextResponse.json(
         {
           error: "Validation failed",
-          details: validation.errors,
+          details: {
+            ...validation.errors,
+            ...schedule.errors,
+            ...rateLimitPolicy.errors,
+            ...access.errors,
+          },
         },
         { status: 400 },
       );
@@ -48,7 +85,6 @@ export async function POST(req: NextRequest) {
 
     // Generate unique session code
     const code = await generateUniqueSessionCode();
-    const expiresAt = getSessionExpirationDate();
 
     // Create session in database
     const qaSession = await prisma.qaSession.create({
@@ -57,7 +93,14 @@ export async function POST(req: NextRequest) {
         description: description?.trim(),
         code,
         hostId: session.user.id,
-        expiresAt,
+        startsAt: schedule.startsAt,
+        expiresAt: schedule.expiresAt,
+        requireApproval: requireApproval === true,
+        ...rateLimitPolicy.policy,
+        ...access.policy,
+        accessPasscodeHash: access.passcode
+          ? await hashPasscode(access.passcode)
+          : null,
       },
       select: {
         id: true,
@@ -67,8 +110,10 @@ export async function POST(req: NextRequest) {
         hostId: true,
         isActive: true,
         isAcceptingQuestions: true,
+        requireApproval: true,
         createdAt: true,
         updatedAt: true,
+        startsAt: true,
         expiresAt: true,
       },
     });
@@ -82,8 +127,10 @@ export async function POST(req: NextRequest) {
         hostId: qaSession.hostId,
         isActive: qaSession.isActive,
         isAcceptingQuestions: qaSession.isAcceptingQuestions,
+        requireApproval: qaSession.requireApproval,
         createdAt: qaSession.createdAt.toISOString(),
         updatedAt: qaSession.updatedAt.toISOString(),
+        startsAt: qaSession.startsAt?.toISOString() ?? null,
         expiresAt: qaSession.expiresAt.toISOString(),
       },
     };
@@ -98,3 +145,127 @@ export async function POST(req: NextRequest) {
     );
   }
 }
+
+export async function GET(req: NextRequest) {
+  try {
+    // Check authentication
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 },
+      );
+    }
+
+    // Parse paging and filter parameters
+    const searchParams = req.nextUrl.searchParams;
+    const page = Number(searchParams.get("page") ?? "1");
+    const pageSize = Number(
+      searchParams.get("pageSize") ?? String(DEFAULT_PAGE_SIZE),
+    );
+    const status = (searchParams.get("status") ?? "all") as SessionListStatus;
+
+    if (!Number.isInteger(page) || page < 1) {
+      return NextResponse.json(
+        { error: "page must be a positive integer" },
+        { status: 400 },
+      );
+    }
+
+    if (
+      !Number.isInteger(pageSize) ||
+      pageSize < 1 ||
+      pageSize > MAX_PAGE_SIZE
+    ) {
+      return NextResponse.json(
+        { error: `pageSize must be between 1 and ${MAX_PAGE_SIZE}` },
+        { status: 400 },
+      );
+    }
+
+    if (!SESSION_LIST_STATUSES.includes(status)) {
+      return NextResponse.json(
+        { error: `status must be one of: ${SESSION_LIST_STATUSES.join(", ")}` },
+        { status: 400 },
+      );
+    }
+
+    // Sessions the user owns or has been invited to help run.
+    // Active = not yet expired; expired = past its expiry time
+    const now = new Date();
+    const memberMatch = memberMatchFor(session.user);
+    const where = {
+      OR: [{ hostId: session.user.id }, { members: { some: memberMatch } }],
+      ...(status === "active" && { expiresAt: { gt: now } }),
+      ...(status === "expired" && { expiresAt: { lte: now } }),
+    };
+
+    const [total, qaSessions] = await Promise.all([
+      prisma.qaSession.count({ where }),
+      prisma.qaSession.findMany({
+        where,
+        orderBy: { createdAt: "desc" },
+        skip: (page - 1) * pageSize,
+        take: pageSize,
+        select: {
+          id: true,
+          title: true,
+          description: true,
+          code: true,
+          hostId: true,
+          isActive: true,
+          isAcceptingQuestions: true,
+          createdAt: true,
+          startsAt: true,
+          expiresAt: true,
+          members: {
+            where: memberMatch,
+            select: {
+              role: true,
+            },
+          },
+          _count: {
+            select: {
+              questions: true,
+            },
+          },
+        },
+      }),
+    ]);
+
+    const response: ListSessionsResponse = {
+      sessions: qaSessions.map((qaSession) => ({
+        id: qaSession.id,
+        title: qaSession.title,
+        description: qaSession.description || undefined,
+        code: qaSession.code,
+        isActive: qaSession.isActive,
+        isAcceptingQuestions: qaSession.isAcceptingQuestions,
+        createdAt: qaSession.createdAt.toISOString(),
+        startsAt: qaSession.startsAt?.toISOString() ?? null,
+        expiresAt: qaSession.expiresAt.toISOString(),
+        questionCount: qaSession._count.questions,
+        role:
+          qaSession.hostId === session.user.id
+            ? "owner"
+            : (qaSession.members[0]?.role ?? "moderator"),
+      })),
+      pagination: {
+        page,
+        pageSize,
+        total,
+        totalPages: Math.ceil(total / pageSize),
+      },
+    };
+
+    return NextResponse.json(response, { status: 200 });
+  } catch (error) {
+    console.error("Session listing error:", error);
+
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
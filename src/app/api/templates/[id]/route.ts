@@ -0,0 +1,45 @@
+/**
+ * DELETE /api/templates/[id] - Delete one of the signed-in user's templates
+ *
+ * Sessions already created from the template are unaffected.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { logger } from "@/lib/logger";
+import { getOwnTemplate } from "@/lib/session-templates";
+
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id: templateId } = await params;
+
+  try {
+    const result = await getOwnTemplate(templateId);
+    if ("error" in result) {
+      return result.error;
+    }
+
+    await prisma.sessionTemplate.delete({
+      where: { id: templateId },
+    });
+
+    return NextResponse.json(
+      { message: "Template deleted successfully" },
+      { status: 200 },
+    );
+  } catch (error) {
+    logger.error("Error deleting session template", error, {
+      templateId,
+      endpoint: "DELETE /api/templates/[id]",
+    });
+    return NextResponse.json(
+      {
+        code: "INTERNAL_ERROR",
+        message: "An error occurred while deleting the template",
+      },
+      { status: 500 },
+    );
+  }
+}
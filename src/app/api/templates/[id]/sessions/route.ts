@@ -0,0 +1,88 @@
+/**
+ * POST /api/templates/[id]/sessions - Create a session from a template
+ *
+ * The new session gets the template's settings. Title and description can
+ * be overridden; the schedule defaults to starting now and running as long
+ * as the session the template was saved from.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { logger } from "@/lib/logger";
+import { getHostActor } from "@/lib/question-events";
+import {
+  createSessionFromSource,
+  getOwnTemplate,
+  getSessionSettings,
+  toCreateSessionResponse,
+  validateSessionFromSource,
+} from "@/lib/session-templates";
+import type { CreateSessionFromSourceRequest } from "@/types/session-template";
+
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id: templateId } = await params;
+
+  try {
+    const result = await getOwnTemplate(templateId);
+    if ("error" in result) {
+      return result.error;
+    }
+    const { template, user } = result;
+
+    let body: CreateSessionFromSourceRequest;
+    try {
+      body = await req.json();
+    } catch {
+      return NextResponse.json(
+        {
+          code: "INVALID_JSON",
+          message: "Invalid JSON in request body",
+        },
+        { status: 400 },
+      );
+    }
+
+    const validation = validateSessionFromSource(template, body);
+    if (!validation.isValid) {
+      return NextResponse.json(
+        {
+          code: "VALIDATION_ERROR",
+          message: "Validation failed",
+          errors: Object.entries(validation.errors).map(([field, message]) => ({
+            field,
+            message,
+          })),
+        },
+        { status: 400 },
+      );
+    }
+
+    const { qaSession } = await createSessionFromSource({
+      hostId: user.id,
+      title: validation.title,
+      description: validation.description,
+      startsAt: validation.startsAt,
+      expiresAt: validation.expiresAt,
+      settings: getSessionSettings(template),
+      actor: getHostActor(user),
+    });
+
+    return NextResponse.json(toCreateSessionResponse(qaSession), {
+      status: 201,
+    });
+  } catch (error) {
+    logger.error("Error creating session from template", error, {
+      templateId,
+      endpoint: "POST /api/templates/[id]/sessions",
+    });
+    return NextResponse.json(
+      {
+        code: "INTERNAL_ERROR",
+        message: "An error occurred while creating the session",
+      },
+      { status: 500 },
+    );
+  }
+}
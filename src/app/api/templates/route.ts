@@ -0,0 +1,143 @@
+/**
+ * GET /api/templates - List the signed-in user's session templates
+ * POST /api/templates - Save a session's title, description and settings as a template
+ *
+ * Templates belong to the user who saved them. Any owner or co-host of a
+ * session can save it; the passcode (if any) is copied hashed.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { prisma } from "@/lib/db";
+import { logger } from "@/lib/logger";
+import { getHostSession } from "@/lib/session-auth";
+import {
+  getSessionDurationHours,
+  toSessionSettingsData,
+  toSessionTemplateResponse,
+  validateTemplateName,
+} from "@/lib/session-templates";
+import type {
+  CreateSessionTemplateRequest,
+  CreateSessionTemplateResponse,
+  ListSessionTemplatesResponse,
+} from "@/types/session-template";
+
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        {
+          code: "UNAUTHORIZED",
+          message: "Authentication required",
+        },
+        { status: 401 },
+      );
+    }
+
+    const templates = await prisma.sessionTemplate.findMany({
+      where: { hostId: session.user.id },
+      orderBy: { createdAt: "desc" },
+    });
+
+    const response: ListSessionTemplatesResponse = {
+      templates: templates.map(toSessionTemplateResponse),
+    };
+
+    return NextResponse.json(response, { status: 200 });
+  } catch (error) {
+    logger.error("Error listing session templates", error, {
+      endpoint: "GET /api/templates",
+    });
+    return NextResponse.json(
+      {
+        code: "INTERNAL_ERROR",
+        message: "An error occurred while retrieving templates",
+      },
+      { status: 500 },
+    );
+  }
+}
+
+export async function POST(req: NextRequest) {
+  let sessionCode: string | undefined;
+
+  try {
+    let body: CreateSessionTemplateRequest;
+    try {
+      body = await req.json();
+    } catch {
+      return NextResponse.json(
+        {
+          code: "INVALID_JSON",
+          message: "Invalid JSON in request body",
+        },
+        { status: 400 },
+      );
+    }
+
+    if (typeof body.sessionCode !== "string" || !body.sessionCode.trim()) {
+      return NextResponse.json(
+        {
+          code: "VALIDATION_ERROR",
+          message: "A session code is required",
+          field: "sessionCode",
+        },
+        { status: 400 },
+      );
+    }
+    sessionCode = body.sessionCode.trim().toUpperCase();
+
+    const hostSession = await getHostSession(
+      sessionCode,
+      "manage_session",
+      "You are not authorized to save this session as a template",
+    );
+    if ("error" in hostSession) return hostSession.error;
+    const { qaSession, userId } = hostSession;
+
+    const name = validateTemplateName(body.name, qaSession.title);
+    if ("error" in name) {
+      return NextResponse.json(
+        {
+          code: "VALIDATION_ERROR",
+          message: name.error,
+          field: "name",
+        },
+        { status: 400 },
+      );
+    }
+
+    const template = await prisma.sessionTemplate.create({
+      data: {
+        hostId: userId,
+        name: name.name,
+        title: qaSession.title,
+        description: qaSession.description,
+        durationHours: getSessionDurationHours(qaSession),
+        ...toSessionSettingsData(qaSession),
+      },
+    });
+
+    const response: CreateSessionTemplateResponse = {
+      template: toSessionTemplateResponse(template),
+    };
+
+    return NextResponse.json(response, { status: 201 });
+  } catch (error) {
+    logger.error("Error saving session template", error, {
+      sessionCode,
+      endpoint: "POST /api/templates",
+    });
+    return NextResponse.json(
+      {
+        code: "INTERNAL_ERROR",
+        message: "An error occurred while saving the template",
+      },
+      { status: 500 },
+    );
+  }
+}
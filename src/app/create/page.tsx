@@ -3,7 +3,59 @@
 import { useSession, signIn, signOut } from "next-auth/react";
 import { useEffect, useState } from "react";
 import { useRouter } from "next/navigation";
-import type { CreateSessionResponse } from "@/types/session";
+import useSWR from "swr";
+import type {
+  CreateSessionResponse,
+  ListSessionsResponse,
+  SessionAccessMode,
+} from "@/types/session";
+import type { ListSessionTemplatesResponse } from "@/types/session-template";
+import { getSessionJoinUrl, getSessionQrCodePath } from "@/lib/session-links";
+import { fetcher } from "@/lib/swr-utils";
+import { hasSessionPermission } from "@/lib/session-roles";
+import {
+  MAX_PASSCODE_LENGTH,
+  MIN_PASSCODE_LENGTH,
+  SESSION_ACCESS_MODE_LABELS,
+  SESSION_ACCESS_MODES,
+} from "@/lib/session-access-policy";
+
+// Value "custom" switches to an explicit end time
+const DURATION_OPTIONS: Array<{ value: string; label: string }> = [
+  { value: "1", label: "1 hour" },
+  { value: "2", label: "2 hours" },
+  { value: "4", label: "4 hours" },
+  { value: "8", label: "8 hours" },
+  { value: "24", label: "24 hours" },
+  { value: "72", label: "3 days" },
+  { value: "168", label: "7 days" },
+  { value: "720", label: "30 days" },
+  { value: "custom", label: "Custom end time" },
+];
+
+// Duration value that keeps the length of the template or session copied
+const SAME_DURATION = "same";
+
+// Picker values: "" for a blank session, "template:<id>" or "session:<code>"
+type SessionSource =
+  { type: "template"; id: string } | { type: "session"; code: string } | null;
+
+function parseSource(value: string): SessionSource {
+  const [type, id] = value.split(":");
+  if (type === "template" && id) return { type, id };
+  if (type === "session" && id) return { type, code: id };
+  return null;
+}
+
+type FormErrors = {
+  title?: string;
+  description?: string;
+  durationHours?: string;
+  endsAt?: string;
+  startsAt?: string;
+  accessPasscode?: string;
+  allowedEmailDomains?: string;
+};
 
 export default function CreateSessionPage() {
   const { data: session, status } = useSession();
@@ -12,19 +64,79 @@ export default function CreateSessionPage() {
   // Form state
   const [title, setTitle] = useState("");
   const [description, setDescription] = useState("");
+  const [requireApproval, setRequireApproval] = useState(false);
+  const [duration, setDuration] = useState("24");
+  const [endsAt, setEndsAt] = useState("");
+  const [startsAt, setStartsAt] = useState("");
+  const [accessMode, setAccessMode] = useState<SessionAccessMode>("public");
+  const [accessPasscode, setAccessPasscode] = useState("");
+  const [emailDomains, setEmailDomains] = useState("");
+  const [sourceValue, setSourceValue] = useState("");
+  const [includeQuestions, setIncludeQuestions] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState("");
   const [createdSession, setCreatedSession] = useState<
     CreateSessionResponse["session"] | null
   >(null);
-  const [validationErrors, setValidationErrors] = useState<{
-    title?: string;
-    description?: string;
-  }>({});
+  const [validationErrors, setValidationErrors] = useState<FormErrors>({});
+
+  const { data: templatesData, mutate: mutateTemplates } =
+    useSWR<ListSessionTemplatesResponse>(
+      status === "authenticated" ? "/api/templates" : null,
+      fetcher,
+    );
+  const { data: sessionsData } = useSWR<ListSessionsResponse>(
+    status === "authenticated" ? "/api/sessions?pageSize=20" : null,
+    fetcher,
+  );
+  const templates = templatesData?.templates ?? [];
+  // Only sessions the user could run can be cloned
+  const cloneableSessions = (sessionsData?.sessions ?? []).filter((summary) =>
+    hasSessionPermission(summary.role, "manage_session"),
+  );
+  const source = parseSource(sourceValue);
+
+  // Prefill the form from the chosen template or session
+  const handleSourceChange = (value: string) => {
+    const next = parseSource(value);
+    setSourceValue(value);
+    setIncludeQuestions(false);
+    setValidationErrors({});
+
+    if (!next) {
+      if (duration === SAME_DURATION) setDuration("24");
+      return;
+    }
+
+    const picked =
+      next.type === "template"
+        ? templates.find((template) => template.id === next.id)
+        : cloneableSessions.find((summary) => summary.code === next.code);
+    if (picked) {
+      setTitle(picked.title);
+      setDescription(picked.description ?? "");
+    }
+    setDuration(SAME_DURATION);
+  };
+
+  const handleDeleteTemplate = async (templateId: string) => {
+    if (!window.confirm("Delete this template?")) return;
+
+    const response = await fetch(`/api/templates/${templateId}`, {
+      method: "DELETE",
+    });
+    if (!response.ok) {
+      setError("Failed to delete template");
+      return;
+    }
+
+    handleSourceChange("");
+    mutateTemplates();
+  };
 
   // Client-side validation matching server rules
   const validateForm = () => {
-    const errors: { title?: string; description?: string } = {};
+    const errors: FormErrors = {};
 
     if (!title.trim()) {
       errors.title = "Title is required";
@@ -39,6 +151,30 @@ export default function CreateSessionPage() {
         "Description must be no more than 500 characters long";
     }
 
+    if (duration === "custom") {
+      const start = startsAt ? new Date(startsAt) : new Date();
+      if (!endsAt) {
+        errors.endsAt = "End time is required";
+      } else if (new Date(endsAt) <= start) {
+        errors.endsAt = startsAt
+          ? "End time must be after the start time"
+          : "End time must be in the future";
+      }
+    }
+
+    if (
+      !source &&
+      accessMode === "passcode" &&
+      (accessPasscode.trim().length < MIN_PASSCODE_LENGTH ||
+        accessPasscode.trim().length > MAX_PASSCODE_LENGTH)
+    ) {
+      errors.accessPasscode = `Passcode must be between ${MIN_PASSCODE_LENGTH} and ${MAX_PASSCODE_LENGTH} characters`;
+    }
+
+    if (!source && accessMode === "email_domain" && !emailDomains.trim()) {
+      errors.allowedEmailDomains = "Add at least one email domain";
+    }
+
     setValidationErrors(errors);
     return Object.keys(errors).length === 0;
   };
@@ -54,25 +190,72 @@ export default function CreateSessionPage() {
     setIsSubmitting(true);
     setError("");
 
+    // datetime-local values are in the host's timezone
+    const schedule = {
+      ...(duration === "custom" && { endsAt: new Date(endsAt).toISOString() }),
+      ...(duration !== "custom" &&
+        duration !== SAME_DURATION && { durationHours: Number(duration) }),
+      ...(startsAt && { startsAt: new Date(startsAt).toISOString() }),
+    };
+
     try {
-      const response = await fetch("/api/sessions", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          title: title.trim(),
-          description: description.trim() || undefined,
-        }),
-      });
+      // Templates and earlier sessions bring their own settings
+      const response = source
+        ? await fetch(
+            source.type === "template"
+              ? `/api/templates/${source.id}/sessions`
+              : `/api/sessions/${source.code}/clone`,
+            {
+              method: "POST",
+              headers: {
+                "Content-Type": "application/json",
+              },
+              body: JSON.stringify({
+                title: title.trim(),
+                description: description.trim(),
+                ...schedule,
+                ...(source.type === "session" && { includeQuestions }),
+              }),
+            },
+          )
+        : await fetch("/api/sessions", {
+            method: "POST",
+            headers: {
+              "Content-Type": "application/json",
+            },
+            body: JSON.stringify({
+              title: title.trim(),
+              description: description.trim() || undefined,
+              requireApproval,
+              ...schedule,
+              accessMode,
+              ...(accessMode === "passcode" && { accessPasscode }),
+              ...(accessMode === "email_domain" && {
+                allowedEmailDomains: emailDomains
+                  .split(/[\s,]+/)
+                  .filter((domain) => domain.length > 0),
+              }),
+            }),
+          });
 
       const result = await response.json();
 
       if (!response.ok) {
         if (result.details) {
           setValidationErrors(result.details);
+        } else if (result.errors) {
+          setValidationErrors(
+            Object.fromEntries(
+              result.errors.map((item: { field: string; message: string }) => [
+                item.field,
+                item.message,
+              ]),
+            ),
+          );
         } else {
-          setError(result.error || "Failed to create session");
+          setError(
+            result.error || result.message || "Failed to create session",
+          );
         }
         return;
       }
@@ -81,6 +264,15 @@ export default function CreateSessionPage() {
       // Reset form
       setTitle("");
       setDescription("");
+      setRequireApproval(false);
+      setDuration("24");
+      setEndsAt("");
+      setStartsAt("");
+      setAccessMode("public");
+      setAccessPasscode("");
+      setEmailDomains("");
+      setSourceValue("");
+      setIncludeQuestions(false);
       setValidationErrors({});
     } catch {
       setError("Network error. Please try again.");
@@ -92,7 +284,7 @@ export default function CreateSessionPage() {
   // Redirect to sign in if not authenticated
   useEffect(() => {
     if (status === "unauthenticated") {
-      signIn("google");
+      signIn();
     }
   }, [status]);
 
@@ -145,10 +337,10 @@ export default function CreateSessionPage() {
             Authentication Required
           </div>
           <div style={{ marginBottom: "2rem", color: "#666" }}>
-            Please sign in with Google to create a Q&A session
+            Please sign in to create a Q&A session
           </div>
           <button
-            onClick={() => signIn("google")}
+            onClick={() => signIn()}
             style={{
               padding: "0.75rem 2rem",
               fontSize: "1.1rem",
@@ -164,7 +356,7 @@ export default function CreateSessionPage() {
             }}
           >
             <span>🔐</span>
-            Sign in with Google
+            Sign In
           </button>
         </div>
       </div>
@@ -173,6 +365,11 @@ export default function CreateSessionPage() {
 
   // Show success state if session was created
   if (createdSession) {
+    const joinUrl = getSessionJoinUrl(
+      window.location.origin,
+      createdSession.code,
+    );
+
     return (
       <main
         style={{
@@ -232,12 +429,74 @@ export default function CreateSessionPage() {
               {createdSession.code}
             </span>
           </div>
+          {createdSession.startsAt && (
+            <div
+              style={{
+                fontSize: "0.9rem",
+                color: "#374151",
+                marginBottom: "0.5rem",
+              }}
+            >
+              <strong>Starts:</strong>{" "}
+              {new Date(createdSession.startsAt).toLocaleString()}
+            </div>
+          )}
           <div style={{ fontSize: "0.9rem", color: "#374151" }}>
             <strong>Expires:</strong>{" "}
             {new Date(createdSession.expiresAt).toLocaleString()}
           </div>
         </div>
 
+        <div
+          style={{
+            backgroundColor: "white",
+            border: "1px solid #e5e7eb",
+            padding: "2rem",
+            borderRadius: "12px",
+            marginBottom: "2rem",
+            textAlign: "center",
+          }}
+        >
+          <h2 style={{ marginBottom: "1rem", color: "#333" }}>
+            Invite Participants
+          </h2>
+          <img
+            src={getSessionQrCodePath(createdSession.code)}
+            alt="Session QR Code"
+            style={{
+              width: "200px",
+              height: "200px",
+              display: "block",
+              margin: "0 auto 1rem",
+            }}
+          />
+          <div
+            style={{
+              fontFamily: "monospace",
+              fontSize: "0.95rem",
+              color: "#374151",
+              wordBreak: "break-all",
+              marginBottom: "0.5rem",
+            }}
+          >
+            {joinUrl}
+          </div>
+          <button
+            onClick={() => navigator.clipboard.writeText(joinUrl)}
+            style={{
+              padding: "0.5rem 1rem",
+              fontSize: "0.9rem",
+              backgroundColor: "#f3f4f6",
+              color: "#374151",
+              border: "1px solid #d1d5db",
+              borderRadius: "6px",
+              cursor: "pointer",
+            }}
+          >
+            Copy Link
+          </button>
+        </div>
+
         <div
           style={{
             textAlign: "center",
@@ -384,6 +643,128 @@ export default function CreateSessionPage() {
             onSubmit={handleSubmit}
             style={{ display: "flex", flexDirection: "column", gap: "1.5rem" }}
           >
+            {(templates.length > 0 || cloneableSessions.length > 0) && (
+              <div>
+                <label
+                  style={{
+                    display: "block",
+                    marginBottom: "0.5rem",
+                    fontWeight: "bold",
+                    color: "#333",
+                  }}
+                >
+                  Start from
+                </label>
+                <select
+                  value={sourceValue}
+                  onChange={(e) => handleSourceChange(e.target.value)}
+                  style={{
+                    width: "100%",
+                    padding: "0.75rem",
+                    fontSize: "1rem",
+                    border: "1px solid #d1d5db",
+                    borderRadius: "6px",
+                    boxSizing: "border-box",
+                    backgroundColor: "white",
+                  }}
+                >
+                  <option value="">Blank session</option>
+                  {templates.length > 0 && (
+                    <optgroup label="Templates">
+                      {templates.map((template) => (
+                        <option
+                          key={template.id}
+                          value={`template:${template.id}`}
+                        >
+                          {template.name}
+                        </option>
+                      ))}
+                    </optgroup>
+                  )}
+                  {cloneableSessions.length > 0 && (
+                    <optgroup label="Copy a previous session">
+                      {cloneableSessions.map((summary) => (
+                        <option
+                          key={summary.code}
+                          value={`session:${summary.code}`}
+                        >
+                          {summary.title} ({summary.code})
+                        </option>
+                      ))}
+                    </optgroup>
+                  )}
+                </select>
+                {source && (
+                  <div
+                    style={{
+                      fontSize: "0.875rem",
+                      color: "#666",
+                      marginTop: "0.25rem",
+                    }}
+                  >
+                    Approval, replies, rate limits, content filter, pulse scale
+                    and who can join (including any passcode) are copied.
+                    {source.type === "template" && (
+                      <>
+                        {" "}
+                        <button
+                          type="button"
+                          onClick={() => handleDeleteTemplate(source.id)}
+                          style={{
+                            padding: 0,
+                            border: "none",
+                            background: "none",
+                            color: "#dc2626",
+                            fontSize: "0.875rem",
+                            cursor: "pointer",
+                          }}
+                        >
+                          Delete template
+                        </button>
+                      </>
+                    )}
+                  </div>
+                )}
+              </div>
+            )}
+
+            {source?.type === "session" && (
+              <label
+                style={{
+                  display: "flex",
+                  alignItems: "flex-start",
+                  gap: "0.75rem",
+                  cursor: "pointer",
+                }}
+              >
+                <input
+                  type="checkbox"
+                  checked={includeQuestions}
+                  onChange={(e) => setIncludeQuestions(e.target.checked)}
+                  style={{
+                    width: "18px",
+                    height: "18px",
+                    marginTop: "0.15rem",
+                  }}
+                />
+                <span>
+                  <span
+                    style={{
+                      display: "block",
+                      fontWeight: "bold",
+                      color: "#333",
+                    }}
+                  >
+                    Carry over unanswered questions
+                  </span>
+                  <span style={{ fontSize: "0.9rem", color: "#666" }}>
+                    Pending and approved questions are copied into the new
+                    session, without their votes
+                  </span>
+                </span>
+              </label>
+            )}
+
             <div>
               <label
                 style={{
@@ -463,6 +844,279 @@ export default function CreateSessionPage() {
               )}
             </div>
 
+            <div style={{ display: "flex", gap: "1rem", flexWrap: "wrap" }}>
+              <div style={{ flex: "1 1 200px" }}>
+                <label
+                  style={{
+                    display: "block",
+                    marginBottom: "0.5rem",
+                    fontWeight: "bold",
+                    color: "#333",
+                  }}
+                >
+                  Duration
+                </label>
+                <select
+                  value={duration}
+                  onChange={(e) => setDuration(e.target.value)}
+                  style={{
+                    width: "100%",
+                    padding: "0.75rem",
+                    fontSize: "1rem",
+                    border: `1px solid ${validationErrors.durationHours ? "#ef4444" : "#d1d5db"}`,
+                    borderRadius: "6px",
+                    boxSizing: "border-box",
+                    backgroundColor: "white",
+                  }}
+                >
+                  {source && (
+                    <option value={SAME_DURATION}>Same as before</option>
+                  )}
+                  {DURATION_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+                {validationErrors.durationHours && (
+                  <div
+                    style={{
+                      color: "#ef4444",
+                      fontSize: "0.875rem",
+                      marginTop: "0.25rem",
+                    }}
+                  >
+                    {validationErrors.durationHours}
+                  </div>
+                )}
+              </div>
+
+              {duration === "custom" && (
+                <div style={{ flex: "1 1 200px" }}>
+                  <label
+                    style={{
+                      display: "block",
+                      marginBottom: "0.5rem",
+                      fontWeight: "bold",
+                      color: "#333",
+                    }}
+                  >
+                    Ends at
+                  </label>
+                  <input
+                    type="datetime-local"
+                    value={endsAt}
+                    onChange={(e) => setEndsAt(e.target.value)}
+                    style={{
+                      width: "100%",
+                      padding: "0.75rem",
+                      fontSize: "1rem",
+                      border: `1px solid ${validationErrors.endsAt ? "#ef4444" : "#d1d5db"}`,
+                      borderRadius: "6px",
+                      boxSizing: "border-box",
+                    }}
+                  />
+                  {validationErrors.endsAt && (
+                    <div
+                      style={{
+                        color: "#ef4444",
+                        fontSize: "0.875rem",
+                        marginTop: "0.25rem",
+                      }}
+                    >
+                      {validationErrors.endsAt}
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+
+            <div>
+              <label
+                style={{
+                  display: "block",
+                  marginBottom: "0.5rem",
+                  fontWeight: "bold",
+                  color: "#333",
+                }}
+              >
+                Scheduled start (optional)
+              </label>
+              <input
+                type="datetime-local"
+                value={startsAt}
+                onChange={(e) => setStartsAt(e.target.value)}
+                style={{
+                  width: "100%",
+                  padding: "0.75rem",
+                  fontSize: "1rem",
+                  border: `1px solid ${validationErrors.startsAt ? "#ef4444" : "#d1d5db"}`,
+                  borderRadius: "6px",
+                  boxSizing: "border-box",
+                }}
+              />
+              <div
+                style={{
+                  fontSize: "0.875rem",
+                  color: "#666",
+                  marginTop: "0.25rem",
+                }}
+              >
+                Participants see a holding page until the session starts. The
+                duration counts from this time.
+              </div>
+              {validationErrors.startsAt && (
+                <div
+                  style={{
+                    color: "#ef4444",
+                    fontSize: "0.875rem",
+                    marginTop: "0.25rem",
+                  }}
+                >
+                  {validationErrors.startsAt}
+                </div>
+              )}
+            </div>
+
+            {!source && (
+              <>
+                <div>
+                  <label
+                    style={{
+                      display: "block",
+                      marginBottom: "0.5rem",
+                      fontWeight: "bold",
+                      color: "#333",
+                    }}
+                  >
+                    Who can join
+                  </label>
+                  <select
+                    value={accessMode}
+                    onChange={(e) =>
+                      setAccessMode(e.target.value as SessionAccessMode)
+                    }
+                    style={{
+                      width: "100%",
+                      padding: "0.75rem",
+                      fontSize: "1rem",
+                      border: "1px solid #d1d5db",
+                      borderRadius: "6px",
+                      boxSizing: "border-box",
+                      backgroundColor: "white",
+                    }}
+                  >
+                    {SESSION_ACCESS_MODES.map((mode) => (
+                      <option key={mode} value={mode}>
+                        {SESSION_ACCESS_MODE_LABELS[mode]}
+                      </option>
+                    ))}
+                  </select>
+
+                  {accessMode === "passcode" && (
+                    <input
+                      type="text"
+                      value={accessPasscode}
+                      onChange={(e) => setAccessPasscode(e.target.value)}
+                      placeholder="Passcode participants must enter"
+                      maxLength={MAX_PASSCODE_LENGTH}
+                      style={{
+                        width: "100%",
+                        padding: "0.75rem",
+                        fontSize: "1rem",
+                        border: `1px solid ${validationErrors.accessPasscode ? "#ef4444" : "#d1d5db"}`,
+                        borderRadius: "6px",
+                        boxSizing: "border-box",
+                        marginTop: "0.5rem",
+                      }}
+                    />
+                  )}
+
+                  {accessMode === "email_domain" && (
+                    <input
+                      type="text"
+                      value={emailDomains}
+                      onChange={(e) => setEmailDomains(e.target.value)}
+                      placeholder="example.com, example.org"
+                      style={{
+                        width: "100%",
+                        padding: "0.75rem",
+                        fontSize: "1rem",
+                        border: `1px solid ${validationErrors.allowedEmailDomains ? "#ef4444" : "#d1d5db"}`,
+                        borderRadius: "6px",
+                        boxSizing: "border-box",
+                        marginTop: "0.5rem",
+                      }}
+                    />
+                  )}
+
+                  <div
+                    style={{
+                      fontSize: "0.875rem",
+                      color: "#666",
+                      marginTop: "0.25rem",
+                    }}
+                  >
+                    {accessMode === "public"
+                      ? "Anyone with the session code or link can join."
+                      : accessMode === "passcode"
+                        ? "Share the passcode only with your audience - it can't be recovered later."
+                        : accessMode === "signed_in"
+                          ? "Participants sign in with their account before joining."
+                          : "Participants sign in with an email address on one of these domains."}
+                  </div>
+                  {(validationErrors.accessPasscode ||
+                    validationErrors.allowedEmailDomains) && (
+                    <div
+                      style={{
+                        color: "#ef4444",
+                        fontSize: "0.875rem",
+                        marginTop: "0.25rem",
+                      }}
+                    >
+                      {validationErrors.accessPasscode ||
+                        validationErrors.allowedEmailDomains}
+                    </div>
+                  )}
+                </div>
+
+                <label
+                  style={{
+                    display: "flex",
+                    alignItems: "flex-start",
+                    gap: "0.75rem",
+                    cursor: "pointer",
+                  }}
+                >
+                  <input
+                    type="checkbox"
+                    checked={requireApproval}
+                    onChange={(e) => setRequireApproval(e.target.checked)}
+                    style={{
+                      width: "18px",
+                      height: "18px",
+                      marginTop: "0.15rem",
+                    }}
+                  />
+                  <span>
+                    <span
+                      style={{
+                        display: "block",
+                        fontWeight: "bold",
+                        color: "#333",
+                      }}
+                    >
+                      Require approval for questions
+                    </span>
+                    <span style={{ fontSize: "0.9rem", color: "#666" }}>
+                      New questions stay hidden from participants until you
+                      approve them from the host dashboard
+                    </span>
+                  </span>
+                </label>
+              </>
+            )}
+
             {/* Error display */}
             {error && (
               <div
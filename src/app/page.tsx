@@ -3,6 +3,7 @@
 import { useEffect, useState } from "react";
 import { useRouter } from "next/navigation";
 import Link from "next/link";
+import { getSessionCodeError } from "@/lib/session-links";
 
 interface HealthStatus {
   status: string;
@@ -42,22 +43,31 @@ export default function HomePage() {
     fetchHealth();
   }, []);
 
-  const handleJoinSession = () => {
-    const trimmedCode = sessionCode.trim().toUpperCase();
+  // Deep link: /?code=ABC123 jumps straight into the session
+  useEffect(() => {
+    const linkedCode = new URLSearchParams(window.location.search)
+      .get("code")
+      ?.trim()
+      .toUpperCase();
+    if (!linkedCode) return;
 
-    // Validate session code format (6 alphanumeric characters)
-    if (!trimmedCode) {
-      setJoinError("Please enter a session code");
+    const codeError = getSessionCodeError(linkedCode);
+    if (codeError) {
+      setSessionCode(linkedCode.slice(0, 6));
+      setJoinError(codeError);
       return;
     }
 
-    if (trimmedCode.length !== 6) {
-      setJoinError("Session code must be 6 characters");
-      return;
-    }
+    router.replace(`/session/${linkedCode}`);
+  }, [router]);
 
-    if (!/^[A-Z0-9]{6}$/.test(trimmedCode)) {
-      setJoinError("Session code must contain only letters and numbers");
+  const handleJoinSession = () => {
+    const trimmedCode = sessionCode.trim().toUpperCase();
+
+    // Validate session code format (6 alphanumeric characters)
+    const codeError = getSessionCodeError(trimmedCode);
+    if (codeError) {
+      setJoinError(codeError);
       return;
     }
 
@@ -105,6 +115,11 @@ export default function HomePage() {
               Create Session
             </button>
           </Link>
+          <div style={{ marginBottom: "2rem" }}>
+            <Link href="/sessions" style={{ color: "#0070f3" }}>
+              My sessions
+            </Link>
+          </div>
 
           <div
             style={{
@@ -0,0 +1,382 @@
+"use client";
+
+import { useSession, signIn } from "next-auth/react";
+import { useParams } from "next/navigation";
+import useSWR from "swr";
+import type { GetSessionAnalyticsResponse } from "@/types/analytics";
+import { QUESTION_STATUS_LABELS } from "@/types/question";
+import { formatDuration } from "@/lib/session-analytics";
+import { fetcher, getErrorMessage } from "@/lib/swr-utils";
+
+const cardStyle = {
+  backgroundColor: "white",
+  padding: "1.5rem",
+  borderRadius: "12px",
+  border: "1px solid #e5e7eb",
+  boxShadow: "0 1px 3px rgba(0, 0, 0, 0.1)",
+  marginBottom: "2rem",
+};
+
+const headingStyle = {
+  fontSize: "1.25rem",
+  marginBottom: "1rem",
+  color: "#333",
+};
+
+/** Horizontal bar with a label and count */
+function Bar({
+  label,
+  value,
+  max,
+  color = "#0070f3",
+}: {
+  label: string;
+  value: number;
+  max: number;
+  color?: string;
+}) {
+  return (
+    <div
+      style={{
+        display: "flex",
+        alignItems: "center",
+        gap: "0.75rem",
+        marginBottom: "0.5rem",
+      }}
+    >
+      <div style={{ width: "9rem", fontSize: "0.9rem", color: "#555" }}>
+        {label}
+      </div>
+      <div
+        style={{
+          flex: 1,
+          height: "0.9rem",
+          backgroundColor: "#f3f4f6",
+          borderRadius: "4px",
+        }}
+      >
+        <div
+          style={{
+            width: `${max > 0 ? (value / max) * 100 : 0}%`,
+            height: "100%",
+            backgroundColor: color,
+            borderRadius: "4px",
+          }}
+        />
+      </div>
+      <div style={{ width: "3rem", textAlign: "right", color: "#333" }}>
+        {value}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Post-event analytics for the host team
+ *
+ * Reads everything from the analytics endpoint, so it keeps working after
+ * the session has expired.
+ */
+export default function SessionAnalyticsPage() {
+  const { status } = useSession();
+  const params = useParams();
+  const code = params?.code as string;
+
+  // Redirect to sign in if not authenticated
+  if (status === "unauthenticated") {
+    signIn();
+  }
+
+  const { data, error, isLoading } = useSWR<GetSessionAnalyticsResponse>(
+    status === "authenticated" && code
+      ? `/api/sessions/${code}/host/analytics`
+      : null,
+    fetcher,
+    { revalidateOnFocus: false },
+  );
+
+  if (status === "loading" || isLoading) {
+    return (
+      <main style={{ padding: "2rem", fontFamily: "system-ui, sans-serif" }}>
+        <p style={{ color: "#666" }}>Loading analytics...</p>
+      </main>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <main style={{ padding: "2rem", fontFamily: "system-ui, sans-serif" }}>
+        <div
+          style={{
+            backgroundColor: "#fef2f2",
+            border: "1px solid #fecaca",
+            color: "#dc2626",
+            padding: "1.5rem",
+            borderRadius: "8px",
+          }}
+        >
+          {error ? getErrorMessage(error) : "Analytics are unavailable"}
+        </div>
+      </main>
+    );
+  }
+
+  const { analytics, session: qaSession } = data;
+  const { timeline, satisfaction, timeToAnswer } = analytics;
+  const maxTimelineValue = Math.max(
+    1,
+    ...timeline.buckets.map((b) => Math.max(b.questions, b.votes)),
+  );
+  const maxVoteBucket = Math.max(
+    1,
+    ...analytics.voteDistribution.map((b) => b.questions),
+  );
+
+  const stats = [
+    { label: "Participants", value: String(analytics.participants) },
+    { label: "Questions", value: String(analytics.totalQuestions) },
+    { label: "Votes", value: String(analytics.totalVotes) },
+    {
+      label: "Answer rate",
+      value: analytics.answerRate === null ? "—" : `${analytics.answerRate}%`,
+    },
+    {
+      label: "Avg. time to answer",
+      value:
+        timeToAnswer.averageMs === null
+          ? "—"
+          : formatDuration(timeToAnswer.averageMs),
+    },
+    {
+      label: "Satisfaction",
+      value:
+        satisfaction.helpfulness === null
+          ? "—"
+          : `${satisfaction.helpfulness}%`,
+    },
+  ];
+
+  return (
+    <main
+      style={{
+        padding: "2rem",
+        fontFamily: "system-ui, sans-serif",
+        maxWidth: "1200px",
+        margin: "0 auto",
+      }}
+    >
+      {/* Header */}
+      <div style={{ marginBottom: "2rem" }}>
+        <a
+          href={`/session/${code}/host`}
+          style={{ color: "#0070f3", textDecoration: "none" }}
+        >
+          ← Back to dashboard
+        </a>
+        <h1
+          style={{
+            fontSize: "2.5rem",
+            margin: "0.5rem 0",
+            color: "#333",
+          }}
+        >
+          Session Analytics
+        </h1>
+        <p style={{ fontSize: "1.1rem", color: "#666" }}>
+          {qaSession.title} · {qaSession.code}
+        </p>
+      </div>
+
+      {/* Headline numbers */}
+      <div
+        style={{
+          display: "grid",
+          gridTemplateColumns: "repeat(auto-fit, minmax(160px, 1fr))",
+          gap: "1rem",
+          marginBottom: "2rem",
+        }}
+      >
+        {stats.map(({ label, value }) => (
+          <div key={label} style={{ ...cardStyle, marginBottom: 0 }}>
+            <div style={{ fontSize: "0.9rem", color: "#666" }}>{label}</div>
+            <div
+              style={{ fontSize: "2rem", fontWeight: "bold", color: "#333" }}
+            >
+              {value}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {/* Questions over time */}
+      <div style={cardStyle}>
+        <h2 style={headingStyle}>Activity over time</h2>
+        {timeline.buckets.length === 0 ? (
+          <p style={{ color: "#666" }}>No questions or votes yet.</p>
+        ) : (
+          <>
+            <div
+              style={{
+                display: "flex",
+                alignItems: "flex-end",
+                gap: "4px",
+                height: "160px",
+              }}
+            >
+              {timeline.buckets.map((bucket) => (
+                <div
+                  key={bucket.start}
+                  title={`${new Date(bucket.start).toLocaleString()}: ${bucket.questions} questions, ${bucket.votes} votes`}
+                  style={{
+                    flex: 1,
+                    display: "flex",
+                    alignItems: "flex-end",
+                    gap: "1px",
+                    height: "100%",
+                  }}
+                >
+                  <div
+                    style={{
+                      flex: 1,
+                      height: `${(bucket.questions / maxTimelineValue) * 100}%`,
+                      backgroundColor: "#0070f3",
+                    }}
+                  />
+                  <div
+                    style={{
+                      flex: 1,
+                      height: `${(bucket.votes / maxTimelineValue) * 100}%`,
+                      backgroundColor: "#93c5fd",
+                    }}
+                  />
+                </div>
+              ))}
+            </div>
+            <p
+              style={{
+                fontSize: "0.85rem",
+                color: "#666",
+                marginTop: "0.75rem",
+              }}
+            >
+              <span style={{ color: "#0070f3" }}>■</span> Questions{" "}
+              <span style={{ color: "#93c5fd" }}>■</span> Votes · each bar is{" "}
+              {timeline.bucketMinutes >= 60
+                ? `${timeline.bucketMinutes / 60} hour(s)`
+                : `${timeline.bucketMinutes} minute(s)`}{" "}
+              from {new Date(timeline.buckets[0].start).toLocaleString()}
+            </p>
+          </>
+        )}
+      </div>
+
+      <div
+        style={{
+          display: "grid",
+          gridTemplateColumns: "repeat(auto-fit, minmax(320px, 1fr))",
+          gap: "2rem",
+        }}
+      >
+        {/* Questions by status */}
+        <div style={cardStyle}>
+          <h2 style={headingStyle}>Questions by status</h2>
+          {Object.entries(analytics.questionsByStatus).map(
+            ([status, count]) => (
+              <Bar
+                key={status}
+                label={
+                  QUESTION_STATUS_LABELS[
+                    status as keyof typeof QUESTION_STATUS_LABELS
+                  ]
+                }
+                value={count}
+                max={Math.max(1, analytics.totalQuestions)}
+              />
+            ),
+          )}
+        </div>
+
+        {/* Vote distribution */}
+        <div style={cardStyle}>
+          <h2 style={headingStyle}>Votes per question</h2>
+          {analytics.voteDistribution.map((bucket) => (
+            <Bar
+              key={bucket.label}
+              label={`${bucket.label} ${bucket.label === "1" ? "vote" : "votes"}`}
+              value={bucket.questions}
+              max={maxVoteBucket}
+            />
+          ))}
+        </div>
+
+        {/* Time to answer */}
+        <div style={cardStyle}>
+          <h2 style={headingStyle}>Time to answer</h2>
+          {timeToAnswer.sampleSize === 0 ? (
+            <p style={{ color: "#666" }}>No answered questions yet.</p>
+          ) : (
+            <div style={{ color: "#333", lineHeight: 1.8 }}>
+              <div>
+                Average:{" "}
+                <strong>{formatDuration(timeToAnswer.averageMs ?? 0)}</strong>
+              </div>
+              <div>
+                Median:{" "}
+                <strong>{formatDuration(timeToAnswer.medianMs ?? 0)}</strong>
+              </div>
+              <div style={{ color: "#666", fontSize: "0.9rem" }}>
+                Across {timeToAnswer.sampleSize} answered{" "}
+                {timeToAnswer.sampleSize === 1 ? "question" : "questions"}
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* Pulse check satisfaction */}
+        <div style={cardStyle}>
+          <h2 style={headingStyle}>Pulse check satisfaction</h2>
+          {satisfaction.responses === 0 ? (
+            <p style={{ color: "#666" }}>No pulse check feedback yet.</p>
+          ) : (
+            <>
+              {[...satisfaction.points].reverse().map((point) => (
+                <Bar
+                  key={point.score}
+                  label={`${point.emoji ? `${point.emoji} ` : ""}${point.label}`}
+                  value={point.count}
+                  max={satisfaction.responses}
+                  color="#10b981"
+                />
+              ))}
+              <p style={{ color: "#666", fontSize: "0.9rem" }}>
+                {satisfaction.responses} ratings · average{" "}
+                {satisfaction.average} of {satisfaction.points.length}
+              </p>
+            </>
+          )}
+        </div>
+      </div>
+
+      {/* Top questions */}
+      <div style={cardStyle}>
+        <h2 style={headingStyle}>Most-voted questions</h2>
+        {analytics.topQuestions.length === 0 ? (
+          <p style={{ color: "#666" }}>No questions were published.</p>
+        ) : (
+          <ol style={{ paddingLeft: "1.5rem", color: "#333" }}>
+            {analytics.topQuestions.map((question) => (
+              <li key={question.id} style={{ marginBottom: "0.5rem" }}>
+                {question.content}{" "}
+                <span style={{ color: "#666", fontSize: "0.9rem" }}>
+                  · {question.voteCount}{" "}
+                  {question.voteCount === 1 ? "vote" : "votes"} ·{" "}
+                  {QUESTION_STATUS_LABELS[question.status]}
+                </span>
+              </li>
+            ))}
+          </ol>
+        )}
+      </div>
+    </main>
+  );
+}
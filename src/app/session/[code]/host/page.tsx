@@ -5,9 +5,37 @@ import { useState } from "react";
 import { useParams, useRouter } from "next/navigation";
 import useSWR from "swr";
 import type { GetSessionResponse } from "@/types/session";
-import type { HostQuestionResponse } from "@/types/question";
-import { fetcher } from "@/lib/swr-utils";
+import type { ExportFormat } from "@/types/export";
+import type { ListSessionMembersResponse } from "@/types/session-member";
+import type {
+  HostQuestionResponse,
+  HostQuestionStatus,
+} from "@/types/question";
+import { fetcher, getRefreshInterval } from "@/lib/swr-utils";
+import { useSessionStream } from "@/lib/use-session-stream";
+import { hasSessionPermission } from "@/lib/session-roles";
+import { getSessionJoinUrl, getSessionQrCodePath } from "@/lib/session-links";
 import HostQuestionList from "@/components/host/HostQuestionList";
+import ModerationQueue from "@/components/host/ModerationQueue";
+import QuestionClusters from "@/components/host/QuestionClusters";
+import PollManager from "@/components/host/PollManager";
+import RateLimitSettings from "@/components/host/RateLimitSettings";
+import ContentFilterSettings from "@/components/host/ContentFilterSettings";
+import PulseScaleSettings from "@/components/host/PulseScaleSettings";
+import PulseSummary from "@/components/host/PulseSummary";
+import SessionMembersPanel from "@/components/host/SessionMembersPanel";
+
+const EXPORT_OPTIONS: Array<{ format: ExportFormat; label: string }> = [
+  { format: "csv", label: "Download CSV" },
+  { format: "json", label: "Download JSON" },
+  { format: "markdown", label: "Download Markdown" },
+];
+
+const EXTEND_OPTIONS: Array<{ hours: number; label: string }> = [
+  { hours: 1, label: "+1 hour" },
+  { hours: 24, label: "+1 day" },
+  { hours: 168, label: "+1 week" },
+];
 
 export default function HostDashboardPage() {
   const { data: session, status } = useSession();
@@ -20,9 +48,14 @@ export default function HostDashboardPage() {
 
   // Redirect to sign in if not authenticated
   if (status === "unauthenticated") {
-    signIn("google");
+    signIn();
   }
 
+  // Live updates - SWR polling slows down while the stream is connected
+  const { isConnected: isStreamConnected } = useSessionStream(
+    status === "authenticated" ? code : null,
+  );
+
   // Fetch session data with SWR
   const {
     data: sessionResponse,
@@ -33,7 +66,7 @@ export default function HostDashboardPage() {
     status === "authenticated" && code ? `/api/sessions/${code}` : null,
     fetcher,
     {
-      refreshInterval: 3000, // Poll every 3 seconds
+      refreshInterval: getRefreshInterval(isStreamConnected, 3000), // Poll every 3 seconds when the stream is down
       revalidateOnFocus: true,
       dedupingInterval: 1000,
     }
@@ -48,19 +81,32 @@ export default function HostDashboardPage() {
     status === "authenticated" && code ? `/api/sessions/${code}/host/questions` : null,
     fetcher,
     {
-      refreshInterval: 3000, // Poll every 3 seconds
+      refreshInterval: getRefreshInterval(isStreamConnected, 3000), // Poll every 3 seconds when the stream is down
       revalidateOnFocus: true,
       dedupingInterval: 1000,
     }
   );
 
+  // The signed-in user's role decides which controls are shown
+  const { data: membersResponse } = useSWR<ListSessionMembersResponse>(
+    status === "authenticated" && code ? `/api/sessions/${code}/members` : null,
+    fetcher,
+  );
+
   const sessionData = sessionResponse?.session;
+  const role = membersResponse?.role;
+  const canManageSession = hasSessionPermission(role, "manage_session");
+  const canExport = hasSessionPermission(role, "export_session");
+  const canAnswer = hasSessionPermission(role, "answer_questions");
+  const canModerate = hasSessionPermission(role, "moderate_questions");
   const questions = questionsResponse?.questions || [];
+  const pendingQuestions = questions.filter((q) => q.status === "pending");
+  const reviewedQuestions = questions.filter((q) => q.status !== "pending");
 
   // Handle question status update with optimistic updates
   const handleQuestionStatusUpdate = async (
     questionId: string,
-    newStatus: "being_answered" | "answered"
+    newStatus: HostQuestionStatus
   ) => {
     // Optimistic update - update UI immediately
     mutateQuestions(
@@ -96,6 +142,133 @@ export default function HostDashboardPage() {
     }
   };
 
+  // Approve or dismiss one or more pending questions with optimistic updates
+  const handleModerate = async (
+    questionIds: string[],
+    decision: "approved" | "dismissed"
+  ) => {
+    const ids = new Set(questionIds);
+
+    mutateQuestions(
+      (current) => {
+        if (!current) return current;
+        return {
+          questions: current.questions.map((q) =>
+            ids.has(q.id) ? { ...q, status: decision } : q
+          ),
+        };
+      },
+      { revalidate: false }
+    );
+
+    try {
+      const responses = await Promise.all(
+        questionIds.map((questionId) =>
+          fetch(`/api/questions/${questionId}`, {
+            method: "PATCH",
+            headers: {
+              "Content-Type": "application/json",
+            },
+            body: JSON.stringify({ status: decision }),
+          })
+        )
+      );
+
+      // If any request failed, resync with the server
+      if (responses.some((response) => !response.ok)) {
+        console.error("Failed to moderate some questions");
+        mutateQuestions();
+      }
+    } catch (error) {
+      console.error("Network error moderating questions:", error);
+      mutateQuestions(); // Force refresh from server to revert
+    }
+  };
+
+  // Merge duplicate questions, then refetch to pick up the combined votes
+  const handleMerge = async (targetId: string, duplicateIds: string[]) => {
+    const response = await fetch(`/api/questions/${targetId}/merge`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ questionIds: duplicateIds }),
+    });
+
+    if (!response.ok) {
+      const body = await response.json().catch(() => ({}));
+      throw new Error(body.message || "Failed to merge questions");
+    }
+
+    await mutateQuestions();
+  };
+
+  const handleEdit = async (questionId: string, content: string) => {
+    const response = await fetch(`/api/questions/${questionId}`, {
+      method: "PATCH",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ content }),
+    });
+
+    if (!response.ok) {
+      const body = await response.json().catch(() => ({}));
+      throw new Error(body.message || "Failed to edit question");
+    }
+
+    await mutateQuestions();
+  };
+
+  const handleSplit = async (questionId: string, parts: string[]) => {
+    const response = await fetch(`/api/questions/${questionId}/split`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ parts }),
+    });
+
+    if (!response.ok) {
+      const body = await response.json().catch(() => ({}));
+      throw new Error(body.message || "Failed to split question");
+    }
+
+    await mutateQuestions();
+  };
+
+  // Post a written answer; the endpoint marks the question answered
+  const handleAnswer = async (questionId: string, content: string) => {
+    const response = await fetch(`/api/questions/${questionId}/replies`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ as: "host", content }),
+    });
+
+    if (!response.ok) {
+      const body = await response.json().catch(() => ({}));
+      throw new Error(body.message || "Failed to post answer");
+    }
+
+    await mutateQuestions();
+  };
+
+  const handleDeleteReply = async (questionId: string, replyId: string) => {
+    const response = await fetch(
+      `/api/questions/${questionId}/replies/${replyId}`,
+      { method: "DELETE" },
+    );
+
+    if (!response.ok) {
+      const body = await response.json().catch(() => ({}));
+      throw new Error(body.message || "Failed to remove reply");
+    }
+
+    await mutateQuestions();
+  };
+
   // Check for host ownership error
   const error =
     sessionError && session?.user?.id && sessionData?.hostId !== session.user.id
@@ -108,7 +281,8 @@ export default function HostDashboardPage() {
 
   // Update session status with optimistic updates
   const updateSessionStatus = async (
-    field: "isActive" | "isAcceptingQuestions",
+    field:
+      "isActive" | "isAcceptingQuestions" | "requireApproval" | "allowReplies",
     value: boolean,
   ) => {
     if (!sessionData) return;
@@ -149,6 +323,53 @@ export default function HostDashboardPage() {
     }
   };
 
+  // Push the session's expiry back (also reopens an expired session)
+  const extendSession = async (hours: number) => {
+    try {
+      const response = await fetch(`/api/sessions/${code}`, {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ extendByHours: hours }),
+      });
+
+      if (!response.ok) {
+        const result = await response.json();
+        alert(result.error || "Failed to extend session");
+        return;
+      }
+
+      mutateSession();
+    } catch (error) {
+      console.error("Network error extending session:", error);
+      alert("Network error. Please try again.");
+    }
+  };
+
+  const renderExtendButtons = () =>
+    canManageSession && (
+      <div style={{ display: "flex", gap: "0.5rem", marginTop: "0.5rem" }}>
+        {EXTEND_OPTIONS.map(({ hours, label }) => (
+          <button
+            key={hours}
+            onClick={() => extendSession(hours)}
+            style={{
+              padding: "0.25rem 0.75rem",
+              fontSize: "0.85rem",
+              backgroundColor: "white",
+              color: "#0070f3",
+              border: "1px solid #0070f3",
+              borderRadius: "6px",
+              cursor: "pointer",
+            }}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+    );
+
   // End session
   const endSession = async () => {
     if (!confirm("Are you sure you want to end this session?")) return;
@@ -170,17 +391,11 @@ export default function HostDashboardPage() {
   // Generate shareable link
   const getShareableLink = () => {
     if (typeof window !== "undefined") {
-      return `${window.location.origin}/session/${code}`;
+      return getSessionJoinUrl(window.location.origin, code);
     }
     return "";
   };
 
-  // Generate QR code URL (using a free QR code API)
-  const getQRCodeUrl = () => {
-    const link = getShareableLink();
-    return `https://api.qrserver.com/v1/create-qr-code/?size=200x200&data=${encodeURIComponent(link)}`;
-  };
-
   // Loading state
   if (status === "loading" || isLoading) {
     return (
@@ -235,7 +450,7 @@ export default function HostDashboardPage() {
             Please sign in to access the host dashboard
           </div>
           <button
-            onClick={() => signIn("google")}
+            onClick={() => signIn()}
             style={{
               padding: "0.75rem 2rem",
               fontSize: "1.1rem",
@@ -246,7 +461,7 @@ export default function HostDashboardPage() {
               cursor: "pointer",
             }}
           >
-            Sign in with Google
+            Sign In
           </button>
         </div>
       </div>
@@ -276,6 +491,22 @@ export default function HostDashboardPage() {
         >
           <h2 style={{ marginBottom: "0.5rem" }}>Error</h2>
           <p>{error}</p>
+          {sessionError?.status === 410 && canManageSession && (
+            <div style={{ marginTop: "1rem", color: "#333" }}>
+              Extend the session to reopen it:
+              {renderExtendButtons()}
+            </div>
+          )}
+          {sessionError?.status === 410 && role && (
+            <div style={{ marginTop: "1rem" }}>
+              <a
+                href={`/session/${code}/host/analytics`}
+                style={{ color: "#0070f3" }}
+              >
+                View analytics for this session
+              </a>
+            </div>
+          )}
           <button
             onClick={() => router.push("/create")}
             style={{
@@ -300,8 +531,8 @@ export default function HostDashboardPage() {
   if (!sessionData) return null;
 
   const shareableLink = getShareableLink();
-  const qrCodeUrl = getQRCodeUrl();
   const isExpired = new Date() > new Date(sessionData.expiresAt);
+  const controlsDisabled = isExpired || !canManageSession;
 
   return (
     <main
@@ -447,7 +678,27 @@ export default function HostDashboardPage() {
                 {new Date(sessionData.expiresAt).toLocaleString()}
                 {isExpired && " (Expired)"}
               </div>
+              {renderExtendButtons()}
             </div>
+
+            {sessionData.startsAt && (
+              <div>
+                <label
+                  style={{
+                    fontWeight: "bold",
+                    color: "#666",
+                    fontSize: "0.9rem",
+                  }}
+                >
+                  Starts
+                </label>
+                <div style={{ color: "#333" }}>
+                  {new Date(sessionData.startsAt).toLocaleString()}
+                  {new Date() < new Date(sessionData.startsAt) &&
+                    " (Scheduled)"}
+                </div>
+              </div>
+            )}
           </div>
         </div>
       </div>
@@ -553,7 +804,7 @@ export default function HostDashboardPage() {
               }}
             >
               <img
-                src={qrCodeUrl}
+                src={getSessionQrCodePath(code)}
                 alt="Session QR Code"
                 style={{
                   width: "200px",
@@ -565,7 +816,87 @@ export default function HostDashboardPage() {
             <p
               style={{ fontSize: "0.9rem", color: "#666", marginTop: "0.5rem" }}
             >
-              Participants can scan this code to join the session
+              Participants can scan this code to join the session.{" "}
+              <a
+                href={getSessionQrCodePath(code, "png")}
+                download={`session-${code}-qr.png`}
+                style={{ color: "#0070f3" }}
+              >
+                Download PNG
+              </a>
+            </p>
+          </div>
+
+          {/* Presenter View */}
+          <div>
+            <label
+              style={{
+                fontWeight: "bold",
+                color: "#666",
+                fontSize: "0.9rem",
+                display: "block",
+                marginBottom: "0.5rem",
+              }}
+            >
+              Presenter View
+            </label>
+            <a
+              href={`/session/${code}/present`}
+              target="_blank"
+              rel="noopener noreferrer"
+              style={{
+                display: "inline-block",
+                padding: "0.75rem 1.5rem",
+                fontSize: "1rem",
+                backgroundColor: "#111827",
+                color: "white",
+                borderRadius: "6px",
+                textDecoration: "none",
+              }}
+            >
+              Open Presenter View
+            </a>
+            <p
+              style={{ fontSize: "0.9rem", color: "#666", marginTop: "0.5rem" }}
+            >
+              Read-only display of the current and top-voted questions for a
+              projector or shared screen
+            </p>
+          </div>
+
+          {/* Analytics */}
+          <div>
+            <label
+              style={{
+                fontWeight: "bold",
+                color: "#666",
+                fontSize: "0.9rem",
+                display: "block",
+                marginBottom: "0.5rem",
+              }}
+            >
+              Analytics
+            </label>
+            <a
+              href={`/session/${code}/host/analytics`}
+              style={{
+                display: "inline-block",
+                padding: "0.75rem 1.5rem",
+                fontSize: "1rem",
+                backgroundColor: "white",
+                color: "#0070f3",
+                border: "1px solid #0070f3",
+                borderRadius: "6px",
+                textDecoration: "none",
+              }}
+            >
+              View Session Analytics
+            </a>
+            <p
+              style={{ fontSize: "0.9rem", color: "#666", marginTop: "0.5rem" }}
+            >
+              Participation, answer rate, time to answer and pulse check
+              satisfaction
             </p>
           </div>
         </div>
@@ -627,11 +958,11 @@ export default function HostDashboardPage() {
                 onChange={(e) =>
                   updateSessionStatus("isActive", e.target.checked)
                 }
-                disabled={isExpired}
+                disabled={controlsDisabled}
                 style={{
                   width: "20px",
                   height: "20px",
-                  cursor: isExpired ? "not-allowed" : "pointer",
+                  cursor: controlsDisabled ? "not-allowed" : "pointer",
                 }}
               />
             </label>
@@ -671,15 +1002,147 @@ export default function HostDashboardPage() {
                 onChange={(e) =>
                   updateSessionStatus("isAcceptingQuestions", e.target.checked)
                 }
-                disabled={isExpired}
+                disabled={controlsDisabled}
+                style={{
+                  width: "20px",
+                  height: "20px",
+                  cursor: controlsDisabled ? "not-allowed" : "pointer",
+                }}
+              />
+            </label>
+          </div>
+
+          {/* Require Approval */}
+          <div
+            style={{
+              display: "flex",
+              justifyContent: "space-between",
+              alignItems: "center",
+              padding: "1rem",
+              backgroundColor: "#f9fafb",
+              borderRadius: "8px",
+            }}
+          >
+            <div>
+              <div style={{ fontWeight: "bold", color: "#333" }}>
+                Require Approval
+              </div>
+              <div style={{ fontSize: "0.9rem", color: "#666" }}>
+                {sessionData.requireApproval
+                  ? "New questions wait in the moderation queue"
+                  : "New questions are published immediately"}
+              </div>
+            </div>
+            <label
+              style={{
+                display: "flex",
+                alignItems: "center",
+                cursor: "pointer",
+              }}
+            >
+              <input
+                type="checkbox"
+                checked={sessionData.requireApproval}
+                onChange={(e) =>
+                  updateSessionStatus("requireApproval", e.target.checked)
+                }
+                disabled={controlsDisabled}
+                style={{
+                  width: "20px",
+                  height: "20px",
+                  cursor: controlsDisabled ? "not-allowed" : "pointer",
+                }}
+              />
+            </label>
+          </div>
+
+          {/* Allow Replies Toggle */}
+          <div
+            style={{
+              display: "flex",
+              justifyContent: "space-between",
+              alignItems: "center",
+              padding: "1rem",
+              backgroundColor: "#f9fafb",
+              borderRadius: "8px",
+            }}
+          >
+            <div>
+              <div style={{ fontWeight: "bold", color: "#333" }}>
+                Allow Replies
+              </div>
+              <div style={{ fontSize: "0.9rem", color: "#666" }}>
+                {sessionData.allowReplies
+                  ? "Participants can reply to questions"
+                  : "Only hosts can answer questions"}
+              </div>
+            </div>
+            <label
+              style={{
+                display: "flex",
+                alignItems: "center",
+                cursor: "pointer",
+              }}
+            >
+              <input
+                type="checkbox"
+                checked={sessionData.allowReplies}
+                onChange={(e) =>
+                  updateSessionStatus("allowReplies", e.target.checked)
+                }
+                disabled={controlsDisabled}
                 style={{
                   width: "20px",
                   height: "20px",
-                  cursor: isExpired ? "not-allowed" : "pointer",
+                  cursor: controlsDisabled ? "not-allowed" : "pointer",
                 }}
               />
             </label>
           </div>
+
+          {/* Rate Limits */}
+          <div
+            style={{
+              padding: "1rem",
+              backgroundColor: "#f9fafb",
+              borderRadius: "8px",
+            }}
+          >
+            <RateLimitSettings
+              sessionCode={code}
+              policy={sessionData}
+              disabled={controlsDisabled}
+              onSaved={() => mutateSession()}
+            />
+          </div>
+
+          {/* Content Filter */}
+          <div
+            style={{
+              padding: "1rem",
+              backgroundColor: "#f9fafb",
+              borderRadius: "8px",
+            }}
+          >
+            <ContentFilterSettings
+              sessionCode={code}
+              disabled={controlsDisabled}
+            />
+          </div>
+
+          {/* Pulse Check Scale */}
+          <div
+            style={{
+              padding: "1rem",
+              backgroundColor: "#f9fafb",
+              borderRadius: "8px",
+            }}
+          >
+            <PulseScaleSettings
+              sessionCode={code}
+              disabled={controlsDisabled}
+            />
+          </div>
         </div>
       </div>
 
@@ -781,19 +1244,19 @@ export default function HostDashboardPage() {
         <div style={{ display: "flex", gap: "1rem" }}>
           <button
             onClick={endSession}
-            disabled={!sessionData.isActive || isExpired}
+            disabled={!sessionData.isActive || controlsDisabled}
             style={{
               padding: "0.75rem 1.5rem",
               fontSize: "1rem",
               backgroundColor:
-                !sessionData.isActive || isExpired
+                !sessionData.isActive || controlsDisabled
                   ? "#9ca3af"
                   : "#dc2626",
               color: "white",
               border: "none",
               borderRadius: "6px",
               cursor:
-                !sessionData.isActive || isExpired
+                !sessionData.isActive || controlsDisabled
                   ? "not-allowed"
                   : "pointer",
             }}
@@ -816,6 +1279,84 @@ export default function HostDashboardPage() {
             Create New Session
           </button>
         </div>
+
+        {/* Export */}
+        {canExport && (
+          <div
+            style={{
+              marginTop: "1.5rem",
+              paddingTop: "1.5rem",
+              borderTop: "1px solid #e5e7eb",
+            }}
+          >
+            <div style={{ fontWeight: "bold", color: "#333" }}>
+              Export Questions
+            </div>
+            <div
+              style={{
+                fontSize: "0.9rem",
+                color: "#666",
+                marginBottom: "1rem",
+              }}
+            >
+              Download every question with votes, authors and pulse check
+              results for follow-up
+            </div>
+            <div style={{ display: "flex", gap: "1rem", flexWrap: "wrap" }}>
+              {EXPORT_OPTIONS.map(({ format, label }) => (
+                <a
+                  key={format}
+                  href={`/api/sessions/${code}/export?format=${format}`}
+                  download
+                  style={{
+                    padding: "0.75rem 1.5rem",
+                    fontSize: "1rem",
+                    backgroundColor: "white",
+                    color: "#0070f3",
+                    border: "1px solid #0070f3",
+                    borderRadius: "6px",
+                    textDecoration: "none",
+                  }}
+                >
+                  {label}
+                </a>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Team */}
+      <div style={{ marginTop: "3rem" }}>
+        <SessionMembersPanel sessionCode={code} />
+      </div>
+
+      {/* Moderation Queue - shown while approval is required or questions are still waiting */}
+      {(sessionData.requireApproval || pendingQuestions.length > 0) && (
+        <div style={{ marginTop: "3rem" }}>
+          <ModerationQueue
+            questions={pendingQuestions}
+            onModerate={handleModerate}
+          />
+        </div>
+      )}
+
+      {/* Polls */}
+      <div style={{ marginTop: "3rem" }}>
+        <PollManager
+          sessionCode={code}
+          canManage={canManageSession && !isExpired}
+        />
+      </div>
+
+      {/* Pulse Summary */}
+      <div style={{ marginTop: "3rem" }}>
+        <PulseSummary sessionCode={code} />
+      </div>
+
+      {/* Question Clusters */}
+      <div style={{ marginTop: "3rem" }}>
+        <QuestionClusters sessionCode={code} />
       </div>
 
       {/* Questions Section */}
@@ -826,8 +1367,14 @@ export default function HostDashboardPage() {
           </div>
         ) : (
           <HostQuestionList
-            questions={questions}
+            questions={reviewedQuestions}
             onStatusUpdate={handleQuestionStatusUpdate}
+            canAnswer={canAnswer}
+            onMerge={canModerate ? handleMerge : undefined}
+            onEdit={canModerate ? handleEdit : undefined}
+            onSplit={canModerate ? handleSplit : undefined}
+            onAnswer={canAnswer ? handleAnswer : undefined}
+            onDeleteReply={canModerate ? handleDeleteReply : undefined}
           />
         )}
       </div>
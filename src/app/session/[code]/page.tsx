@@ -2,27 +2,41 @@
 
 import { useEffect, useState } from "react";
 import { useParams } from "next/navigation";
+import { signIn, signOut } from "next-auth/react";
 import useSWR from "swr";
-import type { GetSessionResponse } from "@/types/session";
-import { getOrCreateParticipantId } from "@/lib/participant-id";
-import { fetcher, getErrorMessage } from "@/lib/swr-utils";
+import type { GetSessionResponse, SessionAccessMode } from "@/types/session";
+import { joinSession } from "@/lib/participant-id";
+import {
+  fetcher,
+  getErrorMessage,
+  getRefreshInterval,
+} from "@/lib/swr-utils";
+import { useSessionStream } from "@/lib/use-session-stream";
 import QuestionSubmitForm from "@/components/participant/QuestionSubmitForm";
 import QuestionList from "@/components/participant/QuestionList";
+import PollList from "@/components/participant/PollList";
+import SessionHoldingPage from "@/components/participant/SessionHoldingPage";
+import SessionAccessGate from "@/components/participant/SessionAccessGate";
 
 export default function ParticipantSessionPage() {
   const params = useParams();
   const code = params?.code as string;
 
+  // Live updates - SWR polling slows down while the stream is connected
+  const { isConnected: isStreamConnected } = useSessionStream(code);
+
   // Fetch session data with SWR
   const {
     data: sessionResponse,
     error: sessionError,
     isLoading,
+    mutate: mutateSession,
   } = useSWR<GetSessionResponse>(
     code ? `/api/sessions/${code}` : null,
     fetcher,
     {
-      refreshInterval: 10000, // Poll every 10s to detect session status changes
+      // Poll every 10s to detect session status changes when the stream is down
+      refreshInterval: getRefreshInterval(isStreamConnected, 10000),
       revalidateOnFocus: true,
       dedupingInterval: 2000,
     }
@@ -30,8 +44,12 @@ export default function ParticipantSessionPage() {
 
   const sessionData = sessionResponse?.session;
 
+  // Restricted sessions refuse access with the access mode to satisfy
+  const accessDenial: { code: string; accessMode: SessionAccessMode } | null =
+    sessionError?.data?.accessMode ? sessionError.data : null;
+
   // Format error message with custom messages for session-specific errors
-  const error = sessionError
+  const error = sessionError && !accessDenial
     ? "status" in sessionError && sessionError.status === 404
       ? "Session not found. Please check the code."
       : "status" in sessionError && sessionError.status === 410
@@ -39,23 +57,56 @@ export default function ParticipantSessionPage() {
         : getErrorMessage(sessionError)
     : "";
 
+  // Tick every second while waiting for a scheduled start so the holding
+  // page counts down and opens the session on time
+  const startsAt = sessionData?.startsAt ?? null;
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (!startsAt) return;
+    const startTime = new Date(startsAt).getTime();
+    setNow(Date.now());
+    if (startTime <= Date.now()) return;
+
+    const timer = setInterval(() => {
+      const current = Date.now();
+      setNow(current);
+      if (current >= startTime) clearInterval(timer);
+    }, 1000);
+
+    return () => clearInterval(timer);
+  }, [startsAt]);
+
   // Name entry state
   const [participantName, setParticipantName] = useState("");
   const [hasEnteredName, setHasEnteredName] = useState(false);
   const [nameInput, setNameInput] = useState("");
 
-  // Participant ID
+  // Participant ID, issued by the server when joining
   const [participantId, setParticipantId] = useState<string | null>(null);
+  const [isLinked, setIsLinked] = useState(false);
+  const [joinError, setJoinError] = useState("");
 
   // Track question ID to scroll to after submission
   const [scrollToQuestionId, setScrollToQuestionId] = useState<string | null>(null);
 
-  // Initialize participant ID and check for stored name
+  // Join the session once it has loaded - restricted sessions only let
+  // participants join after the access check passes
+  const sessionId = sessionData?.id;
   useEffect(() => {
-    if (code) {
-      const id = getOrCreateParticipantId(code);
-      setParticipantId(id);
+    if (code && sessionId) {
+      joinSession(code)
+        .then((joined) => {
+          setParticipantId(joined.participantId);
+          setIsLinked(joined.isLinked);
+        })
+        .catch((err: Error) => setJoinError(err.message));
+    }
+  }, [code, sessionId]);
 
+  // Check for stored name
+  useEffect(() => {
+    if (code) {
       // Check if name is stored in localStorage
       const storedName = localStorage.getItem(`participant_name_${code}`);
       if (storedName) {
@@ -96,8 +147,20 @@ export default function ParticipantSessionPage() {
     );
   }
 
+  // Restricted session the participant isn't allowed into yet
+  if (accessDenial) {
+    return (
+      <SessionAccessGate
+        sessionCode={code}
+        accessMode={accessDenial.accessMode}
+        reason={accessDenial.code}
+        onAccessGranted={() => mutateSession()}
+      />
+    );
+  }
+
   // Error state
-  if (error) {
+  if (error || joinError) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-gray-50 px-4">
         <div className="max-w-md w-full bg-white rounded-lg shadow-md p-8 text-center">
@@ -105,7 +168,7 @@ export default function ParticipantSessionPage() {
           <h1 className="text-2xl font-bold text-gray-900 mb-2">
             Unable to Load Session
           </h1>
-          <p className="text-gray-600 mb-6">{error}</p>
+          <p className="text-gray-600 mb-6">{error || joinError}</p>
           <button
             onClick={() => window.location.reload()}
             className="px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-lg font-medium"
@@ -122,6 +185,18 @@ export default function ParticipantSessionPage() {
     return null;
   }
 
+  // Scheduled session that hasn't started yet
+  if (startsAt && new Date(startsAt).getTime() > now) {
+    return (
+      <SessionHoldingPage
+        title={sessionData.title}
+        description={sessionData.description}
+        startsAt={startsAt}
+        msRemaining={new Date(startsAt).getTime() - now}
+      />
+    );
+  }
+
   // Name entry flow
   if (!hasEnteredName) {
     return (
@@ -273,6 +348,19 @@ export default function ParticipantSessionPage() {
               ? "You are participating anonymously. Your questions will not show your name."
               : "Your name will appear on questions you submit (unless you choose to submit anonymously)."}
           </p>
+          <div className="border-t border-gray-200 mt-4 pt-4 flex items-center justify-between gap-3 flex-wrap">
+            <p className="text-sm text-gray-600">
+              {isLinked
+                ? "You're signed in - your questions and votes follow you to any device."
+                : "Sign in to keep your questions and votes when you switch devices."}
+            </p>
+            <button
+              onClick={() => (isLinked ? signOut() : signIn())}
+              className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors text-sm font-medium"
+            >
+              {isLinked ? "Sign Out" : "Sign In"}
+            </button>
+          </div>
         </div>
 
         {/* Question submission form */}
@@ -281,14 +369,30 @@ export default function ParticipantSessionPage() {
           participantId={participantId || ""}
           participantName={participantName}
           isAcceptingQuestions={isAcceptingQuestions}
+          requireApproval={sessionData.requireApproval}
           onQuestionSubmitted={(questionId) => setScrollToQuestionId(questionId)}
+          onSimilarQuestionSelected={(questionId) =>
+            setScrollToQuestionId(questionId)
+          }
         />
 
+        {/* Live polls */}
+        <div className="mt-6">
+          <PollList
+            sessionCode={code}
+            participantId={participantId || ""}
+            isStreamConnected={isStreamConnected}
+          />
+        </div>
+
         {/* Question list with voting */}
         <div className="mt-6">
           <QuestionList
             sessionCode={code}
             participantId={participantId || ""}
+            isStreamConnected={isStreamConnected}
+            allowReplies={isSessionActive && sessionData.allowReplies}
+            pulseScale={sessionData.pulseScale}
             scrollToQuestionId={scrollToQuestionId}
             onScrollComplete={() => setScrollToQuestionId(null)}
           />
@@ -0,0 +1,181 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useParams } from "next/navigation";
+import useSWR from "swr";
+import type { GetSessionResponse } from "@/types/session";
+import type { GetQuestionsResponse } from "@/types/question";
+import { getPresenterQueue } from "@/lib/question-utils";
+import { getSessionJoinUrl, getSessionQrCodePath } from "@/lib/session-links";
+import { fetcher, getErrorMessage, getRefreshInterval } from "@/lib/swr-utils";
+import { useSessionStream } from "@/lib/use-session-stream";
+
+// Number of upcoming questions that fit on a projected screen
+const UPCOMING_LIMIT = 5;
+
+/**
+ * Read-only presenter display for projecting a session on a big screen
+ *
+ * Shows how to join, the question being answered and the top-voted
+ * upcoming questions. Uses the public session and question endpoints, so
+ * it needs no sign-in and exposes nothing participants can't already see.
+ */
+export default function PresenterPage() {
+  const params = useParams();
+  const code = params?.code as string;
+
+  // Live updates - SWR polling slows down while the stream is connected
+  const { isConnected: isStreamConnected } = useSessionStream(code);
+
+  const { data: sessionResponse, error: sessionError } =
+    useSWR<GetSessionResponse>(code ? `/api/sessions/${code}` : null, fetcher, {
+      refreshInterval: getRefreshInterval(isStreamConnected, 10000),
+      dedupingInterval: 2000,
+    });
+
+  const { data: questionsResponse } = useSWR<GetQuestionsResponse>(
+    code ? `/api/sessions/${code}/questions` : null,
+    fetcher,
+    {
+      refreshInterval: getRefreshInterval(isStreamConnected, 5000),
+      dedupingInterval: 2000,
+    },
+  );
+
+  // Resolve the join link on the client so it matches the host serving the page
+  const [joinUrl, setJoinUrl] = useState("");
+  useEffect(() => {
+    if (code) {
+      setJoinUrl(getSessionJoinUrl(window.location.origin, code));
+    }
+  }, [code]);
+
+  const sessionData = sessionResponse?.session;
+  const { current, upcoming } = getPresenterQueue(
+    questionsResponse?.questions || [],
+    UPCOMING_LIMIT,
+  );
+
+  const error = sessionError
+    ? "status" in sessionError && sessionError.status === 404
+      ? "Session not found"
+      : "status" in sessionError && sessionError.status === 410
+        ? "This session has ended"
+        : getErrorMessage(sessionError)
+    : "";
+
+  if (error) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-950 text-white px-8">
+        <p className="text-4xl font-semibold text-gray-300">{error}</p>
+      </div>
+    );
+  }
+
+  if (!sessionData) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-950 text-white">
+        <div className="animate-spin rounded-full h-16 w-16 border-b-4 border-blue-400"></div>
+      </div>
+    );
+  }
+
+  const startsAt = sessionData.startsAt ? new Date(sessionData.startsAt) : null;
+
+  const statusMessage = !sessionData.isActive
+    ? "Session paused"
+    : startsAt && startsAt > new Date()
+      ? `Starts at ${startsAt.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}`
+      : !sessionData.isAcceptingQuestions
+        ? "Questions are closed"
+        : null;
+
+  return (
+    <div className="min-h-screen bg-gray-950 text-white flex flex-col">
+      {/* Header - title and how to join */}
+      <header className="flex items-center gap-8 px-12 py-8 border-b border-gray-800">
+        <div className="flex-1 min-w-0">
+          <h1 className="text-5xl font-bold truncate">{sessionData.title}</h1>
+          {statusMessage && (
+            <p className="mt-3 text-2xl text-yellow-300">{statusMessage}</p>
+          )}
+        </div>
+
+        <div className="text-right">
+          <p className="text-xl text-gray-400">Join at</p>
+          <p className="text-2xl font-medium break-all">{joinUrl}</p>
+          <p className="mt-2 text-xl text-gray-400">
+            Code{" "}
+            <span className="font-mono text-4xl font-bold text-white tracking-widest">
+              {sessionData.code}
+            </span>
+          </p>
+        </div>
+
+        {/* eslint-disable-next-line @next/next/no-img-element */}
+        <img
+          src={getSessionQrCodePath(code)}
+          alt="Scan to join"
+          className="w-40 h-40 bg-white p-2 rounded-lg"
+        />
+      </header>
+
+      <main className="flex-1 grid grid-cols-1 xl:grid-cols-3 gap-12 px-12 py-10">
+        {/* Question being answered */}
+        <section className="xl:col-span-2 flex flex-col">
+          <h2 className="text-2xl uppercase tracking-wide text-blue-300 mb-6">
+            Now answering
+          </h2>
+          {current ? (
+            <div className="flex-1 rounded-2xl bg-gray-900 border-4 border-blue-500 p-12">
+              <p className="text-6xl leading-tight font-semibold whitespace-pre-wrap break-words">
+                {current.content}
+              </p>
+              <p className="mt-8 text-3xl text-gray-400">
+                {current.isAnonymous || !current.authorName
+                  ? "Anonymous"
+                  : current.authorName}{" "}
+                · {current.voteCount}{" "}
+                {current.voteCount === 1 ? "vote" : "votes"}
+              </p>
+            </div>
+          ) : (
+            <div className="flex-1 flex items-center justify-center rounded-2xl border-4 border-dashed border-gray-800 p-12">
+              <p className="text-4xl text-gray-500">
+                Waiting for the next question
+              </p>
+            </div>
+          )}
+        </section>
+
+        {/* Top-voted upcoming questions */}
+        <section>
+          <h2 className="text-2xl uppercase tracking-wide text-gray-400 mb-6">
+            Up next
+          </h2>
+          {upcoming.length === 0 ? (
+            <p className="text-2xl text-gray-500">
+              No questions yet - scan the code to ask one
+            </p>
+          ) : (
+            <ol className="space-y-4">
+              {upcoming.map((question) => (
+                <li
+                  key={question.id}
+                  className="flex gap-5 items-start rounded-xl bg-gray-900 p-5"
+                >
+                  <span className="min-w-[4rem] text-center text-3xl font-bold text-blue-300">
+                    {question.voteCount}
+                  </span>
+                  <p className="text-2xl leading-snug line-clamp-3 break-words">
+                    {question.content}
+                  </p>
+                </li>
+              ))}
+            </ol>
+          )}
+        </section>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,363 @@
+"use client";
+
+import { useSession, signIn } from "next-auth/react";
+import { useState } from "react";
+import Link from "next/link";
+import useSWR from "swr";
+import type {
+  ListSessionsResponse,
+  SessionListStatus,
+  SessionSummary,
+} from "@/types/session";
+import type { ExportFormat } from "@/types/export";
+import { fetcher } from "@/lib/swr-utils";
+import { hasSessionPermission, SESSION_ROLE_LABELS } from "@/lib/session-roles";
+
+const PAGE_SIZE = 20;
+
+const STATUS_TABS: Array<{ status: SessionListStatus; label: string }> = [
+  { status: "all", label: "All" },
+  { status: "active", label: "Active" },
+  { status: "expired", label: "Expired" },
+];
+
+const EXPORT_LINKS: Array<{ format: ExportFormat; label: string }> = [
+  { format: "csv", label: "CSV" },
+  { format: "json", label: "JSON" },
+  { format: "markdown", label: "Markdown" },
+];
+
+function getSessionBadge(session: SessionSummary): {
+  label: string;
+  color: string;
+  backgroundColor: string;
+} {
+  if (new Date(session.expiresAt) <= new Date()) {
+    return { label: "Expired", color: "#6b7280", backgroundColor: "#f3f4f6" };
+  }
+  if (!session.isActive) {
+    return { label: "Ended", color: "#b45309", backgroundColor: "#fef3c7" };
+  }
+  if (session.startsAt && new Date(session.startsAt) > new Date()) {
+    return { label: "Scheduled", color: "#1d4ed8", backgroundColor: "#dbeafe" };
+  }
+  return { label: "Active", color: "#15803d", backgroundColor: "#dcfce7" };
+}
+
+export default function MySessionsPage() {
+  const { status } = useSession();
+  const [statusFilter, setStatusFilter] = useState<SessionListStatus>("all");
+  const [page, setPage] = useState(1);
+
+  // Redirect to sign in if not authenticated
+  if (status === "unauthenticated") {
+    signIn();
+  }
+
+  const { data, error, isLoading } = useSWR<ListSessionsResponse>(
+    status === "authenticated"
+      ? `/api/sessions?status=${statusFilter}&page=${page}&pageSize=${PAGE_SIZE}`
+      : null,
+    fetcher,
+    {
+      revalidateOnFocus: true,
+      keepPreviousData: true,
+    },
+  );
+
+  const [savedTemplateCode, setSavedTemplateCode] = useState<string | null>(
+    null,
+  );
+
+  // Save a session's title, description and settings for reuse
+  const handleSaveTemplate = async (session: SessionSummary) => {
+    const name = window.prompt("Template name", session.title);
+    if (name === null) return;
+
+    const response = await fetch("/api/templates", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ sessionCode: session.code, name }),
+    });
+
+    if (!response.ok) {
+      const body = await response.json().catch(() => ({}));
+      window.alert(body.message || "Failed to save template");
+      return;
+    }
+
+    setSavedTemplateCode(session.code);
+  };
+
+  const handleFilterChange = (nextStatus: SessionListStatus) => {
+    setStatusFilter(nextStatus);
+    setPage(1);
+  };
+
+  if (status === "loading" || status === "unauthenticated") {
+    return (
+      <div
+        style={{
+          display: "flex",
+          justifyContent: "center",
+          alignItems: "center",
+          minHeight: "100vh",
+          fontFamily: "system-ui, sans-serif",
+          color: "#666",
+        }}
+      >
+        Loading...
+      </div>
+    );
+  }
+
+  const sessions = data?.sessions || [];
+  const pagination = data?.pagination;
+
+  return (
+    <main
+      style={{
+        padding: "2rem",
+        fontFamily: "system-ui, sans-serif",
+        maxWidth: "1000px",
+        margin: "0 auto",
+      }}
+    >
+      <div
+        style={{
+          display: "flex",
+          justifyContent: "space-between",
+          alignItems: "center",
+          marginBottom: "1.5rem",
+        }}
+      >
+        <h1 style={{ fontSize: "2rem", color: "#333", margin: 0 }}>
+          My Sessions
+        </h1>
+        <Link
+          href="/create"
+          style={{
+            padding: "0.5rem 1.25rem",
+            backgroundColor: "#0070f3",
+            color: "white",
+            borderRadius: "6px",
+            textDecoration: "none",
+            fontSize: "0.95rem",
+          }}
+        >
+          Create Session
+        </Link>
+      </div>
+
+      {/* Status filter */}
+      <div style={{ display: "flex", gap: "0.5rem", marginBottom: "1.5rem" }}>
+        {STATUS_TABS.map((tab) => (
+          <button
+            key={tab.status}
+            onClick={() => handleFilterChange(tab.status)}
+            style={{
+              padding: "0.4rem 1rem",
+              fontSize: "0.9rem",
+              borderRadius: "999px",
+              border: "1px solid #d1d5db",
+              cursor: "pointer",
+              backgroundColor:
+                statusFilter === tab.status ? "#0070f3" : "white",
+              color: statusFilter === tab.status ? "white" : "#374151",
+            }}
+          >
+            {tab.label}
+          </button>
+        ))}
+      </div>
+
+      {error ? (
+        <div
+          style={{
+            backgroundColor: "#fef2f2",
+            border: "1px solid #fecaca",
+            color: "#dc2626",
+            padding: "1rem",
+            borderRadius: "8px",
+          }}
+        >
+          {error.message || "Failed to load sessions"}
+        </div>
+      ) : isLoading && !data ? (
+        <div style={{ color: "#666" }}>Loading sessions...</div>
+      ) : sessions.length === 0 ? (
+        <div
+          style={{
+            padding: "2rem",
+            textAlign: "center",
+            color: "#666",
+            backgroundColor: "#f8f9fa",
+            border: "1px solid #e9ecef",
+            borderRadius: "8px",
+          }}
+        >
+          {statusFilter === "all"
+            ? "You haven't created or been invited to any sessions yet."
+            : `No ${statusFilter} sessions.`}
+        </div>
+      ) : (
+        <div
+          style={{
+            border: "1px solid #e5e7eb",
+            borderRadius: "8px",
+            overflow: "hidden",
+          }}
+        >
+          <table style={{ width: "100%", borderCollapse: "collapse" }}>
+            <thead>
+              <tr style={{ backgroundColor: "#f9fafb", textAlign: "left" }}>
+                <th style={{ padding: "0.75rem 1rem" }}>Title</th>
+                <th style={{ padding: "0.75rem 1rem" }}>Code</th>
+                <th style={{ padding: "0.75rem 1rem" }}>Questions</th>
+                <th style={{ padding: "0.75rem 1rem" }}>Expires</th>
+                <th style={{ padding: "0.75rem 1rem" }}>Links</th>
+              </tr>
+            </thead>
+            <tbody>
+              {sessions.map((session) => {
+                const badge = getSessionBadge(session);
+                return (
+                  <tr
+                    key={session.id}
+                    style={{ borderTop: "1px solid #e5e7eb" }}
+                  >
+                    <td style={{ padding: "0.75rem 1rem" }}>
+                      <div style={{ fontWeight: 500, color: "#111827" }}>
+                        {session.title}
+                      </div>
+                      <span
+                        style={{
+                          display: "inline-block",
+                          marginTop: "0.25rem",
+                          padding: "0.1rem 0.5rem",
+                          fontSize: "0.75rem",
+                          borderRadius: "999px",
+                          color: badge.color,
+                          backgroundColor: badge.backgroundColor,
+                        }}
+                      >
+                        {badge.label}
+                      </span>
+                      {session.role !== "owner" && (
+                        <span
+                          style={{
+                            marginLeft: "0.5rem",
+                            fontSize: "0.75rem",
+                            color: "#6b7280",
+                          }}
+                        >
+                          {SESSION_ROLE_LABELS[session.role]}
+                        </span>
+                      )}
+                    </td>
+                    <td
+                      style={{
+                        padding: "0.75rem 1rem",
+                        fontFamily: "monospace",
+                        letterSpacing: "0.1em",
+                      }}
+                    >
+                      {session.code}
+                    </td>
+                    <td style={{ padding: "0.75rem 1rem" }}>
+                      {session.questionCount}
+                    </td>
+                    <td style={{ padding: "0.75rem 1rem", color: "#4b5563" }}>
+                      {new Date(session.expiresAt).toLocaleString()}
+                    </td>
+                    <td style={{ padding: "0.75rem 1rem", fontSize: "0.9rem" }}>
+                      <Link
+                        href={`/session/${session.code}/host`}
+                        style={{ color: "#0070f3", marginRight: "0.75rem" }}
+                      >
+                        Host view
+                      </Link>
+                      {hasSessionPermission(session.role, "export_session") &&
+                        EXPORT_LINKS.map((option) => (
+                          <a
+                            key={option.format}
+                            href={`/api/sessions/${session.code}/export?format=${option.format}`}
+                            style={{ color: "#6b7280", marginRight: "0.5rem" }}
+                          >
+                            {option.label}
+                          </a>
+                        ))}
+                      {hasSessionPermission(session.role, "manage_session") &&
+                        (savedTemplateCode === session.code ? (
+                          <span style={{ color: "#15803d" }}>
+                            Saved as template
+                          </span>
+                        ) : (
+                          <button
+                            onClick={() => handleSaveTemplate(session)}
+                            style={{
+                              padding: 0,
+                              border: "none",
+                              background: "none",
+                              color: "#6b7280",
+                              fontSize: "0.9rem",
+                              cursor: "pointer",
+                            }}
+                          >
+                            Save as template
+                          </button>
+                        ))}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* Pagination */}
+      {pagination && pagination.totalPages > 1 && (
+        <div
+          style={{
+            display: "flex",
+            justifyContent: "center",
+            alignItems: "center",
+            gap: "1rem",
+            marginTop: "1.5rem",
+          }}
+        >
+          <button
+            onClick={() => setPage((current) => current - 1)}
+            disabled={page <= 1}
+            style={{
+              padding: "0.4rem 1rem",
+              border: "1px solid #d1d5db",
+              borderRadius: "6px",
+              backgroundColor: "white",
+              cursor: page <= 1 ? "not-allowed" : "pointer",
+            }}
+          >
+            Previous
+          </button>
+          <span style={{ color: "#4b5563", fontSize: "0.9rem" }}>
+            Page {pagination.page} of {pagination.totalPages}
+          </span>
+          <button
+            onClick={() => setPage((current) => current + 1)}
+            disabled={page >= pagination.totalPages}
+            style={{
+              padding: "0.4rem 1rem",
+              border: "1px solid #d1d5db",
+              borderRadius: "6px",
+              backgroundColor: "white",
+              cursor: page >= pagination.totalPages ? "not-allowed" : "pointer",
+            }}
+          >
+            Next
+          </button>
+        </div>
+      )}
+    </main>
+  );
+}
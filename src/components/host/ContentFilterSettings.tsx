@@ -0,0 +1,245 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import useSWR from "swr";
+import type {
+  ContentFilterAction,
+  ContentFilterConfig,
+  ContentFilterResponse,
+} from "@/types/content-filter";
+import { fetcher, getErrorMessage } from "@/lib/swr-utils";
+import {
+  CONTENT_FILTER_ACTIONS,
+  CONTENT_FILTER_ACTION_LABELS,
+  DEFAULT_CONTENT_FILTER,
+} from "@/lib/content-filter";
+
+interface ContentFilterSettingsProps {
+  sessionCode: string;
+  /** Disable editing (expired session or no manage permission) */
+  disabled?: boolean;
+}
+
+const toLines = (values: string[]) => values.join("\n");
+const fromLines = (text: string) =>
+  text
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean);
+
+const CHECKBOXES: Array<{
+  field: "profanity" | "blockLinks" | "blockPii";
+  label: string;
+}> = [
+  { field: "profanity", label: "Profanity (built-in word list)" },
+  { field: "blockLinks", label: "Links and web addresses" },
+  { field: "blockPii", label: "Email addresses and phone numbers" },
+];
+
+export default function ContentFilterSettings({
+  sessionCode,
+  disabled = false,
+}: ContentFilterSettingsProps) {
+  const filterKey = `/api/sessions/${sessionCode}/content-filter`;
+  const { data, error, isLoading, mutate } = useSWR<ContentFilterResponse>(
+    filterKey,
+    fetcher,
+  );
+
+  const [enabled, setEnabled] = useState(false);
+  const [draft, setDraft] = useState<ContentFilterConfig>(
+    DEFAULT_CONTENT_FILTER,
+  );
+  const [blockedWords, setBlockedWords] = useState("");
+  const [blockedPatterns, setBlockedPatterns] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  // Load the saved config into the form
+  useEffect(() => {
+    if (!data) return;
+    const config = data.contentFilter ?? DEFAULT_CONTENT_FILTER;
+    setEnabled(data.contentFilter !== null);
+    setDraft(config);
+    setBlockedWords(toLines(config.blockedWords));
+    setBlockedPatterns(toLines(config.blockedPatterns));
+  }, [data]);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    setSaveError(null);
+    setSaved(false);
+
+    const contentFilter: ContentFilterConfig | null = enabled
+      ? {
+          ...draft,
+          blockedWords: fromLines(blockedWords),
+          blockedPatterns: fromLines(blockedPatterns),
+        }
+      : null;
+
+    try {
+      const response = await fetch(filterKey, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ contentFilter }),
+      });
+      const body = await response.json().catch(() => ({}));
+
+      if (!response.ok) {
+        const errors = body.errors
+          ? Object.values(body.errors as Record<string, string>)
+          : [];
+        setSaveError(
+          errors[0] || body.message || "Failed to save content filter",
+        );
+        return;
+      }
+
+      setSaved(true);
+      await mutate(body as ContentFilterResponse, { revalidate: false });
+    } catch {
+      setSaveError("Network error. Please try again.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (isLoading) {
+    return <p className="text-sm text-gray-600">Loading content filter...</p>;
+  }
+
+  if (error) {
+    return <p className="text-sm text-red-700">{getErrorMessage(error)}</p>;
+  }
+
+  const fieldsDisabled = disabled || !enabled;
+
+  return (
+    <form onSubmit={handleSave} className="space-y-4">
+      <label className="flex items-center justify-between gap-4 cursor-pointer">
+        <div>
+          <div className="font-bold text-gray-800">Filter question content</div>
+          <div className="text-sm text-gray-600">
+            Check new questions for blocked words, links and personal details
+          </div>
+        </div>
+        <input
+          type="checkbox"
+          checked={enabled}
+          onChange={(e) => setEnabled(e.target.checked)}
+          disabled={disabled}
+          className="w-5 h-5"
+        />
+      </label>
+
+      <div>
+        <label
+          htmlFor="contentFilterAction"
+          className="block text-sm font-medium text-gray-700 mb-1"
+        >
+          When a question matches
+        </label>
+        <select
+          id="contentFilterAction"
+          value={draft.action}
+          onChange={(e) =>
+            setDraft({
+              ...draft,
+              action: e.target.value as ContentFilterAction,
+            })
+          }
+          disabled={fieldsDisabled}
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg disabled:bg-gray-100"
+        >
+          {CONTENT_FILTER_ACTIONS.map((action) => (
+            <option key={action} value={action}>
+              {CONTENT_FILTER_ACTION_LABELS[action]}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <fieldset className="space-y-2">
+        <legend className="text-sm font-medium text-gray-700 mb-1">
+          Block
+        </legend>
+        {CHECKBOXES.map(({ field, label }) => (
+          <label
+            key={field}
+            className="flex items-center gap-2 text-sm text-gray-800"
+          >
+            <input
+              type="checkbox"
+              checked={draft[field]}
+              onChange={(e) =>
+                setDraft({ ...draft, [field]: e.target.checked })
+              }
+              disabled={fieldsDisabled}
+            />
+            {label}
+          </label>
+        ))}
+      </fieldset>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div>
+          <label
+            htmlFor="blockedWords"
+            className="block text-sm font-medium text-gray-700 mb-1"
+          >
+            Blocked words (one per line)
+          </label>
+          <textarea
+            id="blockedWords"
+            value={blockedWords}
+            onChange={(e) => setBlockedWords(e.target.value)}
+            disabled={fieldsDisabled}
+            rows={4}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm disabled:bg-gray-100"
+          />
+        </div>
+        <div>
+          <label
+            htmlFor="blockedPatterns"
+            className="block text-sm font-medium text-gray-700 mb-1"
+          >
+            Blocked patterns (one per line; * matches any characters in a word,
+            ? a single character)
+          </label>
+          <textarea
+            id="blockedPatterns"
+            value={blockedPatterns}
+            onChange={(e) => setBlockedPatterns(e.target.value)}
+            disabled={fieldsDisabled}
+            rows={4}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg font-mono text-sm disabled:bg-gray-100"
+          />
+          <p className="mt-1 text-xs text-gray-500">
+            Patterns are wildcards, not regular expressions, so a pattern can
+            never slow down question submission for everyone else.
+          </p>
+        </div>
+      </div>
+
+      {saveError && (
+        <div className="bg-red-50 border-2 border-red-200 rounded-lg p-3 text-red-800 text-sm">
+          {saveError}
+        </div>
+      )}
+
+      <div className="flex items-center gap-3">
+        <button
+          type="submit"
+          disabled={disabled || isSaving}
+          className="px-4 py-2 rounded-lg text-sm font-medium bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isSaving ? "Saving..." : "Save Content Filter"}
+        </button>
+        {saved && <span className="text-sm text-green-700">Saved</span>}
+      </div>
+    </form>
+  );
+}
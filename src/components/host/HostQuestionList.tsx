@@ -1,21 +1,82 @@
 "use client";
 
-import { useState } from "react";
+import { useMemo, useState } from "react";
 import { motion, AnimatePresence } from "framer-motion";
-import type { HostQuestionResponse } from "@/types/question";
-import { QUESTION_STATUS_LABELS, PULSE_CHECK_EMOJIS } from "@/types/question";
+import type {
+  HostQuestionResponse,
+  HostQuestionStatus,
+} from "@/types/question";
+import {
+  QUESTION_STATUS_LABELS,
+  MAX_QUESTION_SPLIT_PARTS,
+} from "@/types/question";
+import { REPLY_VALIDATION } from "@/types/question-reply";
 import { sortQuestions } from "@/lib/question-utils";
+import { findSimilarQuestions } from "@/lib/question-duplicates";
+import QuestionTimeline from "@/components/host/QuestionTimeline";
 
 interface HostQuestionListProps {
   questions: HostQuestionResponse[];
-  onStatusUpdate: (questionId: string, newStatus: "being_answered" | "answered") => Promise<void>;
+  onStatusUpdate: (questionId: string, newStatus: HostQuestionStatus) => Promise<void>;
+  /** Show the answer buttons - moderators can only approve and dismiss */
+  canAnswer?: boolean;
+  /** Merge duplicates into a surviving question; rejects with a message on failure */
+  onMerge?: (targetId: string, duplicateIds: string[]) => Promise<void>;
+  /** Replace a question's text; rejects with a message on failure */
+  onEdit?: (questionId: string, content: string) => Promise<void>;
+  /** Split a question into separate parts; rejects with a message on failure */
+  onSplit?: (questionId: string, parts: string[]) => Promise<void>;
+  /** Post a written answer; rejects with a message on failure */
+  onAnswer?: (questionId: string, content: string) => Promise<void>;
+  /** Remove a reply from the thread; rejects with a message on failure */
+  onDeleteReply?: (questionId: string, replyId: string) => Promise<void>;
 }
 
 export default function HostQuestionList({
   questions,
   onStatusUpdate,
+  canAnswer = true,
+  onMerge,
+  onEdit,
+  onSplit,
+  onAnswer,
+  onDeleteReply,
 }: HostQuestionListProps) {
   const [error, setError] = useState<string | null>(null);
+  const [mergingId, setMergingId] = useState<string | null>(null);
+  const [mergeTargetId, setMergeTargetId] = useState("");
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [keepId, setKeepId] = useState("");
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editDraft, setEditDraft] = useState("");
+  const [splittingId, setSplittingId] = useState<string | null>(null);
+  const [splitParts, setSplitParts] = useState<string[]>([]);
+  const [answeringId, setAnsweringId] = useState<string | null>(null);
+  const [answerDraft, setAnswerDraft] = useState("");
+  const [historyId, setHistoryId] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Questions that can still take part in a merge, and likely duplicates of each
+  const openQuestions = useMemo(
+    () => questions.filter((q) => q.status !== "dismissed" && !q.mergedIntoId),
+    [questions],
+  );
+  const similarById = useMemo(() => {
+    const similar = new Map<string, Set<string>>();
+    for (const question of openQuestions) {
+      const others = openQuestions.filter((q) => q.id !== question.id);
+      const matches = findSimilarQuestions(question.content, others, {
+        limit: others.length,
+      });
+      similar.set(question.id, new Set(matches.map((q) => q.id)));
+    }
+    return similar;
+  }, [openQuestions]);
+
+  // Drop selections that were merged or dismissed elsewhere
+  const selectedQuestions = openQuestions.filter((q) =>
+    selectedIds.includes(q.id),
+  );
 
   // Empty state
   if (questions.length === 0) {
@@ -72,6 +133,150 @@ export default function HostQuestionList({
   // Sort questions: being_answered at top, then by votes, then by creation time
   const sortedQuestions = sortQuestions(questions);
 
+  // Only one merge, edit, split, answer or history panel is open at a time
+  const closePanels = () => {
+    setError(null);
+    setMergingId(null);
+    setEditingId(null);
+    setSplittingId(null);
+    setAnsweringId(null);
+    setHistoryId(null);
+  };
+
+  const startHistory = (questionId: string) => {
+    closePanels();
+    setHistoryId(questionId);
+  };
+
+  // Run a host action, keeping its panel open with the error if it fails
+  const runAction = async (
+    action: () => Promise<void>,
+    fallbackMessage: string,
+  ): Promise<boolean> => {
+    setIsSaving(true);
+    try {
+      await action();
+      return true;
+    } catch (actionError) {
+      setError(
+        actionError instanceof Error ? actionError.message : fallbackMessage,
+      );
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const startMerge = (questionId: string) => {
+    closePanels();
+    setMergingId(questionId);
+    // Preselect the most likely duplicate
+    const [firstSimilar] = similarById.get(questionId) ?? [];
+    setMergeTargetId(firstSimilar ?? "");
+  };
+
+  const handleMerge = async (duplicateId: string) => {
+    if (!onMerge || !mergeTargetId) return;
+
+    const merged = await runAction(
+      () => onMerge(mergeTargetId, [duplicateId]),
+      "Failed to merge questions",
+    );
+    if (merged) setMergingId(null);
+  };
+
+  const toggleSelected = (questionId: string) => {
+    setSelectedIds((current) =>
+      current.includes(questionId)
+        ? current.filter((id) => id !== questionId)
+        : [...current, questionId],
+    );
+  };
+
+  const handleMergeSelected = async () => {
+    if (!onMerge || selectedQuestions.length < 2) return;
+
+    // Keep the chosen question, or the most voted one by default
+    const survivor =
+      selectedQuestions.find((q) => q.id === keepId) ??
+      sortQuestions(selectedQuestions)[0];
+    const duplicateIds = selectedQuestions
+      .filter((q) => q.id !== survivor.id)
+      .map((q) => q.id);
+
+    setError(null);
+    const merged = await runAction(
+      () => onMerge(survivor.id, duplicateIds),
+      "Failed to merge questions",
+    );
+    if (merged) {
+      setSelectedIds([]);
+      setKeepId("");
+    }
+  };
+
+  const startEdit = (question: HostQuestionResponse) => {
+    closePanels();
+    setEditingId(question.id);
+    setEditDraft(question.content);
+  };
+
+  const handleEdit = async (questionId: string) => {
+    if (!onEdit) return;
+
+    const saved = await runAction(
+      () => onEdit(questionId, editDraft.trim()),
+      "Failed to edit question",
+    );
+    if (saved) setEditingId(null);
+  };
+
+  const startSplit = (question: HostQuestionResponse) => {
+    closePanels();
+    setSplittingId(question.id);
+    setSplitParts([question.content, ""]);
+  };
+
+  const handleSplit = async (questionId: string) => {
+    if (!onSplit) return;
+
+    const saved = await runAction(
+      () =>
+        onSplit(
+          questionId,
+          splitParts.map((part) => part.trim()),
+        ),
+      "Failed to split question",
+    );
+    if (saved) setSplittingId(null);
+  };
+
+  const startAnswer = (questionId: string) => {
+    closePanels();
+    setAnsweringId(questionId);
+    setAnswerDraft("");
+  };
+
+  const handleAnswer = async (questionId: string) => {
+    if (!onAnswer) return;
+
+    const saved = await runAction(
+      () => onAnswer(questionId, answerDraft.trim()),
+      "Failed to post answer",
+    );
+    if (saved) setAnsweringId(null);
+  };
+
+  const handleDeleteReply = async (questionId: string, replyId: string) => {
+    if (!onDeleteReply) return;
+
+    setError(null);
+    await runAction(
+      () => onDeleteReply(questionId, replyId),
+      "Failed to remove reply",
+    );
+  };
+
   return (
     <div className="w-full max-w-4xl mx-auto space-y-4">
       <div className="mb-4">
@@ -89,9 +294,69 @@ export default function HostQuestionList({
         </div>
       )}
 
+      {/* Bulk merge toolbar */}
+      {onMerge && selectedQuestions.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 p-3 rounded-lg bg-amber-50 border-2 border-amber-200">
+          <span className="text-sm text-amber-900 font-medium">
+            {selectedQuestions.length} selected
+          </span>
+          {selectedQuestions.length > 1 && (
+            <>
+              <label
+                htmlFor="merge-keep"
+                className="text-sm text-amber-900 ml-2"
+              >
+                Keep:
+              </label>
+              <select
+                id="merge-keep"
+                value={keepId}
+                onChange={(e) => setKeepId(e.target.value)}
+                className="flex-1 min-w-0 px-2 py-1.5 border border-gray-300 rounded text-sm"
+              >
+                <option value="">Most voted</option>
+                {selectedQuestions.map((candidate) => (
+                  <option key={candidate.id} value={candidate.id}>
+                    {candidate.content.length > 80
+                      ? `${candidate.content.slice(0, 79)}…`
+                      : candidate.content}
+                  </option>
+                ))}
+              </select>
+              <button
+                onClick={handleMergeSelected}
+                disabled={isSaving}
+                className="px-3 py-1.5 rounded text-sm font-medium bg-amber-600 text-white hover:bg-amber-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Merge {selectedQuestions.length} questions
+              </button>
+            </>
+          )}
+          <button
+            onClick={() => {
+              setSelectedIds([]);
+              setKeepId("");
+            }}
+            className="px-3 py-1.5 rounded text-sm font-medium bg-white text-gray-700 hover:bg-gray-100 border border-gray-200 ml-auto"
+          >
+            Clear
+          </button>
+        </div>
+      )}
+
       <AnimatePresence initial={false}>
         {sortedQuestions.map((question) => {
           const isBeingAnswered = question.status === "being_answered";
+          const isOpen =
+            question.status !== "dismissed" && !question.mergedIntoId;
+          const similarIds = similarById.get(question.id);
+          const mergeCandidates = openQuestions
+            .filter((q) => q.id !== question.id)
+            .sort(
+              (a, b) =>
+                Number(similarIds?.has(b.id) ?? false) -
+                Number(similarIds?.has(a.id) ?? false),
+            );
           const authorDisplay = question.isAnonymous
             ? "Anonymous"
             : question.authorName || "Anonymous";
@@ -137,6 +402,15 @@ export default function HostQuestionList({
               <div className="flex-1 min-w-0">
                 {/* Header: Author, status, timestamp */}
                 <div className="flex items-center gap-2 flex-wrap mb-2">
+                  {onMerge && isOpen && (
+                    <input
+                      type="checkbox"
+                      checked={selectedIds.includes(question.id)}
+                      onChange={() => toggleSelected(question.id)}
+                      aria-label="Select for merging"
+                      className="h-4 w-4"
+                    />
+                  )}
                   <span className="text-sm font-medium text-gray-700">
                     {authorDisplay}
                   </span>
@@ -148,7 +422,26 @@ export default function HostQuestionList({
                     <span
                       className={`px-2 py-1 rounded text-xs font-medium ${getStatusBadgeClass(question.status)}`}
                     >
-                      {QUESTION_STATUS_LABELS[question.status]}
+                      {question.mergedIntoId
+                        ? "Merged"
+                        : QUESTION_STATUS_LABELS[question.status]}
+                    </span>
+                  )}
+                  {question.editedByHost && (
+                    <span
+                      className="px-2 py-1 rounded text-xs font-medium bg-gray-100 text-gray-700"
+                      title={
+                        question.originalContent
+                          ? `Original: ${question.originalContent}`
+                          : undefined
+                      }
+                    >
+                      Edited
+                    </span>
+                  )}
+                  {similarIds && similarIds.size > 0 && (
+                    <span className="px-2 py-1 rounded text-xs font-medium bg-amber-100 text-amber-800">
+                      Possible duplicate
                     </span>
                   )}
                   <span className="text-xs text-gray-500 ml-auto">
@@ -157,13 +450,83 @@ export default function HostQuestionList({
                 </div>
 
                 {/* Question text */}
-                <p className="text-gray-900 text-base leading-relaxed break-words">
-                  {question.content}
-                </p>
+                {editingId === question.id ? (
+                  <div className="space-y-2">
+                    <textarea
+                      value={editDraft}
+                      onChange={(e) => setEditDraft(e.target.value)}
+                      rows={3}
+                      aria-label="Question text"
+                      className="w-full px-3 py-2 border border-gray-300 rounded text-base"
+                    />
+                    {question.originalContent && (
+                      <p className="text-xs text-gray-500 break-words">
+                        Original: {question.originalContent}
+                      </p>
+                    )}
+                    <div className="flex gap-2">
+                      <button
+                        onClick={() => handleEdit(question.id)}
+                        disabled={isSaving || editDraft.trim().length === 0}
+                        className="px-3 py-1.5 rounded text-sm font-medium bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        Save
+                      </button>
+                      <button
+                        onClick={closePanels}
+                        className="px-3 py-1.5 rounded text-sm font-medium bg-white text-gray-700 hover:bg-gray-100 border border-gray-200"
+                      >
+                        Cancel
+                      </button>
+                    </div>
+                  </div>
+                ) : (
+                  <p className="text-gray-900 text-base leading-relaxed break-words">
+                    {question.content}
+                  </p>
+                )}
+
+                {/* Answers and replies */}
+                {question.replies && question.replies.length > 0 && (
+                  <ul className="mt-3 space-y-2">
+                    {question.replies.map((reply) => (
+                      <li
+                        key={reply.id}
+                        className={`flex items-start gap-2 rounded-lg p-3 text-sm ${
+                          reply.authorType === "host"
+                            ? "bg-green-50 border border-green-200"
+                            : "bg-gray-50 border border-gray-200"
+                        }`}
+                      >
+                        <div className="flex-1 min-w-0">
+                          <span className="font-medium text-gray-700">
+                            {reply.authorType === "host" ? "Answer from " : ""}
+                            {reply.authorName || "Anonymous"}
+                          </span>
+                          <p className="text-gray-900 mt-1 break-words">
+                            {reply.content}
+                          </p>
+                        </div>
+                        {onDeleteReply && (
+                          <button
+                            onClick={() =>
+                              handleDeleteReply(question.id, reply.id)
+                            }
+                            disabled={isSaving}
+                            aria-label="Remove reply"
+                            className="px-2 py-1 rounded text-sm text-gray-500 hover:text-red-700 disabled:opacity-50"
+                          >
+                            ✕
+                          </button>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                )}
 
                 {/* Pulse check stats - always reserve space to prevent height changes */}
                 <div className="mt-3 h-[52px]">
-                  {question.status === "answered" && question.pulseCheckStats ? (
+                  {question.status === "answered" && question.pulseSummary ? (
                     <motion.div
                       initial={{ opacity: 0 }}
                       animate={{ opacity: 1 }}
@@ -171,31 +534,24 @@ export default function HostQuestionList({
                       className="flex items-center gap-3 text-sm bg-gray-50 rounded-lg p-3 h-full"
                     >
                       <span className="text-gray-600 font-medium">Feedback:</span>
-                      <span className="flex items-center gap-1">
-                        {PULSE_CHECK_EMOJIS.helpful}{" "}
-                        <span className="font-medium">
-                          {question.pulseCheckStats.helpful}
+                      {[...question.pulseSummary.points].reverse().map((point) => (
+                        <span
+                          key={point.score}
+                          className="flex items-center gap-1"
+                          title={point.label}
+                        >
+                          {point.emoji || point.label}{" "}
+                          <span className="font-medium">{point.count}</span>
                         </span>
-                      </span>
-                      <span className="flex items-center gap-1">
-                        {PULSE_CHECK_EMOJIS.neutral}{" "}
-                        <span className="font-medium">
-                          {question.pulseCheckStats.neutral}
-                        </span>
-                      </span>
-                      <span className="flex items-center gap-1">
-                        {PULSE_CHECK_EMOJIS.not_helpful}{" "}
-                        <span className="font-medium">
-                          {question.pulseCheckStats.not_helpful}
-                        </span>
-                      </span>
-                      {question.pulseCheckStats.helpful +
-                        question.pulseCheckStats.neutral +
-                        question.pulseCheckStats.not_helpful ===
-                        0 && (
+                      ))}
+                      {question.pulseSummary.responses === 0 ? (
                         <span className="text-gray-500 italic ml-2">
                           No feedback yet
                         </span>
+                      ) : (
+                        <span className="text-gray-500 ml-auto">
+                          {question.pulseSummary.helpfulness}% helpful
+                        </span>
                       )}
                     </motion.div>
                   ) : (
@@ -203,38 +559,281 @@ export default function HostQuestionList({
                   )}
                 </div>
 
+                {/* Pulse check comments, visible to the host team only */}
+                {question.status === "answered" &&
+                  question.pulseComments &&
+                  question.pulseComments.length > 0 && (
+                    <ul className="mt-2 space-y-1">
+                      {question.pulseComments.map((pulseComment, index) => {
+                        const point =
+                          question.pulseSummary?.points[pulseComment.score - 1];
+                        return (
+                          <li
+                            key={`${pulseComment.createdAt}-${index}`}
+                            className="text-sm text-gray-700 bg-gray-50 rounded px-3 py-1.5 break-words"
+                          >
+                            {point && (
+                              <span className="mr-1" title={point.label}>
+                                {point.emoji || `${point.label}:`}
+                              </span>
+                            )}
+                            {pulseComment.comment}
+                          </li>
+                        );
+                      })}
+                    </ul>
+                  )}
+
                 {/* Action buttons */}
-                <div className="flex items-center gap-2 mt-4 pt-4 border-t border-gray-200">
-                  <span className="text-sm text-gray-600 font-medium mr-2">
-                    Mark as:
-                  </span>
-                  <button
-                    onClick={() => {
-                      setError(null);
-                      onStatusUpdate(question.id, "being_answered");
-                    }}
-                    className={`px-3 py-1.5 rounded text-sm font-medium transition-colors ${
-                      question.status === "being_answered"
-                        ? "bg-blue-100 text-blue-800"
-                        : "bg-blue-50 text-blue-700 hover:bg-blue-100 border border-blue-200"
-                    }`}
-                  >
-                    Being Answered
-                  </button>
-                  <button
-                    onClick={() => {
-                      setError(null);
-                      onStatusUpdate(question.id, "answered");
-                    }}
-                    className={`px-3 py-1.5 rounded text-sm font-medium transition-colors ${
-                      question.status === "answered"
-                        ? "bg-green-100 text-green-800"
-                        : "bg-green-50 text-green-700 hover:bg-green-100 border border-green-200"
-                    }`}
-                  >
-                    Answered
-                  </button>
+                <div className="flex flex-wrap items-center gap-2 mt-4 pt-4 border-t border-gray-200">
+                  {canAnswer && (
+                    <>
+                      <span className="text-sm text-gray-600 font-medium mr-2">
+                        Mark as:
+                      </span>
+                      <button
+                        onClick={() => {
+                          setError(null);
+                          onStatusUpdate(question.id, "being_answered");
+                        }}
+                        className={`px-3 py-1.5 rounded text-sm font-medium transition-colors ${
+                          question.status === "being_answered"
+                            ? "bg-blue-100 text-blue-800"
+                            : "bg-blue-50 text-blue-700 hover:bg-blue-100 border border-blue-200"
+                        }`}
+                      >
+                        Being Answered
+                      </button>
+                      <button
+                        onClick={() => {
+                          setError(null);
+                          onStatusUpdate(question.id, "answered");
+                        }}
+                        className={`px-3 py-1.5 rounded text-sm font-medium transition-colors ${
+                          question.status === "answered"
+                            ? "bg-green-100 text-green-800"
+                            : "bg-green-50 text-green-700 hover:bg-green-100 border border-green-200"
+                        }`}
+                      >
+                        Answered
+                      </button>
+                    </>
+                  )}
+                  <div className="flex flex-wrap items-center gap-2 ml-auto">
+                    {onAnswer && isOpen && (
+                      <button
+                        onClick={() =>
+                          answeringId === question.id
+                            ? closePanels()
+                            : startAnswer(question.id)
+                        }
+                        className="px-3 py-1.5 rounded text-sm font-medium transition-colors bg-green-50 text-green-700 hover:bg-green-100 border border-green-200"
+                      >
+                        Write answer
+                      </button>
+                    )}
+                    {onEdit && !question.mergedIntoId && (
+                      <button
+                        onClick={() =>
+                          editingId === question.id
+                            ? closePanels()
+                            : startEdit(question)
+                        }
+                        className="px-3 py-1.5 rounded text-sm font-medium transition-colors bg-gray-50 text-gray-700 hover:bg-gray-100 border border-gray-200"
+                      >
+                        Edit
+                      </button>
+                    )}
+                    {onSplit && !question.mergedIntoId && (
+                      <button
+                        onClick={() =>
+                          splittingId === question.id
+                            ? closePanels()
+                            : startSplit(question)
+                        }
+                        className="px-3 py-1.5 rounded text-sm font-medium transition-colors bg-gray-50 text-gray-700 hover:bg-gray-100 border border-gray-200"
+                      >
+                        Split
+                      </button>
+                    )}
+                    {onMerge && isOpen && mergeCandidates.length > 0 && (
+                      <button
+                        onClick={() =>
+                          mergingId === question.id
+                            ? closePanels()
+                            : startMerge(question.id)
+                        }
+                        className="px-3 py-1.5 rounded text-sm font-medium transition-colors bg-amber-50 text-amber-800 hover:bg-amber-100 border border-amber-200"
+                      >
+                        Merge into...
+                      </button>
+                    )}
+                    <button
+                      onClick={() =>
+                        historyId === question.id
+                          ? closePanels()
+                          : startHistory(question.id)
+                      }
+                      className="px-3 py-1.5 rounded text-sm font-medium transition-colors bg-gray-50 text-gray-700 hover:bg-gray-100 border border-gray-200"
+                    >
+                      History
+                    </button>
+                    {question.mergedIntoId ? null : question.status === "dismissed" ? (
+                      <button
+                        onClick={() => {
+                          setError(null);
+                          onStatusUpdate(question.id, "approved");
+                        }}
+                        className="px-3 py-1.5 rounded text-sm font-medium transition-colors bg-gray-50 text-gray-700 hover:bg-gray-100 border border-gray-200"
+                      >
+                        Restore
+                      </button>
+                    ) : (
+                      <button
+                        onClick={() => {
+                          setError(null);
+                          onStatusUpdate(question.id, "dismissed");
+                        }}
+                        className="px-3 py-1.5 rounded text-sm font-medium transition-colors bg-red-50 text-red-700 hover:bg-red-100 border border-red-200"
+                      >
+                        Dismiss
+                      </button>
+                    )}
+                  </div>
                 </div>
+
+                {/* Merge picker */}
+                {mergingId === question.id && (
+                  <div className="flex flex-wrap items-center gap-2 mt-3 p-3 rounded-lg bg-amber-50 border border-amber-200">
+                    <label
+                      htmlFor={`merge-target-${question.id}`}
+                      className="text-sm text-amber-900 font-medium"
+                    >
+                      Merge this question into:
+                    </label>
+                    <select
+                      id={`merge-target-${question.id}`}
+                      value={mergeTargetId}
+                      onChange={(e) => setMergeTargetId(e.target.value)}
+                      className="flex-1 min-w-0 px-2 py-1.5 border border-gray-300 rounded text-sm"
+                    >
+                      <option value="">Choose a question...</option>
+                      {mergeCandidates.map((candidate) => (
+                        <option key={candidate.id} value={candidate.id}>
+                          {similarIds?.has(candidate.id) ? "(similar) " : ""}
+                          {candidate.content.length > 80
+                            ? `${candidate.content.slice(0, 79)}…`
+                            : candidate.content}
+                        </option>
+                      ))}
+                    </select>
+                    <button
+                      onClick={() => handleMerge(question.id)}
+                      disabled={!mergeTargetId || isSaving}
+                      className="px-3 py-1.5 rounded text-sm font-medium bg-amber-600 text-white hover:bg-amber-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      Merge
+                    </button>
+                  </div>
+                )}
+
+                {/* Written answer */}
+                {answeringId === question.id && (
+                  <div className="mt-3 p-3 rounded-lg bg-green-50 border border-green-200 space-y-2">
+                    <textarea
+                      value={answerDraft}
+                      onChange={(e) => setAnswerDraft(e.target.value)}
+                      rows={3}
+                      maxLength={REPLY_VALIDATION.maxLength}
+                      aria-label="Answer"
+                      placeholder="Write an answer. Posting it marks the question answered."
+                      className="w-full px-3 py-2 border border-gray-300 rounded text-sm"
+                    />
+                    <div className="flex gap-2">
+                      <button
+                        onClick={() => handleAnswer(question.id)}
+                        disabled={isSaving || answerDraft.trim().length === 0}
+                        className="px-3 py-1.5 rounded text-sm font-medium bg-green-600 text-white hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        Post answer
+                      </button>
+                      <button
+                        onClick={closePanels}
+                        className="px-3 py-1.5 rounded text-sm font-medium bg-white text-gray-700 hover:bg-gray-100 border border-gray-200"
+                      >
+                        Cancel
+                      </button>
+                    </div>
+                  </div>
+                )}
+
+                {/* Split editor */}
+                {splittingId === question.id && (
+                  <div className="mt-3 p-3 rounded-lg bg-gray-50 border border-gray-200 space-y-2">
+                    <p className="text-sm text-gray-700 font-medium">
+                      Split into separate questions. Voters are carried over
+                      to every part.
+                    </p>
+                    {splitParts.map((part, index) => (
+                      <div key={index} className="flex items-start gap-2">
+                        <textarea
+                          value={part}
+                          onChange={(e) =>
+                            setSplitParts((parts) =>
+                              parts.map((p, i) =>
+                                i === index ? e.target.value : p,
+                              ),
+                            )
+                          }
+                          rows={2}
+                          aria-label={`Part ${index + 1}`}
+                          placeholder={`Part ${index + 1}`}
+                          className="flex-1 px-3 py-2 border border-gray-300 rounded text-sm"
+                        />
+                        {splitParts.length > 2 && (
+                          <button
+                            onClick={() =>
+                              setSplitParts((parts) =>
+                                parts.filter((_, i) => i !== index),
+                              )
+                            }
+                            aria-label={`Remove part ${index + 1}`}
+                            className="px-2 py-1 rounded text-sm text-gray-500 hover:text-red-700"
+                          >
+                            ✕
+                          </button>
+                        )}
+                      </div>
+                    ))}
+                    <div className="flex gap-2">
+                      {splitParts.length < MAX_QUESTION_SPLIT_PARTS && (
+                        <button
+                          onClick={() => setSplitParts((parts) => [...parts, ""])}
+                          className="px-3 py-1.5 rounded text-sm font-medium bg-white text-gray-700 hover:bg-gray-100 border border-gray-200"
+                        >
+                          Add part
+                        </button>
+                      )}
+                      <button
+                        onClick={() => handleSplit(question.id)}
+                        disabled={
+                          isSaving ||
+                          splitParts.some((part) => part.trim().length === 0)
+                        }
+                        className="px-3 py-1.5 rounded text-sm font-medium bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed ml-auto"
+                      >
+                        Split into {splitParts.length} questions
+                      </button>
+                    </div>
+                  </div>
+                )}
+
+                {/* Question history */}
+                {historyId === question.id && (
+                  <div className="mt-3 p-3 rounded-lg bg-gray-50 border border-gray-200">
+                    <QuestionTimeline questionId={question.id} />
+                  </div>
+                )}
               </div>
             </div>
             </motion.div>
@@ -0,0 +1,187 @@
+"use client";
+
+import { useState } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import type { HostQuestionResponse } from "@/types/question";
+
+type ModerationDecision = "approved" | "dismissed";
+
+interface ModerationQueueProps {
+  /** Questions awaiting review (status: pending) */
+  questions: HostQuestionResponse[];
+  onModerate: (
+    questionIds: string[],
+    decision: ModerationDecision,
+  ) => Promise<void>;
+}
+
+export default function ModerationQueue({
+  questions,
+  onModerate,
+}: ModerationQueueProps) {
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // Drop selections for questions that have left the queue (e.g. moderated elsewhere)
+  const visibleSelectedIds = questions
+    .map((q) => q.id)
+    .filter((id) => selectedIds.has(id));
+  const allSelected =
+    questions.length > 0 && visibleSelectedIds.length === questions.length;
+
+  const toggleSelected = (questionId: string) => {
+    setSelectedIds((current) => {
+      const next = new Set(current);
+      if (next.has(questionId)) {
+        next.delete(questionId);
+      } else {
+        next.add(questionId);
+      }
+      return next;
+    });
+  };
+
+  const toggleAll = () => {
+    setSelectedIds(
+      allSelected ? new Set() : new Set(questions.map((q) => q.id)),
+    );
+  };
+
+  const moderate = async (
+    questionIds: string[],
+    decision: ModerationDecision,
+  ) => {
+    if (questionIds.length === 0) return;
+
+    setIsSubmitting(true);
+    try {
+      await onModerate(questionIds, decision);
+      setSelectedIds((current) => {
+        const next = new Set(current);
+        questionIds.forEach((id) => next.delete(id));
+        return next;
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // Oldest first so questions are reviewed in the order they arrived
+  const queue = [...questions].sort(
+    (a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime(),
+  );
+
+  return (
+    <div className="w-full max-w-4xl mx-auto space-y-4">
+      <div className="flex items-center justify-between flex-wrap gap-2">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-800">
+            Moderation Queue ({questions.length})
+          </h2>
+          <p className="text-gray-600 text-sm mt-1">
+            Approved questions become visible to participants
+          </p>
+        </div>
+
+        {questions.length > 0 && (
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => moderate(visibleSelectedIds, "approved")}
+              disabled={isSubmitting || visibleSelectedIds.length === 0}
+              className="px-3 py-1.5 rounded text-sm font-medium bg-green-50 text-green-700 hover:bg-green-100 border border-green-200 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Approve selected ({visibleSelectedIds.length})
+            </button>
+            <button
+              onClick={() => moderate(visibleSelectedIds, "dismissed")}
+              disabled={isSubmitting || visibleSelectedIds.length === 0}
+              className="px-3 py-1.5 rounded text-sm font-medium bg-red-50 text-red-700 hover:bg-red-100 border border-red-200 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Dismiss selected
+            </button>
+          </div>
+        )}
+      </div>
+
+      {questions.length === 0 ? (
+        <div className="bg-white rounded-lg shadow-md border-2 border-gray-200 p-8 text-center">
+          <div className="text-4xl mb-2">✅</div>
+          <p className="text-gray-600">No questions waiting for review.</p>
+        </div>
+      ) : (
+        <>
+          <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={allSelected}
+              onChange={toggleAll}
+              className="w-4 h-4"
+            />
+            Select all
+          </label>
+
+          <AnimatePresence initial={false}>
+            {queue.map((question) => {
+              const authorDisplay = question.isAnonymous
+                ? "Anonymous"
+                : question.authorName || "Anonymous";
+
+              return (
+                <motion.div
+                  key={question.id}
+                  layout
+                  initial={false}
+                  animate={{ opacity: 1 }}
+                  exit={{ opacity: 0 }}
+                  transition={{ opacity: { duration: 0.2 } }}
+                  className="rounded-lg shadow-md border-2 border-yellow-200 bg-yellow-50 p-4"
+                >
+                  <div className="flex flex-row gap-3 items-start">
+                    <input
+                      type="checkbox"
+                      checked={selectedIds.has(question.id)}
+                      onChange={() => toggleSelected(question.id)}
+                      aria-label="Select question"
+                      className="w-4 h-4 mt-1 flex-shrink-0"
+                    />
+
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2 mb-1">
+                        <span className="text-sm font-medium text-gray-700">
+                          {authorDisplay}
+                        </span>
+                        <span className="text-xs text-gray-500 ml-auto">
+                          {new Date(question.createdAt).toLocaleTimeString()}
+                        </span>
+                      </div>
+                      <p className="text-gray-900 text-base leading-relaxed break-words">
+                        {question.content}
+                      </p>
+
+                      <div className="flex items-center gap-2 mt-3">
+                        <button
+                          onClick={() => moderate([question.id], "approved")}
+                          disabled={isSubmitting}
+                          className="px-3 py-1.5 rounded text-sm font-medium bg-green-600 text-white hover:bg-green-700 disabled:opacity-50"
+                        >
+                          Approve
+                        </button>
+                        <button
+                          onClick={() => moderate([question.id], "dismissed")}
+                          disabled={isSubmitting}
+                          className="px-3 py-1.5 rounded text-sm font-medium bg-white text-red-700 hover:bg-red-50 border border-red-200 disabled:opacity-50"
+                        >
+                          Dismiss
+                        </button>
+                      </div>
+                    </div>
+                  </div>
+                </motion.div>
+              );
+            })}
+          </AnimatePresence>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,343 @@
+"use client";
+
+import { useState } from "react";
+import useSWR from "swr";
+import type {
+  CreatePollRequest,
+  GetPollsResponse,
+  PollStatus,
+  PollType,
+} from "@/types/poll";
+import {
+  POLL_RATING_SCALE,
+  POLL_STATUS_LABELS,
+  POLL_TYPE_LABELS,
+  POLL_VALIDATION,
+} from "@/types/poll";
+import { validatePollInput } from "@/lib/polls";
+import { fetcher, getErrorMessage } from "@/lib/swr-utils";
+import PollResultBars from "@/components/participant/PollResultBars";
+
+interface PollManagerProps {
+  sessionCode: string;
+  /** Show the create form and open/close controls (owner and co-hosts) */
+  canManage?: boolean;
+}
+
+const POLL_TYPES = Object.keys(POLL_TYPE_LABELS) as PollType[];
+
+export default function PollManager({
+  sessionCode,
+  canManage = false,
+}: PollManagerProps) {
+  const [isCreating, setIsCreating] = useState(false);
+  const [question, setQuestion] = useState("");
+  const [type, setType] = useState<PollType>("multiple_choice");
+  const [options, setOptions] = useState<string[]>(["", ""]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  // No polling - the session stream revalidates this key on poll changes
+  const { data, error, isLoading, mutate } = useSWR<GetPollsResponse>(
+    `/api/sessions/${sessionCode}/host/polls`,
+    fetcher,
+    { revalidateOnFocus: false },
+  );
+
+  const polls = data?.polls || [];
+
+  const resetForm = () => {
+    setIsCreating(false);
+    setQuestion("");
+    setType("multiple_choice");
+    setOptions(["", ""]);
+  };
+
+  // Send a poll request and refetch; returns whether it succeeded
+  const runAction = async (
+    request: () => Promise<Response>,
+    fallbackMessage: string,
+  ): Promise<boolean> => {
+    setIsSaving(true);
+    setActionError(null);
+
+    try {
+      const response = await request();
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}));
+        setActionError(body.message || fallbackMessage);
+        return false;
+      }
+
+      await mutate();
+      return true;
+    } catch {
+      setActionError("Network error. Please try again.");
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleCreate = async (open: boolean) => {
+    const body: CreatePollRequest = {
+      question: question.trim(),
+      type,
+      options: type === "rating" ? undefined : options.map((o) => o.trim()),
+      open,
+    };
+
+    const validation = validatePollInput(body);
+    if (!validation.isValid) {
+      setActionError(validation.errors[0].message);
+      return;
+    }
+
+    const created = await runAction(
+      () =>
+        fetch(`/api/sessions/${sessionCode}/host/polls`, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify(body),
+        }),
+      "Failed to create poll",
+    );
+    if (created) resetForm();
+  };
+
+  const updateStatus = (pollId: string, status: Exclude<PollStatus, "draft">) =>
+    runAction(
+      () =>
+        fetch(`/api/polls/${pollId}`, {
+          method: "PATCH",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({ status }),
+        }),
+      "Failed to update poll",
+    );
+
+  const deletePoll = (pollId: string) => {
+    if (!window.confirm("Delete this poll and all of its responses?")) return;
+    runAction(
+      () => fetch(`/api/polls/${pollId}`, { method: "DELETE" }),
+      "Failed to delete poll",
+    );
+  };
+
+  const getStatusBadgeClass = (status: PollStatus): string => {
+    switch (status) {
+      case "open":
+        return "bg-green-100 text-green-800";
+      case "closed":
+        return "bg-gray-100 text-gray-800";
+      default:
+        return "bg-yellow-100 text-yellow-800";
+    }
+  };
+
+  return (
+    <div className="w-full max-w-4xl mx-auto space-y-4">
+      <div className="flex items-center justify-between flex-wrap gap-2">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-800">
+            Polls ({polls.length})
+          </h2>
+          <p className="text-gray-600 text-sm mt-1">
+            Results update live as participants answer
+          </p>
+        </div>
+
+        {canManage && !isCreating && (
+          <button
+            onClick={() => {
+              setActionError(null);
+              setIsCreating(true);
+            }}
+            className="px-4 py-2 rounded-lg text-sm font-medium bg-purple-600 text-white hover:bg-purple-700"
+          >
+            New Poll
+          </button>
+        )}
+      </div>
+
+      {(actionError || error) && (
+        <div className="bg-red-50 border-2 border-red-200 rounded-lg p-4 text-red-800">
+          {actionError || getErrorMessage(error)}
+        </div>
+      )}
+
+      {/* Create form */}
+      {isCreating && (
+        <div className="rounded-lg shadow-md border-2 border-purple-200 bg-white p-5 space-y-3">
+          <input
+            type="text"
+            value={question}
+            onChange={(e) => setQuestion(e.target.value)}
+            maxLength={POLL_VALIDATION.questionMaxLength}
+            placeholder="Ask your audience..."
+            aria-label="Poll question"
+            className="w-full px-3 py-2 border border-gray-300 rounded text-base"
+          />
+          <div className="flex flex-wrap gap-4">
+            {POLL_TYPES.map((pollType) => (
+              <label
+                key={pollType}
+                className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer"
+              >
+                <input
+                  type="radio"
+                  name="poll-type"
+                  checked={type === pollType}
+                  onChange={() => setType(pollType)}
+                />
+                {POLL_TYPE_LABELS[pollType]}
+              </label>
+            ))}
+          </div>
+
+          {type === "rating" ? (
+            <p className="text-sm text-gray-600">
+              Participants rate from 1 to {POLL_RATING_SCALE}.
+            </p>
+          ) : (
+            <div className="space-y-2">
+              {options.map((option, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <input
+                    type="text"
+                    value={option}
+                    onChange={(e) =>
+                      setOptions((current) =>
+                        current.map((o, i) =>
+                          i === index ? e.target.value : o,
+                        ),
+                      )
+                    }
+                    maxLength={POLL_VALIDATION.optionMaxLength}
+                    placeholder={`Option ${index + 1}`}
+                    aria-label={`Option ${index + 1}`}
+                    className="flex-1 px-3 py-2 border border-gray-300 rounded text-sm"
+                  />
+                  {options.length > POLL_VALIDATION.minOptions && (
+                    <button
+                      onClick={() =>
+                        setOptions((current) =>
+                          current.filter((_, i) => i !== index),
+                        )
+                      }
+                      aria-label={`Remove option ${index + 1}`}
+                      className="px-2 py-1 rounded text-sm text-gray-500 hover:text-red-700"
+                    >
+                      ✕
+                    </button>
+                  )}
+                </div>
+              ))}
+              {options.length < POLL_VALIDATION.maxOptions && (
+                <button
+                  onClick={() => setOptions((current) => [...current, ""])}
+                  className="px-3 py-1.5 rounded text-sm font-medium bg-white text-gray-700 hover:bg-gray-100 border border-gray-200"
+                >
+                  Add option
+                </button>
+              )}
+            </div>
+          )}
+
+          <div className="flex gap-2 justify-end">
+            <button
+              onClick={() => {
+                setActionError(null);
+                resetForm();
+              }}
+              className="px-3 py-1.5 rounded text-sm font-medium bg-white text-gray-700 hover:bg-gray-100 border border-gray-200"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={() => handleCreate(false)}
+              disabled={isSaving}
+              className="px-3 py-1.5 rounded text-sm font-medium bg-white text-purple-700 hover:bg-purple-50 border border-purple-200 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Save draft
+            </button>
+            <button
+              onClick={() => handleCreate(true)}
+              disabled={isSaving}
+              className="px-3 py-1.5 rounded text-sm font-medium bg-purple-600 text-white hover:bg-purple-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Open now
+            </button>
+          </div>
+        </div>
+      )}
+
+      {isLoading && !data ? (
+        <div className="text-center p-8 text-gray-600">Loading polls...</div>
+      ) : polls.length === 0 ? (
+        !isCreating && (
+          <div className="bg-white rounded-lg shadow-md border-2 border-gray-200 p-8 text-center">
+            <div className="text-4xl mb-2">📊</div>
+            <p className="text-gray-600">No polls in this session yet.</p>
+          </div>
+        )
+      ) : (
+        polls.map((poll) => (
+          <div
+            key={poll.id}
+            className="rounded-lg shadow-md border-2 border-gray-200 bg-white p-5"
+          >
+            <div className="flex items-center gap-2 flex-wrap mb-2">
+              <span
+                className={`px-2 py-1 rounded text-xs font-medium ${getStatusBadgeClass(poll.status)}`}
+              >
+                {POLL_STATUS_LABELS[poll.status]}
+              </span>
+              <span className="text-xs text-gray-500">
+                {POLL_TYPE_LABELS[poll.type]}
+              </span>
+            </div>
+            <p className="text-gray-900 text-lg font-semibold leading-snug break-words mb-3">
+              {poll.question}
+            </p>
+
+            <PollResultBars type={poll.type} results={poll.results} />
+
+            {canManage && (
+              <div className="flex flex-wrap items-center gap-2 mt-4 pt-4 border-t border-gray-200">
+                {poll.status === "open" ? (
+                  <button
+                    onClick={() => updateStatus(poll.id, "closed")}
+                    disabled={isSaving}
+                    className="px-3 py-1.5 rounded text-sm font-medium bg-gray-50 text-gray-700 hover:bg-gray-100 border border-gray-200 disabled:opacity-50"
+                  >
+                    Close poll
+                  </button>
+                ) : (
+                  <button
+                    onClick={() => updateStatus(poll.id, "open")}
+                    disabled={isSaving}
+                    className="px-3 py-1.5 rounded text-sm font-medium bg-green-50 text-green-700 hover:bg-green-100 border border-green-200 disabled:opacity-50"
+                  >
+                    {poll.status === "draft" ? "Open poll" : "Reopen"}
+                  </button>
+                )}
+                <button
+                  onClick={() => deletePoll(poll.id)}
+                  disabled={isSaving}
+                  className="px-3 py-1.5 rounded text-sm font-medium bg-red-50 text-red-700 hover:bg-red-100 border border-red-200 disabled:opacity-50 ml-auto"
+                >
+                  Delete
+                </button>
+              </div>
+            )}
+          </div>
+        ))
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,237 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import useSWR from "swr";
+import type {
+  PulseScaleConfig,
+  PulseScalePoint,
+  PulseScaleResponse,
+} from "@/types/pulse-check";
+import { fetcher, getErrorMessage } from "@/lib/swr-utils";
+import {
+  DEFAULT_PULSE_SCALE,
+  PULSE_SCALE_LIMITS,
+  PULSE_SCALE_PRESETS,
+  validatePulseScaleConfig,
+} from "@/lib/pulse-check";
+
+interface PulseScaleSettingsProps {
+  sessionCode: string;
+  /** Disable editing (expired session or no manage permission) */
+  disabled?: boolean;
+}
+
+const CUSTOM_PRESET = "custom";
+
+/** Preset matching a saved scale, or "custom" */
+function findPresetId(config: PulseScaleConfig | null): string {
+  const preset = PULSE_SCALE_PRESETS.find(
+    (p) => JSON.stringify(p.config) === JSON.stringify(config),
+  );
+  return preset?.id ?? CUSTOM_PRESET;
+}
+
+export default function PulseScaleSettings({
+  sessionCode,
+  disabled = false,
+}: PulseScaleSettingsProps) {
+  const scaleKey = `/api/sessions/${sessionCode}/pulse-scale`;
+  const { data, error, isLoading, mutate } = useSWR<PulseScaleResponse>(
+    scaleKey,
+    fetcher,
+  );
+
+  const [presetId, setPresetId] = useState("default");
+  const [points, setPoints] = useState<PulseScalePoint[]>(DEFAULT_PULSE_SCALE);
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  // Load the saved scale into the form
+  useEffect(() => {
+    if (!data) return;
+    setPresetId(findPresetId(data.pulseScale));
+    setPoints(data.pulseScale?.points ?? DEFAULT_PULSE_SCALE);
+  }, [data]);
+
+  const handlePresetChange = (id: string) => {
+    setPresetId(id);
+    const preset = PULSE_SCALE_PRESETS.find((p) => p.id === id);
+    if (preset) {
+      setPoints(preset.config?.points ?? DEFAULT_PULSE_SCALE);
+    }
+  };
+
+  const updatePoint = (index: number, changes: Partial<PulseScalePoint>) =>
+    setPoints((current) =>
+      current.map((point, i) =>
+        i === index ? { ...point, ...changes } : point,
+      ),
+    );
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaveError(null);
+    setSaved(false);
+
+    const preset = PULSE_SCALE_PRESETS.find((p) => p.id === presetId);
+    const pulseScale = preset ? preset.config : { points };
+
+    const validation = validatePulseScaleConfig(pulseScale);
+    if (!validation.isValid) {
+      setSaveError(validation.error);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const response = await fetch(scaleKey, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ pulseScale: validation.config }),
+      });
+      const body = await response.json().catch(() => ({}));
+
+      if (!response.ok) {
+        setSaveError(body.message || "Failed to save pulse scale");
+        return;
+      }
+
+      setSaved(true);
+      await mutate(body as PulseScaleResponse, { revalidate: false });
+    } catch {
+      setSaveError("Network error. Please try again.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (isLoading) {
+    return <p className="text-sm text-gray-600">Loading pulse scale...</p>;
+  }
+
+  if (error) {
+    return <p className="text-sm text-red-700">{getErrorMessage(error)}</p>;
+  }
+
+  const fieldsDisabled = disabled || data?.isLocked;
+
+  return (
+    <form onSubmit={handleSave} className="space-y-4">
+      <div>
+        <div className="font-bold text-gray-800">Pulse check scale</div>
+        <div className="text-sm text-gray-600">
+          How participants rate answers to their questions
+        </div>
+      </div>
+
+      {data?.isLocked && (
+        <div className="bg-yellow-50 border-2 border-yellow-200 rounded-lg p-3 text-yellow-800 text-sm">
+          Participants have already rated answers, so the scale can no longer
+          change.
+        </div>
+      )}
+
+      <div>
+        <label
+          htmlFor="pulseScalePreset"
+          className="block text-sm font-medium text-gray-700 mb-1"
+        >
+          Scale
+        </label>
+        <select
+          id="pulseScalePreset"
+          value={presetId}
+          onChange={(e) => handlePresetChange(e.target.value)}
+          disabled={fieldsDisabled}
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg disabled:bg-gray-100"
+        >
+          {PULSE_SCALE_PRESETS.map((preset) => (
+            <option key={preset.id} value={preset.id}>
+              {preset.label}
+            </option>
+          ))}
+          <option value={CUSTOM_PRESET}>Custom labels</option>
+        </select>
+      </div>
+
+      {presetId === CUSTOM_PRESET && (
+        <fieldset className="space-y-2">
+          <legend className="text-sm font-medium text-gray-700 mb-1">
+            Points, from least to most helpful
+          </legend>
+          {points.map((point, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <input
+                type="text"
+                value={point.emoji ?? ""}
+                onChange={(e) =>
+                  updatePoint(index, { emoji: e.target.value || undefined })
+                }
+                maxLength={PULSE_SCALE_LIMITS.maxEmojiLength}
+                placeholder="😀"
+                aria-label={`Point ${index + 1} emoji`}
+                disabled={fieldsDisabled}
+                className="w-16 px-3 py-2 border border-gray-300 rounded text-sm text-center disabled:bg-gray-100"
+              />
+              <input
+                type="text"
+                value={point.label}
+                onChange={(e) => updatePoint(index, { label: e.target.value })}
+                maxLength={PULSE_SCALE_LIMITS.maxLabelLength}
+                placeholder={`Point ${index + 1}`}
+                aria-label={`Point ${index + 1} label`}
+                disabled={fieldsDisabled}
+                className="flex-1 px-3 py-2 border border-gray-300 rounded text-sm disabled:bg-gray-100"
+              />
+              {points.length > PULSE_SCALE_LIMITS.minPoints && (
+                <button
+                  type="button"
+                  onClick={() =>
+                    setPoints((current) =>
+                      current.filter((_, i) => i !== index),
+                    )
+                  }
+                  disabled={fieldsDisabled}
+                  aria-label={`Remove point ${index + 1}`}
+                  className="px-2 py-1 rounded text-sm text-gray-500 hover:text-red-700 disabled:opacity-50"
+                >
+                  ✕
+                </button>
+              )}
+            </div>
+          ))}
+          {points.length < PULSE_SCALE_LIMITS.maxPoints && (
+            <button
+              type="button"
+              onClick={() =>
+                setPoints((current) => [...current, { label: "" }])
+              }
+              disabled={fieldsDisabled}
+              className="px-3 py-1.5 rounded text-sm font-medium bg-white text-gray-700 hover:bg-gray-100 border border-gray-200 disabled:opacity-50"
+            >
+              Add point
+            </button>
+          )}
+        </fieldset>
+      )}
+
+      {saveError && (
+        <div className="bg-red-50 border-2 border-red-200 rounded-lg p-3 text-red-800 text-sm">
+          {saveError}
+        </div>
+      )}
+
+      <div className="flex items-center gap-3">
+        <button
+          type="submit"
+          disabled={fieldsDisabled || isSaving}
+          className="px-4 py-2 rounded-lg text-sm font-medium bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isSaving ? "Saving..." : "Save Pulse Scale"}
+        </button>
+        {saved && <span className="text-sm text-green-700">Saved</span>}
+      </div>
+    </form>
+  );
+}
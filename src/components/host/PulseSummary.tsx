@@ -0,0 +1,148 @@
+"use client";
+
+import useSWR from "swr";
+import type {
+  PulseSummary as PulseSummaryData,
+  SessionPulseSummaryResponse,
+} from "@/types/pulse-check";
+import { fetcher, getErrorMessage } from "@/lib/swr-utils";
+
+interface PulseSummaryProps {
+  sessionCode: string;
+}
+
+/** Bars for each point on the scale, best rating first */
+function PulseBars({ summary }: { summary: PulseSummaryData }) {
+  return (
+    <div className="space-y-1">
+      {[...summary.points].reverse().map((point) => {
+        const percent =
+          summary.responses > 0
+            ? Math.round((point.count / summary.responses) * 100)
+            : 0;
+        return (
+          <div key={point.score} className="flex items-center gap-2 text-sm">
+            <span className="w-32 truncate text-gray-700" title={point.label}>
+              {point.emoji && <span className="mr-1">{point.emoji}</span>}
+              {point.label}
+            </span>
+            <div className="flex-1 h-3 bg-gray-100 rounded">
+              <div
+                className="h-3 bg-blue-500 rounded"
+                style={{ width: `${percent}%` }}
+              />
+            </div>
+            <span className="w-10 text-right text-gray-600">{point.count}</span>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+export default function PulseSummary({ sessionCode }: PulseSummaryProps) {
+  // No polling - the session stream revalidates this key on question changes
+  const { data, error, isLoading } = useSWR<SessionPulseSummaryResponse>(
+    `/api/sessions/${sessionCode}/host/pulse`,
+    fetcher,
+    { revalidateOnFocus: false },
+  );
+
+  if (isLoading && !data) {
+    return (
+      <div className="text-center p-8 text-gray-600">
+        Loading pulse summary...
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="bg-red-50 border-2 border-red-200 rounded-lg p-4 text-red-800">
+        {getErrorMessage(error)}
+      </div>
+    );
+  }
+
+  if (!data) return null;
+
+  const { overall, questions, scale, unratedCount } = data;
+
+  return (
+    <div className="w-full max-w-4xl mx-auto space-y-4">
+      <div>
+        <h2 className="text-2xl font-bold text-gray-800">Pulse Summary</h2>
+        <p className="text-gray-600 text-sm mt-1">
+          How helpful participants found your answers, most helpful first
+        </p>
+      </div>
+
+      {overall.responses === 0 ? (
+        <div className="bg-white rounded-lg shadow-md border-2 border-gray-200 p-8 text-center">
+          <div className="text-4xl mb-2">💬</div>
+          <p className="text-gray-600">
+            No pulse check feedback yet. Participants can rate answered
+            questions.
+          </p>
+        </div>
+      ) : (
+        <>
+          <div className="rounded-lg shadow-md border-2 border-gray-200 bg-white p-5">
+            <div className="flex items-baseline justify-between flex-wrap gap-2 mb-3">
+              <span className="text-lg font-semibold text-gray-900">
+                {overall.helpfulness}% helpful overall
+              </span>
+              <span className="text-sm text-gray-600">
+                {overall.responses}{" "}
+                {overall.responses === 1 ? "rating" : "ratings"} · average{" "}
+                {overall.average} of {scale.length}
+                {unratedCount > 0 && ` · ${unratedCount} answers not yet rated`}
+              </span>
+            </div>
+            <PulseBars summary={overall} />
+          </div>
+
+          {questions.map((question, index) => (
+            <div
+              key={question.questionId}
+              className="rounded-lg shadow-md border-2 border-gray-200 bg-white p-5"
+            >
+              <div className="flex items-start gap-3 mb-3">
+                <span className="text-sm font-bold text-gray-500">
+                  #{index + 1}
+                </span>
+                <p className="flex-1 text-gray-900 font-semibold leading-snug break-words">
+                  {question.content}
+                </p>
+                <span className="text-sm font-medium text-gray-700 whitespace-nowrap">
+                  {question.summary.helpfulness}% helpful
+                </span>
+              </div>
+              <PulseBars summary={question.summary} />
+              {question.comments.length > 0 && (
+                <ul className="mt-3 pt-3 border-t border-gray-200 space-y-1">
+                  {question.comments.map((comment, commentIndex) => {
+                    const point = scale[comment.score - 1];
+                    return (
+                      <li
+                        key={`${comment.createdAt}-${commentIndex}`}
+                        className="text-sm text-gray-700 break-words"
+                      >
+                        {point && (
+                          <span className="mr-1" title={point.label}>
+                            {point.emoji || `${point.label}:`}
+                          </span>
+                        )}
+                        {comment.comment}
+                      </li>
+                    );
+                  })}
+                </ul>
+              )}
+            </div>
+          ))}
+        </>
+      )}
+    </div>
+  );
+}
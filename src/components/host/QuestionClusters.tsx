@@ -0,0 +1,175 @@
+"use client";
+
+import { useState } from "react";
+import useSWR from "swr";
+import type { GetClustersResponse } from "@/types/cluster";
+import { QUESTION_STATUS_LABELS } from "@/types/question";
+import { fetcher, getErrorMessage } from "@/lib/swr-utils";
+
+interface QuestionClustersProps {
+  sessionCode: string;
+}
+
+export default function QuestionClusters({
+  sessionCode,
+}: QuestionClustersProps) {
+  const [isQueueing, setIsQueueing] = useState(false);
+  const [queueError, setQueueError] = useState<string | null>(null);
+  const [isRunPending, setIsRunPending] = useState(false);
+  const [expandedIds, setExpandedIds] = useState<Set<string>>(new Set());
+
+  // No polling - the session stream revalidates this key when a run completes
+  const { data, error, isLoading } = useSWR<GetClustersResponse>(
+    `/api/sessions/${sessionCode}/host/clusters`,
+    fetcher,
+    {
+      revalidateOnFocus: false,
+      onSuccess: () => setIsRunPending(false),
+    },
+  );
+
+  const clusters = data?.clusters || [];
+
+  const queueClustering = async () => {
+    setIsQueueing(true);
+    setQueueError(null);
+
+    try {
+      const response = await fetch(
+        `/api/sessions/${sessionCode}/host/clusters`,
+        { method: "POST" },
+      );
+
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}));
+        setQueueError(body.message || "Failed to start clustering");
+        return;
+      }
+
+      setIsRunPending(true);
+    } catch {
+      setQueueError("Network error. Please try again.");
+    } finally {
+      setIsQueueing(false);
+    }
+  };
+
+  const toggleExpanded = (clusterId: string) => {
+    setExpandedIds((current) => {
+      const next = new Set(current);
+      if (next.has(clusterId)) {
+        next.delete(clusterId);
+      } else {
+        next.add(clusterId);
+      }
+      return next;
+    });
+  };
+
+  return (
+    <div className="w-full max-w-4xl mx-auto space-y-4">
+      <div className="flex items-center justify-between flex-wrap gap-2">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-800">
+            Question Clusters ({clusters.length})
+          </h2>
+          <p className="text-gray-600 text-sm mt-1">
+            {data?.computedAt
+              ? `Last updated ${new Date(data.computedAt).toLocaleTimeString()}`
+              : "Group similar questions under a single summary"}
+            {data && data.unclusteredCount > 0 && data.computedAt && (
+              <> · {data.unclusteredCount} new since then</>
+            )}
+          </p>
+        </div>
+
+        <button
+          onClick={queueClustering}
+          disabled={isQueueing || isRunPending}
+          className="px-4 py-2 rounded-lg text-sm font-medium bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isQueueing || isRunPending
+            ? "Clustering..."
+            : data?.computedAt
+              ? "Refresh Clusters"
+              : "Generate Clusters"}
+        </button>
+      </div>
+
+      {(queueError || error) && (
+        <div className="bg-red-50 border-2 border-red-200 rounded-lg p-4 text-red-800">
+          {queueError || getErrorMessage(error)}
+        </div>
+      )}
+
+      {isLoading && !data ? (
+        <div className="text-center p-8 text-gray-600">Loading clusters...</div>
+      ) : clusters.length === 0 ? (
+        <div className="bg-white rounded-lg shadow-md border-2 border-gray-200 p-8 text-center">
+          <div className="text-4xl mb-2">🧩</div>
+          <p className="text-gray-600">
+            {data?.computedAt
+              ? "No visible questions to cluster yet."
+              : "Clusters haven't been generated for this session yet."}
+          </p>
+        </div>
+      ) : (
+        clusters.map((cluster) => {
+          const isExpanded = expandedIds.has(cluster.id);
+
+          return (
+            <div
+              key={cluster.id}
+              className="rounded-lg shadow-md border-2 border-gray-200 bg-white p-5"
+            >
+              <div className="flex flex-row gap-4 items-start">
+                <div className="px-4 py-3 rounded-lg bg-purple-50 border-2 border-purple-200 flex flex-col items-center justify-center min-w-[80px] flex-shrink-0">
+                  <span className="text-3xl font-bold text-purple-600">
+                    {cluster.combinedVoteCount}
+                  </span>
+                  <span className="text-xs text-purple-600 font-medium mt-1">
+                    {cluster.combinedVoteCount === 1 ? "vote" : "votes"}
+                  </span>
+                </div>
+
+                <div className="flex-1 min-w-0">
+                  <p className="text-gray-900 text-lg font-semibold leading-snug break-words">
+                    {cluster.headline}
+                  </p>
+                  <button
+                    onClick={() => toggleExpanded(cluster.id)}
+                    className="text-sm text-blue-600 hover:text-blue-800 mt-2"
+                  >
+                    {isExpanded ? "Hide" : "Show"} {cluster.questions.length}{" "}
+                    {cluster.questions.length === 1 ? "question" : "questions"}
+                  </button>
+
+                  {isExpanded && (
+                    <ul className="mt-3 space-y-2 border-t border-gray-200 pt-3">
+                      {cluster.questions.map((question) => (
+                        <li
+                          key={question.id}
+                          className="flex items-start gap-3 text-sm"
+                        >
+                          <span className="font-medium text-blue-600 min-w-[2rem] text-right">
+                            {question.voteCount}
+                          </span>
+                          <span className="flex-1 text-gray-800 break-words">
+                            {question.content}
+                          </span>
+                          <span className="text-xs text-gray-500 whitespace-nowrap">
+                            {QUESTION_STATUS_LABELS[question.status]}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              </div>
+            </div>
+          );
+        })
+      )}
+    </div>
+  );
+}
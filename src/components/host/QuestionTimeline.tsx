@@ -0,0 +1,106 @@
+"use client";
+
+import useSWR from "swr";
+import type {
+  GetQuestionEventsResponse,
+  QuestionEventResponse,
+} from "@/types/question-event";
+import { QUESTION_EVENT_LABELS } from "@/types/question-event";
+import { QUESTION_STATUS_LABELS } from "@/types/question";
+import { fetcher, getErrorMessage } from "@/lib/swr-utils";
+
+interface QuestionTimelineProps {
+  questionId: string;
+}
+
+const describeActor = (event: QuestionEventResponse): string => {
+  switch (event.actorType) {
+    case "host":
+      return event.actorName || "Host";
+    case "participant":
+      return "Participant";
+    default:
+      return "System";
+  }
+};
+
+const describeEvent = (event: QuestionEventResponse): string | null => {
+  const to = event.toStatus && QUESTION_STATUS_LABELS[event.toStatus];
+  const from = event.fromStatus && QUESTION_STATUS_LABELS[event.fromStatus];
+
+  switch (event.type) {
+    case "created":
+      return event.relatedQuestionId
+        ? "Split out of another question"
+        : to
+          ? `Submitted as ${to}`
+          : null;
+    case "status_changed":
+      return from && to ? `${from} → ${to}` : (to ?? null);
+    case "merged":
+      return event.toStatus === "dismissed"
+        ? "Merged into another question"
+        : "A duplicate was merged into this question";
+    default:
+      return null;
+  }
+};
+
+export default function QuestionTimeline({
+  questionId,
+}: QuestionTimelineProps) {
+  // No polling - the session stream revalidates this key on question changes
+  const { data, error, isLoading } = useSWR<GetQuestionEventsResponse>(
+    `/api/questions/${questionId}/events`,
+    fetcher,
+    { revalidateOnFocus: false },
+  );
+
+  if (error) {
+    return <p className="text-sm text-red-700">{getErrorMessage(error)}</p>;
+  }
+
+  if (isLoading && !data) {
+    return <p className="text-sm text-gray-600">Loading history...</p>;
+  }
+
+  const events = data?.events || [];
+
+  if (events.length === 0) {
+    return (
+      <p className="text-sm text-gray-600">
+        No history recorded for this question yet.
+      </p>
+    );
+  }
+
+  return (
+    <ol className="space-y-2">
+      {events.map((event) => {
+        const detail = describeEvent(event);
+        return (
+          <li
+            key={event.id}
+            className="text-sm border-l-2 border-gray-300 pl-3"
+          >
+            <div className="flex flex-wrap items-baseline gap-x-2">
+              <span className="font-medium text-gray-900">
+                {QUESTION_EVENT_LABELS[event.type]}
+              </span>
+              {detail && <span className="text-gray-700">{detail}</span>}
+            </div>
+            <div className="text-xs text-gray-500">
+              {describeActor(event)} ·{" "}
+              {new Date(event.createdAt).toLocaleString()}
+            </div>
+            {event.previousContent !== undefined && (
+              <p className="text-xs text-gray-600 mt-1 break-words">
+                Before: &ldquo;{event.previousContent}&rdquo;
+              </p>
+            )}
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
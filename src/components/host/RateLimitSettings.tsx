@@ -0,0 +1,174 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { RateLimitScope, SessionRateLimitPolicy } from "@/types/session";
+import {
+  MAX_RATE_LIMIT,
+  RATE_LIMIT_SCOPES,
+  RATE_LIMIT_SCOPE_LABELS,
+  SESSION_RATE_LIMIT_ACTIONS,
+} from "@/lib/rate-limit-policy";
+
+type LimitField = keyof Omit<SessionRateLimitPolicy, "rateLimitScope">;
+
+interface RateLimitSettingsProps {
+  sessionCode: string;
+  policy: SessionRateLimitPolicy;
+  /** Disable editing (expired session or no manage permission) */
+  disabled?: boolean;
+  /** Called after the policy is saved so the session can be refetched */
+  onSaved: () => void;
+}
+
+// Blank inputs mean "use the default"
+const toInputValues = (policy: SessionRateLimitPolicy) =>
+  Object.fromEntries(
+    Object.values(SESSION_RATE_LIMIT_ACTIONS).map(({ field }) => [
+      field,
+      policy[field]?.toString() ?? "",
+    ]),
+  ) as Record<LimitField, string>;
+
+export default function RateLimitSettings({
+  sessionCode,
+  policy,
+  disabled = false,
+  onSaved,
+}: RateLimitSettingsProps) {
+  const [scope, setScope] = useState<RateLimitScope>(policy.rateLimitScope);
+  const [limits, setLimits] = useState(() => toInputValues(policy));
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  // Pick up changes saved elsewhere (e.g. by a co-host)
+  const { rateLimitScope, questionRateLimit, voteRateLimit, pulseRateLimit } =
+    policy;
+  useEffect(() => {
+    setScope(rateLimitScope);
+    setLimits(
+      toInputValues({
+        rateLimitScope,
+        questionRateLimit,
+        voteRateLimit,
+        pulseRateLimit,
+      }),
+    );
+  }, [rateLimitScope, questionRateLimit, voteRateLimit, pulseRateLimit]);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    setError(null);
+    setSaved(false);
+
+    const limitValues = Object.fromEntries(
+      Object.entries(limits).map(([field, value]) => [
+        field,
+        value.trim() ? Number(value) : null,
+      ]),
+    );
+
+    try {
+      const response = await fetch(`/api/sessions/${sessionCode}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ rateLimitScope: scope, ...limitValues }),
+      });
+
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}));
+        const details = body.details
+          ? Object.values(body.details as Record<string, string>)
+          : [];
+        setError(details[0] || body.error || "Failed to save rate limits");
+        return;
+      }
+
+      setSaved(true);
+      onSaved();
+    } catch {
+      setError("Network error. Please try again.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSave} className="space-y-4">
+      <div>
+        <label
+          htmlFor="rateLimitScope"
+          className="block font-bold text-gray-800 mb-1"
+        >
+          Count requests
+        </label>
+        <p className="text-sm text-gray-600 mb-2">
+          Per-participant limits stop one shared office network from throttling
+          everyone behind it
+        </p>
+        <select
+          id="rateLimitScope"
+          value={scope}
+          onChange={(e) => setScope(e.target.value as RateLimitScope)}
+          disabled={disabled}
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg disabled:bg-gray-100"
+        >
+          {RATE_LIMIT_SCOPES.map((value) => (
+            <option key={value} value={value}>
+              {RATE_LIMIT_SCOPE_LABELS[value]}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        {Object.values(SESSION_RATE_LIMIT_ACTIONS).map(
+          ({ field, label, defaults }) => (
+            <div key={field}>
+              <label
+                htmlFor={field}
+                className="block text-sm font-medium text-gray-700 mb-1"
+              >
+                {label}
+              </label>
+              <input
+                id={field}
+                type="number"
+                min={1}
+                max={MAX_RATE_LIMIT}
+                value={limits[field]}
+                onChange={(e) =>
+                  setLimits((current) => ({
+                    ...current,
+                    [field]: e.target.value,
+                  }))
+                }
+                placeholder={`Default (${defaults.max})`}
+                disabled={disabled}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg disabled:bg-gray-100"
+              />
+            </div>
+          ),
+        )}
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border-2 border-red-200 rounded-lg p-3 text-red-800 text-sm">
+          {error}
+        </div>
+      )}
+
+      <div className="flex items-center gap-3">
+        <button
+          type="submit"
+          disabled={disabled || isSaving}
+          className="px-4 py-2 rounded-lg text-sm font-medium bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isSaving ? "Saving..." : "Save Rate Limits"}
+        </button>
+        {saved && <span className="text-sm text-green-700">Saved</span>}
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,200 @@
+"use client";
+
+import { useState } from "react";
+import useSWR from "swr";
+import type { SessionMemberRole } from "@prisma/client";
+import type { ListSessionMembersResponse } from "@/types/session-member";
+import { fetcher, getErrorMessage } from "@/lib/swr-utils";
+import {
+  hasSessionPermission,
+  SESSION_MEMBER_ROLES,
+  SESSION_ROLE_LABELS,
+} from "@/lib/session-roles";
+
+interface SessionMembersPanelProps {
+  sessionCode: string;
+}
+
+export default function SessionMembersPanel({
+  sessionCode,
+}: SessionMembersPanelProps) {
+  const [email, setEmail] = useState("");
+  const [inviteRole, setInviteRole] = useState<SessionMemberRole>("moderator");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  const membersKey = `/api/sessions/${sessionCode}/members`;
+  const { data, error, isLoading, mutate } = useSWR<ListSessionMembersResponse>(
+    membersKey,
+    fetcher,
+    {
+      revalidateOnFocus: true,
+    },
+  );
+
+  const members = data?.members || [];
+  const canManageMembers = hasSessionPermission(data?.role, "manage_members");
+
+  // Send a members request and refresh the list, surfacing API errors
+  const sendMemberRequest = async (url: string, init: RequestInit) => {
+    setActionError(null);
+
+    try {
+      const response = await fetch(url, {
+        ...init,
+        headers: { "Content-Type": "application/json" },
+      });
+
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}));
+        setActionError(body.message || "Failed to update members");
+        return false;
+      }
+
+      await mutate();
+      return true;
+    } catch {
+      setActionError("Network error. Please try again.");
+      return false;
+    }
+  };
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!email.trim()) return;
+
+    setIsSubmitting(true);
+    const invited = await sendMemberRequest(membersKey, {
+      method: "POST",
+      body: JSON.stringify({ email: email.trim(), role: inviteRole }),
+    });
+    setIsSubmitting(false);
+
+    if (invited) {
+      setEmail("");
+    }
+  };
+
+  const handleRoleChange = (memberId: string, role: SessionMemberRole) =>
+    sendMemberRequest(`${membersKey}/${memberId}`, {
+      method: "PATCH",
+      body: JSON.stringify({ role }),
+    });
+
+  const handleRemove = (memberId: string, memberEmail: string) => {
+    if (!confirm(`Remove ${memberEmail} from this session?`)) return;
+
+    return sendMemberRequest(`${membersKey}/${memberId}`, {
+      method: "DELETE",
+    });
+  };
+
+  return (
+    <div className="w-full max-w-4xl mx-auto space-y-4">
+      <div>
+        <h2 className="text-2xl font-bold text-gray-800">
+          Team ({members.length})
+        </h2>
+        <p className="text-gray-600 text-sm mt-1">
+          Co-hosts can run the session and answer questions; moderators approve
+          and dismiss questions
+        </p>
+      </div>
+
+      {(actionError || error) && (
+        <div className="bg-red-50 border-2 border-red-200 rounded-lg p-4 text-red-800">
+          {actionError || getErrorMessage(error)}
+        </div>
+      )}
+
+      {isLoading && !data ? (
+        <div className="text-center p-8 text-gray-600">Loading team...</div>
+      ) : (
+        <div className="bg-white rounded-lg shadow-md border-2 border-gray-200 divide-y divide-gray-200">
+          {members.map((member) => (
+            <div
+              key={member.id ?? "owner"}
+              className="flex items-center gap-4 p-4 flex-wrap"
+            >
+              <div className="flex-1 min-w-0">
+                <p className="text-gray-900 font-medium truncate">
+                  {member.name || member.email}
+                </p>
+                <p className="text-sm text-gray-500 truncate">
+                  {member.name && member.email}
+                  {!member.hasJoined && " · Invite pending"}
+                </p>
+              </div>
+
+              {canManageMembers && member.id ? (
+                <>
+                  <select
+                    value={member.role}
+                    onChange={(e) =>
+                      handleRoleChange(
+                        member.id as string,
+                        e.target.value as SessionMemberRole,
+                      )
+                    }
+                    className="px-3 py-1.5 border border-gray-300 rounded text-sm"
+                  >
+                    {SESSION_MEMBER_ROLES.map((role) => (
+                      <option key={role} value={role}>
+                        {SESSION_ROLE_LABELS[role]}
+                      </option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={() =>
+                      handleRemove(member.id as string, member.email)
+                    }
+                    className="px-3 py-1.5 rounded text-sm font-medium bg-red-50 text-red-700 hover:bg-red-100 border border-red-200"
+                  >
+                    Remove
+                  </button>
+                </>
+              ) : (
+                <span className="px-2 py-1 rounded text-xs font-medium bg-gray-100 text-gray-700">
+                  {SESSION_ROLE_LABELS[member.role]}
+                </span>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {canManageMembers && (
+        <form
+          onSubmit={handleInvite}
+          className="flex gap-2 flex-wrap items-center"
+        >
+          <input
+            type="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            placeholder="colleague@example.com"
+            className="flex-1 min-w-[200px] px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <select
+            value={inviteRole}
+            onChange={(e) => setInviteRole(e.target.value as SessionMemberRole)}
+            className="px-3 py-2 border border-gray-300 rounded-lg"
+          >
+            {SESSION_MEMBER_ROLES.map((role) => (
+              <option key={role} value={role}>
+                {SESSION_ROLE_LABELS[role]}
+              </option>
+            ))}
+          </select>
+          <button
+            type="submit"
+            disabled={isSubmitting || !email.trim()}
+            className="px-4 py-2 rounded-lg text-sm font-medium bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isSubmitting ? "Inviting..." : "Invite"}
+          </button>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,193 @@
+"use client";
+
+import { useState } from "react";
+import useSWR from "swr";
+import type {
+  GetPollsResponse,
+  PollResponseData,
+  SubmitPollResponseRequest,
+} from "@/types/poll";
+import { POLL_RATING_SCALE } from "@/types/poll";
+import { fetcher, getRefreshInterval } from "@/lib/swr-utils";
+import PollResultBars from "./PollResultBars";
+
+interface PollListProps {
+  sessionCode: string;
+  participantId: string;
+  /** Whether the session event stream is delivering live updates */
+  isStreamConnected?: boolean;
+}
+
+export default function PollList({
+  sessionCode,
+  participantId,
+  isStreamConnected = false,
+}: PollListProps) {
+  const { data, mutate } = useSWR<GetPollsResponse>(
+    participantId
+      ? `/api/sessions/${sessionCode}/polls?participantId=${participantId}`
+      : null,
+    fetcher,
+    {
+      refreshInterval: getRefreshInterval(isStreamConnected, 10000), // Poll every 10 seconds when the stream is down
+      revalidateOnFocus: true,
+    },
+  );
+
+  const polls = data?.polls || [];
+
+  if (polls.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-4">
+      <h2 className="text-xl font-bold text-gray-800">Polls</h2>
+      {polls.map((poll) => (
+        <PollCard
+          key={poll.id}
+          poll={poll}
+          participantId={participantId}
+          onResponded={() => mutate()}
+        />
+      ))}
+    </div>
+  );
+}
+
+interface PollCardProps {
+  poll: PollResponseData;
+  participantId: string;
+  onResponded: () => void;
+}
+
+function PollCard({ poll, participantId, onResponded }: PollCardProps) {
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [rating, setRating] = useState<number | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const canRespond = poll.status === "open" && !poll.hasResponded;
+  const hasAnswer =
+    poll.type === "rating" ? rating !== null : selectedIds.length > 0;
+
+  const toggleOption = (optionId: string) => {
+    if (poll.type === "multiple_choice") {
+      setSelectedIds([optionId]);
+      return;
+    }
+    setSelectedIds((current) =>
+      current.includes(optionId)
+        ? current.filter((id) => id !== optionId)
+        : [...current, optionId],
+    );
+  };
+
+  const handleSubmit = async () => {
+    setIsSubmitting(true);
+    setError(null);
+
+    const body: SubmitPollResponseRequest =
+      poll.type === "rating"
+        ? { participantId, rating: rating ?? undefined }
+        : { participantId, optionIds: selectedIds };
+
+    try {
+      const response = await fetch(`/api/polls/${poll.id}/responses`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(body),
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        setError(data.message || "Failed to submit your answer");
+        return;
+      }
+
+      onResponded();
+    } catch (submitError) {
+      console.error("Error answering poll:", submitError);
+      setError("Failed to submit your answer");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-md border-2 border-purple-200 p-5">
+      <div className="flex items-center gap-2 flex-wrap mb-3">
+        <span className="px-2 py-1 rounded text-xs font-medium bg-purple-100 text-purple-800">
+          📊 Poll
+        </span>
+        {poll.status === "closed" && (
+          <span className="px-2 py-1 rounded text-xs font-medium bg-gray-100 text-gray-700">
+            Closed
+          </span>
+        )}
+      </div>
+      <p className="text-gray-900 text-base font-medium mb-3 break-words">
+        {poll.question}
+      </p>
+
+      {canRespond ? (
+        <div className="space-y-3">
+          {poll.type === "rating" ? (
+            <div className="flex gap-2">
+              {Array.from({ length: POLL_RATING_SCALE }, (_, index) => {
+                const score = index + 1;
+                return (
+                  <button
+                    key={score}
+                    onClick={() => setRating(score)}
+                    aria-label={`Rate ${score} of ${POLL_RATING_SCALE}`}
+                    className={`w-10 h-10 rounded-lg border-2 font-bold transition-colors ${
+                      rating === score
+                        ? "bg-purple-600 text-white border-purple-600"
+                        : "bg-white text-gray-700 border-gray-300 hover:border-purple-400"
+                    }`}
+                  >
+                    {score}
+                  </button>
+                );
+              })}
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {poll.results.options.map((option) => (
+                <label
+                  key={option.id}
+                  className="flex items-center gap-2 text-gray-800 cursor-pointer"
+                >
+                  <input
+                    type={
+                      poll.type === "multiple_choice" ? "radio" : "checkbox"
+                    }
+                    name={`poll-${poll.id}`}
+                    checked={selectedIds.includes(option.id)}
+                    onChange={() => toggleOption(option.id)}
+                    className="h-4 w-4"
+                  />
+                  <span className="break-words min-w-0">{option.label}</span>
+                </label>
+              ))}
+            </div>
+          )}
+          <button
+            onClick={handleSubmit}
+            disabled={isSubmitting || !hasAnswer}
+            className="px-4 py-2 rounded text-sm font-medium bg-purple-600 text-white hover:bg-purple-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isSubmitting ? "Submitting..." : "Submit"}
+          </button>
+        </div>
+      ) : (
+        <PollResultBars type={poll.type} results={poll.results} />
+      )}
+
+      {error && <p className="mt-2 text-sm text-red-700">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,47 @@
+"use client";
+
+import type { PollResults, PollType } from "@/types/poll";
+
+interface PollResultBarsProps {
+  type: PollType;
+  results: PollResults;
+}
+
+export default function PollResultBars({ type, results }: PollResultBarsProps) {
+  const { totalResponses, options, averageRating } = results;
+
+  return (
+    <div className="space-y-2">
+      {options.map((option) => {
+        // Multi-select bars are a share of respondents, so they can add up past 100%
+        const percent =
+          totalResponses > 0
+            ? Math.round((option.count / totalResponses) * 100)
+            : 0;
+
+        return (
+          <div key={option.id}>
+            <div className="flex justify-between text-sm text-gray-700 mb-1">
+              <span className="break-words min-w-0">
+                {type === "rating" ? `${option.label} ★` : option.label}
+              </span>
+              <span className="font-medium ml-2 flex-shrink-0">
+                {option.count} ({percent}%)
+              </span>
+            </div>
+            <div className="h-2.5 rounded-full bg-gray-100 overflow-hidden">
+              <div
+                className="h-full rounded-full bg-blue-500 transition-all duration-500"
+                style={{ width: `${percent}%` }}
+              />
+            </div>
+          </div>
+        );
+      })}
+      <p className="text-xs text-gray-500">
+        {totalResponses} {totalResponses === 1 ? "response" : "responses"}
+        {averageRating !== null && ` · Average ${averageRating}`}
+      </p>
+    </div>
+  );
+}
@@ -2,72 +2,85 @@
 
 import { useState, useEffect } from "react";
 import type { PulseCheckFeedbackType } from "@prisma/client";
+import type { PulseScalePoint } from "@/types/pulse-check";
+import {
+  DEFAULT_PULSE_SCALE,
+  PULSE_COMMENT_MAX_LENGTH,
+  getFeedbackScore,
+} from "@/lib/pulse-check";
 
 interface PulseCheckProps {
   questionId: string;
   participantId: string;
   sessionCode: string;
+  /** Points on the session's scale, lowest first */
+  scale?: PulseScalePoint[];
 }
 
-const FEEDBACK_OPTIONS: Array<{
-  type: PulseCheckFeedbackType;
-  emoji: string;
-  label: string;
-  color: string;
-}> = [
-  { type: "helpful", emoji: "💚", label: "Helpful", color: "bg-green-100" },
-  { type: "neutral", emoji: "💛", label: "Neutral", color: "bg-yellow-100" },
-  {
-    type: "not_helpful",
-    emoji: "🔴",
-    label: "Not helpful",
-    color: "bg-red-100",
-  },
-];
+// Scores by question ID; feedback saved before scales existed is a type name
+type StoredPulseChecks = Record<string, number | PulseCheckFeedbackType>;
+
+/** Background colour for a point, from red (lowest) to green (highest) */
+function getPointColor(score: number, scaleLength: number): string {
+  const position = (score - 1) / (scaleLength - 1);
+  if (position < 1 / 3) return "bg-red-100";
+  if (position < 2 / 3) return "bg-yellow-100";
+  return "bg-green-100";
+}
+
+/** Read a session's saved pulse checks, ignoring invalid data */
+function readPulseChecks(storageKey: string): StoredPulseChecks {
+  try {
+    return JSON.parse(localStorage.getItem(storageKey) || "{}");
+  } catch {
+    return {};
+  }
+}
 
 export default function PulseCheck({
   questionId,
   participantId,
   sessionCode,
+  scale = DEFAULT_PULSE_SCALE,
 }: PulseCheckProps) {
-  const [submittedFeedback, setSubmittedFeedback] =
-    useState<PulseCheckFeedbackType | null>(null);
+  const [selectedScore, setSelectedScore] = useState<number | null>(null);
+  const [comment, setComment] = useState("");
+  const [submittedScore, setSubmittedScore] = useState<number | null>(null);
   const [error, setError] = useState("");
 
+  const storageKey = `pulse_check_${sessionCode}`;
+
   // Load submitted feedback from localStorage
   useEffect(() => {
-    const storageKey = `pulse_check_${sessionCode}`;
-    const stored = localStorage.getItem(storageKey);
-    if (stored) {
-      try {
-        const parsed = JSON.parse(stored) as Record<
-          string,
-          PulseCheckFeedbackType
-        >;
-        if (parsed[questionId]) {
-          setSubmittedFeedback(parsed[questionId]);
-        }
-      } catch {
-        // Invalid data, ignore
-      }
-    }
+    const stored = readPulseChecks(`pulse_check_${sessionCode}`)[questionId];
+    if (stored === undefined) return;
+
+    setSubmittedScore(
+      typeof stored === "number"
+        ? stored
+        : getFeedbackScore({ score: null, feedback: stored }),
+    );
   }, [questionId, sessionCode]);
 
-  const handleFeedbackSubmit = async (feedback: PulseCheckFeedbackType) => {
-    if (submittedFeedback) return; // Already submitted
+  const forgetSubmission = () => {
+    const pulseChecks = readPulseChecks(storageKey);
+    delete pulseChecks[questionId];
+    localStorage.setItem(storageKey, JSON.stringify(pulseChecks));
+  };
+
+  const handleFeedbackSubmit = async () => {
+    if (submittedScore || selectedScore === null) return; // Already submitted
 
     // Optimistic update: Update UI immediately
-    setSubmittedFeedback(feedback);
+    const score = selectedScore;
+    setSubmittedScore(score);
     setError("");
 
     // Save to localStorage immediately
-    const storageKey = `pulse_check_${sessionCode}`;
-    const stored = localStorage.getItem(storageKey);
-    const pulseChecks: Record<string, PulseCheckFeedbackType> = stored
-      ? JSON.parse(stored)
-      : {};
-    pulseChecks[questionId] = feedback;
-    localStorage.setItem(storageKey, JSON.stringify(pulseChecks));
+    localStorage.setItem(
+      storageKey,
+      JSON.stringify({ ...readPulseChecks(storageKey), [questionId]: score }),
+    );
 
     try {
       // Fire API request in background
@@ -76,7 +89,11 @@ export default function PulseCheck({
         headers: {
           "Content-Type": "application/json",
         },
-        body: JSON.stringify({ participantId, feedback }),
+        body: JSON.stringify({
+          participantId,
+          score,
+          comment: comment.trim() || undefined,
+        }),
       });
 
       // If API fails, revert the optimistic update
@@ -89,38 +106,20 @@ export default function PulseCheck({
         }
 
         // For other errors, revert
-        setSubmittedFeedback(null);
+        setSubmittedScore(null);
         setError(data.message || "Failed to submit feedback");
-
-        // Remove from localStorage
-        const stored = localStorage.getItem(storageKey);
-        if (stored) {
-          const pulseChecks: Record<string, PulseCheckFeedbackType> =
-            JSON.parse(stored);
-          delete pulseChecks[questionId];
-          localStorage.setItem(storageKey, JSON.stringify(pulseChecks));
-        }
+        forgetSubmission();
       }
     } catch {
       // Network error - revert optimistic update
-      setSubmittedFeedback(null);
+      setSubmittedScore(null);
       setError("Network error. Please try again.");
-
-      // Remove from localStorage
-      const stored = localStorage.getItem(storageKey);
-      if (stored) {
-        const pulseChecks: Record<string, PulseCheckFeedbackType> =
-          JSON.parse(stored);
-        delete pulseChecks[questionId];
-        localStorage.setItem(storageKey, JSON.stringify(pulseChecks));
-      }
+      forgetSubmission();
     }
   };
 
-  if (submittedFeedback) {
-    const selectedOption = FEEDBACK_OPTIONS.find(
-      (opt) => opt.type === submittedFeedback,
-    );
+  if (submittedScore) {
+    const selectedOption = scale[submittedScore - 1];
     return (
       <div className="mt-3 pt-3 border-t border-gray-200">
         <div className="flex items-center gap-2 text-sm text-gray-600">
@@ -147,20 +146,48 @@ export default function PulseCheck({
       )}
 
       <div className="flex gap-2">
-        {FEEDBACK_OPTIONS.map((option) => (
-          <button
-            key={option.type}
-            onClick={() => handleFeedbackSubmit(option.type)}
-            className={`flex-1 ${option.color} hover:opacity-80 transition-opacity rounded-lg py-3 px-2 flex flex-col items-center gap-1 min-h-[56px]`}
-            aria-label={`Rate as ${option.label}`}
-          >
-            <span className="text-2xl">{option.emoji}</span>
-            <span className="text-xs font-medium text-gray-700">
-              {option.label}
-            </span>
-          </button>
-        ))}
+        {scale.map((option, index) => {
+          const score = index + 1;
+          return (
+            <button
+              key={score}
+              onClick={() => setSelectedScore(score)}
+              className={`flex-1 ${getPointColor(score, scale.length)} hover:opacity-80 transition-opacity rounded-lg py-3 px-2 flex flex-col items-center gap-1 min-h-[56px] ${
+                selectedScore === score ? "ring-2 ring-blue-500" : ""
+              }`}
+              aria-label={`Rate as ${option.label}`}
+              aria-pressed={selectedScore === score}
+            >
+              {option.emoji && <span className="text-2xl">{option.emoji}</span>}
+              <span className="text-xs font-medium text-gray-700">
+                {option.label}
+              </span>
+            </button>
+          );
+        })}
       </div>
+
+      {selectedScore !== null && (
+        <div className="mt-2 space-y-2">
+          <textarea
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            maxLength={PULSE_COMMENT_MAX_LENGTH}
+            rows={2}
+            placeholder="Add a comment for the host (optional)"
+            aria-label="Pulse check comment"
+            className="w-full px-3 py-2 border border-gray-300 rounded text-sm"
+          />
+          <div className="flex justify-end">
+            <button
+              onClick={handleFeedbackSubmit}
+              className="px-3 py-1.5 rounded text-sm font-medium bg-blue-600 text-white hover:bg-blue-700"
+            >
+              Send feedback
+            </button>
+          </div>
+        </div>
+      )}
     </div>
   );
 }
@@ -1,7 +1,13 @@
 "use client";
 
+import { useState } from "react";
 import type { QuestionResponse } from "@/types/question";
-import { PULSE_CHECK_EMOJIS } from "@/types/question";
+import type { PulseScalePoint } from "@/types/pulse-check";
+import { REPLY_VALIDATION } from "@/types/question-reply";
+import {
+  getEditOwnQuestionError,
+  getWithdrawOwnQuestionError,
+} from "@/lib/question-utils";
 import PulseCheck from "./PulseCheck";
 
 interface QuestionCardProps {
@@ -10,6 +16,16 @@ interface QuestionCardProps {
   sessionCode: string;
   isVotedByMe: boolean;
   onVoteChange: (questionId: string, voted: boolean) => void;
+  /** Whether the current participant asked this question */
+  isOwnQuestion?: boolean;
+  /** Called after the participant edits or withdraws their question */
+  onOwnQuestionChanged?: () => void;
+  /** Whether the session lets participants reply */
+  allowReplies?: boolean;
+  /** Called after the participant posts a reply */
+  onReplyPosted?: () => void;
+  /** Points on the session's pulse check scale */
+  pulseScale?: PulseScalePoint[];
 }
 
 export default function QuestionCard({
@@ -18,7 +34,106 @@ export default function QuestionCard({
   sessionCode,
   isVotedByMe,
   onVoteChange,
+  isOwnQuestion = false,
+  onOwnQuestionChanged,
+  allowReplies = false,
+  onReplyPosted,
+  pulseScale,
 }: QuestionCardProps) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(question.content);
+  const [isSaving, setIsSaving] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [isReplying, setIsReplying] = useState(false);
+  const [replyDraft, setReplyDraft] = useState("");
+
+  const replies = question.replies ?? [];
+
+  // Checked on render; the API enforces the edit window either way
+  const canEdit = isOwnQuestion && getEditOwnQuestionError(question) === null;
+  const canWithdraw =
+    isOwnQuestion && getWithdrawOwnQuestionError(question) === null;
+
+  // Send an edit or withdrawal for the participant's own question
+  const updateOwnQuestion = async (
+    method: "PATCH" | "DELETE",
+    body: Record<string, string>,
+  ): Promise<boolean> => {
+    setIsSaving(true);
+    setActionError(null);
+
+    try {
+      const response = await fetch(
+        `/api/questions/${question.id}/participant`,
+        {
+          method,
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({ participantId, ...body }),
+        },
+      );
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        setActionError(data.message || "Failed to update your question");
+        return false;
+      }
+
+      onOwnQuestionChanged?.();
+      return true;
+    } catch (error) {
+      console.error("Error updating own question:", error);
+      setActionError("Failed to update your question");
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSaveEdit = async () => {
+    if (await updateOwnQuestion("PATCH", { content: draft.trim() })) {
+      setIsEditing(false);
+    }
+  };
+
+  const handleWithdraw = async () => {
+    if (!window.confirm("Withdraw this question? Its votes will be lost.")) {
+      return;
+    }
+    await updateOwnQuestion("DELETE", {});
+  };
+
+  const handleReply = async () => {
+    setIsSaving(true);
+    setActionError(null);
+
+    try {
+      const response = await fetch(`/api/questions/${question.id}/replies`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ content: replyDraft.trim() }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        setActionError(data.message || "Failed to post your reply");
+        return;
+      }
+
+      setReplyDraft("");
+      setIsReplying(false);
+      onReplyPosted?.();
+    } catch (error) {
+      console.error("Error posting reply:", error);
+      setActionError("Failed to post your reply");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
   const handleVoteToggle = async () => {
     // Optimistic update: Update UI immediately BEFORE API call
     const newVotedState = !isVotedByMe;
@@ -112,12 +227,142 @@ export default function QuestionCard({
               {authorDisplay}
             </span>
             {getStatusBadge()}
+            {question.editedByHost && (
+              <span className="px-2 py-1 rounded text-xs font-medium bg-gray-100 text-gray-600">
+                Edited by host
+              </span>
+            )}
           </div>
 
           {/* Question text */}
-          <p className="text-gray-900 text-base leading-relaxed break-words">
-            {question.content}
-          </p>
+          {isEditing ? (
+            <div className="space-y-2">
+              <textarea
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                rows={3}
+                aria-label="Edit your question"
+                className="w-full px-3 py-2 border border-gray-300 rounded text-base"
+              />
+              <div className="flex gap-2">
+                <button
+                  onClick={handleSaveEdit}
+                  disabled={isSaving || draft.trim().length === 0}
+                  className="px-3 py-1.5 rounded text-sm font-medium bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Save
+                </button>
+                <button
+                  onClick={() => {
+                    setIsEditing(false);
+                    setActionError(null);
+                  }}
+                  className="px-3 py-1.5 rounded text-sm font-medium bg-white text-gray-700 hover:bg-gray-100 border border-gray-200"
+                >
+                  Cancel
+                </button>
+              </div>
+            </div>
+          ) : (
+            <p className="text-gray-900 text-base leading-relaxed break-words">
+              {question.content}
+            </p>
+          )}
+
+          {/* Controls for the participant's own question */}
+          {(canEdit || canWithdraw) && !isEditing && (
+            <div className="flex items-center gap-3 mt-2 text-sm">
+              <span className="text-gray-500">Your question</span>
+              {canEdit && (
+                <button
+                  onClick={() => {
+                    setDraft(question.content);
+                    setActionError(null);
+                    setIsEditing(true);
+                  }}
+                  disabled={isSaving}
+                  className="text-blue-600 hover:text-blue-800 font-medium disabled:opacity-50"
+                >
+                  Edit
+                </button>
+              )}
+              {canWithdraw && (
+                <button
+                  onClick={handleWithdraw}
+                  disabled={isSaving}
+                  className="text-red-600 hover:text-red-800 font-medium disabled:opacity-50"
+                >
+                  Withdraw
+                </button>
+              )}
+            </div>
+          )}
+          {/* Host answers and participant replies, oldest first */}
+          {replies.length > 0 && (
+            <ul className="mt-3 space-y-2">
+              {replies.map((reply) => (
+                <li
+                  key={reply.id}
+                  className={`rounded-lg p-3 text-sm ${
+                    reply.authorType === "host"
+                      ? "bg-green-50 border border-green-200"
+                      : "bg-gray-50 border border-gray-200"
+                  }`}
+                >
+                  <span className="font-medium text-gray-700">
+                    {reply.authorType === "host" ? "Answer from " : ""}
+                    {reply.authorName || "Anonymous"}
+                  </span>
+                  <p className="text-gray-900 mt-1 break-words">
+                    {reply.content}
+                  </p>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {allowReplies &&
+            (isReplying ? (
+              <div className="mt-3 space-y-2">
+                <textarea
+                  value={replyDraft}
+                  onChange={(e) => setReplyDraft(e.target.value)}
+                  rows={2}
+                  maxLength={REPLY_VALIDATION.maxLength}
+                  aria-label="Write a reply"
+                  placeholder="Write a reply..."
+                  className="w-full px-3 py-2 border border-gray-300 rounded text-sm"
+                />
+                <div className="flex gap-2">
+                  <button
+                    onClick={handleReply}
+                    disabled={isSaving || replyDraft.trim().length === 0}
+                    className="px-3 py-1.5 rounded text-sm font-medium bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    Reply
+                  </button>
+                  <button
+                    onClick={() => {
+                      setIsReplying(false);
+                      setActionError(null);
+                    }}
+                    className="px-3 py-1.5 rounded text-sm font-medium bg-white text-gray-700 hover:bg-gray-100 border border-gray-200"
+                  >
+                    Cancel
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <button
+                onClick={() => setIsReplying(true)}
+                className="mt-2 text-sm text-blue-600 hover:text-blue-800 font-medium"
+              >
+                Reply
+              </button>
+            ))}
+          {actionError && (
+            <p className="mt-2 text-sm text-red-700">{actionError}</p>
+          )}
 
           {/* Pulse check for answered questions */}
           {isAnswered && (
@@ -126,29 +371,22 @@ export default function QuestionCard({
                 questionId={question.id}
                 participantId={participantId}
                 sessionCode={sessionCode}
+                scale={pulseScale}
               />
-              {/* Display pulse check stats */}
-              {question.pulseCheckStats && (
-                <div className="mt-2 flex items-center gap-3 text-sm">
+              {/* Display pulse check results, best rating first */}
+              {question.pulseSummary && question.pulseSummary.responses > 0 && (
+                <div className="mt-2 flex items-center gap-3 flex-wrap text-sm">
                   <span className="text-gray-600 font-medium">Feedback:</span>
-                  <span className="flex items-center gap-1">
-                    {PULSE_CHECK_EMOJIS.helpful}{" "}
-                    <span className="font-medium">
-                      {question.pulseCheckStats.helpful}
-                    </span>
-                  </span>
-                  <span className="flex items-center gap-1">
-                    {PULSE_CHECK_EMOJIS.neutral}{" "}
-                    <span className="font-medium">
-                      {question.pulseCheckStats.neutral}
+                  {[...question.pulseSummary.points].reverse().map((point) => (
+                    <span
+                      key={point.score}
+                      className="flex items-center gap-1"
+                      title={point.label}
+                    >
+                      {point.emoji || point.label}{" "}
+                      <span className="font-medium">{point.count}</span>
                     </span>
-                  </span>
-                  <span className="flex items-center gap-1">
-                    {PULSE_CHECK_EMOJIS.not_helpful}{" "}
-                    <span className="font-medium">
-                      {question.pulseCheckStats.not_helpful}
-                    </span>
-                  </span>
+                  ))}
                 </div>
               )}
             </div>
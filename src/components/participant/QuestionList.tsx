@@ -4,13 +4,20 @@ import { useEffect, useState, useRef } from "react";
 import useSWR from "swr";
 import { motion, AnimatePresence } from "framer-motion";
 import type { GetQuestionsResponse } from "@/types/question";
+import type { PulseScalePoint } from "@/types/pulse-check";
 import { sortQuestions } from "@/lib/question-utils";
-import { fetcher } from "@/lib/swr-utils";
+import { fetcher, getRefreshInterval } from "@/lib/swr-utils";
 import QuestionCard from "./QuestionCard";
 
 interface QuestionListProps {
   sessionCode: string;
   participantId: string;
+  /** Whether the session event stream is delivering live updates */
+  isStreamConnected?: boolean;
+  /** Whether participants may reply to questions */
+  allowReplies?: boolean;
+  /** Points on the session's pulse check scale */
+  pulseScale?: PulseScalePoint[];
   scrollToQuestionId?: string | null;
   onScrollComplete?: () => void;
 }
@@ -18,6 +25,9 @@ interface QuestionListProps {
 export default function QuestionList({
   sessionCode,
   participantId,
+  isStreamConnected = false,
+  allowReplies = false,
+  pulseScale,
   scrollToQuestionId,
   onScrollComplete,
 }: QuestionListProps) {
@@ -28,7 +38,7 @@ export default function QuestionList({
     isLoading,
     mutate,
   } = useSWR<GetQuestionsResponse>(`/api/sessions/${sessionCode}/questions`, fetcher, {
-    refreshInterval: 10000, // Poll every 10 seconds
+    refreshInterval: getRefreshInterval(isStreamConnected, 10000), // Poll every 10 seconds when the stream is down
     revalidateOnFocus: true, // Refetch when user returns to tab
     dedupingInterval: 2000, // Deduplicate requests within 2s
   });
@@ -264,6 +274,11 @@ export default function QuestionList({
                   sessionCode={sessionCode}
                   isVotedByMe={votedQuestions.has(question.id)}
                   onVoteChange={handleVoteChange}
+                  isOwnQuestion={question.participantId === participantId}
+                  onOwnQuestionChanged={() => mutate()}
+                  allowReplies={allowReplies}
+                  pulseScale={pulseScale}
+                  onReplyPosted={() => mutate()}
                 />
               </motion.div>
             );
@@ -1,16 +1,28 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { mutate } from "swr";
 import { createId } from "@paralleldrive/cuid2";
-import type { SubmitQuestionRequest } from "@/types/question";
+import type {
+  GetSimilarQuestionsResponse,
+  SimilarQuestion,
+  SubmitQuestionRequest,
+} from "@/types/question";
+import { SIMILAR_QUESTION_MIN_LENGTH } from "@/lib/question-duplicates";
+
+// Wait for a pause in typing before looking up similar questions
+const SIMILAR_LOOKUP_DELAY_MS = 400;
 
 interface QuestionSubmitFormProps {
   sessionCode: string;
   participantId: string;
   participantName: string;
   isAcceptingQuestions: boolean;
+  /** Session holds new questions for host approval */
+  requireApproval?: boolean;
   onQuestionSubmitted?: (questionId: string) => void;
+  /** Called when the participant picks a suggested similar question */
+  onSimilarQuestionSelected?: (questionId: string) => void;
 }
 
 export default function QuestionSubmitForm({
@@ -18,11 +30,47 @@ export default function QuestionSubmitForm({
   participantId,
   participantName,
   isAcceptingQuestions,
+  requireApproval = false,
   onQuestionSubmitted,
+  onSimilarQuestionSelected,
 }: QuestionSubmitFormProps) {
   const [content, setContent] = useState("");
   const [isAnonymous, setIsAnonymous] = useState(false);
   const [errorMessage, setErrorMessage] = useState("");
+  const [pendingNotice, setPendingNotice] = useState(false);
+  const [similarQuestions, setSimilarQuestions] = useState<SimilarQuestion[]>(
+    [],
+  );
+
+  // Suggest existing questions while the participant types
+  useEffect(() => {
+    const draft = content.trim();
+    if (draft.length < SIMILAR_QUESTION_MIN_LENGTH) {
+      setSimilarQuestions([]);
+      return;
+    }
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(async () => {
+      try {
+        const response = await fetch(
+          `/api/sessions/${sessionCode}/questions/similar?content=${encodeURIComponent(draft)}`,
+          { signal: controller.signal },
+        );
+        if (!response.ok) return;
+
+        const data: GetSimilarQuestionsResponse = await response.json();
+        setSimilarQuestions(data.questions);
+      } catch {
+        // Suggestions are best-effort - ignore aborted or failed lookups
+      }
+    }, SIMILAR_LOOKUP_DELAY_MS);
+
+    return () => {
+      clearTimeout(timeoutId);
+      controller.abort();
+    };
+  }, [content, sessionCode]);
 
   const maxCharacters = 100000;
   const isContentValid = content.length > 0 && content.length <= maxCharacters;
@@ -66,25 +114,29 @@ export default function QuestionSubmitForm({
     setContent("");
     setIsAnonymous(false);
     setErrorMessage("");
+    setPendingNotice(false);
 
-    // Add optimistic question to the list
-    mutate(
-      `/api/sessions/${sessionCode}/questions`,
-      (currentData: { questions: typeof optimisticQuestion[] } | undefined) => {
-        if (!currentData) {
-          return { questions: [optimisticQuestion], total: 1 };
-        }
-        return {
-          questions: [optimisticQuestion, ...currentData.questions],
-          total: currentData.questions.length + 1,
-        };
-      },
-      { revalidate: false }
-    );
-
-    // Notify parent to scroll to the optimistic question
-    if (onQuestionSubmitted) {
-      onQuestionSubmitted(questionId);
+    // Add optimistic question to the list - skipped when the question will be
+    // held for approval, since it won't appear in the public list yet
+    if (!requireApproval) {
+      mutate(
+        `/api/sessions/${sessionCode}/questions`,
+        (currentData: { questions: typeof optimisticQuestion[] } | undefined) => {
+          if (!currentData) {
+            return { questions: [optimisticQuestion], total: 1 };
+          }
+          return {
+            questions: [optimisticQuestion, ...currentData.questions],
+            total: currentData.questions.length + 1,
+          };
+        },
+        { revalidate: false }
+      );
+
+      // Notify parent to scroll to the optimistic question
+      if (onQuestionSubmitted) {
+        onQuestionSubmitted(questionId);
+      }
     }
 
     try {
@@ -143,6 +195,11 @@ export default function QuestionSubmitForm({
         return;
       }
 
+      // Held for moderation - let the participant know why it isn't listed
+      if (data.question?.status === "pending") {
+        setPendingNotice(true);
+      }
+
       // Success - revalidate from server
       // Server will return the question with the same ID we sent,
       // so framer-motion sees it as the same element (no animation glitch)
@@ -204,6 +261,36 @@ export default function QuestionSubmitForm({
           />
         </div>
 
+        {/* Similar questions already asked */}
+        {isAcceptingQuestions && similarQuestions.length > 0 && (
+          <div className="bg-amber-50 border border-amber-200 rounded-lg p-4">
+            <p className="text-amber-900 text-sm font-medium mb-2">
+              Similar questions have already been asked. Upvote one instead?
+            </p>
+            <ul className="space-y-2">
+              {similarQuestions.map((question) => (
+                <li key={question.id} className="flex items-center gap-3">
+                  <span className="flex-1 min-w-0 text-sm text-gray-800 break-words">
+                    {question.content}
+                  </span>
+                  <span className="text-xs text-gray-500 flex-shrink-0">
+                    ▲ {question.voteCount}
+                  </span>
+                  {onSimilarQuestionSelected && (
+                    <button
+                      type="button"
+                      onClick={() => onSimilarQuestionSelected(question.id)}
+                      className="flex-shrink-0 px-3 py-1.5 rounded text-sm font-medium bg-white text-blue-700 border border-blue-200 hover:bg-blue-50"
+                    >
+                      View &amp; upvote
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
         {/* Anonymous checkbox */}
         <div className="flex items-center">
           <input
@@ -223,6 +310,16 @@ export default function QuestionSubmitForm({
           </label>
         </div>
 
+        {/* Awaiting approval notice */}
+        {pendingNotice && (
+          <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
+            <p className="text-blue-800 text-sm">
+              Thanks! Your question has been sent to the host and will appear
+              once it&apos;s approved.
+            </p>
+          </div>
+        )}
+
         {/* Error message */}
         {errorMessage && (
           <div className="bg-red-50 border border-red-200 rounded-lg p-4">
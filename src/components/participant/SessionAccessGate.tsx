@@ -0,0 +1,120 @@
+"use client";
+
+import { useState } from "react";
+import { signIn, signOut } from "next-auth/react";
+import type { SessionAccessMode } from "@/types/session";
+
+interface SessionAccessGateProps {
+  sessionCode: string;
+  /** Access mode the session reported when refusing access */
+  accessMode: SessionAccessMode;
+  /** Error code from the access check */
+  reason: string;
+  /** Called once a passcode has been accepted */
+  onAccessGranted: () => void;
+}
+
+/**
+ * Shown instead of the session when the participant isn't allowed in yet:
+ * asks for the passcode, or for a sign-in with a suitable account
+ */
+export default function SessionAccessGate({
+  sessionCode,
+  accessMode,
+  reason,
+  onAccessGranted,
+}: SessionAccessGateProps) {
+  const [passcode, setPasscode] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState("");
+
+  const handlePasscodeSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!passcode.trim()) return;
+
+    setIsSubmitting(true);
+    setError("");
+
+    try {
+      const response = await fetch(`/api/sessions/${sessionCode}/access`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ passcode }),
+      });
+
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}));
+        setError(body.message || "Failed to check passcode");
+        return;
+      }
+
+      onAccessGranted();
+    } catch {
+      setError("Network error. Please try again.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 px-4 py-8">
+      <div className="max-w-md w-full bg-white rounded-lg shadow-md p-8 text-center">
+        <div className="text-5xl mb-4">🔒</div>
+        <h1 className="text-2xl font-bold text-gray-900 mb-2">
+          This session is restricted
+        </h1>
+
+        {accessMode === "passcode" ? (
+          <form onSubmit={handlePasscodeSubmit}>
+            <p className="text-gray-600 mb-6">
+              Enter the passcode from the host to join.
+            </p>
+            <input
+              type="password"
+              value={passcode}
+              onChange={(e) => setPasscode(e.target.value)}
+              placeholder="Passcode"
+              autoFocus
+              className="w-full px-4 py-3 border border-gray-300 rounded-lg mb-4 text-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+            {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+            <button
+              type="submit"
+              disabled={isSubmitting || !passcode.trim()}
+              className="w-full px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-lg font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isSubmitting ? "Checking..." : "Join Session"}
+            </button>
+          </form>
+        ) : reason === "EMAIL_DOMAIN_NOT_ALLOWED" ? (
+          <>
+            <p className="text-gray-600 mb-6">
+              Your account&apos;s email domain isn&apos;t allowed to join. Sign
+              in with your work account instead.
+            </p>
+            <button
+              onClick={() => signOut()}
+              className="w-full px-6 py-3 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors text-lg font-medium"
+            >
+              Sign Out
+            </button>
+          </>
+        ) : (
+          <>
+            <p className="text-gray-600 mb-6">
+              {accessMode === "email_domain"
+                ? "Sign in with your work account to join."
+                : "Sign in to join this session."}
+            </p>
+            <button
+              onClick={() => signIn()}
+              className="w-full px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-lg font-medium"
+            >
+              Sign In
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
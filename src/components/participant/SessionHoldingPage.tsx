@@ -0,0 +1,56 @@
+"use client";
+
+interface SessionHoldingPageProps {
+  title: string;
+  description?: string;
+  /** ISO timestamp of the scheduled start */
+  startsAt: string;
+  /** Milliseconds until the session starts */
+  msRemaining: number;
+}
+
+/**
+ * Format a countdown as "2d 3h 4m" / "3h 4m 5s" / "4m 5s"
+ */
+function formatCountdown(ms: number): string {
+  const totalSeconds = Math.max(0, Math.ceil(ms / 1000));
+  const days = Math.floor(totalSeconds / 86400);
+  const hours = Math.floor((totalSeconds % 86400) / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+
+  if (days > 0) return `${days}d ${hours}h ${minutes}m`;
+  if (hours > 0) return `${hours}h ${minutes}m ${seconds}s`;
+  return `${minutes}m ${seconds}s`;
+}
+
+export default function SessionHoldingPage({
+  title,
+  description,
+  startsAt,
+  msRemaining,
+}: SessionHoldingPageProps) {
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 px-4 py-8">
+      <div className="max-w-md w-full bg-white rounded-lg shadow-md p-8 text-center">
+        <div className="text-5xl mb-4">⏰</div>
+        <h1 className="text-3xl font-bold text-gray-900 mb-2">{title}</h1>
+        {description && <p className="text-gray-600 mb-6">{description}</p>}
+
+        <div className="border-t border-gray-200 my-6"></div>
+
+        <p className="text-gray-700 mb-1">This session starts at</p>
+        <p className="text-xl font-semibold text-gray-900 mb-4">
+          {new Date(startsAt).toLocaleString()}
+        </p>
+        <p className="text-sm text-gray-600">
+          Opens in{" "}
+          <span className="font-mono font-semibold text-blue-600">
+            {formatCountdown(msRemaining)}
+          </span>
+          . Keep this page open - it will open automatically.
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,184 @@
+/**
+ * Sign-in providers
+ *
+ * Each provider is switched on by its environment variables, so a
+ * deployment only offers the ones it has credentials for:
+ *
+ * - Google: GOOGLE_CLIENT_ID, GOOGLE_CLIENT_SECRET
+ * - GitHub: GITHUB_CLIENT_ID, GITHUB_CLIENT_SECRET
+ * - Azure AD: AZURE_AD_CLIENT_ID, AZURE_AD_CLIENT_SECRET, AZURE_AD_TENANT_ID
+ * - Any OpenID Connect issuer: OIDC_ISSUER, OIDC_CLIENT_ID,
+ *   OIDC_CLIENT_SECRET (OIDC_NAME labels the button)
+ * - Email magic links: EMAIL_SERVER, EMAIL_FROM
+ * - Development login: ENABLE_DEV_LOGIN="true", never in production.
+ *   Signs in as any email address without a password, so local and
+ *   end-to-end testing works offline.
+ *
+ * Session access is granted by email address (co-host invites, allowed
+ * domains), so OpenID Connect sign-ins are refused unless the issuer says
+ * the address is verified - see hasVerifiedEmail.
+ */
+
+import type { Provider } from "next-auth/providers/index";
+import AzureADProvider from "next-auth/providers/azure-ad";
+import CredentialsProvider from "next-auth/providers/credentials";
+import EmailProvider from "next-auth/providers/email";
+import GitHubProvider from "next-auth/providers/github";
+import GoogleProvider from "next-auth/providers/google";
+import { prisma } from "./db";
+
+type AuthEnv = Record<string, string | undefined>;
+
+/** Provider ID of the development login */
+export const DEV_LOGIN_PROVIDER_ID = "dev-login";
+
+/** Providers whose profiles are OpenID Connect ID token claims */
+const OIDC_PROVIDER_IDS = ["google", "azure-ad", "oidc"];
+
+/**
+ * Whether an OpenID Connect sign-in's email address can be trusted
+ * Issuers let users set unverified addresses, so the profile must mark the
+ * email as verified: the standard `email_verified` claim, or Azure AD's
+ * `xms_edov` (email domain owner verified) optional claim, which the app
+ * registration has to request since Azure AD doesn't send email_verified.
+ * Other providers verify addresses themselves and are always allowed.
+ *
+ * @param providerId - ID of the provider the user signed in with
+ * @param profile - Profile (ID token claims) returned by the provider
+ */
+export function hasVerifiedEmail(
+  providerId: string | undefined,
+  profile: Record<string, unknown> | undefined,
+): boolean {
+  if (!providerId || !OIDC_PROVIDER_IDS.includes(providerId)) {
+    return true;
+  }
+
+  const isTrue = (claim: unknown) => claim === true || claim === "true";
+  return (
+    typeof profile?.email === "string" &&
+    (isTrue(profile.email_verified) || isTrue(profile.xms_edov))
+  );
+}
+
+/**
+ * Whether the password-free development login is switched on
+ */
+export function isDevLoginEnabled(env: AuthEnv = process.env): boolean {
+  return env.ENABLE_DEV_LOGIN === "true" && env.NODE_ENV !== "production";
+}
+
+/**
+ * Sign in to the development login, creating the user on first use
+ *
+ * @param credentials - Email and optional display name from the form
+ * @returns The user, or null if the email is missing or malformed
+ */
+export async function authorizeDevLogin(
+  credentials: Record<string, string> | undefined,
+  { db = prisma }: { db?: typeof prisma } = {},
+): Promise<{ id: string; email: string; name: string | null } | null> {
+  const email = (credentials?.email ?? "").trim().toLowerCase();
+  if (!/^[^\s@]+@[^\s@]+$/.test(email)) {
+    return null;
+  }
+
+  const name = credentials?.name?.trim() || null;
+  const user = await db.user.upsert({
+    where: { email },
+    update: {},
+    create: { email, name: name ?? email.split("@")[0] },
+  });
+
+  return { id: user.id, email: user.email, name: user.name };
+}
+
+/**
+ * Build the providers configured by the environment
+ */
+export function getAuthProviders(env: AuthEnv = process.env): Provider[] {
+  const providers: Provider[] = [];
+
+  if (env.GOOGLE_CLIENT_ID && env.GOOGLE_CLIENT_SECRET) {
+    providers.push(
+      GoogleProvider({
+        clientId: env.GOOGLE_CLIENT_ID,
+        clientSecret: env.GOOGLE_CLIENT_SECRET,
+      }),
+    );
+  }
+
+  if (env.GITHUB_CLIENT_ID && env.GITHUB_CLIENT_SECRET) {
+    providers.push(
+      GitHubProvider({
+        clientId: env.GITHUB_CLIENT_ID,
+        clientSecret: env.GITHUB_CLIENT_SECRET,
+      }),
+    );
+  }
+
+  if (
+    env.AZURE_AD_CLIENT_ID &&
+    env.AZURE_AD_CLIENT_SECRET &&
+    env.AZURE_AD_TENANT_ID
+  ) {
+    providers.push(
+      AzureADProvider({
+        clientId: env.AZURE_AD_CLIENT_ID,
+        clientSecret: env.AZURE_AD_CLIENT_SECRET,
+        tenantId: env.AZURE_AD_TENANT_ID,
+      }),
+    );
+  }
+
+  if (env.OIDC_ISSUER && env.OIDC_CLIENT_ID && env.OIDC_CLIENT_SECRET) {
+    providers.push({
+      id: "oidc",
+      name: env.OIDC_NAME || "Single Sign-On",
+      type: "oauth",
+      wellKnown: `${env.OIDC_ISSUER.replace(/\/$/, "")}/.well-known/openid-configuration`,
+      clientId: env.OIDC_CLIENT_ID,
+      clientSecret: env.OIDC_CLIENT_SECRET,
+      authorization: { params: { scope: "openid email profile" } },
+      idToken: true,
+      checks: ["pkce", "state"],
+      profile(profile) {
+        return {
+          id: profile.sub,
+          name: profile.name ?? profile.preferred_username ?? null,
+          email: profile.email,
+          image: profile.picture ?? null,
+        };
+      },
+    });
+  }
+
+  if (env.EMAIL_SERVER && env.EMAIL_FROM) {
+    providers.push(
+      EmailProvider({
+        server: env.EMAIL_SERVER,
+        from: env.EMAIL_FROM,
+      }),
+    );
+  }
+
+  if (isDevLoginEnabled(env)) {
+    providers.push(
+      CredentialsProvider({
+        id: DEV_LOGIN_PROVIDER_ID,
+        name: "Development Login",
+        credentials: {
+          email: {
+            label: "Email",
+            type: "email",
+            placeholder: "host@example.com",
+          },
+          name: { label: "Name", type: "text" },
+        },
+        authorize: (credentials) => authorizeDevLogin(credentials),
+      }),
+    );
+  }
+
+  return providers;
+}
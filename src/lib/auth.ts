@@ -1,17 +1,14 @@
 import { NextAuthOptions } from "next-auth";
-import GoogleProvider from "next-auth/providers/google";
 import { PrismaAdapter } from "@auth/prisma-adapter";
 import { prisma } from "./db";
+import { getAuthProviders, hasVerifiedEmail } from "./auth-providers";
 
 export const authOptions: NextAuthOptions = {
   adapter: PrismaAdapter(prisma),
-  providers: [
-    GoogleProvider({
-      clientId: process.env.GOOGLE_CLIENT_ID!,
-      clientSecret: process.env.GOOGLE_CLIENT_SECRET!,
-    }),
-  ],
+  providers: getAuthProviders(),
   callbacks: {
+    signIn: async ({ account, profile }) =>
+      hasVerifiedEmail(account?.provider, profile as Record<string, unknown>),
     session: async ({ session, token }) => {
       if (session?.user) {
         session.user.id = token.sub!;
@@ -0,0 +1,144 @@
+/**
+ * Background job that (re)computes question clusters for a session
+ *
+ * Replaces the session's clusters wholesale on every run: the summariser
+ * sees all visible questions, and the old clusters and question links are
+ * swapped for the new ones in a single transaction so readers never see a
+ * half-built set. Hosts are notified over the session stream when done.
+ */
+
+import { prisma } from "./db";
+import { logger } from "./logger";
+import {
+  getQuestionSummariser,
+  type QuestionSummariser,
+} from "./question-clustering";
+import { publishSessionEvent } from "./session-events";
+
+// Statuses that participants can see - pending and dismissed questions are not clustered
+export const CLUSTERED_STATUSES = [
+  "approved",
+  "being_answered",
+  "answered",
+] as const;
+
+// Sessions with a run in progress, and sessions that changed while it ran
+const globalForClustering = globalThis as unknown as {
+  clusteringRunning: Set<string> | undefined;
+  clusteringRerun: Set<string> | undefined;
+};
+const running = (globalForClustering.clusteringRunning ??= new Set());
+const rerunRequested = (globalForClustering.clusteringRerun ??= new Set());
+
+export interface ClusteringJobResult {
+  clusterCount: number;
+  questionCount: number;
+}
+
+/**
+ * Recompute clusters for a session
+ *
+ * If a run for the same session is already in progress, the request is
+ * folded into a single follow-up run instead of running concurrently.
+ *
+ * @param session - Session ID and code (code is used for stream events)
+ * @param options - Summariser and database client overrides (for tests)
+ * @returns Counts from the run, or null if it was deferred or failed
+ */
+export async function runClusteringJob(
+  session: { id: string; code: string },
+  options: { summariser?: QuestionSummariser; db?: typeof prisma } = {},
+): Promise<ClusteringJobResult | null> {
+  if (running.has(session.id)) {
+    rerunRequested.add(session.id);
+    return null;
+  }
+
+  running.add(session.id);
+  try {
+    let result: ClusteringJobResult;
+    do {
+      rerunRequested.delete(session.id);
+      result = await computeClusters(session.id, options);
+    } while (rerunRequested.has(session.id));
+
+    publishSessionEvent(session.code, { type: "clusters.updated" });
+    return result;
+  } catch (error) {
+    logger.error("Clustering job failed", error, {
+      sessionId: session.id,
+      sessionCode: session.code,
+    });
+    return null;
+  } finally {
+    running.delete(session.id);
+  }
+}
+
+async function computeClusters(
+  sessionId: string,
+  {
+    summariser = getQuestionSummariser(),
+    db = prisma,
+  }: { summariser?: QuestionSummariser; db?: typeof prisma },
+): Promise<ClusteringJobResult> {
+  const questions = await db.question.findMany({
+    where: {
+      sessionId,
+      status: { in: [...CLUSTERED_STATUSES] },
+    },
+    select: {
+      id: true,
+      content: true,
+      voteCount: true,
+      createdAt: true,
+    },
+  });
+
+  const drafts = await summariser.cluster(questions);
+
+  // Guard against summarisers returning unknown or repeated question IDs
+  const knownIds = new Set(questions.map((q) => q.id));
+  const assigned = new Set<string>();
+  const clusters = drafts
+    .map((draft) => ({
+      headline: draft.headline,
+      questionIds: draft.questionIds.filter((id) => {
+        if (!knownIds.has(id) || assigned.has(id)) return false;
+        assigned.add(id);
+        return true;
+      }),
+    }))
+    .filter((draft) => draft.questionIds.length > 0);
+
+  await db.$transaction(async (tx) => {
+    await tx.question.updateMany({
+      where: { sessionId, clusterId: { not: null } },
+      data: { clusterId: null },
+    });
+    await tx.cluster.deleteMany({ where: { sessionId } });
+
+    for (const draft of clusters) {
+      const cluster = await tx.cluster.create({
+        data: {
+          sessionId,
+          headline: draft.headline,
+          summariser: summariser.name,
+        },
+      });
+      await tx.question.updateMany({
+        where: { id: { in: draft.questionIds } },
+        data: { clusterId: cluster.id },
+      });
+    }
+  });
+
+  logger.info("Clustering job completed", {
+    sessionId,
+    summariser: summariser.name,
+    clusterCount: clusters.length,
+    questionCount: questions.length,
+  });
+
+  return { clusterCount: clusters.length, questionCount: questions.length };
+}
@@ -0,0 +1,513 @@
+/**
+ * Content filtering for submitted questions
+ *
+ * Runs after validateQuestionInput. Each enabled rule scans the question
+ * text, and the session's configured action decides what happens to a
+ * question that matches: it's rejected, the matched text is masked, or it's
+ * held as pending for a host to review.
+ *
+ * Rules are pluggable: each entry in CONTENT_FILTER_RULES builds a rule from
+ * the session's config (or skips it when disabled), so adding a check means
+ * adding a builder. Client-safe: the host dashboard uses the same labels
+ * and validation.
+ *
+ * Host-supplied patterns are wildcard phrases rather than regular
+ * expressions: they run against every participant's question on a shared
+ * server, and a regular expression can be written to backtrack for
+ * seconds (ReDoS). Wildcard matching has no such worst case.
+ */
+
+import type {
+  ContentFilterAction,
+  ContentFilterConfig,
+  ContentFilterRuleType,
+} from "@/types/content-filter";
+
+/** A span of question text matched by a rule */
+export interface ContentFilterMatch {
+  rule: ContentFilterRuleType;
+  start: number;
+  end: number;
+  /** Text the span is replaced with when masking */
+  replacement: string;
+}
+
+export interface ContentFilterRule {
+  readonly type: ContentFilterRuleType;
+  /** Shown to the participant when their question is rejected */
+  readonly message: string;
+  /** Find every span of the content this rule matches */
+  find(content: string): ContentFilterMatch[];
+}
+
+export interface ContentFilterResult {
+  /** "allow" when no rule matched, otherwise the session's action */
+  outcome: "allow" | ContentFilterAction;
+  /** Content to store - masked when the outcome is "mask" */
+  content: string;
+  /** Rules that matched, with their participant-facing messages */
+  violations: Array<{ rule: ContentFilterRuleType; message: string }>;
+}
+
+export const CONTENT_FILTER_ACTIONS: ContentFilterAction[] = [
+  "reject",
+  "mask",
+  "review",
+];
+
+export const CONTENT_FILTER_ACTION_LABELS: Record<ContentFilterAction, string> =
+  {
+    reject: "Reject the question",
+    mask: "Mask the matched text",
+    review: "Hold the question for review",
+  };
+
+export const CONTENT_FILTER_LIMITS = {
+  maxBlockedWords: 200,
+  maxWordLength: 50,
+  maxBlockedPatterns: 20,
+  maxPatternLength: 200,
+} as const;
+
+/** Starting point when a host turns filtering on */
+export const DEFAULT_CONTENT_FILTER: ContentFilterConfig = {
+  action: "reject",
+  profanity: true,
+  blockedWords: [],
+  blockedPatterns: [],
+  blockLinks: false,
+  blockPii: false,
+};
+
+// Common English profanity for the built-in word list
+const PROFANITY_WORDS = [
+  "arse",
+  "arsehole",
+  "asshole",
+  "bastard",
+  "bitch",
+  "bollocks",
+  "bullshit",
+  "cock",
+  "cunt",
+  "dick",
+  "dickhead",
+  "fuck",
+  "motherfucker",
+  "piss",
+  "prick",
+  "shit",
+  "slut",
+  "twat",
+  "wanker",
+  "whore",
+];
+
+// Suffixes matched after a blocked word (e.g., "troll" also blocks "trolling")
+const WORD_SUFFIXES = "(?:s|es|ed|er|ers|ing|y)?";
+
+const LINK_PATTERN =
+  /\b(?:https?:\/\/|www\.)\S+|\b[a-z0-9-]+(?:\.[a-z0-9-]+)*\.(?:com|net|org|io|co|uk|us|dev|app|ai|ly|me|info|biz|xyz|gg|tv)\b(?:\/\S*)?/gi;
+const EMAIL_PATTERN = /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g;
+// 9-15 digits, optionally separated by spaces, dots, dashes or brackets
+const PHONE_PATTERN = /(?:\+|\b)\d(?:[\s().-]{0,2}\d){8,14}\b/g;
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+const maskText = (text: string) => "*".repeat(text.length);
+
+// Punctuation ignored around a word when matching patterns
+const WORD_LEADING_PUNCTUATION = "(\"'[{<";
+const WORD_TRAILING_PUNCTUATION = ")\"']}>.,!?;:";
+
+/** A word of question text, without surrounding punctuation */
+interface ContentWord {
+  start: number;
+  end: number;
+  /** Lower-cased for matching */
+  text: string;
+}
+
+/**
+ * Split text into its whitespace-separated words
+ */
+function splitWords(content: string): ContentWord[] {
+  const words: ContentWord[] = [];
+  const tokens = /\S+/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = tokens.exec(content)) !== null) {
+    let start = match.index;
+    let end = start + match[0].length;
+    while (start < end && WORD_LEADING_PUNCTUATION.includes(content[start])) {
+      start++;
+    }
+    while (
+      end > start &&
+      WORD_TRAILING_PUNCTUATION.includes(content[end - 1])
+    ) {
+      end--;
+    }
+    if (end > start) {
+      words.push({ start, end, text: content.slice(start, end).toLowerCase() });
+    }
+  }
+
+  return words;
+}
+
+/**
+ * Check a word against one word of a pattern
+ * "*" matches any run of characters and "?" any single character. Only the
+ * last "*" is ever retried, so this takes at most word × pattern steps.
+ */
+function matchesWildcard(word: string, pattern: string): boolean {
+  let w = 0;
+  let p = 0;
+  let star = -1;
+  let starWord = 0;
+
+  while (w < word.length) {
+    if (p < pattern.length && (pattern[p] === "?" || pattern[p] === word[w])) {
+      w++;
+      p++;
+    } else if (p < pattern.length && pattern[p] === "*") {
+      star = p++;
+      starWord = w;
+    } else if (star !== -1) {
+      p = star + 1;
+      w = ++starWord;
+    } else {
+      return false;
+    }
+  }
+
+  while (p < pattern.length && pattern[p] === "*") p++;
+  return p === pattern.length;
+}
+
+/**
+ * Parse a host-supplied pattern into the words it matches in sequence
+ *
+ * @returns The lower-cased pattern words, or null if the pattern has no
+ * letters or digits to match on (it would block every question)
+ */
+function parsePattern(pattern: string): string[] | null {
+  const words = pattern.trim().toLowerCase().split(/\s+/);
+  return words.some((word) => /[^*?]/.test(word)) ? words : null;
+}
+
+/**
+ * Build a rule that matches one or more global regular expressions
+ */
+function regexRule(
+  type: ContentFilterRuleType,
+  message: string,
+  patterns: Array<{ regex: RegExp; replace: (text: string) => string }>,
+): ContentFilterRule {
+  return {
+    type,
+    message,
+    find(content) {
+      const matches: ContentFilterMatch[] = [];
+
+      for (const { regex, replace } of patterns) {
+        regex.lastIndex = 0;
+        let match: RegExpExecArray | null;
+        while ((match = regex.exec(content)) !== null) {
+          if (match[0].length === 0) {
+            // Step past empty matches so the scan always advances
+            regex.lastIndex++;
+            continue;
+          }
+          matches.push({
+            rule: type,
+            start: match.index,
+            end: match.index + match[0].length,
+            replacement: replace(match[0]),
+          });
+        }
+      }
+
+      return matches;
+    },
+  };
+}
+
+const CONTENT_FILTER_RULES: Record<
+  ContentFilterRuleType,
+  (config: ContentFilterConfig) => ContentFilterRule | null
+> = {
+  word_list: (config) => {
+    const words = [
+      ...(config.profanity ? PROFANITY_WORDS : []),
+      ...config.blockedWords,
+    ];
+    if (words.length === 0) return null;
+
+    const alternatives = words.map((word) =>
+      escapeRegExp(word.trim()).replace(/\s+/g, "\\s+"),
+    );
+    return regexRule(
+      "word_list",
+      "Your question contains language that isn't allowed in this session",
+      [
+        {
+          regex: new RegExp(
+            `\\b(?:${alternatives.join("|")})${WORD_SUFFIXES}\\b`,
+            "gi",
+          ),
+          replace: maskText,
+        },
+      ],
+    );
+  },
+  pattern: (config) => {
+    const patterns = config.blockedPatterns
+      .map(parsePattern)
+      .filter((words): words is string[] => words !== null);
+    if (patterns.length === 0) return null;
+
+    return {
+      type: "pattern",
+      message:
+        "Your question contains content that isn't allowed in this session",
+      find(content) {
+        const words = splitWords(content);
+        const matches: ContentFilterMatch[] = [];
+
+        for (const pattern of patterns) {
+          for (let i = 0; i + pattern.length <= words.length; i++) {
+            const isMatch = pattern.every((patternWord, j) =>
+              matchesWildcard(words[i + j].text, patternWord),
+            );
+            if (!isMatch) continue;
+
+            const start = words[i].start;
+            const end = words[i + pattern.length - 1].end;
+            matches.push({
+              rule: "pattern",
+              start,
+              end,
+              replacement: maskText(content.slice(start, end)),
+            });
+          }
+        }
+
+        return matches;
+      },
+    };
+  },
+  links: (config) =>
+    config.blockLinks
+      ? regexRule("links", "Links aren't allowed in questions", [
+          { regex: LINK_PATTERN, replace: () => "[link removed]" },
+        ])
+      : null,
+  pii: (config) =>
+    config.blockPii
+      ? regexRule(
+          "pii",
+          "Please don't share email addresses or phone numbers in questions",
+          [
+            { regex: EMAIL_PATTERN, replace: () => "[email removed]" },
+            { regex: PHONE_PATTERN, replace: () => "[phone removed]" },
+          ],
+        )
+      : null,
+};
+
+/**
+ * Build the rules enabled by a session's content filter config
+ */
+export function getContentFilterRules(
+  config: ContentFilterConfig,
+): ContentFilterRule[] {
+  const rules: ContentFilterRule[] = [];
+
+  for (const build of Object.values(CONTENT_FILTER_RULES)) {
+    const rule = build(config);
+    if (rule) rules.push(rule);
+  }
+
+  return rules;
+}
+
+/**
+ * Replace matched spans, keeping the first of any overlapping matches
+ * (e.g., an email address rather than the domain inside it)
+ */
+function maskMatches(content: string, matches: ContentFilterMatch[]): string {
+  const ordered = [...matches].sort(
+    (a, b) => a.start - b.start || b.end - a.end,
+  );
+
+  let masked = "";
+  let cursor = 0;
+  for (const match of ordered) {
+    if (match.start < cursor) continue;
+    masked += content.slice(cursor, match.start) + match.replacement;
+    cursor = match.end;
+  }
+
+  return masked + content.slice(cursor);
+}
+
+/**
+ * Run question content through a session's content filter
+ *
+ * @param content - Question text (already validated)
+ * @param config - The session's content filter config, or null if filtering is off
+ * @returns What to do with the question and the content to store
+ */
+export function applyContentFilter(
+  content: string,
+  config: ContentFilterConfig | null,
+): ContentFilterResult {
+  if (!config) {
+    return { outcome: "allow", content, violations: [] };
+  }
+
+  const rules = getContentFilterRules(config);
+  const matches: ContentFilterMatch[] = [];
+  const violations: ContentFilterResult["violations"] = [];
+
+  for (const rule of rules) {
+    const ruleMatches = rule.find(content);
+    if (ruleMatches.length > 0) {
+      matches.push(...ruleMatches);
+      violations.push({ rule: rule.type, message: rule.message });
+    }
+  }
+
+  if (violations.length === 0) {
+    return { outcome: "allow", content, violations };
+  }
+
+  return {
+    outcome: config.action,
+    content: config.action === "mask" ? maskMatches(content, matches) : content,
+    violations,
+  };
+}
+
+/**
+ * Validate and normalise a content filter config from a request body
+ * Null turns filtering off. Blocked words are trimmed and de-duplicated.
+ *
+ * @param input - The requested config
+ * @returns Validation result with per-field errors and the config to store
+ */
+export function validateContentFilterConfig(input: unknown): {
+  isValid: boolean;
+  errors: Partial<Record<keyof ContentFilterConfig, string>>;
+  config: ContentFilterConfig | null;
+} {
+  if (input === null) {
+    return { isValid: true, errors: {}, config: null };
+  }
+
+  const errors: Partial<Record<keyof ContentFilterConfig, string>> = {};
+
+  if (typeof input !== "object" || Array.isArray(input)) {
+    errors.action = "Content filter must be an object or null";
+    return { isValid: false, errors, config: null };
+  }
+
+  const raw = input as { [K in keyof ContentFilterConfig]?: unknown };
+
+  if (!CONTENT_FILTER_ACTIONS.includes(raw.action as ContentFilterAction)) {
+    errors.action = `Action must be one of: ${CONTENT_FILTER_ACTIONS.join(", ")}`;
+  }
+
+  for (const field of ["profanity", "blockLinks", "blockPii"] as const) {
+    if (raw[field] !== undefined && typeof raw[field] !== "boolean") {
+      errors[field] = `${field} must be true or false`;
+    }
+  }
+
+  const blockedWords: string[] = [];
+  if (raw.blockedWords !== undefined) {
+    if (
+      !Array.isArray(raw.blockedWords) ||
+      raw.blockedWords.some((word) => typeof word !== "string")
+    ) {
+      errors.blockedWords = "Blocked words must be a list of words";
+    } else {
+      const seen = new Set<string>();
+      for (const word of raw.blockedWords as string[]) {
+        const trimmed = word.trim();
+        if (!trimmed || seen.has(trimmed.toLowerCase())) continue;
+        seen.add(trimmed.toLowerCase());
+        blockedWords.push(trimmed);
+      }
+
+      if (blockedWords.length > CONTENT_FILTER_LIMITS.maxBlockedWords) {
+        errors.blockedWords = `No more than ${CONTENT_FILTER_LIMITS.maxBlockedWords} blocked words are allowed`;
+      } else if (
+        blockedWords.some(
+          (word) => word.length > CONTENT_FILTER_LIMITS.maxWordLength,
+        )
+      ) {
+        errors.blockedWords = `Blocked words cannot exceed ${CONTENT_FILTER_LIMITS.maxWordLength} characters`;
+      }
+    }
+  }
+
+  const blockedPatterns: string[] = [];
+  if (raw.blockedPatterns !== undefined) {
+    if (
+      !Array.isArray(raw.blockedPatterns) ||
+      raw.blockedPatterns.some((pattern) => typeof pattern !== "string")
+    ) {
+      errors.blockedPatterns = "Blocked patterns must be a list of patterns";
+    } else {
+      for (const pattern of raw.blockedPatterns as string[]) {
+        if (pattern.trim()) blockedPatterns.push(pattern.trim());
+      }
+
+      const invalid = blockedPatterns.find((pattern) => !parsePattern(pattern));
+      if (blockedPatterns.length > CONTENT_FILTER_LIMITS.maxBlockedPatterns) {
+        errors.blockedPatterns = `No more than ${CONTENT_FILTER_LIMITS.maxBlockedPatterns} blocked patterns are allowed`;
+      } else if (
+        blockedPatterns.some(
+          (pattern) => pattern.length > CONTENT_FILTER_LIMITS.maxPatternLength,
+        )
+      ) {
+        errors.blockedPatterns = `Blocked patterns cannot exceed ${CONTENT_FILTER_LIMITS.maxPatternLength} characters`;
+      } else if (invalid !== undefined) {
+        errors.blockedPatterns = `Invalid pattern: ${invalid}`;
+      }
+    }
+  }
+
+  if (Object.keys(errors).length > 0) {
+    return { isValid: false, errors, config: null };
+  }
+
+  return {
+    isValid: true,
+    errors,
+    config: {
+      action: raw.action as ContentFilterAction,
+      profanity: raw.profanity === true,
+      blockedWords,
+      blockedPatterns,
+      blockLinks: raw.blockLinks === true,
+      blockPii: raw.blockPii === true,
+    },
+  };
+}
+
+/**
+ * Read a content filter config stored on a session
+ * Anything that no longer validates is treated as filtering being off.
+ */
+export function parseContentFilterConfig(
+  stored: unknown,
+): ContentFilterConfig | null {
+  if (stored === null || stored === undefined) return null;
+  return validateContentFilterConfig(stored).config;
+}
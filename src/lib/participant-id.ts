@@ -1,44 +1,39 @@
 /**
  * Participant Identity Management
  *
- * Each participant gets a randomly generated UUID stored in localStorage,
- * persistent per browser/device.
+ * The server issues each participant a UUID the first time they join a
+ * session and keeps it in a signed httpOnly cookie (see
+ * participant-token.ts), so it persists per browser/device:
  *
  * - Same browser/device = same participant ID
  * - Different browser/device = different participant ID
  * - Incognito mode = new participant ID
+ * - Signed in = the account's participant ID, on any browser/device
  */
 
+import type { JoinSessionResponse } from "@/types/participant";
+
 /**
- * Generate or retrieve participant ID for current session
+ * Join a session, getting this browser's participant ID
+ * Returns the existing ID if the browser has joined before, or the
+ * account's ID if the participant is signed in.
  *
  * @param sessionCode - The Q&A session code (e.g., "AB12CD")
- * @returns UUID v4 string
+ * @returns The participant ID and whether it's linked to an account
  */
-export function getOrCreateParticipantId(sessionCode: string): string {
-  const storageKey = `participant_${sessionCode}`;
-
-  // Try to get existing ID from localStorage
-  let participantId = localStorage.getItem(storageKey);
-
-  if (!participantId) {
-    // Generate new UUID v4
-    participantId = crypto.randomUUID();
-    localStorage.setItem(storageKey, participantId);
+export async function joinSession(
+  sessionCode: string,
+): Promise<JoinSessionResponse> {
+  const response = await fetch(`/api/sessions/${sessionCode}/participant`, {
+    method: "POST",
+  });
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => ({}));
+    throw new Error(body.message || "Failed to join session");
   }
 
-  return participantId;
-}
-
-/**
- * Clear participant ID for session
- * Useful when participant explicitly wants to "leave" or reset
- *
- * @param sessionCode - The Q&A session code
- */
-export function clearParticipantId(sessionCode: string): void {
-  const storageKey = `participant_${sessionCode}`;
-  localStorage.removeItem(storageKey);
+  return (await response.json()) as JoinSessionResponse;
 }
 
 /**
@@ -53,41 +48,3 @@ export function isValidParticipantId(id: string): boolean {
     /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
   return uuidRegex.test(id);
 }
-
-/**
- * Get all participant IDs stored in localStorage
- * Useful for cleanup or debugging
- *
- * @returns Array of {sessionCode, participantId} objects
- */
-export function getAllParticipantIds(): Array<{
-  sessionCode: string;
-  participantId: string;
-}> {
-  const result: Array<{ sessionCode: string; participantId: string }> = [];
-
-  // Iterate through localStorage keys
-  for (let i = 0; i < localStorage.length; i++) {
-    const key = localStorage.key(i);
-    if (key && key.startsWith("participant_")) {
-      const sessionCode = key.replace("participant_", "");
-      const participantId = localStorage.getItem(key);
-      if (participantId) {
-        result.push({ sessionCode, participantId });
-      }
-    }
-  }
-
-  return result;
-}
-
-/**
- * Clear all participant IDs from localStorage
- * Useful for testing or complete reset
- */
-export function clearAllParticipantIds(): void {
-  const keys = getAllParticipantIds().map(
-    ({ sessionCode }) => `participant_${sessionCode}`,
-  );
-  keys.forEach((key) => localStorage.removeItem(key));
-}
@@ -0,0 +1,237 @@
+/**
+ * Linking participants to accounts
+ *
+ * Participant IDs are per browser, so a participant who signs in gets one
+ * canonical participant ID per session, tied to their account. Joining
+ * from another device while signed in hands that device the same ID, and
+ * anything the device did anonymously first is folded into it.
+ *
+ * Votes, pulse check feedback and poll responses are unique per
+ * participant, so a record the account already has wins and the
+ * anonymous duplicate is dropped. Questions and replies simply move.
+ */
+
+import { randomUUID } from "crypto";
+import { Prisma } from "@prisma/client";
+import { prisma } from "./db";
+
+export interface MergeParticipantResult {
+  /** Questions moved to the canonical participant */
+  movedQuestions: number;
+  /** Votes moved to the canonical participant */
+  movedVotes: number;
+  /** Anonymous votes dropped because the account had already voted */
+  droppedVotes: number;
+}
+
+/**
+ * Split a participant's records into those to move and those that clash
+ * with a record the canonical participant already has
+ */
+function partitionByKey<T extends { id: string }>(
+  existing: T[],
+  candidates: T[],
+  key: (record: T) => string,
+): { movable: string[]; clashing: string[] } {
+  const taken = new Set(existing.map(key));
+  const movable: string[] = [];
+  const clashing: string[] = [];
+
+  for (const candidate of candidates) {
+    if (taken.has(key(candidate))) {
+      clashing.push(candidate.id);
+    } else {
+      movable.push(candidate.id);
+    }
+  }
+
+  return { movable, clashing };
+}
+
+/**
+ * Fold everything one participant did in a session into another
+ *
+ * @param tx - Transaction client
+ * @param sessionId - Session whose records move
+ * @param fromId - Participant ID being retired
+ * @param toId - Canonical participant ID
+ */
+export async function mergeParticipant(
+  tx: Prisma.TransactionClient,
+  sessionId: string,
+  fromId: string,
+  toId: string,
+): Promise<MergeParticipantResult> {
+  const inSession = { question: { sessionId } };
+
+  const [fromVotes, toVotes, fromPulseChecks, toPulseChecks] =
+    await Promise.all([
+      tx.vote.findMany({
+        where: { participantId: fromId, ...inSession },
+        select: { id: true, questionId: true },
+      }),
+      tx.vote.findMany({
+        where: { participantId: toId, ...inSession },
+        select: { id: true, questionId: true },
+      }),
+      tx.pulseCheckFeedback.findMany({
+        where: { participantId: fromId, ...inSession },
+        select: { id: true, questionId: true },
+      }),
+      tx.pulseCheckFeedback.findMany({
+        where: { participantId: toId, ...inSession },
+        select: { id: true, questionId: true },
+      }),
+    ]);
+
+  const [fromResponses, toResponses] = await Promise.all([
+    tx.pollResponse.findMany({
+      where: { participantId: fromId, poll: { sessionId } },
+      select: { id: true, pollId: true },
+    }),
+    tx.pollResponse.findMany({
+      where: { participantId: toId, poll: { sessionId } },
+      select: { id: true, pollId: true },
+    }),
+  ]);
+
+  const votes = partitionByKey(toVotes, fromVotes, (v) => v.questionId);
+  const pulseChecks = partitionByKey(
+    toPulseChecks,
+    fromPulseChecks,
+    (p) => p.questionId,
+  );
+  const responses = partitionByKey(toResponses, fromResponses, (r) => r.pollId);
+
+  // A dropped vote was counted twice on its question
+  const droppedVoteQuestions = fromVotes
+    .filter((vote) => votes.clashing.includes(vote.id))
+    .map((vote) => vote.questionId);
+
+  await tx.vote.deleteMany({ where: { id: { in: votes.clashing } } });
+  await tx.question.updateMany({
+    where: { id: { in: droppedVoteQuestions } },
+    data: { voteCount: { decrement: 1 } },
+  });
+  await tx.vote.updateMany({
+    where: { id: { in: votes.movable } },
+    data: { participantId: toId },
+  });
+
+  await tx.pulseCheckFeedback.deleteMany({
+    where: { id: { in: pulseChecks.clashing } },
+  });
+  await tx.pulseCheckFeedback.updateMany({
+    where: { id: { in: pulseChecks.movable } },
+    data: { participantId: toId },
+  });
+
+  await tx.pollResponse.deleteMany({
+    where: { id: { in: responses.clashing } },
+  });
+  await tx.pollResponse.updateMany({
+    where: { id: { in: responses.movable } },
+    data: { participantId: toId },
+  });
+
+  const movedQuestions = await tx.question.updateMany({
+    where: { sessionId, participantId: fromId },
+    data: { participantId: toId },
+  });
+  await tx.questionReply.updateMany({
+    where: { participantId: fromId, ...inSession },
+    data: { participantId: toId },
+  });
+
+  return {
+    movedQuestions: movedQuestions.count,
+    movedVotes: votes.movable.length,
+    droppedVotes: votes.clashing.length,
+  };
+}
+
+/**
+ * Resolve a signed-in user's participant ID for a session
+ *
+ * The first time, the browser's current participant ID becomes the
+ * account's, so nothing has to move. After that, the account's ID wins and
+ * the browser's anonymous activity is merged into it. A browser ID already
+ * linked to someone else's account is never merged - that browser is
+ * shared, and the user gets their own ID instead. Signing out clears the
+ * browser's participant tokens (see clearParticipantCookies), so the only
+ * anonymous ID that can be merged is one issued since the last sign-out.
+ *
+ * @param sessionId - Session being joined
+ * @param userId - Signed-in user
+ * @param browserParticipantId - ID from the browser's participant token
+ * @param options - Database client override
+ * @returns The participant ID the browser should use from now on
+ */
+export async function linkParticipant(
+  sessionId: string,
+  userId: string,
+  browserParticipantId: string | null,
+  { db = prisma }: { db?: typeof prisma } = {},
+): Promise<string> {
+  return db.$transaction(async (tx) => {
+    const [identity, browserIdentity] = await Promise.all([
+      tx.participantIdentity.findUnique({
+        where: { sessionId_userId: { sessionId, userId } },
+      }),
+      browserParticipantId
+        ? tx.participantIdentity.findUnique({
+            where: {
+              sessionId_participantId: {
+                sessionId,
+                participantId: browserParticipantId,
+              },
+            },
+          })
+        : null,
+    ]);
+
+    const browserIdIsAnonymous = browserParticipantId && !browserIdentity;
+
+    if (!identity) {
+      const participantId = browserIdIsAnonymous
+        ? browserParticipantId
+        : randomUUID();
+      await tx.participantIdentity.create({
+        data: { sessionId, userId, participantId },
+      });
+      return participantId;
+    }
+
+    if (
+      browserIdIsAnonymous &&
+      browserParticipantId !== identity.participantId
+    ) {
+      await mergeParticipant(
+        tx,
+        sessionId,
+        browserParticipantId,
+        identity.participantId,
+      );
+    }
+
+    return identity.participantId;
+  });
+}
+
+/**
+ * Whether a participant ID belongs to an account
+ * Signed-out browsers holding a linked ID get a fresh anonymous one, so
+ * signing out on a shared device doesn't leave the account's votes and
+ * questions behind.
+ */
+export async function isLinkedParticipant(
+  sessionId: string,
+  participantId: string,
+  { db = prisma }: { db?: typeof prisma } = {},
+): Promise<boolean> {
+  const identity = await db.participantIdentity.findUnique({
+    where: { sessionId_participantId: { sessionId, participantId } },
+    select: { id: true },
+  });
+  return identity !== null;
+}
@@ -0,0 +1,233 @@
+/**
+ * Signed participant tokens
+ *
+ * Participants are issued an ID by the server the first time they join a
+ * session. The ID is kept in an httpOnly cookie alongside an HMAC over the
+ * session code and ID, so participant routes can trust it: a made-up ID
+ * has no valid signature, and a token issued for one session is rejected
+ * by every other session. A participant ID linked to an account is only
+ * accepted while that account is signed in, and signing out clears every
+ * participant token in the browser, so a shared device hands nothing over
+ * to the next person.
+ *
+ * Signed with PARTICIPANT_TOKEN_SECRET, falling back to NEXTAUTH_SECRET.
+ * Server-only.
+ */
+
+import { createHmac, timingSafeEqual } from "crypto";
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "./auth";
+import { prisma } from "./db";
+import { isValidParticipantId } from "./participant-id";
+
+export type ParticipantResult =
+  { participantId: string } | { error: NextResponse };
+
+/** Participant cookies outlive any realistic session */
+export const PARTICIPANT_TOKEN_MAX_AGE_SECONDS = 30 * 24 * 60 * 60;
+
+const PARTICIPANT_COOKIE_PREFIX = "qa_participant_";
+
+/**
+ * Name of the cookie holding a session's participant token
+ */
+export function getParticipantCookieName(sessionCode: string): string {
+  return `${PARTICIPANT_COOKIE_PREFIX}${sessionCode.toUpperCase()}`;
+}
+
+/**
+ * Secret for signing participant and access tokens
+ */
+export function getTokenSecret(): string {
+  const secret =
+    process.env.PARTICIPANT_TOKEN_SECRET || process.env.NEXTAUTH_SECRET;
+  if (!secret) {
+    throw new Error(
+      "PARTICIPANT_TOKEN_SECRET or NEXTAUTH_SECRET must be set to issue participant tokens",
+    );
+  }
+  return secret;
+}
+
+function sign(sessionCode: string, participantId: string): string {
+  return createHmac("sha256", getTokenSecret())
+    .update(`${sessionCode.toUpperCase()}:${participantId}`)
+    .digest("base64url");
+}
+
+/**
+ * Create a token binding a participant ID to a session
+ *
+ * @param sessionCode - The Q&A session code
+ * @param participantId - Server-issued participant UUID
+ * @returns Token in the form `{participantId}.{signature}`
+ */
+export function createParticipantToken(
+  sessionCode: string,
+  participantId: string,
+): string {
+  return `${participantId}.${sign(sessionCode, participantId)}`;
+}
+
+/**
+ * Check a participant token against a session
+ *
+ * @param token - Token from the participant cookie
+ * @param sessionCode - Session the request is for
+ * @returns The participant ID, or null if the token is missing, forged or
+ * issued for another session
+ */
+export function verifyParticipantToken(
+  token: string | undefined,
+  sessionCode: string,
+): string | null {
+  if (!token) return null;
+
+  const separator = token.lastIndexOf(".");
+  const participantId = token.slice(0, separator);
+  if (separator === -1 || !isValidParticipantId(participantId)) {
+    return null;
+  }
+
+  const expected = Buffer.from(sign(sessionCode, participantId));
+  const actual = Buffer.from(token.slice(separator + 1));
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    return null;
+  }
+
+  return participantId;
+}
+
+/**
+ * Participant ID from a request's token, if it has a valid one
+ */
+export function readParticipantId(
+  req: NextRequest,
+  sessionCode: string,
+): string | null {
+  return verifyParticipantToken(
+    req.cookies.get(getParticipantCookieName(sessionCode))?.value,
+    sessionCode,
+  );
+}
+
+/**
+ * Attach a participant's token to a response
+ */
+export function setParticipantCookie(
+  response: NextResponse,
+  sessionCode: string,
+  participantId: string,
+): void {
+  response.cookies.set({
+    name: getParticipantCookieName(sessionCode),
+    value: createParticipantToken(sessionCode, participantId),
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    maxAge: PARTICIPANT_TOKEN_MAX_AGE_SECONDS,
+  });
+}
+
+/**
+ * Expire every participant token the request carries, in any session
+ * Used on sign-out: an anonymous ID left in the browser would otherwise be
+ * merged into whichever account signs in next. Appends raw Set-Cookie
+ * headers so cookies already set on the response are left as they are.
+ */
+export function clearParticipantCookies(
+  req: NextRequest,
+  headers: Headers,
+): void {
+  for (const { name } of req.cookies.getAll()) {
+    if (name.startsWith(PARTICIPANT_COOKIE_PREFIX)) {
+      const secure = process.env.NODE_ENV === "production" ? "; Secure" : "";
+      headers.append(
+        "Set-Cookie",
+        `${name}=; Path=/; Max-Age=0; HttpOnly; SameSite=Lax${secure}`,
+      );
+    }
+  }
+}
+
+/**
+ * Resolve the participant making a request
+ * The ID comes from the signed token; a participant ID in the request body
+ * is only accepted if it matches. A token for an account-linked ID is
+ * rejected unless that account is signed in - rejoining the session then
+ * issues the browser a fresh anonymous ID.
+ *
+ * @param req - Incoming request
+ * @param sessionCode - Session the request is for
+ * @param claimedId - participantId from the request body, if sent
+ * @returns The participant ID, or an error response to send back
+ */
+export async function getParticipant(
+  req: NextRequest,
+  sessionCode: string,
+  claimedId?: unknown,
+): Promise<ParticipantResult> {
+  if (
+    claimedId !== undefined &&
+    (typeof claimedId !== "string" || !isValidParticipantId(claimedId))
+  ) {
+    return {
+      error: NextResponse.json(
+        {
+          code: "INVALID_PARTICIPANT_ID",
+          message: "Invalid participant ID format",
+        },
+        { status: 400 },
+      ),
+    };
+  }
+
+  const participantId = readParticipantId(req, sessionCode);
+  if (!participantId) {
+    return {
+      error: NextResponse.json(
+        {
+          code: "INVALID_PARTICIPANT_TOKEN",
+          message: "Missing or invalid participant token. Rejoin the session.",
+        },
+        { status: 401 },
+      ),
+    };
+  }
+
+  const identity = await prisma.participantIdentity.findFirst({
+    where: { participantId, qaSession: { code: sessionCode.toUpperCase() } },
+    select: { userId: true },
+  });
+  if (identity) {
+    const authSession = await getServerSession(authOptions);
+    if (authSession?.user?.id !== identity.userId) {
+      return {
+        error: NextResponse.json(
+          {
+            code: "INVALID_PARTICIPANT_TOKEN",
+            message:
+              "This participant ID belongs to a signed-out account. Rejoin the session.",
+          },
+          { status: 401 },
+        ),
+      };
+    }
+  }
+
+  if (claimedId !== undefined && claimedId !== participantId) {
+    return {
+      error: NextResponse.json(
+        {
+          code: "PARTICIPANT_MISMATCH",
+          message: "Participant ID does not match your participant token",
+        },
+        { status: 403 },
+      ),
+    };
+  }
+
+  return { participantId };
+}
@@ -0,0 +1,231 @@
+/**
+ * Poll helpers
+ *
+ * Validation and tallying shared by the poll endpoints and the poll
+ * components. Client-safe: the host's create form uses the same checks.
+ */
+
+import type { Poll, PollOption } from "@prisma/client";
+import {
+  POLL_RATING_SCALE,
+  POLL_VALIDATION,
+  type CreatePollRequest,
+  type PollResponseData,
+  type PollResults,
+  type PollType,
+} from "@/types/poll";
+
+export interface PollValidationResult {
+  isValid: boolean;
+  errors: Array<{
+    field: string;
+    message: string;
+  }>;
+}
+
+/** Prisma include for loading a poll with everything needed to tally it */
+export const POLL_INCLUDE = {
+  options: { orderBy: { position: "asc" } },
+  responses: {
+    select: {
+      participantId: true,
+      rating: true,
+      selections: { select: { optionId: true } },
+    },
+  },
+} as const;
+
+type PollWithResponses = Poll & {
+  options: PollOption[];
+  responses: Array<{
+    participantId: string;
+    rating: number | null;
+    selections: Array<{ optionId: string }>;
+  }>;
+};
+
+const POLL_TYPES: PollType[] = ["multiple_choice", "multi_select", "rating"];
+
+/**
+ * Validate a new poll
+ *
+ * @param input - Poll creation data as submitted
+ * @returns Validation result with errors if any
+ */
+export function validatePollInput(
+  input: Partial<CreatePollRequest>,
+): PollValidationResult {
+  const errors: Array<{ field: string; message: string }> = [];
+
+  if (typeof input.question !== "string" || input.question.trim() === "") {
+    errors.push({ field: "question", message: "Poll question is required" });
+  } else if (input.question.trim().length > POLL_VALIDATION.questionMaxLength) {
+    errors.push({
+      field: "question",
+      message: `Poll question cannot exceed ${POLL_VALIDATION.questionMaxLength} characters`,
+    });
+  }
+
+  if (!input.type || !POLL_TYPES.includes(input.type)) {
+    errors.push({
+      field: "type",
+      message: `Poll type must be one of: ${POLL_TYPES.join(", ")}`,
+    });
+  } else if (input.type !== "rating") {
+    const options = Array.isArray(input.options) ? input.options : [];
+    const labels = options.map((option) =>
+      typeof option === "string" ? option.trim() : "",
+    );
+
+    if (
+      labels.length < POLL_VALIDATION.minOptions ||
+      labels.length > POLL_VALIDATION.maxOptions
+    ) {
+      errors.push({
+        field: "options",
+        message: `Polls need between ${POLL_VALIDATION.minOptions} and ${POLL_VALIDATION.maxOptions} options`,
+      });
+    } else if (labels.some((label) => label.length === 0)) {
+      errors.push({ field: "options", message: "Options cannot be empty" });
+    } else if (
+      labels.some((label) => label.length > POLL_VALIDATION.optionMaxLength)
+    ) {
+      errors.push({
+        field: "options",
+        message: `Options cannot exceed ${POLL_VALIDATION.optionMaxLength} characters`,
+      });
+    } else if (
+      new Set(labels.map((label) => label.toLowerCase())).size !== labels.length
+    ) {
+      errors.push({ field: "options", message: "Options must be unique" });
+    }
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+  };
+}
+
+/**
+ * Check a participant's answer against the poll
+ *
+ * @param poll - Poll type and the IDs of its options
+ * @param answer - Submitted option IDs or rating
+ * @returns Error message, or null if the answer is valid
+ */
+export function getPollAnswerError(
+  poll: { type: PollType; options: Array<{ id: string }> },
+  answer: { optionIds?: unknown; rating?: unknown },
+): string | null {
+  if (poll.type === "rating") {
+    const { rating } = answer;
+    if (
+      typeof rating !== "number" ||
+      !Number.isInteger(rating) ||
+      rating < 1 ||
+      rating > POLL_RATING_SCALE
+    ) {
+      return `Rating must be a whole number from 1 to ${POLL_RATING_SCALE}`;
+    }
+    return null;
+  }
+
+  const { optionIds } = answer;
+  if (!Array.isArray(optionIds) || optionIds.length === 0) {
+    return "Choose at least one option";
+  }
+  if (poll.type === "multiple_choice" && optionIds.length > 1) {
+    return "Choose only one option";
+  }
+  if (new Set(optionIds).size !== optionIds.length) {
+    return "Options can only be chosen once";
+  }
+
+  const validIds = new Set(poll.options.map((option) => option.id));
+  if (optionIds.some((id) => !validIds.has(id))) {
+    return "Unknown poll option";
+  }
+
+  return null;
+}
+
+/**
+ * Tally a poll's responses
+ * Rating polls report one entry per score so they render as bars too.
+ */
+export function tallyPollResults(poll: PollWithResponses): PollResults {
+  const totalResponses = poll.responses.length;
+
+  if (poll.type === "rating") {
+    const ratings = poll.responses
+      .map((response) => response.rating)
+      .filter((rating): rating is number => rating !== null);
+    const options = Array.from({ length: POLL_RATING_SCALE }, (_, index) => {
+      const score = index + 1;
+      return {
+        id: String(score),
+        label: String(score),
+        count: ratings.filter((rating) => rating === score).length,
+      };
+    });
+
+    return {
+      totalResponses,
+      options,
+      averageRating:
+        ratings.length > 0
+          ? Math.round(
+              (ratings.reduce((sum, rating) => sum + rating, 0) /
+                ratings.length) *
+                10,
+            ) / 10
+          : null,
+    };
+  }
+
+  const counts = new Map<string, number>();
+  for (const response of poll.responses) {
+    for (const { optionId } of response.selections) {
+      counts.set(optionId, (counts.get(optionId) ?? 0) + 1);
+    }
+  }
+
+  return {
+    totalResponses,
+    options: poll.options.map((option) => ({
+      id: option.id,
+      label: option.label,
+      count: counts.get(option.id) ?? 0,
+    })),
+    averageRating: null,
+  };
+}
+
+/**
+ * Convert a poll row to its API shape
+ *
+ * @param poll - Poll loaded with POLL_INCLUDE
+ * @param participantId - Requesting participant, to report whether they responded
+ */
+export function toPollResponseData(
+  poll: PollWithResponses,
+  participantId?: string,
+): PollResponseData {
+  return {
+    id: poll.id,
+    sessionId: poll.sessionId,
+    question: poll.question,
+    type: poll.type,
+    status: poll.status,
+    results: tallyPollResults(poll),
+    ...(participantId !== undefined && {
+      hasResponded: poll.responses.some(
+        (response) => response.participantId === participantId,
+      ),
+    }),
+    createdAt: poll.createdAt.toISOString(),
+    openedAt: poll.openedAt?.toISOString(),
+    closedAt: poll.closedAt?.toISOString(),
+  };
+}
@@ -0,0 +1,239 @@
+/**
+ * Pulse check scales and summaries
+ *
+ * Feedback is stored as a score on the session's scale. Sessions without a
+ * custom scale use the original helpful/neutral/not helpful scale, and
+ * feedback given on it also keeps its PulseCheckFeedbackType so the legacy
+ * per-type counts stay accurate. Client-safe: the host dashboard uses the
+ * same presets and validation.
+ */
+
+import type { PulseCheckFeedbackType } from "@prisma/client";
+import type {
+  PulseComment,
+  PulseScaleConfig,
+  PulseScalePoint,
+  PulseSummary,
+} from "@/types/pulse-check";
+
+/** Feedback row as loaded from the database */
+export interface PulseFeedbackRecord {
+  feedback: PulseCheckFeedbackType | null;
+  score: number | null;
+}
+
+export const PULSE_SCALE_LIMITS = {
+  minPoints: 2,
+  maxPoints: 10,
+  maxLabelLength: 30,
+  maxEmojiLength: 8,
+} as const;
+
+export const PULSE_COMMENT_MAX_LENGTH = 280;
+
+/** Legacy feedback types in score order */
+const FEEDBACK_TYPES_BY_SCORE: PulseCheckFeedbackType[] = [
+  "not_helpful",
+  "neutral",
+  "helpful",
+];
+
+export const DEFAULT_PULSE_SCALE: PulseScalePoint[] = [
+  { label: "Not helpful", emoji: "🔴" },
+  { label: "Neutral", emoji: "💛" },
+  { label: "Helpful", emoji: "💚" },
+];
+
+/** Starting points offered to hosts */
+export const PULSE_SCALE_PRESETS: Array<{
+  id: string;
+  label: string;
+  config: PulseScaleConfig | null;
+}> = [
+  { id: "default", label: "Helpful / Neutral / Not helpful", config: null },
+  {
+    id: "five_point",
+    label: "1 to 5",
+    config: { points: ["1", "2", "3", "4", "5"].map((label) => ({ label })) },
+  },
+  {
+    id: "clarity",
+    label: "Still confused / Mostly clear / Crystal clear",
+    config: {
+      points: [
+        { label: "Still confused", emoji: "😕" },
+        { label: "Mostly clear", emoji: "🙂" },
+        { label: "Crystal clear", emoji: "🤩" },
+      ],
+    },
+  },
+];
+
+/**
+ * Validate a host-supplied pulse scale
+ *
+ * @param input - Scale as submitted, or null for the default
+ * @returns Validation result with the normalised scale
+ */
+export function validatePulseScaleConfig(input: unknown): {
+  isValid: boolean;
+  error: string | null;
+  config: PulseScaleConfig | null;
+} {
+  if (input === null) {
+    return { isValid: true, error: null, config: null };
+  }
+
+  const invalid = (error: string) => ({ isValid: false, error, config: null });
+  const points = (input as { points?: unknown } | undefined)?.points;
+
+  if (
+    typeof input !== "object" ||
+    !Array.isArray(points) ||
+    points.length < PULSE_SCALE_LIMITS.minPoints ||
+    points.length > PULSE_SCALE_LIMITS.maxPoints
+  ) {
+    return invalid(
+      `Pulse scales need between ${PULSE_SCALE_LIMITS.minPoints} and ${PULSE_SCALE_LIMITS.maxPoints} points`,
+    );
+  }
+
+  const normalised: PulseScalePoint[] = [];
+  for (const point of points) {
+    const label =
+      typeof point?.label === "string" ? point.label.trim() : undefined;
+    const emoji =
+      typeof point?.emoji === "string" ? point.emoji.trim() : undefined;
+
+    if (!label) {
+      return invalid("Every point on the scale needs a label");
+    }
+    if (label.length > PULSE_SCALE_LIMITS.maxLabelLength) {
+      return invalid(
+        `Labels cannot exceed ${PULSE_SCALE_LIMITS.maxLabelLength} characters`,
+      );
+    }
+    if (emoji && emoji.length > PULSE_SCALE_LIMITS.maxEmojiLength) {
+      return invalid("Emoji must be a single emoji");
+    }
+
+    normalised.push(emoji ? { label, emoji } : { label });
+  }
+
+  const labels = normalised.map((point) => point.label.toLowerCase());
+  if (new Set(labels).size !== labels.length) {
+    return invalid("Labels must be unique");
+  }
+
+  return { isValid: true, error: null, config: { points: normalised } };
+}
+
+/**
+ * Read a session's stored pulse scale
+ * Invalid or missing config falls back to the default scale.
+ */
+export function parsePulseScaleConfig(
+  stored: unknown,
+): PulseScaleConfig | null {
+  if (stored === null || stored === undefined) return null;
+  return validatePulseScaleConfig(stored).config;
+}
+
+/**
+ * Points on a session's scale, lowest first
+ */
+export function getPulseScale(stored: unknown): PulseScalePoint[] {
+  return parsePulseScaleConfig(stored)?.points ?? DEFAULT_PULSE_SCALE;
+}
+
+/**
+ * Legacy feedback type for a score on the default scale
+ * Returns null for sessions with a custom scale.
+ */
+export function scoreToFeedbackType(
+  score: number,
+  stored: unknown,
+): PulseCheckFeedbackType | null {
+  return parsePulseScaleConfig(stored)
+    ? null
+    : (FEEDBACK_TYPES_BY_SCORE[score - 1] ?? null);
+}
+
+/**
+ * Score of a feedback row
+ * Rows written before scores existed only carry a feedback type.
+ */
+export function getFeedbackScore(record: PulseFeedbackRecord): number | null {
+  if (typeof record.score === "number") return record.score;
+  if (!record.feedback) return null;
+  return FEEDBACK_TYPES_BY_SCORE.indexOf(record.feedback) + 1;
+}
+
+/**
+ * Tally feedback on a scale
+ *
+ * @param records - Feedback rows to include
+ * @param scale - Points on the session's scale
+ */
+export function summarisePulseFeedback(
+  records: PulseFeedbackRecord[],
+  scale: PulseScalePoint[],
+): PulseSummary {
+  const scores = records
+    .map(getFeedbackScore)
+    .filter(
+      (score): score is number =>
+        score !== null && score >= 1 && score <= scale.length,
+    );
+
+  const average =
+    scores.length > 0
+      ? scores.reduce((sum, score) => sum + score, 0) / scores.length
+      : null;
+
+  return {
+    responses: scores.length,
+    average: average === null ? null : Math.round(average * 10) / 10,
+    helpfulness:
+      average === null
+        ? null
+        : Math.round(((average - 1) / (scale.length - 1)) * 100),
+    points: scale.map((point, index) => ({
+      ...point,
+      score: index + 1,
+      count: scores.filter((score) => score === index + 1).length,
+    })),
+  };
+}
+
+/**
+ * Written feedback from a set of rows, newest first
+ */
+export function toPulseComments(
+  records: Array<
+    PulseFeedbackRecord & { comment: string | null; createdAt: Date }
+  >,
+): PulseComment[] {
+  return records
+    .filter((record) => record.comment)
+    .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+    .map((record) => ({
+      score: getFeedbackScore(record) ?? 0,
+      comment: record.comment as string,
+      createdAt: record.createdAt.toISOString(),
+    }));
+}
+
+/**
+ * Order rated questions from most to least helpful
+ * Ties go to the question with more responses.
+ */
+export function compareByHelpfulness(
+  a: { summary: PulseSummary },
+  b: { summary: PulseSummary },
+): number {
+  return (
+    (b.summary.helpfulness ?? -1) - (a.summary.helpfulness ?? -1) ||
+    b.summary.responses - a.summary.responses
+  );
+}
@@ -0,0 +1,193 @@
+/**
+ * Question clustering
+ *
+ * Groups a session's questions into clusters, each with a paraphrased
+ * headline that links back to the verbatim questions it summarises.
+ *
+ * Summarisers are pluggable: the clustering job only depends on the
+ * `QuestionSummariser` interface, and the implementation is picked via the
+ * QUESTION_SUMMARISER environment variable. The local summariser is
+ * deterministic (no network, same input -> same clusters) and is the default
+ * and the one used in tests.
+ */
+
+/** Question data a summariser works from */
+export interface ClusterableQuestion {
+  id: string;
+  content: string;
+  voteCount: number;
+  createdAt: Date;
+}
+
+/** A cluster proposed by a summariser, before it's persisted */
+export interface ClusterDraft {
+  /** Paraphrased question text summarising the cluster */
+  headline: string;
+  /** IDs of the verbatim questions in the cluster */
+  questionIds: string[];
+}
+
+export interface QuestionSummariser {
+  /** Identifier stored alongside each cluster (e.g., "local") */
+  readonly name: string;
+  /**
+   * Group questions into clusters
+   * Every question ID must appear in exactly one cluster.
+   */
+  cluster(questions: ClusterableQuestion[]): Promise<ClusterDraft[]>;
+}
+
+// Words that carry no topic on their own
+const STOP_WORDS = new Set([
+  "a", "about", "an", "and", "any", "are", "as", "at", "be", "been", "but",
+  "by", "can", "could", "did", "do", "does", "for", "from", "had", "has",
+  "have", "how", "i", "if", "in", "into", "is", "it", "its", "me", "my",
+  "of", "on", "or", "our", "should", "so", "than", "that", "the", "their",
+  "them", "there", "these", "they", "this", "to", "us", "was", "we", "were",
+  "what", "when", "where", "which", "who", "why", "will", "with", "would",
+  "you", "your",
+]);
+
+const HEADLINE_KEYWORDS = 3;
+const HEADLINE_MAX_LENGTH = 120;
+
+/**
+ * Split question text into normalised topic tokens
+ * Lowercases, strips punctuation, drops stop words and naive plural "s".
+ */
+export function tokenizeQuestion(content: string): string[] {
+  return content
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, " ")
+    .split(/\s+/)
+    .filter((word) => word.length > 2 && !STOP_WORDS.has(word))
+    .map((word) =>
+      word.length > 3 && word.endsWith("s") && !word.endsWith("ss")
+        ? word.slice(0, -1)
+        : word,
+    );
+}
+
+/**
+ * Jaccard similarity between two token sets (0 = disjoint, 1 = identical)
+ */
+export function tokenSimilarity(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+
+  let shared = 0;
+  for (const token of a) {
+    if (b.has(token)) shared++;
+  }
+
+  return shared / (a.size + b.size - shared);
+}
+
+function truncate(text: string, maxLength: number): string {
+  return text.length > maxLength
+    ? `${text.slice(0, maxLength - 1).trimEnd()}…`
+    : text;
+}
+
+function joinKeywords(keywords: string[]): string {
+  if (keywords.length <= 1) return keywords.join("");
+  return `${keywords.slice(0, -1).join(", ")} and ${keywords[keywords.length - 1]}`;
+}
+
+/**
+ * Deterministic, dependency-free summariser
+ *
+ * Greedy single pass over questions ordered by votes (then age): each
+ * question joins the most similar existing cluster if it clears the
+ * similarity threshold, otherwise it starts a new one. Headlines are built
+ * from the cluster's most common keywords.
+ */
+export class LocalQuestionSummariser implements QuestionSummariser {
+  readonly name = "local";
+
+  constructor(private readonly similarityThreshold = 0.3) {}
+
+  async cluster(questions: ClusterableQuestion[]): Promise<ClusterDraft[]> {
+    const ordered = [...questions].sort(
+      (a, b) =>
+        b.voteCount - a.voteCount ||
+        a.createdAt.getTime() - b.createdAt.getTime() ||
+        a.id.localeCompare(b.id),
+    );
+
+    const groups: Array<{
+      tokens: Set<string>;
+      questions: ClusterableQuestion[];
+    }> = [];
+
+    for (const question of ordered) {
+      const tokens = new Set(tokenizeQuestion(question.content));
+
+      let bestGroup: (typeof groups)[number] | null = null;
+      let bestScore = 0;
+      for (const group of groups) {
+        const score = tokenSimilarity(tokens, group.tokens);
+        if (score > bestScore) {
+          bestScore = score;
+          bestGroup = group;
+        }
+      }
+
+      if (bestGroup && bestScore >= this.similarityThreshold) {
+        bestGroup.questions.push(question);
+        for (const token of tokens) bestGroup.tokens.add(token);
+      } else {
+        groups.push({ tokens, questions: [question] });
+      }
+    }
+
+    return groups.map((group) => ({
+      headline: this.buildHeadline(group.questions),
+      questionIds: group.questions.map((q) => q.id),
+    }));
+  }
+
+  private buildHeadline(questions: ClusterableQuestion[]): string {
+    // A single question is its own best summary
+    if (questions.length === 1) {
+      return truncate(questions[0].content.trim(), HEADLINE_MAX_LENGTH);
+    }
+
+    // Count how many questions mention each keyword; ties go to the
+    // keyword seen first (questions are already ordered by votes)
+    const counts = new Map<string, number>();
+    for (const question of questions) {
+      for (const token of new Set(tokenizeQuestion(question.content))) {
+        counts.set(token, (counts.get(token) ?? 0) + 1);
+      }
+    }
+
+    const keywords = Array.from(counts.entries())
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, HEADLINE_KEYWORDS)
+      .map(([token]) => token);
+
+    if (keywords.length === 0) {
+      return truncate(questions[0].content.trim(), HEADLINE_MAX_LENGTH);
+    }
+
+    return truncate(
+      `Questions about ${joinKeywords(keywords)}`,
+      HEADLINE_MAX_LENGTH,
+    );
+  }
+}
+
+const SUMMARISERS: Record<string, () => QuestionSummariser> = {
+  local: () => new LocalQuestionSummariser(),
+};
+
+/**
+ * Get the summariser configured via QUESTION_SUMMARISER (default: "local")
+ * Unknown names fall back to the local summariser.
+ */
+export function getQuestionSummariser(
+  name: string | undefined = process.env.QUESTION_SUMMARISER,
+): QuestionSummariser {
+  const factory = (name && SUMMARISERS[name]) || SUMMARISERS.local;
+  return factory();
+}
@@ -0,0 +1,53 @@
+/**
+ * Duplicate question detection
+ *
+ * While a participant types, their draft is compared against the session's
+ * open questions so they can upvote an existing one instead of splitting
+ * the votes. Uses the same normalised tokens and Jaccard similarity as the
+ * local clustering summariser.
+ */
+
+import { tokenizeQuestion, tokenSimilarity } from "./question-clustering";
+
+/** Minimum similarity (0-1) for a question to be suggested */
+export const DUPLICATE_SIMILARITY_THRESHOLD = 0.4;
+
+/** Most suggestions returned for a draft */
+export const MAX_SIMILAR_QUESTIONS = 3;
+
+/** Drafts shorter than this aren't checked (too little to compare) */
+export const SIMILAR_QUESTION_MIN_LENGTH = 10;
+
+/**
+ * Find existing questions similar to a draft
+ *
+ * @param draft - The question being written
+ * @param questions - Candidate questions from the same session
+ * @param options - Similarity threshold and result limit overrides
+ * @returns Matching questions with their similarity, most similar first
+ */
+export function findSimilarQuestions<
+  T extends { id: string; content: string; voteCount: number },
+>(
+  draft: string,
+  questions: T[],
+  {
+    threshold = DUPLICATE_SIMILARITY_THRESHOLD,
+    limit = MAX_SIMILAR_QUESTIONS,
+  }: { threshold?: number; limit?: number } = {},
+): Array<T & { similarity: number }> {
+  const draftTokens = new Set(tokenizeQuestion(draft));
+  if (draftTokens.size === 0) return [];
+
+  return questions
+    .map((question) => ({
+      ...question,
+      similarity: tokenSimilarity(
+        draftTokens,
+        new Set(tokenizeQuestion(question.content)),
+      ),
+    }))
+    .filter((question) => question.similarity >= threshold)
+    .sort((a, b) => b.similarity - a.similarity || b.voteCount - a.voteCount)
+    .slice(0, limit);
+}
@@ -0,0 +1,160 @@
+/**
+ * Host edits to question text
+ *
+ * Hosts can reword a question or split one that asks several things into
+ * separate questions. The participant's original text is kept in
+ * originalContent for audit, and edited questions are flagged so
+ * participants can see that a host changed the wording.
+ */
+
+import type { Question } from "@prisma/client";
+import { prisma } from "./db";
+import {
+  recordQuestionEvents,
+  SYSTEM_ACTOR,
+  type QuestionEventActorInfo,
+} from "./question-events";
+
+export interface SplitQuestionResult {
+  /** The original question, now holding the first part */
+  question: Question;
+  /** Questions created for the remaining parts */
+  createdQuestions: Question[];
+}
+
+interface QuestionEditOptions {
+  /** Database client override (for tests) */
+  db?: typeof prisma;
+  /** Who made the change, for the question's history */
+  actor?: QuestionEventActorInfo;
+}
+
+/**
+ * Replace a question's text, keeping the participant's original
+ * Restoring the original text clears the edit marker.
+ *
+ * @param questionId - Question to edit
+ * @param content - New text (already validated and trimmed)
+ * @param options - Database client override and the editing actor
+ * @returns The updated question
+ */
+export async function editQuestionContent(
+  questionId: string,
+  content: string,
+  { db = prisma, actor = SYSTEM_ACTOR }: QuestionEditOptions = {},
+): Promise<Question> {
+  return db.$transaction(async (tx) => {
+    const question = await tx.question.findUniqueOrThrow({
+      where: { id: questionId },
+      select: { sessionId: true, content: true, originalContent: true },
+    });
+
+    const originalContent = question.originalContent ?? question.content;
+    const isRestored = content === originalContent;
+
+    const updated = await tx.question.update({
+      where: { id: questionId },
+      data: {
+        content,
+        originalContent: isRestored ? null : originalContent,
+        editedByHost: !isRestored,
+      },
+    });
+
+    await recordQuestionEvents(tx, actor, [
+      {
+        questionId,
+        sessionId: question.sessionId,
+        type: "edited",
+        previousContent: question.content,
+      },
+    ]);
+
+    return updated;
+  });
+}
+
+/**
+ * Split a question into several
+ * The original question keeps its votes and takes the first part; each
+ * remaining part becomes a new question from the same author, and everyone
+ * who voted for the original is counted as voting for every part.
+ *
+ * @param questionId - Question to split
+ * @param parts - Text of each part (already validated and trimmed, at least two)
+ * @param options - Database client override and the splitting actor
+ * @returns The updated original and the newly created questions
+ */
+export async function splitQuestion(
+  questionId: string,
+  parts: string[],
+  { db = prisma, actor = SYSTEM_ACTOR }: QuestionEditOptions = {},
+): Promise<SplitQuestionResult> {
+  return db.$transaction(async (tx) => {
+    const original = await tx.question.findUniqueOrThrow({
+      where: { id: questionId },
+      include: { votes: { select: { participantId: true } } },
+    });
+
+    const originalContent = original.originalContent ?? original.content;
+    // Only one question can be on stage at a time
+    const status =
+      original.status === "being_answered" ? "approved" : original.status;
+
+    const question = await tx.question.update({
+      where: { id: questionId },
+      data: {
+        content: parts[0],
+        originalContent,
+        editedByHost: true,
+      },
+    });
+
+    const createdQuestions: Question[] = [];
+    for (const content of parts.slice(1)) {
+      const created = await tx.question.create({
+        data: {
+          sessionId: original.sessionId,
+          participantId: original.participantId,
+          authorName: original.authorName,
+          isAnonymous: original.isAnonymous,
+          content,
+          originalContent,
+          editedByHost: true,
+          status,
+          answeredAt: original.answeredAt,
+          voteCount: original.votes.length,
+        },
+      });
+
+      if (original.votes.length > 0) {
+        await tx.vote.createMany({
+          data: original.votes.map((vote) => ({
+            questionId: created.id,
+            participantId: vote.participantId,
+          })),
+        });
+      }
+
+      createdQuestions.push(created);
+    }
+
+    await recordQuestionEvents(tx, actor, [
+      {
+        questionId,
+        sessionId: original.sessionId,
+        type: "split",
+        previousContent: original.content,
+      },
+      ...createdQuestions.map((created) => ({
+        questionId: created.id,
+        sessionId: created.sessionId,
+        type: "created" as const,
+        toStatus: created.status,
+        relatedQuestionId: questionId,
+      })),
+    ]);
+
+    return { question, createdQuestions };
+  });
+}
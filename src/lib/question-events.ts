@@ -0,0 +1,115 @@
+/**
+ * Question audit trail
+ *
+ * Every status change, edit, split, merge and deletion is recorded as a
+ * QuestionEvent with who made it and when. Events reference their question
+ * by ID only, so a question's history outlives the question itself; they
+ * are removed with the session.
+ */
+
+import type {
+  Prisma,
+  QuestionEvent,
+  QuestionEventActor,
+  QuestionEventType,
+  QuestionStatus,
+} from "@prisma/client";
+import type { QuestionEventResponse } from "@/types/question-event";
+
+/** Who made a change */
+export interface QuestionEventActorInfo {
+  actorType: QuestionEventActor;
+  actorUserId?: string | null;
+  actorName?: string | null;
+}
+
+/** A change to record against a question */
+export interface QuestionEventInput {
+  questionId: string;
+  sessionId: string;
+  type: QuestionEventType;
+  fromStatus?: QuestionStatus | null;
+  toStatus?: QuestionStatus | null;
+  previousContent?: string | null;
+  relatedQuestionId?: string | null;
+}
+
+/** Participants are never named in the trail - questions may be anonymous */
+export const PARTICIPANT_ACTOR: QuestionEventActorInfo = {
+  actorType: "participant",
+};
+
+/** Changes made without a known actor, such as library calls from scripts */
+export const SYSTEM_ACTOR: QuestionEventActorInfo = { actorType: "system" };
+
+/** Prisma orderBy for showing a timeline oldest first */
+export const QUESTION_EVENT_ORDER_BY = [
+  { createdAt: "asc" },
+  { id: "asc" },
+] as const;
+
+/**
+ * Actor for a signed-in host, co-host or moderator
+ */
+export function getHostActor(user: {
+  id: string;
+  name?: string | null;
+}): QuestionEventActorInfo {
+  return { actorType: "host", actorUserId: user.id, actorName: user.name };
+}
+
+/**
+ * Record changes to one or more questions
+ *
+ * @param db - Prisma client or transaction to write with
+ * @param actor - Who made the changes
+ * @param events - Changes to record
+ */
+export async function recordQuestionEvents(
+  db: Pick<Prisma.TransactionClient, "questionEvent">,
+  actor: QuestionEventActorInfo,
+  events: QuestionEventInput[],
+): Promise<void> {
+  if (events.length === 0) return;
+
+  await db.questionEvent.createMany({
+    data: events.map((event) => ({
+      ...event,
+      actorType: actor.actorType,
+      actorUserId: actor.actorUserId ?? null,
+      actorName: actor.actorName ?? null,
+    })),
+  });
+}
+
+/**
+ * Record a change to a question
+ */
+export function recordQuestionEvent(
+  db: Pick<Prisma.TransactionClient, "questionEvent">,
+  actor: QuestionEventActorInfo,
+  event: QuestionEventInput,
+): Promise<void> {
+  return recordQuestionEvents(db, actor, [event]);
+}
+
+/**
+ * Convert an event row to its API shape
+ * User IDs are never exposed.
+ */
+export function toQuestionEventResponse(
+  event: QuestionEvent,
+): QuestionEventResponse {
+  return {
+    id: event.id,
+    questionId: event.questionId,
+    type: event.type,
+    actorType: event.actorType,
+    actorName: event.actorName || undefined,
+    fromStatus: event.fromStatus || undefined,
+    toStatus: event.toStatus || undefined,
+    previousContent: event.previousContent ?? undefined,
+    relatedQuestionId: event.relatedQuestionId || undefined,
+    createdAt: event.createdAt.toISOString(),
+  };
+}
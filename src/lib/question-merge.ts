@@ -0,0 +1,210 @@
+/**
+ * Merging duplicate questions
+ *
+ * Folds duplicates into a surviving question. Votes and pulse check
+ * feedback move across to the survivor - at most one of each per
+ * participant, matching the unique constraints - and the rest are dropped.
+ * Duplicates are dismissed with a link to the question they were merged
+ * into, so they disappear from the participant list but stay traceable.
+ *
+ * Duplicates are claimed with a conditional update inside the transaction,
+ * so two hosts merging the same question at once can't both succeed.
+ */
+
+import { Prisma } from "@prisma/client";
+import { prisma } from "./db";
+import {
+  recordQuestionEvents,
+  SYSTEM_ACTOR,
+  type QuestionEventActorInfo,
+} from "./question-events";
+
+export interface MergeQuestionsResult {
+  /** Survivor's vote count after the merge */
+  voteCount: number;
+  /** Votes moved from the duplicates */
+  movedVotes: number;
+  /** Pulse check responses moved from the duplicates */
+  movedPulseChecks: number;
+}
+
+/**
+ * Thrown inside the transaction to roll it back when a question was merged
+ * or moved after the caller checked it
+ */
+class MergeConflict extends Error {}
+
+/**
+ * Keep the first record per participant that the survivor doesn't already have
+ */
+function pickMovable<T extends { id: string; participantId: string }>(
+  existing: Array<{ participantId: string }>,
+  candidates: T[],
+): string[] {
+  const seen = new Set(existing.map((record) => record.participantId));
+  const movable: string[] = [];
+
+  for (const candidate of candidates) {
+    if (seen.has(candidate.participantId)) continue;
+    seen.add(candidate.participantId);
+    movable.push(candidate.id);
+  }
+
+  return movable;
+}
+
+/**
+ * Merge duplicate questions into a surviving question
+ * Every question is re-checked inside the transaction: the duplicates must
+ * be unmerged questions in the target's session, and the target unmerged.
+ *
+ * @param targetId - The question that survives the merge
+ * @param duplicateIds - Questions folded into the target
+ * @param options - Database client override and the merging actor
+ * @returns The survivor's new vote count and how much was moved, or null if
+ *   any question no longer qualifies (nothing is changed)
+ */
+export async function mergeQuestions(
+  targetId: string,
+  duplicateIds: string[],
+  {
+    db = prisma,
+    actor = SYSTEM_ACTOR,
+  }: { db?: typeof prisma; actor?: QuestionEventActorInfo } = {},
+): Promise<MergeQuestionsResult | null> {
+  try {
+    return await db.$transaction((tx) =>
+      mergeInTransaction(tx, targetId, duplicateIds, actor),
+    );
+  } catch (error) {
+    if (error instanceof MergeConflict) return null;
+    throw error;
+  }
+}
+
+/**
+ * Re-check and merge the questions, throwing MergeConflict before anything
+ * is committed if they no longer qualify
+ */
+async function mergeInTransaction(
+  tx: Prisma.TransactionClient,
+  targetId: string,
+  duplicateIds: string[],
+  actor: QuestionEventActorInfo,
+): Promise<MergeQuestionsResult> {
+  const target = await tx.question.findUnique({
+    where: { id: targetId },
+    select: { sessionId: true, mergedIntoId: true },
+  });
+  if (!target || target.mergedIntoId) throw new MergeConflict();
+
+  const duplicateWhere = {
+    id: { in: duplicateIds.filter((id) => id !== targetId) },
+    sessionId: target.sessionId,
+    mergedIntoId: null,
+  };
+  const duplicates = await tx.question.findMany({
+    where: duplicateWhere,
+    select: { id: true, sessionId: true, status: true },
+  });
+
+  // Claim the duplicates first; the row locks make a concurrent merge of
+  // the same questions wait and then match nothing
+  const claimed = await tx.question.updateMany({
+    where: duplicateWhere,
+    data: { status: "dismissed", voteCount: 0, mergedIntoId: targetId },
+  });
+  if (
+    duplicates.length !== duplicateIds.length ||
+    claimed.count !== duplicateIds.length
+  ) {
+    throw new MergeConflict();
+  }
+
+  const [targetVotes, duplicateVotes, targetPulseChecks, duplicatePulseChecks] =
+    await Promise.all([
+      tx.vote.findMany({
+        where: { questionId: targetId },
+        select: { participantId: true },
+      }),
+      tx.vote.findMany({
+        where: { questionId: { in: duplicateIds } },
+        select: { id: true, participantId: true },
+        orderBy: { createdAt: "asc" },
+      }),
+      tx.pulseCheckFeedback.findMany({
+        where: { questionId: targetId },
+        select: { participantId: true },
+      }),
+      tx.pulseCheckFeedback.findMany({
+        where: { questionId: { in: duplicateIds } },
+        select: { id: true, participantId: true },
+        orderBy: { createdAt: "asc" },
+      }),
+    ]);
+
+  const movableVotes = pickMovable(targetVotes, duplicateVotes);
+  const movablePulseChecks = pickMovable(
+    targetPulseChecks,
+    duplicatePulseChecks,
+  );
+
+  await tx.vote.updateMany({
+    where: { id: { in: movableVotes } },
+    data: { questionId: targetId },
+  });
+  await tx.vote.deleteMany({
+    where: { questionId: { in: duplicateIds } },
+  });
+
+  await tx.pulseCheckFeedback.updateMany({
+    where: { id: { in: movablePulseChecks } },
+    data: { questionId: targetId },
+  });
+  await tx.pulseCheckFeedback.deleteMany({
+    where: { questionId: { in: duplicateIds } },
+  });
+
+  // The target may have been merged away while this transaction waited
+  const voteCount = targetVotes.length + movableVotes.length;
+  const updatedTarget = await tx.question.updateMany({
+    where: { id: targetId, mergedIntoId: null },
+    data: { voteCount },
+  });
+  if (updatedTarget.count !== 1) throw new MergeConflict();
+
+  // Questions merged into a duplicate earlier now point at the survivor
+  await tx.question.updateMany({
+    where: { mergedIntoId: { in: duplicateIds } },
+    data: { mergedIntoId: targetId },
+  });
+
+  // Each duplicate's history points at the survivor, and the survivor's
+  // at each duplicate it absorbed
+  await recordQuestionEvents(
+    tx,
+    actor,
+    duplicates.flatMap((duplicate) => [
+      {
+        questionId: duplicate.id,
+        sessionId: duplicate.sessionId,
+        type: "merged" as const,
+        fromStatus: duplicate.status,
+        toStatus: "dismissed" as const,
+        relatedQuestionId: targetId,
+      },
+      {
+        questionId: targetId,
+        sessionId: duplicate.sessionId,
+        type: "merged" as const,
+        relatedQuestionId: duplicate.id,
+      },
+    ]),
+  );
+
+  return {
+    voteCount,
+    movedVotes: movableVotes.length,
+    movedPulseChecks: movablePulseChecks.length,
+  };
+}
@@ -0,0 +1,51 @@
+/**
+ * Question reply helpers
+ *
+ * Shared by the reply endpoint, the question list endpoints and session
+ * exports. Client-safe: the reply forms use the same validation.
+ */
+
+import type { QuestionReply } from "@prisma/client";
+import {
+  REPLY_VALIDATION,
+  type QuestionReplyResponse,
+} from "@/types/question-reply";
+
+/** Prisma orderBy for showing a thread oldest first */
+export const REPLY_ORDER_BY = { createdAt: "asc" } as const;
+
+/**
+ * Validate reply text
+ *
+ * @param content - Reply text as submitted
+ * @returns Error message, or null if the text is valid
+ */
+export function validateReplyContent(content: unknown): string | null {
+  if (typeof content !== "string" || content.trim().length === 0) {
+    return "Reply content is required";
+  }
+  if (content.trim().length > REPLY_VALIDATION.maxLength) {
+    return `Reply cannot exceed ${REPLY_VALIDATION.maxLength} characters`;
+  }
+  return null;
+}
+
+/**
+ * Convert a reply row to its API shape
+ * Participant IDs and user IDs are never exposed.
+ */
+export function toQuestionReplyResponse(
+  reply: Pick<
+    QuestionReply,
+    "id" | "questionId" | "authorType" | "authorName" | "content" | "createdAt"
+  >,
+): QuestionReplyResponse {
+  return {
+    id: reply.id,
+    questionId: reply.questionId,
+    authorType: reply.authorType,
+    authorName: reply.authorName || undefined,
+    content: reply.content,
+    createdAt: reply.createdAt.toISOString(),
+  };
+}
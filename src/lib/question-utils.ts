@@ -3,9 +3,12 @@
  */
 
 import { isValidParticipantId } from "./participant-id";
+import type { QuestionStatus } from "@prisma/client";
 import {
   QUESTION_VALIDATION,
   AUTHOR_NAME_MAX_LENGTH,
+  OWN_QUESTION_EDIT_WINDOW_MS,
+  OWN_QUESTION_OPEN_STATUSES,
   QuestionResponse,
 } from "@/types/question";
 
@@ -17,6 +20,25 @@ export interface QuestionValidationResult {
   }>;
 }
 
+/**
+ * Validate question text
+ *
+ * @param content - Question text as submitted or edited
+ * @returns Error message, or null if the text is valid
+ */
+export function validateQuestionContent(content: string): string | null {
+  if (!content || content.trim().length === 0) {
+    return "Question content is required";
+  }
+  if (content.trim().length < QUESTION_VALIDATION.minLength) {
+    return `Question must be at least ${QUESTION_VALIDATION.minLength} characters`;
+  }
+  if (content.trim().length > QUESTION_VALIDATION.maxLength) {
+    return `Question cannot exceed ${QUESTION_VALIDATION.maxLength} characters`;
+  }
+  return null;
+}
+
 /**
  * Validate question submission input
  *
@@ -31,20 +53,11 @@ export function validateQuestionInput(input: {
   const errors: Array<{ field: string; message: string }> = [];
 
   // Validate content
-  if (!input.content || input.content.trim().length === 0) {
-    errors.push({
-      field: "content",
-      message: "Question content is required",
-    });
-  } else if (input.content.trim().length < QUESTION_VALIDATION.minLength) {
+  const contentError = validateQuestionContent(input.content);
+  if (contentError) {
     errors.push({
       field: "content",
-      message: `Question must be at least ${QUESTION_VALIDATION.minLength} characters`,
-    });
-  } else if (input.content.trim().length > QUESTION_VALIDATION.maxLength) {
-    errors.push({
-      field: "content",
-      message: `Question cannot exceed ${QUESTION_VALIDATION.maxLength} characters`,
+      message: contentError,
     });
   }
 
@@ -77,6 +90,76 @@ export function validateQuestionInput(input: {
   };
 }
 
+/**
+ * Check whether a participant can still withdraw their own question
+ * Questions can be withdrawn until a host starts answering or dismisses them.
+ *
+ * @param question - The participant's question
+ * @returns Error message, or null if the question can be withdrawn
+ */
+export function getWithdrawOwnQuestionError(question: {
+  status: QuestionStatus;
+  mergedIntoId?: string | null;
+}): string | null {
+  if (question.mergedIntoId) {
+    return "This question was merged into another question";
+  }
+  if (!OWN_QUESTION_OPEN_STATUSES.includes(question.status)) {
+    return "Questions can't be changed once they are being answered, answered or dismissed";
+  }
+  return null;
+}
+
+/**
+ * Check whether a participant can still edit their own question
+ * Edits are allowed for a short window after submitting, while the question
+ * is unanswered and a host hasn't already reworded it.
+ *
+ * @param question - The participant's question
+ * @param now - Current time (for tests)
+ * @returns Error message, or null if the question can be edited
+ */
+export function getEditOwnQuestionError(
+  question: {
+    status: QuestionStatus;
+    createdAt: Date | string;
+    mergedIntoId?: string | null;
+    editedByHost?: boolean;
+  },
+  now: Date = new Date(),
+): string | null {
+  const withdrawError = getWithdrawOwnQuestionError(question);
+  if (withdrawError) return withdrawError;
+
+  if (question.editedByHost) {
+    return "A host has already edited this question";
+  }
+  if (
+    now.getTime() - new Date(question.createdAt).getTime() >
+    OWN_QUESTION_EDIT_WINDOW_MS
+  ) {
+    return `Questions can only be edited within ${OWN_QUESTION_EDIT_WINDOW_MS / 60000} minutes of asking`;
+  }
+  return null;
+}
+
+/**
+ * answeredAt change for a status update
+ * Set when a question becomes answered and cleared if it's reopened, so
+ * time-to-answer always reflects the latest answer.
+ *
+ * @param previous - Status before the update
+ * @param next - Status being set
+ * @returns Fields to merge into the Prisma update data
+ */
+export function getAnsweredAtUpdate(
+  previous: QuestionStatus,
+  next: QuestionStatus,
+): { answeredAt?: Date | null } {
+  if (previous === next) return {};
+  return { answeredAt: next === "answered" ? new Date() : null };
+}
+
 /**
  * Sort questions with multi-level priority:
  * 1. Primary: Questions with status "being_answered" at top
@@ -114,3 +197,32 @@ export function sortQuestions<T extends QuestionResponse>(questions: T[]): T[] {
     return new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
   });
 }
+
+/**
+ * Split a session's questions into what the presenter display shows:
+ * the question currently being answered and the top-voted upcoming ones.
+ * If more than one question is marked as being answered, the most recently
+ * updated one is shown.
+ *
+ * @param questions - Questions visible to participants
+ * @param limit - Maximum number of upcoming questions to return
+ * @returns The current question (or null) and the upcoming queue
+ */
+export function getPresenterQueue<T extends QuestionResponse>(
+  questions: T[],
+  limit: number,
+): { current: T | null; upcoming: T[] } {
+  const current =
+    questions
+      .filter((q) => q.status === "being_answered")
+      .sort(
+        (a, b) =>
+          new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime(),
+      )[0] ?? null;
+
+  const upcoming = sortQuestions(
+    questions.filter((q) => q.status === "approved"),
+  ).slice(0, limit);
+
+  return { current, upcoming };
+}
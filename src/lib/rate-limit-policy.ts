@@ -0,0 +1,155 @@
+/**
+ * Per-session rate limit policy
+ *
+ * Hosts can pick what participant requests are counted against (client IP,
+ * participant ID, or both) and override the default ceilings. Client-safe:
+ * the host dashboard uses the same labels, defaults and validation.
+ */
+
+import type { RateLimitScope, SessionRateLimitPolicy } from "@/types/session";
+
+/**
+ * Default rate limit configurations for different actions
+ */
+export const RATE_LIMITS = {
+  SUBMIT_QUESTION: {
+    max: 5,
+    windowMs: 5 * 60 * 1000, // 5 minutes
+  },
+  VOTE: {
+    max: 30,
+    windowMs: 60 * 1000, // 1 minute
+  },
+  PULSE_CHECK: {
+    max: 20,
+    windowMs: 60 * 1000, // 1 minute
+  },
+  JOIN_SESSION: {
+    max: 10,
+    windowMs: 10 * 60 * 1000, // 10 minutes
+  },
+  PASSCODE_ATTEMPT: {
+    max: 10,
+    windowMs: 10 * 60 * 1000, // 10 minutes
+  },
+} as const;
+
+/** Participant actions a session policy applies to */
+export type SessionRateLimitAction = "submit-question" | "vote" | "pulse-check";
+
+type PolicyLimitField = Exclude<keyof SessionRateLimitPolicy, "rateLimitScope">;
+
+/** Default ceiling and policy override for each action */
+export const SESSION_RATE_LIMIT_ACTIONS: Record<
+  SessionRateLimitAction,
+  {
+    defaults: { max: number; windowMs: number };
+    field: PolicyLimitField;
+    label: string;
+  }
+> = {
+  "submit-question": {
+    defaults: RATE_LIMITS.SUBMIT_QUESTION,
+    field: "questionRateLimit",
+    label: "Questions per 5 minutes",
+  },
+  vote: {
+    defaults: RATE_LIMITS.VOTE,
+    field: "voteRateLimit",
+    label: "Votes per minute",
+  },
+  "pulse-check": {
+    defaults: RATE_LIMITS.PULSE_CHECK,
+    field: "pulseRateLimit",
+    label: "Pulse checks per minute",
+  },
+};
+
+export const RATE_LIMIT_SCOPES: RateLimitScope[] = [
+  "ip",
+  "participant",
+  "ip_and_participant",
+];
+
+export const RATE_LIMIT_SCOPE_LABELS: Record<RateLimitScope, string> = {
+  ip: "Per network (IP address)",
+  participant: "Per participant",
+  ip_and_participant: "Per participant and per network",
+};
+
+/** Prisma select for the policy fields stored on QaSession */
+export const RATE_LIMIT_POLICY_SELECT = {
+  rateLimitScope: true,
+  questionRateLimit: true,
+  voteRateLimit: true,
+  pulseRateLimit: true,
+} as const;
+
+/** Highest custom ceiling a host can set for any action */
+export const MAX_RATE_LIMIT = 1000;
+
+/**
+ * Resolve the limit for an action under a session's policy
+ */
+export function getSessionRateLimitConfig(
+  policy: SessionRateLimitPolicy,
+  action: SessionRateLimitAction,
+): { max: number; windowMs: number } {
+  const { defaults, field } = SESSION_RATE_LIMIT_ACTIONS[action];
+
+  return {
+    max: policy[field] ?? defaults.max,
+    windowMs: defaults.windowMs,
+  };
+}
+
+/**
+ * Validate rate limit policy fields from a create or update request
+ * Fields that are absent are left out of the result; a null limit resets
+ * that action to its default.
+ *
+ * @param input - Request body
+ * @returns Validation result with per-field errors and the fields to store
+ */
+export function validateRateLimitPolicy(input: {
+  [K in keyof SessionRateLimitPolicy]?: unknown;
+}): {
+  isValid: boolean;
+  errors: Partial<Record<keyof SessionRateLimitPolicy, string>>;
+  policy: Partial<SessionRateLimitPolicy>;
+} {
+  const errors: Partial<Record<keyof SessionRateLimitPolicy, string>> = {};
+  const policy: Partial<SessionRateLimitPolicy> = {};
+
+  if (input.rateLimitScope !== undefined) {
+    if (RATE_LIMIT_SCOPES.includes(input.rateLimitScope as RateLimitScope)) {
+      policy.rateLimitScope = input.rateLimitScope as RateLimitScope;
+    } else {
+      errors.rateLimitScope = `Rate limit scope must be one of: ${RATE_LIMIT_SCOPES.join(", ")}`;
+    }
+  }
+
+  for (const { field } of Object.values(SESSION_RATE_LIMIT_ACTIONS)) {
+    const value = input[field];
+    if (value === undefined) continue;
+
+    if (
+      value === null ||
+      (typeof value === "number" &&
+        Number.isInteger(value) &&
+        value >= 1 &&
+        value <= MAX_RATE_LIMIT)
+    ) {
+      policy[field] = value;
+    } else {
+      errors[field] =
+        `Limit must be a whole number between 1 and ${MAX_RATE_LIMIT}`;
+    }
+  }
+
+  return {
+    isValid: Object.keys(errors).length === 0,
+    errors,
+    policy,
+  };
+}
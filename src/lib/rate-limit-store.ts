@@ -0,0 +1,225 @@
+/**
+ * Storage backends for rate limit counters
+ *
+ * The in-memory store only counts requests seen by the current process, so
+ * limits reset on every serverless cold start and aren't shared between
+ * instances. The Postgres and Redis stores keep counters somewhere every
+ * instance can see. The store is picked via the RATE_LIMIT_STORE
+ * environment variable ("memory", "postgres" or "redis"; default "memory").
+ */
+
+import type { PrismaClient } from "@prisma/client";
+
+/** Counter state after recording a request */
+export interface RateLimitCounter {
+  /** Requests counted in the current window, including this one */
+  count: number;
+  /** When the current window ends (Unix timestamp in ms) */
+  resetAt: number;
+}
+
+export interface RateLimitStore {
+  /** Identifier for logs (e.g., "memory") */
+  readonly name: string;
+  /**
+   * Record a request against a key
+   * Starts a new window of `windowMs` if the key has none or it has ended.
+   */
+  increment(key: string, windowMs: number): Promise<RateLimitCounter>;
+}
+
+// How often expired counters are swept out of the memory and Postgres stores
+const SWEEP_INTERVAL_MS = 5 * 60 * 1000;
+
+/**
+ * Per-process store backed by a Map
+ * Expired entries are swept lazily during increments rather than on a
+ * timer, so an idle serverless instance isn't kept awake.
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  readonly name = "memory";
+  private entries = new Map<string, RateLimitCounter>();
+  private lastSweepAt = Date.now();
+
+  async increment(key: string, windowMs: number): Promise<RateLimitCounter> {
+    return this.incrementSync(key, windowMs);
+  }
+
+  /**
+   * Record a request without waiting - the memory store never does I/O,
+   * which keeps the synchronous checkRateLimit entry point possible
+   */
+  incrementSync(key: string, windowMs: number): RateLimitCounter {
+    const now = Date.now();
+    this.sweep(now);
+
+    const entry = this.entries.get(key);
+
+    if (!entry || entry.resetAt < now) {
+      const fresh = { count: 1, resetAt: now + windowMs };
+      this.entries.set(key, fresh);
+      return { ...fresh };
+    }
+
+    entry.count++;
+    return { ...entry };
+  }
+
+  private sweep(now: number) {
+    if (now - this.lastSweepAt < SWEEP_INTERVAL_MS) return;
+    this.lastSweepAt = now;
+
+    for (const [key, entry] of this.entries.entries()) {
+      if (entry.resetAt < now) {
+        this.entries.delete(key);
+      }
+    }
+  }
+}
+
+/**
+ * Store backed by the rate_limit_counters table
+ * The increment is a single INSERT ... ON CONFLICT DO UPDATE, so concurrent
+ * requests on different instances can't lose counts or both start a new
+ * window.
+ */
+export class PostgresRateLimitStore implements RateLimitStore {
+  readonly name = "postgres";
+  private lastSweepAt = 0;
+
+  constructor(private db?: PrismaClient) {}
+
+  async increment(key: string, windowMs: number): Promise<RateLimitCounter> {
+    // Load the shared client lazily so the memory store never touches Prisma
+    this.db ??= (await import("./db")).prisma;
+    const db = this.db;
+
+    const now = new Date();
+    await this.sweep(db, now);
+
+    // Count against the current window, or start a new one if there is no
+    // counter yet or its window has ended
+    const resetAt = new Date(now.getTime() + windowMs);
+    const [counter] = await db.$queryRaw<{ count: number; resetAt: Date }[]>`
+      INSERT INTO "rate_limit_counters" ("key", "count", "reset_at")
+      VALUES (${key}, 1, ${resetAt})
+      ON CONFLICT ("key") DO UPDATE SET
+        "count" = CASE
+          WHEN "rate_limit_counters"."reset_at" < ${now} THEN 1
+          ELSE "rate_limit_counters"."count" + 1
+        END,
+        "reset_at" = CASE
+          WHEN "rate_limit_counters"."reset_at" < ${now} THEN EXCLUDED."reset_at"
+          ELSE "rate_limit_counters"."reset_at"
+        END
+      RETURNING "count", "reset_at" AS "resetAt"
+    `;
+
+    return {
+      count: Number(counter.count),
+      resetAt: new Date(counter.resetAt).getTime(),
+    };
+  }
+
+  private async sweep(db: PrismaClient, now: Date) {
+    if (now.getTime() - this.lastSweepAt < SWEEP_INTERVAL_MS) return;
+    this.lastSweepAt = now.getTime();
+
+    await db.rateLimitCounter.deleteMany({
+      where: { resetAt: { lt: now } },
+    });
+  }
+}
+
+// INCR and set the window's expiry atomically on the first request
+const REDIS_INCREMENT_SCRIPT = `
+local count = redis.call("INCR", KEYS[1])
+if count == 1 then
+  redis.call("PEXPIRE", KEYS[1], ARGV[1])
+end
+return {count, redis.call("PTTL", KEYS[1])}
+`;
+
+/** Minimal client interface the Redis store needs (satisfied by ioredis) */
+export interface RedisScriptClient {
+  eval(
+    script: string,
+    numKeys: number,
+    ...args: Array<string | number>
+  ): Promise<unknown>;
+}
+
+/**
+ * Store for Redis or any server speaking the Redis protocol (Valkey,
+ * KeyDB, ...), configured via RATE_LIMIT_REDIS_URL. Keys expire with
+ * their window, so no sweeping is needed.
+ */
+export class RedisRateLimitStore implements RateLimitStore {
+  readonly name = "redis";
+  private client?: Promise<RedisScriptClient>;
+
+  constructor(client?: RedisScriptClient) {
+    if (client) {
+      this.client = Promise.resolve(client);
+    }
+  }
+
+  async increment(key: string, windowMs: number): Promise<RateLimitCounter> {
+    // Don't cache a failed connection attempt - retry on the next request
+    this.client ??= connectRedis().catch((error) => {
+      this.client = undefined;
+      throw error;
+    });
+    const client = await this.client;
+    const [count, ttl] = (await client.eval(
+      REDIS_INCREMENT_SCRIPT,
+      1,
+      `rate-limit:${key}`,
+      windowMs,
+    )) as [number, number];
+
+    // A negative TTL means the key has no expiry; treat it as a fresh window
+    return {
+      count,
+      resetAt: Date.now() + (ttl >= 0 ? ttl : windowMs),
+    };
+  }
+}
+
+/**
+ * Connect to the Redis server in RATE_LIMIT_REDIS_URL
+ * ioredis is only loaded when the Redis store is configured.
+ */
+async function connectRedis(): Promise<RedisScriptClient> {
+  const url = process.env.RATE_LIMIT_REDIS_URL;
+  if (!url) {
+    throw new Error("RATE_LIMIT_REDIS_URL must be set to use the redis store");
+  }
+
+  const { default: Redis } = await import("ioredis");
+  return new Redis(url, { maxRetriesPerRequest: 1 });
+}
+
+const RATE_LIMIT_STORES: Record<string, () => RateLimitStore> = {
+  memory: () => new MemoryRateLimitStore(),
+  postgres: () => new PostgresRateLimitStore(),
+  redis: () => new RedisRateLimitStore(),
+};
+
+let configuredStore: RateLimitStore | undefined;
+
+/**
+ * Get the store configured via RATE_LIMIT_STORE (default: "memory")
+ * Unknown names fall back to the memory store. The store is created once
+ * per process so the memory store keeps its counters between requests.
+ */
+export function getRateLimitStore(): RateLimitStore {
+  if (!configuredStore) {
+    const name = process.env.RATE_LIMIT_STORE;
+    const factory =
+      (name && RATE_LIMIT_STORES[name]) || RATE_LIMIT_STORES.memory;
+    configuredStore = factory();
+  }
+
+  return configuredStore;
+}
@@ -1,31 +1,33 @@
 /**
- * Simple in-memory rate limiting utility
+ * Rate limiting utility
  *
- * For production at scale, consider using Redis or a dedicated rate limiting service.
- * This implementation is suitable for MVP and moderate traffic.
+ * Counts requests per `{action}:{identifier}` key (e.g.,
+ * "submit-question:192.168.1.1"). checkRateLimit keeps its original
+ * synchronous signature and counts in this process's memory only;
+ * checkRateLimitInStore counts in the store configured via
+ * RATE_LIMIT_STORE (see rate-limit-store.ts) so limits hold across
+ * instances. If that store is unreachable the request is counted in memory
+ * instead, so an outage degrades to per-instance limits rather than
+ * failing requests.
  */
 
-interface RateLimitEntry {
-  count: number;
-  resetAt: number;
-}
+import type { RateLimitScope, SessionRateLimitPolicy } from "@/types/session";
+import { logger } from "./logger";
+import {
+  getRateLimitStore,
+  MemoryRateLimitStore,
+  type RateLimitCounter,
+  type RateLimitStore,
+} from "./rate-limit-store";
+import {
+  getSessionRateLimitConfig,
+  type SessionRateLimitAction,
+} from "./rate-limit-policy";
 
-// In-memory store for rate limit tracking
-// Key format: `{action}:{identifier}` (e.g., "submit-question:192.168.1.1")
-const rateLimitStore = new Map<string, RateLimitEntry>();
-
-// Cleanup old entries every 5 minutes to prevent memory leaks
-setInterval(
-  () => {
-    const now = Date.now();
-    for (const [key, entry] of rateLimitStore.entries()) {
-      if (entry.resetAt < now) {
-        rateLimitStore.delete(key);
-      }
-    }
-  },
-  5 * 60 * 1000,
-);
+export { RATE_LIMITS } from "./rate-limit-policy";
+
+// Counters for checkRateLimit, and the fallback when a store is unreachable
+const memoryStore = new MemoryRateLimitStore();
 
 export interface RateLimitConfig {
   /** Maximum number of requests allowed */
@@ -47,8 +49,39 @@ export interface RateLimitResult {
   retryAfter?: number;
 }
 
+/**
+ * Turn a counter into a result against a limit
+ */
+function toRateLimitResult(
+  counter: RateLimitCounter,
+  config: RateLimitConfig,
+): RateLimitResult {
+  // Check if limit exceeded
+  if (counter.count > config.max) {
+    const retryAfterMs = counter.resetAt - Date.now();
+    const retryAfterSec = Math.ceil(retryAfterMs / 1000);
+
+    return {
+      allowed: false,
+      current: counter.count,
+      limit: config.max,
+      resetAt: counter.resetAt,
+      retryAfter: retryAfterSec,
+    };
+  }
+
+  return {
+    allowed: true,
+    current: counter.count,
+    limit: config.max,
+    resetAt: counter.resetAt,
+  };
+}
+
 /**
  * Check if a request should be rate limited
+ * Counts in this process's memory only - use checkRateLimitInStore for
+ * limits shared between instances.
  *
  * @param action - The action being rate limited (e.g., "submit-question", "vote")
  * @param identifier - Unique identifier (e.g., IP address, participant ID)
@@ -60,50 +93,96 @@ export function checkRateLimit(
   identifier: string,
   config: RateLimitConfig,
 ): RateLimitResult {
-  const key = `${action}:${identifier}`;
-  const now = Date.now();
-
-  let entry = rateLimitStore.get(key);
+  return toRateLimitResult(
+    memoryStore.incrementSync(`${action}:${identifier}`, config.windowMs),
+    config,
+  );
+}
 
-  // Create new entry if doesn't exist or has expired
-  if (!entry || entry.resetAt < now) {
-    entry = {
-      count: 1,
-      resetAt: now + config.windowMs,
-    };
-    rateLimitStore.set(key, entry);
+/**
+ * Check if a request should be rate limited, counting in a shared store
+ *
+ * @param action - The action being rate limited (e.g., "submit-question", "vote")
+ * @param identifier - Unique identifier (e.g., IP address, participant ID)
+ * @param config - Rate limit configuration
+ * @param store - Counter store (defaults to the configured store)
+ * @returns Rate limit result indicating if request is allowed
+ */
+export async function checkRateLimitInStore(
+  action: string,
+  identifier: string,
+  config: RateLimitConfig,
+  store: RateLimitStore = getRateLimitStore(),
+): Promise<RateLimitResult> {
+  const key = `${action}:${identifier}`;
 
-    return {
-      allowed: true,
-      current: 1,
-      limit: config.max,
-      resetAt: entry.resetAt,
-    };
+  let counter: RateLimitCounter;
+  try {
+    counter = await store.increment(key, config.windowMs);
+  } catch (error) {
+    logger.warn("Rate limit store unavailable, using in-memory fallback", {
+      store: store.name,
+      action,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    counter = memoryStore.incrementSync(key, config.windowMs);
   }
 
-  // Increment counter
-  entry.count++;
+  return toRateLimitResult(counter, config);
+}
 
-  // Check if limit exceeded
-  if (entry.count > config.max) {
-    const retryAfterMs = entry.resetAt - now;
-    const retryAfterSec = Math.ceil(retryAfterMs / 1000);
+/**
+ * Identifiers a request is counted against under a rate limit scope
+ */
+export function getRateLimitIdentifiers(
+  scope: RateLimitScope,
+  client: { ip: string; participantId: string },
+): string[] {
+  switch (scope) {
+    case "participant":
+      return [`participant:${client.participantId}`];
+    case "ip_and_participant":
+      return [`ip:${client.ip}`, `participant:${client.participantId}`];
+    default:
+      return [`ip:${client.ip}`];
+  }
+}
 
-    return {
-      allowed: false,
-      current: entry.count,
-      limit: config.max,
-      resetAt: entry.resetAt,
-      retryAfter: retryAfterSec,
-    };
+/**
+ * Check a participant request against its session's rate limit policy
+ * Counters are kept per session. When the policy counts both IP and
+ * participant, the request is denied if either limit is exceeded.
+ *
+ * @param action - The participant action being rate limited
+ * @param qaSession - The session, with its rate limit policy
+ * @param client - Client IP and participant ID of the request
+ * @returns The most restrictive rate limit result
+ */
+export async function checkSessionRateLimit(
+  action: SessionRateLimitAction,
+  qaSession: SessionRateLimitPolicy & { id: string },
+  client: { ip: string; participantId: string },
+): Promise<RateLimitResult> {
+  const config = getSessionRateLimitConfig(qaSession, action);
+  const identifiers = getRateLimitIdentifiers(qaSession.rateLimitScope, client);
+
+  const results: RateLimitResult[] = [];
+  for (const identifier of identifiers) {
+    results.push(
+      await checkRateLimitInStore(
+        `${action}:${qaSession.id}`,
+        identifier,
+        config,
+      ),
+    );
   }
 
-  return {
-    allowed: true,
-    current: entry.count,
-    limit: config.max,
-    resetAt: entry.resetAt,
-  };
+  return (
+    results.find((result) => !result.allowed) ??
+    results.reduce((tightest, result) =>
+      result.current > tightest.current ? result : tightest,
+    )
+  );
 }
 
 /**
@@ -128,21 +207,3 @@ export function getRateLimitHeaders(
 
   return headers;
 }
-
-/**
- * Rate limit configurations for different actions
- */
-export const RATE_LIMITS = {
-  SUBMIT_QUESTION: {
-    max: 5,
-    windowMs: 5 * 60 * 1000, // 5 minutes
-  },
-  VOTE: {
-    max: 30,
-    windowMs: 60 * 1000, // 1 minute
-  },
-  PULSE_CHECK: {
-    max: 20,
-    windowMs: 60 * 1000, // 1 minute
-  },
-} as const;
@@ -0,0 +1,139 @@
+/**
+ * Per-session access policy
+ *
+ * Sessions are open to anyone with the code by default. Hosts can instead
+ * require a passcode, a signed-in account, or an account on one of a list
+ * of email domains. Client-safe: the create page uses the same labels and
+ * validation.
+ */
+
+import type { SessionAccessMode, SessionAccessPolicy } from "@/types/session";
+
+export const SESSION_ACCESS_MODES: SessionAccessMode[] = [
+  "public",
+  "passcode",
+  "signed_in",
+  "email_domain",
+];
+
+export const SESSION_ACCESS_MODE_LABELS: Record<SessionAccessMode, string> = {
+  public: "Anyone with the code",
+  passcode: "Anyone with the code and passcode",
+  signed_in: "Signed-in users only",
+  email_domain: "Signed-in users from allowed email domains",
+};
+
+export const MIN_PASSCODE_LENGTH = 4;
+export const MAX_PASSCODE_LENGTH = 64;
+export const MAX_EMAIL_DOMAINS = 20;
+
+const EMAIL_DOMAIN_PATTERN = /^(?=.{1,253}$)([a-z0-9-]+\.)+[a-z]{2,}$/;
+
+/**
+ * Normalise an email domain as entered by a host ("@Example.com" -> "example.com")
+ */
+export function normaliseEmailDomain(domain: string): string {
+  return domain.trim().toLowerCase().replace(/^@/, "");
+}
+
+/**
+ * Read the allowed domains stored on a session
+ */
+export function getAllowedEmailDomains(value: unknown): string[] {
+  return Array.isArray(value)
+    ? value.filter((domain): domain is string => typeof domain === "string")
+    : [];
+}
+
+/**
+ * Check whether an email address is on one of the allowed domains
+ * Subdomains don't match - "eu.example.com" has to be listed itself.
+ */
+export function isEmailDomainAllowed(
+  email: string | null | undefined,
+  allowedDomains: string[],
+): boolean {
+  if (!email) return false;
+
+  const domain = email.trim().toLowerCase().split("@")[1];
+  return !!domain && allowedDomains.includes(domain);
+}
+
+/**
+ * Validate access policy fields from a create request
+ * Fields that are absent are left out of the result.
+ *
+ * @param input - Request body
+ * @returns Validation result with per-field errors, the fields to store and
+ * the passcode to hash when passcode mode is chosen
+ */
+export function validateSessionAccess(input: {
+  accessMode?: unknown;
+  allowedEmailDomains?: unknown;
+  accessPasscode?: unknown;
+}): {
+  isValid: boolean;
+  errors: Partial<Record<keyof SessionAccessPolicy | "accessPasscode", string>>;
+  policy: Partial<SessionAccessPolicy>;
+  passcode: string | null;
+} {
+  const errors: Partial<
+    Record<keyof SessionAccessPolicy | "accessPasscode", string>
+  > = {};
+  const policy: Partial<SessionAccessPolicy> = {};
+  let passcode: string | null = null;
+
+  const accessMode = input.accessMode ?? "public";
+  if (!SESSION_ACCESS_MODES.includes(accessMode as SessionAccessMode)) {
+    errors.accessMode = `Access mode must be one of: ${SESSION_ACCESS_MODES.join(", ")}`;
+  } else if (input.accessMode !== undefined) {
+    policy.accessMode = accessMode as SessionAccessMode;
+  }
+
+  if (accessMode === "passcode") {
+    const value = input.accessPasscode;
+    if (
+      typeof value !== "string" ||
+      value.trim().length < MIN_PASSCODE_LENGTH ||
+      value.trim().length > MAX_PASSCODE_LENGTH
+    ) {
+      errors.accessPasscode = `Passcode must be between ${MIN_PASSCODE_LENGTH} and ${MAX_PASSCODE_LENGTH} characters`;
+    } else {
+      passcode = value.trim();
+    }
+  }
+
+  if (accessMode === "email_domain") {
+    const value = input.allowedEmailDomains;
+    const isList =
+      Array.isArray(value) &&
+      value.every((domain) => typeof domain === "string");
+    const domains = isList
+      ? Array.from(
+          new Set((value as string[]).map(normaliseEmailDomain)),
+        ).filter((domain) => domain.length > 0)
+      : [];
+    const invalid = domains.find(
+      (domain) => !EMAIL_DOMAIN_PATTERN.test(domain),
+    );
+
+    if (!isList) {
+      errors.allowedEmailDomains = "Email domains must be a list of domains";
+    } else if (domains.length === 0) {
+      errors.allowedEmailDomains = "Add at least one email domain";
+    } else if (domains.length > MAX_EMAIL_DOMAINS) {
+      errors.allowedEmailDomains = `No more than ${MAX_EMAIL_DOMAINS} email domains`;
+    } else if (invalid) {
+      errors.allowedEmailDomains = `Invalid email domain: ${invalid}`;
+    } else {
+      policy.allowedEmailDomains = domains;
+    }
+  }
+
+  return {
+    isValid: Object.keys(errors).length === 0,
+    errors,
+    policy,
+    passcode,
+  };
+}
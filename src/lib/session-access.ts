@@ -0,0 +1,199 @@
+/**
+ * Enforcing session access policies
+ *
+ * Participant routes call checkSessionAccess before doing anything else.
+ * Hosts and session members always get in. Passcode sessions hand out an
+ * access cookie once the passcode is entered; it's signed over the stored
+ * passcode hash, so changing the passcode locks out everyone who entered
+ * the old one. Signed-in and email domain sessions check the NextAuth
+ * session.
+ *
+ * Server-only.
+ */
+
+import { createHmac, randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import type { SessionAccessMode } from "@prisma/client";
+import { authOptions } from "./auth";
+import { getTokenSecret } from "./participant-token";
+import { getSessionRole } from "./session-auth";
+import {
+  getAllowedEmailDomains,
+  isEmailDomainAllowed,
+} from "./session-access-policy";
+
+const scryptAsync = promisify(scrypt) as (
+  password: string,
+  salt: string,
+  keylen: number,
+) => Promise<Buffer>;
+
+const PASSCODE_KEY_LENGTH = 32;
+
+/** Prisma select for the fields checkSessionAccess needs */
+export const SESSION_ACCESS_SELECT = {
+  id: true,
+  code: true,
+  hostId: true,
+  accessMode: true,
+  accessPasscodeHash: true,
+  allowedEmailDomains: true,
+} as const;
+
+export interface SessionAccessFields {
+  id: string;
+  code: string;
+  hostId: string;
+  accessMode: SessionAccessMode;
+  accessPasscodeHash: string | null;
+  allowedEmailDomains: unknown;
+}
+
+/**
+ * Hash a session passcode for storage
+ *
+ * @returns `{salt}:{hash}`, both hex
+ */
+export async function hashPasscode(passcode: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const hash = await scryptAsync(passcode, salt, PASSCODE_KEY_LENGTH);
+  return `${salt}:${hash.toString("hex")}`;
+}
+
+/**
+ * Check a passcode against a stored hash
+ */
+export async function verifyPasscode(
+  passcode: string,
+  storedHash: string,
+): Promise<boolean> {
+  const [salt, hash] = storedHash.split(":");
+  const expected = Buffer.from(hash ?? "", "hex");
+  if (!salt || expected.length === 0) return false;
+
+  const actual = await scryptAsync(passcode, salt, expected.length);
+  return timingSafeEqual(actual, expected);
+}
+
+/**
+ * Name of the cookie granting access to a passcode session
+ */
+export function getAccessCookieName(sessionCode: string): string {
+  return `qa_access_${sessionCode.toUpperCase()}`;
+}
+
+function signAccess(sessionCode: string, passcodeHash: string): string {
+  return createHmac("sha256", getTokenSecret())
+    .update(`access:${sessionCode.toUpperCase()}:${passcodeHash}`)
+    .digest("base64url");
+}
+
+/**
+ * Attach a passcode session's access grant to a response
+ */
+export function setAccessCookie(
+  response: NextResponse,
+  sessionCode: string,
+  passcodeHash: string,
+): void {
+  response.cookies.set({
+    name: getAccessCookieName(sessionCode),
+    value: signAccess(sessionCode, passcodeHash),
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+  });
+}
+
+/**
+ * Whether a request carries a current access grant for a passcode session
+ */
+export function hasAccessGrant(
+  req: NextRequest,
+  sessionCode: string,
+  passcodeHash: string | null,
+): boolean {
+  const grant = req.cookies.get(getAccessCookieName(sessionCode))?.value;
+  if (!grant || !passcodeHash) return false;
+
+  const expected = Buffer.from(signAccess(sessionCode, passcodeHash));
+  const actual = Buffer.from(grant);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+function accessDenied(
+  status: 401 | 403,
+  code: string,
+  message: string,
+  accessMode: SessionAccessMode,
+): { error: NextResponse } {
+  return {
+    error: NextResponse.json({ code, message, accessMode }, { status }),
+  };
+}
+
+/**
+ * Check that a request may take part in a session
+ *
+ * @param req - Incoming request
+ * @param qaSession - Session being accessed (see SESSION_ACCESS_SELECT)
+ * @returns null if access is allowed, or an error response (401 or 403)
+ * naming the access mode so the client knows what to ask for
+ */
+export async function checkSessionAccess(
+  req: NextRequest,
+  qaSession: SessionAccessFields,
+): Promise<{ error: NextResponse } | null> {
+  const { accessMode } = qaSession;
+
+  if (accessMode === "public") {
+    return null;
+  }
+
+  const session = await getServerSession(authOptions);
+  const user = session?.user?.id ? session.user : null;
+
+  if (user && (await getSessionRole(qaSession, user))) {
+    return null;
+  }
+
+  if (accessMode === "passcode") {
+    return hasAccessGrant(req, qaSession.code, qaSession.accessPasscodeHash)
+      ? null
+      : accessDenied(
+          401,
+          "PASSCODE_REQUIRED",
+          "Enter the session passcode to join",
+          accessMode,
+        );
+  }
+
+  if (!user) {
+    return accessDenied(
+      401,
+      "SIGN_IN_REQUIRED",
+      "Sign in to join this session",
+      accessMode,
+    );
+  }
+
+  if (
+    accessMode === "email_domain" &&
+    !isEmailDomainAllowed(
+      user.email,
+      getAllowedEmailDomains(qaSession.allowedEmailDomains),
+    )
+  ) {
+    return accessDenied(
+      403,
+      "EMAIL_DOMAIN_NOT_ALLOWED",
+      "This session is restricted to specific email domains",
+      accessMode,
+    );
+  }
+
+  return null;
+}
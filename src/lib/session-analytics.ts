@@ -0,0 +1,231 @@
+/**
+ * Session analytics
+ *
+ * Computes post-event metrics from a session's questions, votes and pulse
+ * check feedback. Pure functions - the analytics route handles loading data
+ * and authorization.
+ */
+
+import type { QuestionStatus } from "@prisma/client";
+import type {
+  AnalyticsTimeBucket,
+  SessionAnalytics,
+  VoteDistributionBucket,
+} from "@/types/analytics";
+import {
+  getPulseScale,
+  summarisePulseFeedback,
+  type PulseFeedbackRecord,
+} from "@/lib/pulse-check";
+
+/** Question row as loaded from the database */
+export interface AnalyticsQuestionRecord {
+  id: string;
+  content: string;
+  status: QuestionStatus;
+  voteCount: number;
+  participantId: string | null;
+  createdAt: Date;
+  answeredAt: Date | null;
+}
+
+/** Rows the analytics are computed from */
+export interface SessionAnalyticsInput {
+  questions: AnalyticsQuestionRecord[];
+  votes: Array<{ participantId: string; createdAt: Date }>;
+  pulseFeedback: Array<PulseFeedbackRecord & { participantId: string }>;
+  /** Session's stored pulse scale (null for the default) */
+  pulseScale: unknown;
+}
+
+// Candidate bucket sizes, smallest first
+const BUCKET_MINUTES = [1, 5, 15, 30, 60, 180, 360, 720, 1440];
+const MAX_TIMELINE_BUCKETS = 24;
+const TOP_QUESTIONS_LIMIT = 5;
+
+// Statuses participants could see (and vote on)
+const VISIBLE_STATUSES: QuestionStatus[] = [
+  "approved",
+  "being_answered",
+  "answered",
+];
+
+const VOTE_RANGES: Array<{ min: number; max: number | null }> = [
+  { min: 0, max: 0 },
+  { min: 1, max: 1 },
+  { min: 2, max: 4 },
+  { min: 5, max: 9 },
+  { min: 10, max: null },
+];
+
+/**
+ * Split activity into equal time buckets
+ * Picks the smallest bucket size that keeps the chart readable.
+ *
+ * @param questionTimes - When each question was submitted
+ * @param voteTimes - When each vote was cast
+ */
+export function buildTimeline(
+  questionTimes: Date[],
+  voteTimes: Date[],
+): SessionAnalytics["timeline"] {
+  const times = [...questionTimes, ...voteTimes].map((t) => t.getTime());
+  if (times.length === 0) {
+    return { bucketMinutes: BUCKET_MINUTES[0], buckets: [] };
+  }
+
+  // Reduce rather than spread - busy sessions can have many thousands of votes
+  const first = times.reduce((min, t) => Math.min(min, t));
+  const last = times.reduce((max, t) => Math.max(max, t));
+  const bucketMinutes =
+    BUCKET_MINUTES.find(
+      (minutes) =>
+        Math.floor(last / (minutes * 60000)) -
+          Math.floor(first / (minutes * 60000)) <
+        MAX_TIMELINE_BUCKETS,
+    ) ?? BUCKET_MINUTES[BUCKET_MINUTES.length - 1];
+
+  const bucketMs = bucketMinutes * 60000;
+  const start = Math.floor(first / bucketMs) * bucketMs;
+  const count = Math.floor((last - start) / bucketMs) + 1;
+
+  const buckets: AnalyticsTimeBucket[] = Array.from(
+    { length: count },
+    (_, index) => ({
+      start: new Date(start + index * bucketMs).toISOString(),
+      questions: 0,
+      votes: 0,
+    }),
+  );
+  const indexOf = (time: Date) =>
+    Math.floor((time.getTime() - start) / bucketMs);
+
+  questionTimes.forEach((time) => buckets[indexOf(time)].questions++);
+  voteTimes.forEach((time) => buckets[indexOf(time)].votes++);
+
+  return { bucketMinutes, buckets };
+}
+
+/**
+ * Count questions by vote range
+ */
+export function buildVoteDistribution(
+  voteCounts: number[],
+): VoteDistributionBucket[] {
+  return VOTE_RANGES.map(({ min, max }) => ({
+    label: max === null ? `${min}+` : min === max ? `${min}` : `${min}-${max}`,
+    min,
+    max,
+    questions: voteCounts.filter(
+      (count) => count >= min && (max === null || count <= max),
+    ).length,
+  }));
+}
+
+/**
+ * Average and median time from submission to answer
+ * Questions answered before they were submitted (clock skew) are ignored.
+ */
+export function summariseTimeToAnswer(
+  questions: Array<{ createdAt: Date; answeredAt: Date | null }>,
+): SessionAnalytics["timeToAnswer"] {
+  const durations = questions
+    .filter((q): q is { createdAt: Date; answeredAt: Date } => !!q.answeredAt)
+    .map((q) => q.answeredAt.getTime() - q.createdAt.getTime())
+    .filter((ms) => ms >= 0)
+    .sort((a, b) => a - b);
+
+  if (durations.length === 0) {
+    return { sampleSize: 0, averageMs: null, medianMs: null };
+  }
+
+  const middle = Math.floor(durations.length / 2);
+  return {
+    sampleSize: durations.length,
+    averageMs: Math.round(
+      durations.reduce((sum, ms) => sum + ms, 0) / durations.length,
+    ),
+    medianMs:
+      durations.length % 2 === 0
+        ? Math.round((durations[middle - 1] + durations[middle]) / 2)
+        : durations[middle],
+  };
+}
+
+/**
+ * Compute every metric for a session
+ */
+export function computeSessionAnalytics({
+  questions,
+  votes,
+  pulseFeedback,
+  pulseScale,
+}: SessionAnalyticsInput): SessionAnalytics {
+  const participants = new Set<string>();
+  for (const q of questions) {
+    if (q.participantId) participants.add(q.participantId);
+  }
+  for (const row of [...votes, ...pulseFeedback]) {
+    participants.add(row.participantId);
+  }
+
+  const questionsByStatus: Record<QuestionStatus, number> = {
+    pending: 0,
+    approved: 0,
+    being_answered: 0,
+    answered: 0,
+    dismissed: 0,
+  };
+  questions.forEach((q) => questionsByStatus[q.status]++);
+
+  const visible = questions.filter((q) => VISIBLE_STATUSES.includes(q.status));
+  const answered = questions.filter((q) => q.status === "answered");
+
+  return {
+    participants: participants.size,
+    totalQuestions: questions.length,
+    questionsByStatus,
+    totalVotes: votes.length,
+    timeline: buildTimeline(
+      questions.map((q) => q.createdAt),
+      votes.map((vote) => vote.createdAt),
+    ),
+    voteDistribution: buildVoteDistribution(visible.map((q) => q.voteCount)),
+    topQuestions: [...visible]
+      .sort(
+        (a, b) =>
+          b.voteCount - a.voteCount ||
+          a.createdAt.getTime() - b.createdAt.getTime(),
+      )
+      .slice(0, TOP_QUESTIONS_LIMIT)
+      .map((q) => ({
+        id: q.id,
+        content: q.content,
+        voteCount: q.voteCount,
+        status: q.status,
+      })),
+    answerRate:
+      visible.length > 0
+        ? Math.round((answered.length / visible.length) * 100)
+        : null,
+    timeToAnswer: summariseTimeToAnswer(answered),
+    satisfaction: summarisePulseFeedback(
+      pulseFeedback,
+      getPulseScale(pulseScale),
+    ),
+  };
+}
+
+/**
+ * Format a duration for display, e.g. "45s", "4m 30s", "1h 5m"
+ */
+export function formatDuration(ms: number): string {
+  const totalSeconds = Math.round(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  if (minutes > 0) return `${minutes}m ${seconds}s`;
+  return `${seconds}s`;
+}
@@ -0,0 +1,135 @@
+/**
+ * Host authorization helpers for session-scoped API routes
+ *
+ * A session's host is its owner; co-hosts and moderators get access through
+ * a SessionMember row, matched by user ID or (for invites that haven't been
+ * used yet) by email address.
+ */
+
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import type { QaSession } from "@prisma/client";
+import type { SessionPermission, SessionRole } from "@/types/session-member";
+import { authOptions } from "./auth";
+import { prisma } from "./db";
+import { hasSessionPermission } from "./session-roles";
+
+export type HostSessionResult =
+  | {
+      qaSession: QaSession;
+      userId: string;
+      user: { id: string; name?: string | null; email?: string | null };
+      role: SessionRole;
+    }
+  | { error: NextResponse };
+
+/**
+ * Normalise an email address for membership lookups
+ */
+export function normaliseEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+/**
+ * Membership filter matching a signed-in user
+ */
+export function memberMatchFor(user: { id: string; email?: string | null }) {
+  return {
+    OR: [
+      { userId: user.id },
+      ...(user.email ? [{ email: normaliseEmail(user.email) }] : []),
+    ],
+  };
+}
+
+/**
+ * Resolve a user's role in a session
+ * Links a pending email invite to the user the first time they use it.
+ *
+ * @returns The role, or null if the user has no access
+ */
+export async function getSessionRole(
+  qaSession: { id: string; hostId: string },
+  user: { id: string; email?: string | null },
+): Promise<SessionRole | null> {
+  if (qaSession.hostId === user.id) {
+    return "owner";
+  }
+
+  const member = await prisma.sessionMember.findFirst({
+    where: { sessionId: qaSession.id, ...memberMatchFor(user) },
+  });
+
+  if (!member) {
+    return null;
+  }
+
+  if (!member.userId) {
+    await prisma.sessionMember.update({
+      where: { id: member.id },
+      data: { userId: user.id },
+    });
+  }
+
+  return member.role;
+}
+
+/**
+ * Look up a session by code and verify the signed-in user's role allows an action
+ *
+ * @param sessionCode - The Q&A session code (case-insensitive)
+ * @param permission - Permission the user's role must grant
+ * @param forbiddenMessage - Message returned when the user lacks the permission
+ * @returns The session and role, or an error response (401, 404 or 403) to return as-is
+ */
+export async function getHostSession(
+  sessionCode: string,
+  permission: SessionPermission,
+  forbiddenMessage = "You are not authorized to manage this session",
+): Promise<HostSessionResult> {
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user?.id) {
+    return {
+      error: NextResponse.json(
+        {
+          code: "UNAUTHORIZED",
+          message: "Authentication required",
+        },
+        { status: 401 },
+      ),
+    };
+  }
+
+  const qaSession = await prisma.qaSession.findUnique({
+    where: { code: sessionCode.toUpperCase() },
+  });
+
+  if (!qaSession) {
+    return {
+      error: NextResponse.json(
+        {
+          code: "SESSION_NOT_FOUND",
+          message: "Session not found",
+        },
+        { status: 404 },
+      ),
+    };
+  }
+
+  const role = await getSessionRole(qaSession, session.user);
+
+  if (!role || !hasSessionPermission(role, permission)) {
+    return {
+      error: NextResponse.json(
+        {
+          code: "FORBIDDEN",
+          message: forbiddenMessage,
+        },
+        { status: 403 },
+      ),
+    };
+  }
+
+  return { qaSession, userId: session.user.id, user: session.user, role };
+}
@@ -0,0 +1,300 @@
+/**
+ * Session event broker
+ *
+ * Pub/sub used to push question and session changes to the per-session SSE
+ * stream. API routes publish after a successful write; the stream route
+ * subscribes for as long as a client is connected.
+ *
+ * By default events only reach subscribers on the instance that published
+ * them. Set SESSION_EVENTS_REDIS_URL to relay every event through Redis
+ * pub/sub so all instances see it. Streams report whether the relay is
+ * running, and clients only slow their SWR polling down when it is.
+ */
+
+import { logger } from "./logger";
+import type { SessionEvent, SessionEventMessage } from "@/types/session-events";
+
+type SessionEventListener = (message: SessionEventMessage) => void;
+
+// Keep listeners on globalThis so hot reloads in development don't orphan
+// open streams (same approach as the Prisma client in db.ts)
+const globalForEvents = globalThis as unknown as {
+  sessionEventListeners: Map<string, Set<SessionEventListener>> | undefined;
+  sessionEventCounter: number | undefined;
+  sessionEventRelay: RedisSessionEventRelay | null | undefined;
+};
+
+const listeners =
+  globalForEvents.sessionEventListeners ??
+  new Map<string, Set<SessionEventListener>>();
+globalForEvents.sessionEventListeners = listeners;
+
+/**
+ * Subscribe to events for a session
+ *
+ * @param sessionCode - The Q&A session code (e.g., "AB12CD")
+ * @param listener - Called with every event published for the session
+ * @returns Function that removes the subscription
+ */
+export function subscribeToSession(
+  sessionCode: string,
+  listener: SessionEventListener,
+): () => void {
+  const code = sessionCode.toUpperCase();
+  let sessionListeners = listeners.get(code);
+
+  if (!sessionListeners) {
+    sessionListeners = new Set();
+    listeners.set(code, sessionListeners);
+  }
+
+  sessionListeners.add(listener);
+
+  return () => {
+    const current = listeners.get(code);
+    if (!current) return;
+
+    current.delete(listener);
+    if (current.size === 0) {
+      listeners.delete(code);
+    }
+  };
+}
+
+/** Event as relayed between instances, before it is given a local ID */
+export interface RelayedSessionEvent {
+  sessionCode: string;
+  event: SessionEvent;
+  timestamp: string;
+}
+
+/**
+ * Hand an event to this instance's subscribers
+ */
+function deliverSessionEvent({
+  sessionCode,
+  event,
+  timestamp,
+}: RelayedSessionEvent): void {
+  const sessionListeners = listeners.get(sessionCode);
+
+  if (!sessionListeners || sessionListeners.size === 0) {
+    return;
+  }
+
+  globalForEvents.sessionEventCounter =
+    (globalForEvents.sessionEventCounter ?? 0) + 1;
+
+  const message: SessionEventMessage = {
+    ...event,
+    id: globalForEvents.sessionEventCounter,
+    sessionCode,
+    timestamp,
+  };
+
+  for (const listener of sessionListeners) {
+    try {
+      listener(message);
+    } catch {
+      // Listener belongs to a stream that is shutting down, ignore
+    }
+  }
+}
+
+/**
+ * Publish an event to everyone subscribed to a session
+ *
+ * Without a relay, subscribers are called synchronously. With one, the
+ * event goes out through Redis and comes back to every instance
+ * (including this one); if Redis can't be reached it is still delivered
+ * to this instance's subscribers.
+ *
+ * Never throws - a failing listener must not break the API route that
+ * published the event.
+ *
+ * @param sessionCode - The Q&A session code
+ * @param event - Event payload
+ */
+export function publishSessionEvent(
+  sessionCode: string,
+  event: SessionEvent,
+): void {
+  const relayed: RelayedSessionEvent = {
+    sessionCode: sessionCode.toUpperCase(),
+    event,
+    timestamp: new Date().toISOString(),
+  };
+
+  const relay = getSessionEventRelay();
+  if (!relay) {
+    deliverSessionEvent(relayed);
+    return;
+  }
+
+  relay.publish(relayed).catch((error) => {
+    logger.warn("Failed to relay session event, delivering locally only", {
+      sessionCode: relayed.sessionCode,
+      eventType: event.type,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    deliverSessionEvent(relayed);
+  });
+}
+
+/**
+ * Start receiving events published on other instances
+ * Called by the stream route before it subscribes.
+ *
+ * @returns Whether subscribers on this instance will see events from every
+ * instance (false when no relay is configured or Redis is unreachable)
+ */
+export async function connectSessionEventRelay(): Promise<boolean> {
+  const relay = getSessionEventRelay();
+  if (!relay) return false;
+
+  try {
+    await relay.start(deliverSessionEvent);
+    return true;
+  } catch (error) {
+    logger.warn("Failed to subscribe to the session event relay", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return false;
+  }
+}
+
+/**
+ * Get the number of open subscriptions for a session
+ * Useful for tests and diagnostics
+ */
+export function getSubscriberCount(sessionCode: string): number {
+  return listeners.get(sessionCode.toUpperCase())?.size ?? 0;
+}
+
+/**
+ * Format an event as a server-sent events frame
+ *
+ * @param message - Event to serialise
+ * @returns SSE frame (`id`, `event` and `data` fields, blank-line terminated)
+ */
+export function formatSseMessage(message: SessionEventMessage): string {
+  return `id: ${message.id}\nevent: ${message.type}\ndata: ${JSON.stringify(message)}\n\n`;
+}
+
+const SESSION_EVENTS_CHANNEL = "session-events";
+
+/** Minimal client interface the Redis relay needs (satisfied by ioredis) */
+export interface RedisPubSubClient {
+  publish(channel: string, message: string): Promise<unknown>;
+  subscribe(channel: string): Promise<unknown>;
+  on(
+    event: "message",
+    listener: (channel: string, message: string) => void,
+  ): unknown;
+}
+
+/**
+ * Relays events between instances over Redis pub/sub (or any server
+ * speaking the Redis protocol), configured via SESSION_EVENTS_REDIS_URL.
+ * Subscribing ties up a connection, so publishing uses a second one.
+ */
+export class RedisSessionEventRelay {
+  private clients?: Promise<{
+    publisher: RedisPubSubClient;
+    subscriber: RedisPubSubClient;
+  }>;
+  private started?: Promise<void>;
+  private deliver?: (relayed: RelayedSessionEvent) => void;
+
+  constructor(publisher?: RedisPubSubClient, subscriber?: RedisPubSubClient) {
+    if (publisher && subscriber) {
+      this.clients = Promise.resolve({ publisher, subscriber });
+    }
+  }
+
+  async publish(relayed: RelayedSessionEvent): Promise<void> {
+    const { publisher } = await this.connect();
+    await publisher.publish(SESSION_EVENTS_CHANNEL, JSON.stringify(relayed));
+  }
+
+  /**
+   * Subscribe to the channel once; later calls reuse the subscription
+   * unless it failed, in which case they retry
+   */
+  start(deliver: (relayed: RelayedSessionEvent) => void): Promise<void> {
+    this.started ??= this.subscribe(deliver).catch((error) => {
+      this.started = undefined;
+      throw error;
+    });
+    return this.started;
+  }
+
+  private async subscribe(
+    deliver: (relayed: RelayedSessionEvent) => void,
+  ): Promise<void> {
+    const { subscriber } = await this.connect();
+
+    // Register the message handler only once, even if subscribing is retried
+    if (!this.deliver) {
+      subscriber.on("message", (channel, message) => {
+        if (channel !== SESSION_EVENTS_CHANNEL) return;
+
+        let relayed: RelayedSessionEvent;
+        try {
+          relayed = JSON.parse(message) as RelayedSessionEvent;
+        } catch {
+          return; // Not one of ours, ignore
+        }
+        this.deliver?.(relayed);
+      });
+    }
+    this.deliver = deliver;
+
+    await subscriber.subscribe(SESSION_EVENTS_CHANNEL);
+  }
+
+  private connect() {
+    // Don't cache a failed connection attempt - retry on the next call
+    this.clients ??= connectRedisPubSub().catch((error) => {
+      this.clients = undefined;
+      throw error;
+    });
+    return this.clients;
+  }
+}
+
+/**
+ * Connect to the Redis server in SESSION_EVENTS_REDIS_URL
+ * ioredis is only loaded when the relay is configured.
+ */
+async function connectRedisPubSub(): Promise<{
+  publisher: RedisPubSubClient;
+  subscriber: RedisPubSubClient;
+}> {
+  const url = process.env.SESSION_EVENTS_REDIS_URL;
+  if (!url) {
+    throw new Error("SESSION_EVENTS_REDIS_URL must be set to relay events");
+  }
+
+  const { default: Redis } = await import("ioredis");
+  return {
+    publisher: new Redis(url, { maxRetriesPerRequest: 1 }),
+    subscriber: new Redis(url),
+  };
+}
+
+/**
+ * Get the relay configured via SESSION_EVENTS_REDIS_URL, created once per
+ * process (kept on globalThis like the listeners)
+ *
+ * @returns The relay, or null if events stay on this instance
+ */
+function getSessionEventRelay(): RedisSessionEventRelay | null {
+  if (globalForEvents.sessionEventRelay === undefined) {
+    globalForEvents.sessionEventRelay = process.env.SESSION_EVENTS_REDIS_URL
+      ? new RedisSessionEventRelay()
+      : null;
+  }
+
+  return globalForEvents.sessionEventRelay;
+}
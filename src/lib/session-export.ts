@@ -0,0 +1,315 @@
+/**
+ * Session export formatting
+ *
+ * Turns a session and its questions into CSV, JSON or a Markdown report
+ * for post-event follow-up. Pure functions - the export route handles
+ * loading data and authorization.
+ */
+
+import type { QuestionStatus, ReplyAuthorType } from "@prisma/client";
+import type {
+  ExportedQuestion,
+  ExportFormat,
+  SessionExport,
+} from "@/types/export";
+import { QUESTION_STATUS_LABELS } from "@/types/question";
+import type { PulseSummaryPoint } from "@/types/pulse-check";
+import {
+  getPulseScale,
+  summarisePulseFeedback,
+  toPulseComments,
+  type PulseFeedbackRecord,
+} from "@/lib/pulse-check";
+
+export const EXPORT_FORMATS: ExportFormat[] = ["csv", "json", "markdown"];
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  json: "application/json; charset=utf-8",
+  markdown: "text/markdown; charset=utf-8",
+};
+
+const FILE_EXTENSIONS: Record<ExportFormat, string> = {
+  csv: "csv",
+  json: "json",
+  markdown: "md",
+};
+
+// Order questions appear in the Markdown report
+const REPORT_SECTIONS: QuestionStatus[] = [
+  "answered",
+  "being_answered",
+  "approved",
+  "pending",
+  "dismissed",
+];
+
+/** Question row as loaded from the database */
+interface QuestionRecord {
+  id: string;
+  content: string;
+  status: QuestionStatus;
+  voteCount: number;
+  authorName: string | null;
+  isAnonymous: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+  pulseCheckFeedback: Array<
+    PulseFeedbackRecord & { comment: string | null; createdAt: Date }
+  >;
+  replies: Array<{
+    authorType: ReplyAuthorType;
+    authorName: string | null;
+    content: string;
+    createdAt: Date;
+  }>;
+}
+
+/**
+ * Check whether a value is a supported export format
+ */
+export function isExportFormat(value: unknown): value is ExportFormat {
+  return EXPORT_FORMATS.includes(value as ExportFormat);
+}
+
+/**
+ * Build the export payload from database records
+ * Anonymous questions never expose the author's name.
+ */
+export function buildSessionExport(
+  session: {
+    code: string;
+    title: string;
+    description: string | null;
+    createdAt: Date;
+    expiresAt: Date;
+    pulseScale?: unknown;
+  },
+  questions: QuestionRecord[],
+  exportedAt: Date = new Date(),
+): SessionExport {
+  const pulseScale = getPulseScale(session.pulseScale);
+
+  return {
+    session: {
+      code: session.code,
+      title: session.title,
+      description: session.description || undefined,
+      createdAt: session.createdAt.toISOString(),
+      expiresAt: session.expiresAt.toISOString(),
+    },
+    exportedAt: exportedAt.toISOString(),
+    questions: questions.map((q): ExportedQuestion => ({
+      id: q.id,
+      content: q.content,
+      status: q.status,
+      voteCount: q.voteCount,
+      author: q.isAnonymous ? "Anonymous" : q.authorName || "Anonymous",
+      createdAt: q.createdAt.toISOString(),
+      updatedAt: q.updatedAt.toISOString(),
+      pulseCheckStats: {
+        helpful: q.pulseCheckFeedback.filter((f) => f.feedback === "helpful")
+          .length,
+        neutral: q.pulseCheckFeedback.filter((f) => f.feedback === "neutral")
+          .length,
+        not_helpful: q.pulseCheckFeedback.filter(
+          (f) => f.feedback === "not_helpful",
+        ).length,
+      },
+      pulseSummary: summarisePulseFeedback(q.pulseCheckFeedback, pulseScale),
+      pulseComments: toPulseComments(q.pulseCheckFeedback),
+      replies: q.replies.map((reply) => ({
+        authorType: reply.authorType,
+        author: reply.authorName || "Anonymous",
+        content: reply.content,
+        createdAt: reply.createdAt.toISOString(),
+      })),
+    })),
+  };
+}
+
+/**
+ * Escape a value for a CSV cell (RFC 4180)
+ * Cells that could be read as spreadsheet formulas are prefixed with a quote.
+ */
+function escapeCsvCell(value: string | number): string {
+  let text = String(value);
+
+  if (/^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+
+  if (/[",\r\n]/.test(text)) {
+    return `"${text.replace(/"/g, '""')}"`;
+  }
+
+  return text;
+}
+
+/**
+ * Join a question's replies of one kind into a single CSV cell
+ */
+function joinReplies(
+  replies: SessionExport["questions"][number]["replies"],
+  authorType: ReplyAuthorType,
+): string {
+  return replies
+    .filter((reply) => reply.authorType === authorType)
+    .map((reply) => `${reply.author}: ${reply.content}`)
+    .join("\n");
+}
+
+/**
+ * Describe a point's count for the Markdown report, e.g. "2 helpful"
+ * Numeric labels read as ratings ("2 rated 5").
+ */
+function describePulsePoint(point: PulseSummaryPoint): string {
+  return /^\d+$/.test(point.label)
+    ? `${point.count} rated ${point.label}`
+    : `${point.count} ${point.label.toLowerCase()}`;
+}
+
+/**
+ * Format an export as CSV (one row per question)
+ * Host answers, participant replies and pulse comments each go in a single
+ * cell, one per line.
+ */
+export function formatExportCsv(data: SessionExport): string {
+  const header = [
+    "id",
+    "content",
+    "status",
+    "vote_count",
+    "author",
+    "created_at",
+    "updated_at",
+    "pulse_helpful",
+    "pulse_neutral",
+    "pulse_not_helpful",
+    "host_answers",
+    "participant_replies",
+    "pulse_average",
+    "pulse_comments",
+  ];
+
+  const rows = data.questions.map((q) =>
+    [
+      q.id,
+      q.content,
+      q.status,
+      q.voteCount,
+      q.author,
+      q.createdAt,
+      q.updatedAt,
+      q.pulseCheckStats.helpful,
+      q.pulseCheckStats.neutral,
+      q.pulseCheckStats.not_helpful,
+      joinReplies(q.replies, "host"),
+      joinReplies(q.replies, "participant"),
+      q.pulseSummary.average ?? "",
+      q.pulseComments.map((c) => c.comment).join("\n"),
+    ]
+      .map(escapeCsvCell)
+      .join(","),
+  );
+
+  return [header.join(","), ...rows].join("\r\n") + "\r\n";
+}
+
+/**
+ * Format an export as pretty-printed JSON
+ */
+export function formatExportJson(data: SessionExport): string {
+  return JSON.stringify(data, null, 2);
+}
+
+/**
+ * Format an export as a Markdown report grouped by status
+ */
+export function formatExportMarkdown(data: SessionExport): string {
+  const lines: string[] = [`# ${data.session.title}`, ""];
+
+  if (data.session.description) {
+    lines.push(data.session.description, "");
+  }
+
+  lines.push(
+    `- **Session code:** ${data.session.code}`,
+    `- **Created:** ${data.session.createdAt}`,
+    `- **Exported:** ${data.exportedAt}`,
+    `- **Questions:** ${data.questions.length}`,
+    "",
+  );
+
+  for (const status of REPORT_SECTIONS) {
+    const questions = data.questions
+      .filter((q) => q.status === status)
+      .sort((a, b) => b.voteCount - a.voteCount);
+
+    if (questions.length === 0) continue;
+
+    lines.push(
+      `## ${QUESTION_STATUS_LABELS[status]} (${questions.length})`,
+      "",
+    );
+
+    for (const q of questions) {
+      // Keep multi-line questions inside their list item
+      const content = q.content.trim().replace(/\r?\n/g, "\n   ");
+      const votes = `${q.voteCount} ${q.voteCount === 1 ? "vote" : "votes"}`;
+      lines.push(
+        `1. ${content}`,
+        `   - ${votes} · ${q.author} · ${q.createdAt}`,
+      );
+
+      const { pulseSummary } = q;
+      if (pulseSummary.responses > 0) {
+        const counts = [...pulseSummary.points]
+          .reverse()
+          .map(describePulsePoint)
+          .join(", ");
+        lines.push(
+          `   - Pulse check: ${counts} (average ${pulseSummary.average} of ${pulseSummary.points.length})`,
+        );
+      }
+
+      for (const pulseComment of q.pulseComments) {
+        const commentText = pulseComment.comment.replace(/\r?\n/g, " ");
+        lines.push(`   - **Pulse comment:** ${commentText}`);
+      }
+
+      for (const reply of q.replies) {
+        const label = reply.authorType === "host" ? "Answer" : "Reply";
+        const replyContent = reply.content.trim().replace(/\r?\n/g, "\n     ");
+        lines.push(`   - **${label} from ${reply.author}:** ${replyContent}`);
+      }
+    }
+
+    lines.push("");
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Serialise an export in the requested format
+ *
+ * @returns Body, content type and a download filename
+ */
+export function renderSessionExport(
+  data: SessionExport,
+  format: ExportFormat,
+): { body: string; contentType: string; filename: string } {
+  const body =
+    format === "csv"
+      ? formatExportCsv(data)
+      : format === "json"
+        ? formatExportJson(data)
+        : formatExportMarkdown(data);
+
+  return {
+    body,
+    contentType: CONTENT_TYPES[format],
+    filename: `session-${data.session.code}-questions.${FILE_EXTENSIONS[format]}`,
+  };
+}
@@ -0,0 +1,62 @@
+/**
+ * Join links and QR codes for sharing a session
+ *
+ * Client-safe helpers - the QR image itself is rendered server-side by
+ * GET /api/sessions/[code]/qr (see session-qr.ts).
+ */
+
+export type QrCodeFormat = "svg" | "png";
+
+export const QR_CODE_FORMATS: QrCodeFormat[] = ["svg", "png"];
+
+/**
+ * Check whether a value is a supported QR code image format
+ */
+export function isQrCodeFormat(value: unknown): value is QrCodeFormat {
+  return QR_CODE_FORMATS.includes(value as QrCodeFormat);
+}
+
+/**
+ * Validate a session code typed or linked by a participant
+ *
+ * @param code - Session code, already trimmed and uppercased
+ * @returns An error message, or null if the code is well-formed
+ */
+export function getSessionCodeError(code: string): string | null {
+  if (!code) {
+    return "Please enter a session code";
+  }
+
+  if (code.length !== 6) {
+    return "Session code must be 6 characters";
+  }
+
+  if (!/^[A-Z0-9]{6}$/.test(code)) {
+    return "Session code must contain only letters and numbers";
+  }
+
+  return null;
+}
+
+/**
+ * Build the deep link participants open to join a session
+ *
+ * @param origin - Site origin, e.g. window.location.origin
+ * @param sessionCode - The Q&A session code
+ */
+export function getSessionJoinUrl(origin: string, sessionCode: string): string {
+  return `${origin}/session/${sessionCode.toUpperCase()}`;
+}
+
+/**
+ * Path of the QR code image encoding a session's join link
+ *
+ * @param sessionCode - The Q&A session code
+ * @param format - Image format (defaults to SVG)
+ */
+export function getSessionQrCodePath(
+  sessionCode: string,
+  format: QrCodeFormat = "svg",
+): string {
+  return `/api/sessions/${sessionCode.toUpperCase()}/qr?format=${format}`;
+}
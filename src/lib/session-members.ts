@@ -0,0 +1,41 @@
+/**
+ * Session membership helpers shared by the members API routes
+ */
+
+import type { SessionMemberRole } from "@prisma/client";
+import type { SessionMemberResponse } from "@/types/session-member";
+
+// Deliberately loose - the invite only works once someone signs in with it
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Check whether a value looks like an email address
+ */
+export function isValidEmail(value: unknown): value is string {
+  return (
+    typeof value === "string" &&
+    value.trim().length <= 254 &&
+    EMAIL_PATTERN.test(value.trim())
+  );
+}
+
+/**
+ * Format a membership row for API responses
+ */
+export function toSessionMemberResponse(member: {
+  id: string;
+  email: string;
+  role: SessionMemberRole;
+  userId: string | null;
+  createdAt: Date;
+  user: { name: string | null } | null;
+}): SessionMemberResponse {
+  return {
+    id: member.id,
+    email: member.email,
+    name: member.user?.name ?? null,
+    role: member.role,
+    hasJoined: member.userId !== null,
+    createdAt: member.createdAt.toISOString(),
+  };
+}
@@ -0,0 +1,35 @@
+/**
+ * Server-side QR code rendering for session join links
+ */
+
+import QRCode from "qrcode";
+import type { QrCodeFormat } from "./session-links";
+
+// Large enough to scan from the back of a room when projected
+const QR_CODE_WIDTH = 512;
+
+const CONTENT_TYPES: Record<QrCodeFormat, string> = {
+  svg: "image/svg+xml",
+  png: "image/png",
+};
+
+/**
+ * Render a QR code encoding the given text
+ *
+ * @param text - Text to encode, usually a session join URL
+ * @param format - Image format
+ * @returns The image body and its content type
+ */
+export async function renderQrCode(
+  text: string,
+  format: QrCodeFormat,
+): Promise<{ body: string | Buffer; contentType: string }> {
+  const options = { margin: 2, width: QR_CODE_WIDTH };
+
+  const body =
+    format === "svg"
+      ? await QRCode.toString(text, { ...options, type: "svg" })
+      : await QRCode.toBuffer(text, { ...options, type: "png" });
+
+  return { body, contentType: CONTENT_TYPES[format] };
+}
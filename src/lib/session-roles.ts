@@ -0,0 +1,64 @@
+/**
+ * Session role permissions
+ *
+ * Shared by API routes (via session-auth) and the host UI, so it must stay
+ * free of server-only imports.
+ */
+
+import type { SessionMemberRole } from "@prisma/client";
+import type { SessionPermission, SessionRole } from "@/types/session-member";
+
+/** Roles that can be given to invited members */
+export const SESSION_MEMBER_ROLES: SessionMemberRole[] = [
+  "co_host",
+  "moderator",
+];
+
+export const SESSION_ROLE_LABELS: Record<SessionRole, string> = {
+  owner: "Owner",
+  co_host: "Co-host",
+  moderator: "Moderator",
+};
+
+/**
+ * What each role may do
+ * Moderators triage the queue; co-hosts also answer and run the session;
+ * only the owner manages who else has access.
+ */
+const ROLE_PERMISSIONS: Record<SessionRole, readonly SessionPermission[]> = {
+  owner: [
+    "view_questions",
+    "moderate_questions",
+    "answer_questions",
+    "manage_session",
+    "export_session",
+    "manage_members",
+  ],
+  co_host: [
+    "view_questions",
+    "moderate_questions",
+    "answer_questions",
+    "manage_session",
+    "export_session",
+  ],
+  moderator: ["view_questions", "moderate_questions"],
+};
+
+/**
+ * Check whether a role grants a permission
+ */
+export function hasSessionPermission(
+  role: SessionRole | null | undefined,
+  permission: SessionPermission,
+): boolean {
+  return role ? ROLE_PERMISSIONS[role].includes(permission) : false;
+}
+
+/**
+ * Check whether a value is an assignable member role
+ */
+export function isSessionMemberRole(
+  value: unknown,
+): value is SessionMemberRole {
+  return SESSION_MEMBER_ROLES.includes(value as SessionMemberRole);
+}
@@ -0,0 +1,403 @@
+/**
+ * Session templates and cloning
+ *
+ * Recurring events reuse an earlier session's setup, either saved as a
+ * named template or copied straight from the session itself. Only the
+ * title, description and settings are copied - never the code, members or
+ * activity - though a clone can carry over the questions that were still
+ * waiting for an answer.
+ */
+
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { Prisma } from "@prisma/client";
+import type { QuestionStatus, SessionTemplate } from "@prisma/client";
+import type { CreateSessionResponse } from "@/types/session";
+import type {
+  CreateSessionFromSourceRequest,
+  SessionTemplateResponse,
+} from "@/types/session-template";
+import { authOptions } from "./auth";
+import { prisma } from "./db";
+import {
+  recordQuestionEvents,
+  type QuestionEventActorInfo,
+} from "./question-events";
+import {
+  generateUniqueSessionCode,
+  MAX_SESSION_DURATION_HOURS,
+  validateSessionInput,
+  validateSessionSchedule,
+} from "./session-utils";
+
+export const MAX_TEMPLATE_NAME_LENGTH = 100;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/** Settings shared by sessions and templates, copied as-is */
+export const SESSION_SETTINGS_SELECT = {
+  requireApproval: true,
+  allowReplies: true,
+  rateLimitScope: true,
+  questionRateLimit: true,
+  voteRateLimit: true,
+  pulseRateLimit: true,
+  contentFilter: true,
+  pulseScale: true,
+  accessMode: true,
+  accessPasscodeHash: true,
+  allowedEmailDomains: true,
+} as const satisfies Prisma.QaSessionSelect;
+
+export type SessionSettings = Prisma.QaSessionGetPayload<{
+  select: typeof SESSION_SETTINGS_SELECT;
+}>;
+
+/** Statuses of questions that haven't been answered or dismissed */
+const UNANSWERED_STATUSES: QuestionStatus[] = [
+  "pending",
+  "approved",
+  "being_answered",
+];
+
+/** A template or session to create a new session from */
+export interface SessionSource {
+  title: string;
+  description: string | null;
+  durationHours: number | null;
+  settings: SessionSettings;
+}
+
+export type OwnTemplateResult =
+  | {
+      template: SessionTemplate;
+      user: { id: string; name?: string | null; email?: string | null };
+    }
+  | { error: NextResponse };
+
+/**
+ * Load one of the signed-in user's templates
+ * Other users' templates are reported as not found.
+ *
+ * @returns The template, or an error response (401 or 404) to return as-is
+ */
+export async function getOwnTemplate(
+  templateId: string,
+): Promise<OwnTemplateResult> {
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user?.id) {
+    return {
+      error: NextResponse.json(
+        {
+          code: "UNAUTHORIZED",
+          message: "Authentication required",
+        },
+        { status: 401 },
+      ),
+    };
+  }
+
+  const template = await prisma.sessionTemplate.findUnique({
+    where: { id: templateId },
+  });
+
+  if (!template || template.hostId !== session.user.id) {
+    return {
+      error: NextResponse.json(
+        {
+          code: "TEMPLATE_NOT_FOUND",
+          message: "Template not found",
+        },
+        { status: 404 },
+      ),
+    };
+  }
+
+  return { template, user: session.user };
+}
+
+/**
+ * Pick the settings out of a session or template row
+ */
+export function getSessionSettings(row: SessionSettings): SessionSettings {
+  return {
+    requireApproval: row.requireApproval,
+    allowReplies: row.allowReplies,
+    rateLimitScope: row.rateLimitScope,
+    questionRateLimit: row.questionRateLimit,
+    voteRateLimit: row.voteRateLimit,
+    pulseRateLimit: row.pulseRateLimit,
+    contentFilter: row.contentFilter,
+    pulseScale: row.pulseScale,
+    accessMode: row.accessMode,
+    accessPasscodeHash: row.accessPasscodeHash,
+    allowedEmailDomains: row.allowedEmailDomains,
+  };
+}
+
+/**
+ * Convert settings to create data - unset JSON settings have to be written
+ * as DbNull rather than null
+ */
+export function toSessionSettingsData(settings: SessionSettings) {
+  return {
+    ...getSessionSettings(settings),
+    contentFilter: settings.contentFilter ?? Prisma.DbNull,
+    pulseScale: settings.pulseScale ?? Prisma.DbNull,
+    allowedEmailDomains: settings.allowedEmailDomains ?? Prisma.DbNull,
+  };
+}
+
+/**
+ * How long a session was scheduled to run, from its start to its expiry
+ *
+ * @returns Hours (to two decimal places), or null if it has no length
+ */
+export function getSessionDurationHours(qaSession: {
+  createdAt: Date;
+  startsAt: Date | null;
+  expiresAt: Date;
+}): number | null {
+  const start = qaSession.startsAt ?? qaSession.createdAt;
+  const hours = (qaSession.expiresAt.getTime() - start.getTime()) / HOUR_MS;
+
+  if (hours <= 0) return null;
+  return Math.round(Math.min(hours, MAX_SESSION_DURATION_HOURS) * 100) / 100;
+}
+
+/**
+ * Validate a template name, falling back to the session title when absent
+ *
+ * @returns The trimmed name, or an error message
+ */
+export function validateTemplateName(
+  name: unknown,
+  fallback: string,
+): { name: string } | { error: string } {
+  if (name === undefined || name === null) {
+    return { name: fallback.slice(0, MAX_TEMPLATE_NAME_LENGTH) };
+  }
+
+  if (typeof name !== "string" || name.trim().length === 0) {
+    return { error: "Template name must be a non-empty string" };
+  }
+
+  if (name.trim().length > MAX_TEMPLATE_NAME_LENGTH) {
+    return {
+      error: `Template name must be no more than ${MAX_TEMPLATE_NAME_LENGTH} characters long`,
+    };
+  }
+
+  return { name: name.trim() };
+}
+
+/**
+ * Validate a request to create a session from a template or earlier session
+ * Title and description default to the source's, and the session runs as
+ * long as the source did unless a duration or end time is given.
+ *
+ * @returns Validation result with per-field errors and the values to store
+ */
+export function validateSessionFromSource(
+  source: Pick<SessionSource, "title" | "description" | "durationHours">,
+  input: CreateSessionFromSourceRequest,
+  now: Date = new Date(),
+): {
+  isValid: boolean;
+  errors: Record<string, string>;
+  title: string;
+  description: string | undefined;
+  startsAt: Date | null;
+  expiresAt: Date;
+} {
+  const title = typeof input.title === "string" ? input.title : source.title;
+  const description =
+    typeof input.description === "string"
+      ? input.description
+      : (source.description ?? undefined);
+
+  const validation = validateSessionInput({ title, description });
+  const schedule = validateSessionSchedule(
+    {
+      durationHours:
+        input.durationHours ??
+        (input.endsAt === undefined
+          ? (source.durationHours ?? undefined)
+          : undefined),
+      endsAt: input.endsAt,
+      startsAt: input.startsAt,
+    },
+    now,
+  );
+
+  const errors = { ...validation.errors, ...schedule.errors };
+
+  return {
+    isValid: Object.keys(errors).length === 0,
+    errors,
+    title: title.trim(),
+    description: description?.trim() || undefined,
+    startsAt: schedule.startsAt,
+    expiresAt: schedule.expiresAt,
+  };
+}
+
+/**
+ * Copy a session's unanswered questions into another session
+ * Copies start without votes, and without their asker's participant ID -
+ * participant IDs belong to a single session. Questions being answered
+ * when the earlier session ended go back to approved.
+ *
+ * @returns Number of questions copied
+ */
+export async function carryOverQuestions(
+  tx: Prisma.TransactionClient,
+  fromSessionId: string,
+  toSessionId: string,
+  actor: QuestionEventActorInfo,
+): Promise<number> {
+  const questions = await tx.question.findMany({
+    where: {
+      sessionId: fromSessionId,
+      status: { in: UNANSWERED_STATUSES },
+      mergedIntoId: null,
+    },
+    orderBy: { createdAt: "asc" },
+  });
+
+  const copies = [];
+  for (const question of questions) {
+    copies.push(
+      await tx.question.create({
+        data: {
+          sessionId: toSessionId,
+          authorName: question.authorName,
+          content: question.content,
+          originalContent: question.originalContent,
+          editedByHost: question.editedByHost,
+          isAnonymous: question.isAnonymous,
+          status:
+            question.status === "being_answered" ? "approved" : question.status,
+        },
+      }),
+    );
+  }
+
+  await recordQuestionEvents(
+    tx,
+    actor,
+    copies.map((copy) => ({
+      questionId: copy.id,
+      sessionId: toSessionId,
+      type: "created" as const,
+      toStatus: copy.status,
+    })),
+  );
+
+  return copies.length;
+}
+
+/**
+ * Create a session from a template or an earlier session
+ *
+ * @param input.carryOverFromSessionId - Session whose unanswered questions to copy
+ * @param input.actor - Who to record as adding carried-over questions
+ * @returns The new session and how many questions were carried over
+ */
+export async function createSessionFromSource(
+  input: {
+    hostId: string;
+    title: string;
+    description?: string;
+    startsAt: Date | null;
+    expiresAt: Date;
+    settings: SessionSettings;
+    carryOverFromSessionId?: string;
+    actor: QuestionEventActorInfo;
+  },
+  { db = prisma }: { db?: typeof prisma } = {},
+) {
+  const code = await generateUniqueSessionCode(db);
+
+  return db.$transaction(async (tx) => {
+    const qaSession = await tx.qaSession.create({
+      data: {
+        title: input.title,
+        description: input.description,
+        code,
+        hostId: input.hostId,
+        startsAt: input.startsAt,
+        expiresAt: input.expiresAt,
+        ...toSessionSettingsData(input.settings),
+      },
+    });
+
+    const carriedOverQuestions = input.carryOverFromSessionId
+      ? await carryOverQuestions(
+          tx,
+          input.carryOverFromSessionId,
+          qaSession.id,
+          input.actor,
+        )
+      : 0;
+
+    return { qaSession, carriedOverQuestions };
+  });
+}
+
+/**
+ * Convert a newly created session to the create response shape
+ */
+export function toCreateSessionResponse(qaSession: {
+  id: string;
+  title: string;
+  description: string | null;
+  code: string;
+  hostId: string;
+  isActive: boolean;
+  isAcceptingQuestions: boolean;
+  requireApproval: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+  startsAt: Date | null;
+  expiresAt: Date;
+}): CreateSessionResponse {
+  return {
+    session: {
+      id: qaSession.id,
+      title: qaSession.title,
+      description: qaSession.description || undefined,
+      code: qaSession.code,
+      hostId: qaSession.hostId,
+      isActive: qaSession.isActive,
+      isAcceptingQuestions: qaSession.isAcceptingQuestions,
+      requireApproval: qaSession.requireApproval,
+      createdAt: qaSession.createdAt.toISOString(),
+      updatedAt: qaSession.updatedAt.toISOString(),
+      startsAt: qaSession.startsAt?.toISOString() ?? null,
+      expiresAt: qaSession.expiresAt.toISOString(),
+    },
+  };
+}
+
+/**
+ * Convert a template row to its API shape
+ * The passcode hash is never exposed.
+ */
+export function toSessionTemplateResponse(
+  template: SessionTemplate,
+): SessionTemplateResponse {
+  return {
+    id: template.id,
+    name: template.name,
+    title: template.title,
+    description: template.description || undefined,
+    requireApproval: template.requireApproval,
+    allowReplies: template.allowReplies,
+    accessMode: template.accessMode,
+    durationHours: template.durationHours,
+    createdAt: template.createdAt.toISOString(),
+    updatedAt: template.updatedAt.toISOString(),
+  };
+}
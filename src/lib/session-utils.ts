@@ -43,15 +43,185 @@ export async function generateUniqueSessionCode(db = prisma): Promise<string> {
   );
 }
 
+/** Default session length when the host doesn't pick one */
+export const DEFAULT_SESSION_DURATION_HOURS = 24;
+
+/** Longest a session can run (or be extended to) from its start - 30 days */
+export const MAX_SESSION_DURATION_HOURS = 30 * 24;
+
+const HOUR_MS = 60 * 60 * 1000;
+
 /**
  * Calculates session expiration date (24 hours from now by default)
+ *
+ * @param hours - Session length in hours
+ * @param from - When the session starts (defaults to now)
  */
-export function getSessionExpirationDate(hours: number = 24): Date {
-  const now = new Date();
-  const expiresAt = new Date(now.getTime() + hours * 60 * 60 * 1000);
+export function getSessionExpirationDate(
+  hours: number = DEFAULT_SESSION_DURATION_HOURS,
+  from: Date = new Date(),
+): Date {
+  const expiresAt = new Date(from.getTime() + hours * HOUR_MS);
   return expiresAt;
 }
 
+/**
+ * Parse an ISO date string, returning null when it isn't a valid date
+ */
+function parseDate(value: unknown): Date | null {
+  if (typeof value !== "string" || value.trim().length === 0) {
+    return null;
+  }
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Check a duration in hours is within the allowed range
+ */
+export function isValidDurationHours(hours: unknown): hours is number {
+  return (
+    typeof hours === "number" &&
+    Number.isFinite(hours) &&
+    hours > 0 &&
+    hours <= MAX_SESSION_DURATION_HOURS
+  );
+}
+
+/**
+ * Validates session scheduling input and resolves start and expiry times
+ *
+ * Hosts either give a duration (from the start time) or an explicit end
+ * time, not both. Without either the session runs for 24 hours. A start
+ * time is optional; when set, the session opens to participants then.
+ */
+export function validateSessionSchedule(
+  input: {
+    durationHours?: number;
+    endsAt?: string;
+    startsAt?: string;
+  },
+  now: Date = new Date(),
+): {
+  isValid: boolean;
+  errors: { durationHours?: string; endsAt?: string; startsAt?: string };
+  startsAt: Date | null;
+  expiresAt: Date;
+} {
+  const errors: { durationHours?: string; endsAt?: string; startsAt?: string } =
+    {};
+
+  // Start time validation
+  let startsAt: Date | null = null;
+  if (input.startsAt !== undefined && input.startsAt !== null) {
+    startsAt = parseDate(input.startsAt);
+    if (!startsAt) {
+      errors.startsAt = "Start time must be a valid date";
+    } else if (startsAt.getTime() <= now.getTime()) {
+      // A start time in the past just means "start now"
+      startsAt = null;
+    }
+  }
+
+  const start = startsAt ?? now;
+  let expiresAt = getSessionExpirationDate(
+    DEFAULT_SESSION_DURATION_HOURS,
+    start,
+  );
+
+  // Duration / end time validation
+  if (input.durationHours !== undefined && input.endsAt !== undefined) {
+    errors.endsAt = "Provide either a duration or an end time, not both";
+  } else if (input.durationHours !== undefined) {
+    if (!isValidDurationHours(input.durationHours)) {
+      errors.durationHours = `Duration must be between 0 and ${MAX_SESSION_DURATION_HOURS} hours`;
+    } else {
+      expiresAt = getSessionExpirationDate(input.durationHours, start);
+    }
+  } else if (input.endsAt !== undefined) {
+    const endsAt = parseDate(input.endsAt);
+    if (!endsAt) {
+      errors.endsAt = "End time must be a valid date";
+    } else if (endsAt.getTime() <= start.getTime()) {
+      errors.endsAt = startsAt
+        ? "End time must be after the start time"
+        : "End time must be in the future";
+    } else if (
+      endsAt.getTime() - start.getTime() >
+      MAX_SESSION_DURATION_HOURS * HOUR_MS
+    ) {
+      errors.endsAt = `Sessions can run for at most ${MAX_SESSION_DURATION_HOURS / 24} days`;
+    } else {
+      expiresAt = endsAt;
+    }
+  }
+
+  return {
+    isValid: Object.keys(errors).length === 0,
+    errors,
+    startsAt,
+    expiresAt,
+  };
+}
+
+/**
+ * Validates a host's request to move a session's expiry
+ *
+ * Extensions count from the current expiry, or from now if the session has
+ * already expired, so an expired session can be reopened. The new expiry
+ * can't be more than the maximum duration away.
+ */
+export function resolveSessionExtension(
+  input: { expiresAt?: unknown; extendByHours?: unknown },
+  current: { expiresAt: Date; startsAt: Date | null },
+  now: Date = new Date(),
+): { expiresAt: Date } | { error: string } {
+  let expiresAt: Date | null;
+
+  if (input.extendByHours !== undefined && input.expiresAt !== undefined) {
+    return { error: "Provide either extendByHours or expiresAt, not both" };
+  }
+
+  if (input.extendByHours !== undefined) {
+    if (!isValidDurationHours(input.extendByHours)) {
+      return {
+        error: `extendByHours must be between 0 and ${MAX_SESSION_DURATION_HOURS}`,
+      };
+    }
+    const base =
+      current.expiresAt.getTime() > now.getTime() ? current.expiresAt : now;
+    expiresAt = getSessionExpirationDate(input.extendByHours, base);
+  } else {
+    expiresAt = parseDate(input.expiresAt);
+    if (!expiresAt) {
+      return { error: "expiresAt must be a valid date" };
+    }
+  }
+
+  const hasNotStarted =
+    current.startsAt !== null && current.startsAt.getTime() > now.getTime();
+  const start = hasNotStarted && current.startsAt ? current.startsAt : now;
+
+  if (expiresAt.getTime() <= start.getTime()) {
+    return {
+      error: hasNotStarted
+        ? "Expiry must be after the session starts"
+        : "Expiry must be in the future",
+    };
+  }
+
+  if (
+    expiresAt.getTime() - start.getTime() >
+    MAX_SESSION_DURATION_HOURS * HOUR_MS
+  ) {
+    return {
+      error: `Sessions can run for at most ${MAX_SESSION_DURATION_HOURS / 24} days`,
+    };
+  }
+
+  return { expiresAt };
+}
+
 /**
  * Validates session input data
  */
@@ -37,6 +37,29 @@ export const defaultSWRConfig = {
   dedupingInterval: 2000,
 } as const;
 
+/**
+ * Polling interval used while the session event stream is connected
+ * The stream delivers changes from every server instance immediately;
+ * this slow poll is only a safety net for dropped events.
+ */
+export const STREAM_CONNECTED_REFRESH_INTERVAL = 60000;
+
+/**
+ * Pick an SWR refresh interval based on session stream health
+ *
+ * @param isStreamConnected - Whether the session event stream is connected
+ * and relaying every instance's events (see useSessionStream)
+ * @param fallbackInterval - Polling interval to use otherwise
+ */
+export function getRefreshInterval(
+  isStreamConnected: boolean,
+  fallbackInterval: number,
+): number {
+  return isStreamConnected
+    ? STREAM_CONNECTED_REFRESH_INTERVAL
+    : fallbackInterval;
+}
+
 /**
  * Helper to format error messages from SWR errors
  */
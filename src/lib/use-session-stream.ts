@@ -0,0 +1,250 @@
+/**
+ * Client hook for the per-session event stream
+ *
+ * Opens an EventSource to /api/sessions/[code]/stream and keeps the SWR
+ * cache for the session and its question lists up to date. Vote, status and
+ * withdrawal events are patched into the cache in place - questions leaving
+ * the participant-visible statuses are dropped from the participant list -
+ * and anything that needs the full record (including a question that isn't
+ * cached yet) triggers a (coalesced) revalidation instead. Keys
+ * are matched with or without a query string, so per-participant variants
+ * (e.g. the polls list) are refreshed too.
+ *
+ * Callers use `isConnected` to slow their SWR polling down while the stream
+ * is healthy and fall back to normal polling when it drops. It only turns
+ * on once the server confirms the stream carries events from every server
+ * instance - otherwise changes made elsewhere would only show up at the
+ * slow rate.
+ */
+
+import { useEffect, useRef, useState } from "react";
+import { useSWRConfig } from "swr";
+import type { QuestionStatus } from "@prisma/client";
+import type { QuestionResponse } from "@/types/question";
+import {
+  SESSION_EVENT_TYPES,
+  type SessionEventMessage,
+} from "@/types/session-events";
+
+// Coalesce bursts of events (e.g. many new questions) into one refetch
+const REVALIDATE_DEBOUNCE_MS = 500;
+
+/** Statuses the participant question list shows */
+export const PARTICIPANT_VISIBLE_STATUSES: QuestionStatus[] = [
+  "approved",
+  "being_answered",
+  "answered",
+];
+
+/**
+ * Apply a question event to a cached question list response
+ *
+ * @param data - Cached SWR data for a questions endpoint
+ * @param message - Event received from the stream
+ * @param visibleStatuses - Statuses the list shows; questions moved to any
+ * other status are dropped (omit for lists that show every status)
+ * @returns Updated data, or the same object if nothing changed
+ */
+export function applyEventToQuestions<
+  T extends { questions: QuestionResponse[] },
+>(
+  data: T | undefined,
+  message: SessionEventMessage,
+  visibleStatuses?: QuestionStatus[],
+): T | undefined {
+  if (!data) return data;
+
+  switch (message.type) {
+    case "question.voted":
+      return {
+        ...data,
+        questions: data.questions.map((q) =>
+          q.id === message.questionId
+            ? { ...q, voteCount: message.voteCount }
+            : q,
+        ),
+      };
+    case "question.status_changed":
+      if (visibleStatuses && !visibleStatuses.includes(message.status)) {
+        return {
+          ...data,
+          questions: data.questions.filter((q) => q.id !== message.questionId),
+        };
+      }
+      return {
+        ...data,
+        questions: data.questions.map((q) =>
+          q.id === message.questionId ? { ...q, status: message.status } : q,
+        ),
+      };
+    case "question.deleted":
+      return {
+        ...data,
+        questions: data.questions.filter((q) => q.id !== message.questionId),
+      };
+    default:
+      return data;
+  }
+}
+
+/**
+ * Subscribe to live updates for a session
+ *
+ * @param sessionCode - The Q&A session code, or null to stay disconnected
+ * @param onEvent - Optional callback for every event received
+ * @returns Whether the stream is connected and relaying every instance's events
+ */
+export function useSessionStream(
+  sessionCode: string | null | undefined,
+  onEvent?: (message: SessionEventMessage) => void,
+): { isConnected: boolean } {
+  const { mutate } = useSWRConfig();
+  const [isConnected, setIsConnected] = useState(false);
+
+  // Keep the latest callback without reopening the stream on every render
+  const onEventRef = useRef(onEvent);
+  useEffect(() => {
+    onEventRef.current = onEvent;
+  }, [onEvent]);
+
+  useEffect(() => {
+    if (!sessionCode || typeof EventSource === "undefined") return;
+
+    const sessionKey = `/api/sessions/${sessionCode}`;
+    // The participant list only shows visible questions; the host's shows all
+    const questionLists: Array<{
+      key: string;
+      visibleStatuses?: QuestionStatus[];
+    }> = [
+      {
+        key: `/api/sessions/${sessionCode}/questions`,
+        visibleStatuses: PARTICIPANT_VISIBLE_STATUSES,
+      },
+      { key: `/api/sessions/${sessionCode}/host/questions` },
+    ];
+    const questionKeys = questionLists.map(({ key }) => key);
+    const clustersKey = `/api/sessions/${sessionCode}/host/clusters`;
+    const pulseKey = `/api/sessions/${sessionCode}/host/pulse`;
+    const pollKeys = [
+      `/api/sessions/${sessionCode}/polls`,
+      `/api/sessions/${sessionCode}/host/polls`,
+    ];
+
+    const pendingRevalidations = new Set<string>();
+    let revalidateTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const scheduleRevalidate = (keys: string[]) => {
+      keys.forEach((key) => pendingRevalidations.add(key));
+      if (revalidateTimer) return;
+
+      revalidateTimer = setTimeout(() => {
+        revalidateTimer = null;
+        const keysToRevalidate = Array.from(pendingRevalidations);
+        pendingRevalidations.clear();
+        mutate(
+          (cacheKey) =>
+            typeof cacheKey === "string" &&
+            keysToRevalidate.some(
+              (key) => cacheKey === key || cacheKey.startsWith(`${key}?`),
+            ),
+        );
+      }, REVALIDATE_DEBOUNCE_MS);
+    };
+
+    const handleMessage = (event: MessageEvent<string>) => {
+      let message: SessionEventMessage;
+      try {
+        message = JSON.parse(event.data) as SessionEventMessage;
+      } catch {
+        return; // Malformed frame, ignore
+      }
+
+      switch (message.type) {
+        case "question.voted":
+        case "question.status_changed":
+        case "question.deleted":
+          questionLists.forEach(({ key, visibleStatuses }) =>
+            mutate(
+              key,
+              (current?: { questions: QuestionResponse[] }) => {
+                // A question newly approved (or restored) isn't in the list
+                // yet, so fetch it rather than wait for the next poll
+                if (
+                  message.type === "question.status_changed" &&
+                  (!visibleStatuses ||
+                    visibleStatuses.includes(message.status)) &&
+                  current &&
+                  !current.questions.some((q) => q.id === message.questionId)
+                ) {
+                  scheduleRevalidate([key]);
+                }
+                return applyEventToQuestions(current, message, visibleStatuses);
+              },
+              { revalidate: false },
+            ),
+          );
+          // Answering or removing a question changes the pulse summary
+          // and the question's history
+          if (message.type !== "question.voted") {
+            scheduleRevalidate([
+              pulseKey,
+              `/api/questions/${message.questionId}/events`,
+            ]);
+          }
+          break;
+        case "question.created":
+        case "question.updated":
+          scheduleRevalidate([
+            ...questionKeys,
+            sessionKey,
+            pulseKey,
+            `/api/questions/${message.questionId}/events`,
+          ]);
+          break;
+        case "session.updated":
+          scheduleRevalidate([sessionKey]);
+          break;
+        case "clusters.updated":
+          scheduleRevalidate([clustersKey]);
+          break;
+        case "poll.updated":
+          scheduleRevalidate(pollKeys);
+          break;
+      }
+
+      onEventRef.current?.(message);
+    };
+
+    const source = new EventSource(`/api/sessions/${sessionCode}/stream`);
+
+    source.onopen = () => {
+      // Catch up on anything missed while disconnected
+      scheduleRevalidate([...questionKeys, ...pollKeys, sessionKey, pulseKey]);
+    };
+
+    source.addEventListener("ready", ((event: MessageEvent<string>) => {
+      try {
+        const { shared } = JSON.parse(event.data) as { shared?: boolean };
+        setIsConnected(shared === true);
+      } catch {
+        setIsConnected(false);
+      }
+    }) as EventListener);
+
+    // EventSource retries on its own; we just report the outage so callers
+    // can fall back to polling until it reconnects
+    source.onerror = () => setIsConnected(false);
+
+    SESSION_EVENT_TYPES.forEach((type) =>
+      source.addEventListener(type, handleMessage as EventListener),
+    );
+
+    return () => {
+      if (revalidateTimer) clearTimeout(revalidateTimer);
+      source.close();
+      setIsConnected(false);
+    };
+  }, [sessionCode, mutate]);
+
+  return { isConnected };
+}
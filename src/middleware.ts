@@ -12,5 +12,10 @@ export default withAuth(
 );
 
 export const config = {
-  matcher: ["/create/:path*", "/session/:path*/host/:path*", "/api/sessions"],
+  matcher: [
+    "/create/:path*",
+    "/sessions/:path*",
+    "/session/:path*/host/:path*",
+    "/api/sessions",
+  ],
 };
@@ -0,0 +1,80 @@
+import type { QuestionStatus } from "@prisma/client";
+import type { PulseSummary } from "./pulse-check";
+
+/**
+ * Session Analytics Types
+ *
+ * Post-event metrics for hosts, computed at read time from questions,
+ * votes and pulse check feedback.
+ */
+
+/** Activity within one slice of the session timeline */
+export interface AnalyticsTimeBucket {
+  /** Start of the bucket (ISO 8601) */
+  start: string;
+  /** Questions submitted in this bucket */
+  questions: number;
+  /** Votes cast in this bucket */
+  votes: number;
+}
+
+/** Number of questions whose vote count falls within a range */
+export interface VoteDistributionBucket {
+  /** e.g. "0", "2-4", "10+" */
+  label: string;
+  min: number;
+  /** Inclusive upper bound, or null for the open-ended last bucket */
+  max: number | null;
+  questions: number;
+}
+
+/** Most-voted question, for the analytics leaderboard */
+export interface AnalyticsTopQuestion {
+  id: string;
+  content: string;
+  voteCount: number;
+  status: QuestionStatus;
+}
+
+/** Computed metrics for a session */
+export interface SessionAnalytics {
+  /** Distinct participants who asked, voted or gave pulse feedback */
+  participants: number;
+  totalQuestions: number;
+  questionsByStatus: Record<QuestionStatus, number>;
+  totalVotes: number;
+  /** Questions and votes over time, in equal buckets */
+  timeline: {
+    bucketMinutes: number;
+    buckets: AnalyticsTimeBucket[];
+  };
+  /** Vote counts across questions participants could see */
+  voteDistribution: VoteDistributionBucket[];
+  topQuestions: AnalyticsTopQuestion[];
+  /**
+   * Percentage of questions participants could see (approved, being
+   * answered or answered) that were answered; null without any
+   */
+  answerRate: number | null;
+  /** Time from submission to being marked answered */
+  timeToAnswer: {
+    /** Number of answered questions measured */
+    sampleSize: number;
+    averageMs: number | null;
+    medianMs: number | null;
+  };
+  /** Pulse check results across every answered question */
+  satisfaction: PulseSummary;
+}
+
+/** Response for GET /api/sessions/[code]/host/analytics */
+export interface GetSessionAnalyticsResponse {
+  session: {
+    code: string;
+    title: string;
+    createdAt: string;
+    expiresAt: string;
+  };
+  analytics: SessionAnalytics;
+  generatedAt: string;
+}
@@ -0,0 +1,40 @@
+import type { QuestionStatus } from "@prisma/client";
+
+/**
+ * Question Cluster Types
+ */
+
+/** Verbatim question linked from a cluster */
+export interface ClusterQuestion {
+  id: string;
+  content: string;
+  voteCount: number;
+  status: QuestionStatus;
+}
+
+/** Cluster data returned from API */
+export interface ClusterResponse {
+  id: string;
+  /** Paraphrased question text summarising the cluster */
+  headline: string;
+  /** Sum of the current vote counts of the questions in the cluster */
+  combinedVoteCount: number;
+  questions: ClusterQuestion[];
+}
+
+/** Response for getting a session's clusters (host only) */
+export interface GetClustersResponse {
+  clusters: ClusterResponse[];
+  /** Summariser that produced the clusters (null if never computed) */
+  summariser: string | null;
+  /** When clusters were last computed (null if never computed) */
+  computedAt: string | null;
+  /** Visible questions submitted since the last run */
+  unclusteredCount: number;
+}
+
+/** Response after requesting a clustering run */
+export interface RecomputeClustersResponse {
+  status: "queued";
+  message: string;
+}
@@ -0,0 +1,40 @@
+/**
+ * Content Filter Types
+ */
+
+/** What happens to a question that matches a content filter rule */
+export type ContentFilterAction = "reject" | "mask" | "review";
+
+/** Built-in content filter rules */
+export type ContentFilterRuleType = "word_list" | "pattern" | "links" | "pii";
+
+/**
+ * A session's content filter configuration
+ * Stored as JSON on QaSession; a session without one isn't filtered.
+ */
+export interface ContentFilterConfig {
+  action: ContentFilterAction;
+  /** Block the built-in profanity word list */
+  profanity: boolean;
+  /** Extra words or phrases to block (whole words, case-insensitive) */
+  blockedWords: string[];
+  /**
+   * Wildcard phrases to block (case-insensitive): "*" matches any characters
+   * within a word and "?" a single character, e.g. "ticket-*"
+   */
+  blockedPatterns: string[];
+  /** Block URLs and web addresses */
+  blockLinks: boolean;
+  /** Block email addresses and phone numbers */
+  blockPii: boolean;
+}
+
+/** Response from GET/PUT /api/sessions/[code]/content-filter */
+export interface ContentFilterResponse {
+  contentFilter: ContentFilterConfig | null;
+}
+
+/** Request body for PUT /api/sessions/[code]/content-filter (null turns filtering off) */
+export interface UpdateContentFilterRequest {
+  contentFilter: ContentFilterConfig | null;
+}
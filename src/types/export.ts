@@ -0,0 +1,52 @@
+import type { QuestionStatus, ReplyAuthorType } from "@prisma/client";
+import type { PulseCheckStats } from "./question";
+import type { PulseComment, PulseSummary } from "./pulse-check";
+
+/**
+ * Session Export Types
+ */
+
+/** Supported export formats */
+export type ExportFormat = "csv" | "json" | "markdown";
+
+/** Question as it appears in an export */
+export interface ExportedQuestion {
+  id: string;
+  content: string;
+  status: QuestionStatus;
+  voteCount: number;
+  /** Author's display name, or "Anonymous" when submitted anonymously */
+  author: string;
+  createdAt: string;
+  updatedAt: string;
+  /** Per-type counts; only populated on the default pulse scale */
+  pulseCheckStats: PulseCheckStats;
+  /** Pulse check results on the session's scale */
+  pulseSummary: PulseSummary;
+  /** Written pulse check feedback, newest first */
+  pulseComments: PulseComment[];
+  /** Written answers and follow-up replies, oldest first */
+  replies: ExportedReply[];
+}
+
+/** Reply as it appears in an export */
+export interface ExportedReply {
+  authorType: ReplyAuthorType;
+  /** Host's name, participant's display name, or "Anonymous" */
+  author: string;
+  content: string;
+  createdAt: string;
+}
+
+/** Full export payload (the JSON format returns this as-is) */
+export interface SessionExport {
+  session: {
+    code: string;
+    title: string;
+    description?: string;
+    createdAt: string;
+    expiresAt: string;
+  };
+  exportedAt: string;
+  questions: ExportedQuestion[];
+}
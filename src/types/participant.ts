@@ -1,8 +1,10 @@
 /**
  * Participant Identity Types
  *
- * Participants are identified by client-generated UUIDs.
- * No server-side participant model - purely client-side identity.
+ * Participants are identified by server-issued UUIDs, held in a signed
+ * httpOnly cookie per session. Participants who sign in have their ID
+ * linked to their account (ParticipantIdentity) so it follows them across
+ * devices.
  */
 
 /**
@@ -10,7 +12,7 @@
  * Represents a participant's identity within a session
  */
 export interface ParticipantIdentity {
-  /** UUID v4 - client-generated participant identifier */
+  /** UUID v4 - server-issued participant identifier */
   participantId: string;
   /** Session code this participant is associated with */
   sessionCode: string;
@@ -41,3 +43,11 @@ export interface ParticipantMetadata {
   /** Last activity timestamp */
   lastActivityAt: Date;
 }
+
+/** Response from POST /api/sessions/[code]/participant */
+export interface JoinSessionResponse {
+  /** UUID v4 - the participant's ID in this session */
+  participantId: string;
+  /** Whether the ID is linked to the signed-in user's account */
+  isLinked: boolean;
+}
@@ -0,0 +1,109 @@
+import type { PollStatus, PollType } from "@prisma/client";
+
+/**
+ * Poll Types
+ *
+ * Live polls run by the host alongside the Q&A. Each participant answers
+ * a poll once; results are tallied at read time.
+ */
+
+export type { PollStatus, PollType };
+
+/** Poll option with its current tally */
+export interface PollOptionResult {
+  id: string;
+  label: string;
+  /** Responses that selected this option */
+  count: number;
+}
+
+/** Tallied results of a poll */
+export interface PollResults {
+  /** Number of participants who responded */
+  totalResponses: number;
+  /** Option tallies (choice polls), or one entry per rating value (rating polls) */
+  options: PollOptionResult[];
+  /** Mean rating, or null for choice polls and rating polls without responses */
+  averageRating: number | null;
+}
+
+/** Poll data returned from API */
+export interface PollResponseData {
+  id: string;
+  sessionId: string;
+  question: string;
+  type: PollType;
+  status: PollStatus;
+  results: PollResults;
+  /** Whether the requesting participant has responded (participant view only) */
+  hasResponded?: boolean;
+  createdAt: string;
+  openedAt?: string;
+  closedAt?: string;
+}
+
+/** Response for listing a session's polls */
+export interface GetPollsResponse {
+  polls: PollResponseData[];
+}
+
+/** Request body for POST /api/sessions/[code]/host/polls */
+export interface CreatePollRequest {
+  /** Poll question (1-200 characters) */
+  question: string;
+  type: PollType;
+  /** Option labels for choice polls (2-10); ignored for rating polls */
+  options?: string[];
+  /** Open the poll straight away instead of saving a draft */
+  open?: boolean;
+}
+
+/** Request body for PATCH /api/polls/[id] */
+export interface UpdatePollRequest {
+  status: Exclude<PollStatus, "draft">;
+}
+
+/** Response after creating or updating a poll */
+export interface PollMutationResponse {
+  poll: PollResponseData;
+  message: string;
+}
+
+/** Request body for POST /api/polls/[id]/responses */
+export interface SubmitPollResponseRequest {
+  /** Participant's UUID - optional, must match the participant token if sent */
+  participantId?: string;
+  /** Chosen option IDs (exactly one for multiple choice polls) */
+  optionIds?: string[];
+  /** Rating from 1 to POLL_RATING_SCALE (rating polls) */
+  rating?: number;
+}
+
+/** Response after answering a poll */
+export interface SubmitPollResponseResponse {
+  pollId: string;
+  results: PollResults;
+}
+
+/** Poll validation rules */
+export const POLL_VALIDATION = {
+  questionMaxLength: 200,
+  optionMaxLength: 100,
+  minOptions: 2,
+  maxOptions: 10,
+} as const;
+
+/** Rating polls ask for a score from 1 to this value */
+export const POLL_RATING_SCALE = 5;
+
+export const POLL_TYPE_LABELS: Record<PollType, string> = {
+  multiple_choice: "Multiple choice",
+  multi_select: "Multi-select",
+  rating: "Rating",
+};
+
+export const POLL_STATUS_LABELS: Record<PollStatus, string> = {
+  draft: "Draft",
+  open: "Open",
+  closed: "Closed",
+};
@@ -0,0 +1,77 @@
+/**
+ * Pulse Check Types
+ *
+ * Participants rate answered questions on the session's pulse scale. Scores
+ * run from 1 (least helpful) up to the number of points on the scale.
+ */
+
+/** One point on a pulse scale, lowest first */
+export interface PulseScalePoint {
+  label: string;
+  /** Shown on the participant's button (optional) */
+  emoji?: string;
+}
+
+/**
+ * A session's custom pulse scale
+ * Stored as JSON on QaSession; sessions without one use the default
+ * helpful/neutral/not helpful scale.
+ */
+export interface PulseScaleConfig {
+  points: PulseScalePoint[];
+}
+
+/** Feedback tally for one point on the scale */
+export interface PulseSummaryPoint extends PulseScalePoint {
+  score: number;
+  count: number;
+}
+
+/** Aggregated feedback for a question or a whole session */
+export interface PulseSummary {
+  responses: number;
+  /** Mean score, or null without responses */
+  average: number | null;
+  /** Mean score as a percentage of the scale (0-100), or null without responses */
+  helpfulness: number | null;
+  points: PulseSummaryPoint[];
+}
+
+/** A participant's written feedback (host views only) */
+export interface PulseComment {
+  score: number;
+  comment: string;
+  createdAt: string;
+}
+
+/** Per-question entry in the session pulse summary */
+export interface QuestionPulseSummary {
+  questionId: string;
+  content: string;
+  summary: PulseSummary;
+  comments: PulseComment[];
+}
+
+/** Response from GET /api/sessions/[code]/host/pulse */
+export interface SessionPulseSummaryResponse {
+  scale: PulseScalePoint[];
+  /** Feedback across every answered question */
+  overall: PulseSummary;
+  /** Rated questions, most helpful first */
+  questions: QuestionPulseSummary[];
+  /** Answered questions nobody has rated yet */
+  unratedCount: number;
+}
+
+/** Response from GET/PUT /api/sessions/[code]/pulse-scale */
+export interface PulseScaleResponse {
+  /** The custom scale, or null when the session uses the default */
+  pulseScale: PulseScaleConfig | null;
+  /** Scales can't change once feedback has been given */
+  isLocked: boolean;
+}
+
+/** Request body for PUT /api/sessions/[code]/pulse-scale (null restores the default) */
+export interface UpdatePulseScaleRequest {
+  pulseScale: PulseScaleConfig | null;
+}
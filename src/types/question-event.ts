@@ -0,0 +1,46 @@
+import type {
+  QuestionEventActor,
+  QuestionEventType,
+  QuestionStatus,
+} from "@prisma/client";
+
+/**
+ * Question Event Types
+ *
+ * The audit trail of a question: every status change, edit, split, merge
+ * and deletion, with who made it and when.
+ */
+
+export type { QuestionEventActor, QuestionEventType };
+
+/** Event data returned from API */
+export interface QuestionEventResponse {
+  id: string;
+  questionId: string;
+  type: QuestionEventType;
+  actorType: QuestionEventActor;
+  /** Host's display name; undefined for participants and system changes */
+  actorName?: string;
+  fromStatus?: QuestionStatus;
+  toStatus?: QuestionStatus;
+  /** Text before an edit or split */
+  previousContent?: string;
+  /** Question merged into, or split from */
+  relatedQuestionId?: string;
+  createdAt: string;
+}
+
+/** Response from GET /api/questions/[id]/events */
+export interface GetQuestionEventsResponse {
+  events: QuestionEventResponse[];
+}
+
+/** Timeline labels for each event type */
+export const QUESTION_EVENT_LABELS: Record<QuestionEventType, string> = {
+  created: "Asked",
+  status_changed: "Status changed",
+  edited: "Edited",
+  split: "Split",
+  merged: "Merged",
+  deleted: "Deleted",
+};
@@ -0,0 +1,45 @@
+import type { ReplyAuthorType } from "@prisma/client";
+
+/**
+ * Question Reply Types
+ *
+ * Written answers from hosts and follow-up replies from participants,
+ * shown in a thread under the question.
+ */
+
+export type { ReplyAuthorType };
+
+/** Reply data returned from API */
+export interface QuestionReplyResponse {
+  id: string;
+  questionId: string;
+  authorType: ReplyAuthorType;
+  /** Display name, or undefined for anonymous participant replies */
+  authorName?: string;
+  content: string;
+  createdAt: string;
+}
+
+/** Request body for POST /api/questions/[id]/replies */
+export interface CreateQuestionReplyRequest {
+  /** Reply text (1-1000 characters) */
+  content: string;
+  /** Set to "host" to post a host answer; omitted for participant replies, which come from the participant token */
+  as?: "host";
+  /** Participant's display name (optional) */
+  authorName?: string;
+  /** Mark the question answered when a host posts (default true) */
+  markAnswered?: boolean;
+}
+
+/** Response after posting a reply */
+export interface CreateQuestionReplyResponse {
+  reply: QuestionReplyResponse;
+  message: string;
+}
+
+/** Reply content validation rules */
+export const REPLY_VALIDATION = {
+  minLength: 1,
+  maxLength: 1000,
+} as const;
@@ -3,6 +3,8 @@ import {
   QuestionStatus,
   PulseCheckFeedbackType,
 } from "@prisma/client";
+import type { PulseComment, PulseSummary } from "./pulse-check";
+import type { QuestionReplyResponse } from "./question-reply";
 
 /**
  * Question Entity Types
@@ -28,41 +30,86 @@ export interface SubmitQuestionRequest {
   authorName?: string;
   /** Whether to submit anonymously */
   isAnonymous: boolean;
-  /** Participant's UUID (required) */
-  participantId: string;
+  /** Participant's UUID - optional, must match the participant token if sent */
+  participantId?: string;
 }
 
 /** Vote on a question */
 export interface VoteRequest {
-  /** Participant's UUID (required) */
-  participantId: string;
+  /** Participant's UUID - optional, must match the participant token if sent */
+  participantId?: string;
 }
 
 /** Remove vote from a question */
 export interface UnvoteRequest {
-  /** Participant's UUID (required) */
-  participantId: string;
+  /** Participant's UUID - optional, must match the participant token if sent */
+  participantId?: string;
 }
 
 /** Submit pulse check feedback on an answered question */
 export interface PulseCheckRequest {
-  /** Participant's UUID (required) */
-  participantId: string;
-  /** Feedback type: helpful, neutral, or not_helpful */
-  feedback: PulseCheckFeedbackType;
+  /** Participant's UUID - optional, must match the participant token if sent */
+  participantId?: string;
+  /** Score on the session's pulse scale, from 1 (least helpful) */
+  score?: number;
+  /** Feedback type on the default scale (alternative to score) */
+  feedback?: PulseCheckFeedbackType;
+  /** Optional short comment for the host (up to 280 characters) */
+  comment?: string;
+}
+
+/** Edit your own question while it is still open (participant only) */
+export interface EditOwnQuestionRequest {
+  /** Participant's UUID - optional, must match the participant token if sent */
+  participantId?: string;
+  /** Replacement text (1-500 characters) */
+  content: string;
+}
+
+/** Withdraw your own question (participant only) */
+export interface WithdrawQuestionRequest {
+  /** Participant's UUID - optional, must match the participant token if sent */
+  participantId?: string;
 }
 
+/** Statuses a host can move a question to */
+export type HostQuestionStatus =
+  | "approved"
+  | "dismissed"
+  | "being_answered"
+  | "answered";
+
 /** Update question status (host only) */
 export interface UpdateQuestionStatusRequest {
-  /** New status (being_answered or answered) */
-  status: "being_answered" | "answered";
+  /** New status (approved, dismissed, being_answered or answered) */
+  status: HostQuestionStatus;
+}
+
+/** Update a question's status and/or edit its text (host only) */
+export interface UpdateQuestionRequest {
+  /** New status (approved, dismissed, being_answered or answered) */
+  status?: HostQuestionStatus;
+  /** Replacement text; the participant's original is kept for audit */
+  content?: string;
+}
+
+/** Split a question that asks several things into separate questions (host only) */
+export interface SplitQuestionRequest {
+  /** Text of each part; the first replaces the original question's text */
+  parts: string[];
+}
+
+/** Merge duplicate questions into a surviving question (host only) */
+export interface MergeQuestionsRequest {
+  /** IDs of the duplicates to fold into the question in the URL */
+  questionIds: string[];
 }
 
 /**
  * API Response Types
  */
 
-/** Pulse check aggregated statistics */
+/** Pulse check counts per feedback type (default scale only) */
 export interface PulseCheckStats {
   helpful: number;
   neutral: number;
@@ -82,6 +129,18 @@ export interface QuestionResponse {
   createdAt: string;
   updatedAt: string;
   pulseCheckStats?: PulseCheckStats;
+  /** Feedback on the session's pulse scale (answered questions) */
+  pulseSummary?: PulseSummary;
+  /** Written pulse check feedback (host views only) */
+  pulseComments?: PulseComment[];
+  /** Set when a host merged this question into another */
+  mergedIntoId?: string;
+  /** Set when a host edited or split the participant's text */
+  editedByHost?: boolean;
+  /** Participant's text before host edits (host views only) */
+  originalContent?: string;
+  /** Written answers and follow-up replies, oldest first */
+  replies?: QuestionReplyResponse[];
 }
 
 /** Response after submitting a question */
@@ -106,10 +165,56 @@ export interface VoteResponse {
 /** Response after pulse check submission */
 export interface PulseCheckResponse {
   questionId: string;
-  feedback: PulseCheckFeedbackType;
+  score: number;
+  /** Feedback type, or null on a custom scale */
+  feedback: PulseCheckFeedbackType | null;
   success: boolean;
 }
 
+/** An existing question that looks like a participant's draft */
+export interface SimilarQuestion {
+  id: string;
+  content: string;
+  voteCount: number;
+  status: QuestionStatus;
+  /** Token similarity to the draft (0-1) */
+  similarity: number;
+}
+
+/** Response for GET /api/sessions/[code]/questions/similar */
+export interface GetSimilarQuestionsResponse {
+  questions: SimilarQuestion[];
+}
+
+/** Response after merging duplicate questions */
+export interface MergeQuestionsResponse {
+  /** The surviving question, with the combined vote count */
+  question: QuestionResponse;
+  mergedQuestionIds: string[];
+  message: string;
+}
+
+/** Response after splitting a question */
+export interface SplitQuestionResponse {
+  /** The original question, now holding the first part */
+  question: QuestionResponse;
+  /** Questions created for the remaining parts */
+  createdQuestions: QuestionResponse[];
+  message: string;
+}
+
+/** Response after a participant edits their own question */
+export interface EditOwnQuestionResponse {
+  question: QuestionResponse;
+  message: string;
+}
+
+/** Response after a participant withdraws their own question */
+export interface WithdrawQuestionResponse {
+  questionId: string;
+  withdrawn: boolean;
+}
+
 /** Response after updating question status */
 export interface UpdateQuestionStatusResponse {
   question: QuestionResponse;
@@ -185,10 +290,12 @@ export interface QuestionError {
     | "VALIDATION_ERROR"
     | "SESSION_NOT_FOUND"
     | "SESSION_INACTIVE"
+    | "SESSION_NOT_STARTED"
     | "SESSION_NOT_ACCEPTING_QUESTIONS"
     | "QUESTION_NOT_FOUND"
     | "ALREADY_VOTED"
     | "ALREADY_SUBMITTED_PULSE_CHECK"
+    | "QUESTION_NOT_EDITABLE"
     | "RATE_LIMIT_EXCEEDED"
     | "INVALID_PARTICIPANT_ID"
     | "UNAUTHORIZED";
@@ -208,6 +315,18 @@ export const QUESTION_VALIDATION: QuestionValidation = {
 
 export const AUTHOR_NAME_MAX_LENGTH = 100;
 
+/** Most parts a question can be split into */
+export const MAX_QUESTION_SPLIT_PARTS = 5;
+
+/** How long after submitting participants can still edit a question */
+export const OWN_QUESTION_EDIT_WINDOW_MS = 5 * 60 * 1000;
+
+/** Statuses in which participants can still edit or withdraw a question */
+export const OWN_QUESTION_OPEN_STATUSES: QuestionStatus[] = [
+  "pending",
+  "approved",
+];
+
 /** Status display labels for UI */
 export const QUESTION_STATUS_LABELS: Record<QuestionStatus, string> = {
   pending: "Pending Review",
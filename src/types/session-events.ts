@@ -0,0 +1,99 @@
+import type { QuestionStatus } from "@prisma/client";
+
+/**
+ * Session Event Types
+ *
+ * Events pushed to clients over the per-session stream
+ * (GET /api/sessions/[code]/stream). Payloads are deliberately small:
+ * clients patch their SWR cache in place where they can and revalidate
+ * otherwise.
+ */
+
+/** A new question was submitted to the session */
+export interface QuestionCreatedEvent {
+  type: "question.created";
+  questionId: string;
+}
+
+/** A question's vote count changed (vote added or removed) */
+export interface QuestionVotedEvent {
+  type: "question.voted";
+  questionId: string;
+  /** Absolute vote count after the change */
+  voteCount: number;
+}
+
+/** A host changed a question's status */
+export interface QuestionStatusChangedEvent {
+  type: "question.status_changed";
+  questionId: string;
+  status: QuestionStatus;
+}
+
+/** Something else about a question changed (e.g. pulse check feedback) */
+export interface QuestionUpdatedEvent {
+  type: "question.updated";
+  questionId: string;
+}
+
+/** A participant withdrew their question */
+export interface QuestionDeletedEvent {
+  type: "question.deleted";
+  questionId: string;
+}
+
+/** A host toggled session state or moved its expiry */
+export interface SessionUpdatedEvent {
+  type: "session.updated";
+  isActive?: boolean;
+  isAcceptingQuestions?: boolean;
+  requireApproval?: boolean;
+  allowReplies?: boolean;
+  /** ISO timestamp of the (possibly extended) expiry */
+  expiresAt?: string;
+}
+
+/** Question clusters were recomputed (host view only) */
+export interface ClustersUpdatedEvent {
+  type: "clusters.updated";
+}
+
+/** A poll was opened, closed, answered or deleted */
+export interface PollUpdatedEvent {
+  type: "poll.updated";
+  pollId: string;
+}
+
+export type SessionEvent =
+  | QuestionCreatedEvent
+  | QuestionVotedEvent
+  | QuestionStatusChangedEvent
+  | QuestionUpdatedEvent
+  | QuestionDeletedEvent
+  | SessionUpdatedEvent
+  | ClustersUpdatedEvent
+  | PollUpdatedEvent;
+
+export type SessionEventType = SessionEvent["type"];
+
+/** Event as delivered to stream subscribers */
+export type SessionEventMessage = SessionEvent & {
+  /** Monotonic per-process event ID (used as the SSE `id:` field) */
+  id: number;
+  /** Session code the event belongs to */
+  sessionCode: string;
+  /** ISO timestamp of when the event was published */
+  timestamp: string;
+};
+
+/** All event types, used by clients to register SSE listeners */
+export const SESSION_EVENT_TYPES: SessionEventType[] = [
+  "question.created",
+  "question.voted",
+  "question.status_changed",
+  "question.updated",
+  "question.deleted",
+  "session.updated",
+  "clusters.updated",
+  "poll.updated",
+];
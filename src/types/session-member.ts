@@ -0,0 +1,50 @@
+import type { SessionMemberRole } from "@prisma/client";
+
+/**
+ * Session Membership Types
+ */
+
+/**
+ * A user's role in a session
+ * The owner is the session's host; co-hosts and moderators are invited members.
+ */
+export type SessionRole = "owner" | SessionMemberRole;
+
+/** Actions gated by session role */
+export type SessionPermission =
+  | "view_questions"
+  | "moderate_questions"
+  | "answer_questions"
+  | "manage_session"
+  | "export_session"
+  | "manage_members";
+
+/** Member data returned from API */
+export interface SessionMemberResponse {
+  /** Membership ID, or null for the owner (who has no membership row) */
+  id: string | null;
+  email: string;
+  name: string | null;
+  role: SessionRole;
+  /** Whether the invitee has signed in since being invited */
+  hasJoined: boolean;
+  createdAt: string;
+}
+
+/** Response from GET /api/sessions/[code]/members */
+export interface ListSessionMembersResponse {
+  /** The signed-in user's role */
+  role: SessionRole;
+  members: SessionMemberResponse[];
+}
+
+/** Request body for POST /api/sessions/[code]/members */
+export interface InviteSessionMemberRequest {
+  email: string;
+  role: SessionMemberRole;
+}
+
+/** Request body for PATCH /api/sessions/[code]/members/[memberId] */
+export interface UpdateSessionMemberRequest {
+  role: SessionMemberRole;
+}
@@ -0,0 +1,70 @@
+import type { CreateSessionResponse, SessionAccessMode } from "./session";
+
+/**
+ * Session Template Types
+ *
+ * Templates save a session's title, description and settings so recurring
+ * events can be set up again in one step. Sessions can also be cloned
+ * directly, optionally carrying over questions that weren't answered.
+ */
+
+/** Template data returned from API */
+export interface SessionTemplateResponse {
+  id: string;
+  /** Name shown in the template picker */
+  name: string;
+  title: string;
+  description?: string;
+  requireApproval: boolean;
+  allowReplies: boolean;
+  accessMode: SessionAccessMode;
+  /** Length of sessions created from the template, if the source had one */
+  durationHours: number | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** Request to POST /api/templates - save a session as a template */
+export interface CreateSessionTemplateRequest {
+  /** Code of the session to copy settings from */
+  sessionCode: string;
+  /** Defaults to the session's title */
+  name?: string;
+}
+
+/** Response from POST /api/templates */
+export interface CreateSessionTemplateResponse {
+  template: SessionTemplateResponse;
+}
+
+/** Response from GET /api/templates */
+export interface ListSessionTemplatesResponse {
+  templates: SessionTemplateResponse[];
+}
+
+/**
+ * Request to create a session from a template or an earlier session
+ * Title and description default to the source's; the schedule defaults to
+ * starting now and running as long as the source did.
+ */
+export interface CreateSessionFromSourceRequest {
+  title?: string;
+  description?: string;
+  durationHours?: number;
+  /** Explicit end time (ISO string) - alternative to durationHours */
+  endsAt?: string;
+  /** Scheduled start time (ISO string) */
+  startsAt?: string;
+}
+
+/** Request to POST /api/sessions/[code]/clone */
+export interface CloneSessionRequest extends CreateSessionFromSourceRequest {
+  /** Copy pending and approved questions into the new session */
+  includeQuestions?: boolean;
+}
+
+/** Response from POST /api/sessions/[code]/clone */
+export interface CloneSessionResponse extends CreateSessionResponse {
+  /** Number of unanswered questions copied into the new session */
+  carriedOverQuestions: number;
+}
@@ -1,4 +1,12 @@
-import { QaSession, User, Question } from "@prisma/client";
+import {
+  QaSession,
+  User,
+  Question,
+  RateLimitScope,
+  SessionAccessMode,
+} from "@prisma/client";
+import type { SessionRole } from "./session-member";
+import type { PulseScalePoint } from "./pulse-check";
 
 // Base types from Prisma
 export type UserEntity = User;
@@ -7,10 +15,50 @@ export type SessionEntity = QaSession & {
   questions: Question[];
 };
 
+export type { RateLimitScope, SessionAccessMode };
+
+/**
+ * Per-session rate limit policy
+ * Null limits fall back to the defaults in RATE_LIMITS.
+ */
+export interface SessionRateLimitPolicy {
+  /** Whether limits count requests per IP, per participant, or both */
+  rateLimitScope: RateLimitScope;
+  /** Questions allowed per 5 minutes */
+  questionRateLimit: number | null;
+  /** Votes allowed per minute */
+  voteRateLimit: number | null;
+  /** Pulse check submissions allowed per minute */
+  pulseRateLimit: number | null;
+}
+
+/**
+ * Who can join a session
+ * The passcode itself is only ever stored hashed, so it isn't part of the
+ * policy returned by the API.
+ */
+export interface SessionAccessPolicy {
+  /** Open to anyone with the code, or restricted */
+  accessMode: SessionAccessMode;
+  /** Email domains allowed to join in email_domain mode, e.g. "example.com" */
+  allowedEmailDomains: string[];
+}
+
 // API request/response types
-export interface CreateSessionRequest {
+export interface CreateSessionRequest
+  extends Partial<SessionRateLimitPolicy>, Partial<SessionAccessPolicy> {
   title: string;
   description?: string;
+  /** Hold new questions as pending until a host approves them */
+  requireApproval?: boolean;
+  /** Session length in hours from the start time (default 24) */
+  durationHours?: number;
+  /** Explicit end time (ISO string) - alternative to durationHours */
+  endsAt?: string;
+  /** Scheduled start time (ISO string); participants wait until then */
+  startsAt?: string;
+  /** Passcode participants must enter in passcode mode */
+  accessPasscode?: string;
 }
 
 export interface CreateSessionResponse {
@@ -22,14 +70,16 @@ export interface CreateSessionResponse {
     hostId: string;
     isActive: boolean;
     isAcceptingQuestions: boolean;
+    requireApproval: boolean;
     createdAt: string;
     updatedAt: string;
+    startsAt: string | null;
     expiresAt: string;
   };
 }
 
 export interface GetSessionResponse {
-  session: {
+  session: SessionRateLimitPolicy & {
     id: string;
     title: string;
     description?: string;
@@ -37,8 +87,17 @@ export interface GetSessionResponse {
     hostId: string;
     isActive: boolean;
     isAcceptingQuestions: boolean;
+    requireApproval: boolean;
+    /** Participants can post follow-up replies under questions */
+    allowReplies: boolean;
+    /** Points participants choose from in pulse checks, lowest first */
+    pulseScale: PulseScalePoint[];
+    /** Who can join - see SessionAccessPolicy */
+    accessMode: SessionAccessMode;
+    allowedEmailDomains: string[];
     createdAt: string;
     updatedAt: string;
+    startsAt: string | null;
     expiresAt: string;
     host: {
       id: string;
@@ -51,6 +110,45 @@ export interface GetSessionResponse {
   };
 }
 
+/** Request to POST /api/sessions/[code]/access */
+export interface EnterPasscodeRequest {
+  passcode: string;
+}
+
+/** Response from POST /api/sessions/[code]/access */
+export interface EnterPasscodeResponse {
+  granted: true;
+}
+
+/** Filter for listing a host's sessions */
+export type SessionListStatus = "all" | "active" | "expired";
+
+/** Session summary shown in the host's session history (owned or invited) */
+export interface SessionSummary {
+  id: string;
+  title: string;
+  description?: string;
+  code: string;
+  isActive: boolean;
+  isAcceptingQuestions: boolean;
+  createdAt: string;
+  startsAt: string | null;
+  expiresAt: string;
+  questionCount: number;
+  /** The signed-in user's role in the session */
+  role: SessionRole;
+}
+
+export interface ListSessionsResponse {
+  sessions: SessionSummary[];
+  pagination: {
+    page: number;
+    pageSize: number;
+    total: number;
+    totalPages: number;
+  };
+}
+
 // Validation types
 export interface SessionValidation {
   title: {